@@ -16,6 +16,7 @@
 // Core inference API
 export {
   generateExplanation,
+  streamExplanation,
   generateFactualExplanation,
   generateCreativeSuggestion,
   generateHighlyCreativeIdea,
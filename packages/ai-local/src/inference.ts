@@ -62,6 +62,22 @@ export interface InferenceOptions {
    */
   onMetrics?: (metrics: PerformanceMetrics) => void
 
+  /**
+   * Called with each chunk of generated text as it is produced
+   *
+   * Leading whitespace of the response is skipped, matching the trimmed return value.
+   * Failed attempts are not retried once a callback is set (chunks were already delivered).
+   */
+  onTextChunk?: (text: string) => void
+
+  /**
+   * Signal that cancels inference when aborted
+   *
+   * Aborting stops token generation and rejects with an "Inference aborted" error
+   * once the model has stopped, so the chat session is ready for the next call.
+   */
+  signal?: AbortSignal
+
   /**
    * Custom model loader options (for advanced users)
    */
@@ -108,12 +124,13 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 2, delayMs = 1000
         throw error
       }
 
-      // Don't retry validation errors or timeouts
+      // Don't retry validation errors, timeouts or cancellations
       const errorMessage = (error as Error).message
       if (
         errorMessage.includes('Prompt') ||
         errorMessage.includes('temperature') ||
-        errorMessage.includes('timeout')
+        errorMessage.includes('timeout') ||
+        errorMessage.includes('aborted')
       ) {
         throw error
       }
@@ -192,6 +209,11 @@ export async function generateExplanation(
     throw new Error(`Invalid temperature: ${String(options.temperature)}. Must be between 0 and 1.`)
   }
 
+  // Skip all work if the caller has already given up
+  if (options.signal?.aborted) {
+    throw new Error('Inference aborted')
+  }
+
   // Load model (lazy initialization)
   const model = await loadModel(options.modelOptions)
 
@@ -201,6 +223,11 @@ export async function generateExplanation(
     chatSessionInstance = await createChatSession(context)
   }
 
+  // The caller may have aborted while the model was loading
+  if (options.signal?.aborted) {
+    throw new Error('Inference aborted')
+  }
+
   // Generate response with validated parameters
   const temperature = options.temperature ?? INFERENCE_CONFIG.temperature.default
 
@@ -213,6 +240,12 @@ export async function generateExplanation(
     )
   )
 
+  // Cancels token generation on timeout or caller abort
+  const controller = new AbortController()
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  let removeAbortListener: (() => void) | undefined
+  let inferencePromise: Promise<string> | undefined
+
   try {
     // Performance tracking
     const startTime = Date.now()
@@ -233,34 +266,66 @@ export async function generateExplanation(
       chatSessionInstance = await createChatSession(context)
     }
 
+    // Skip leading whitespace so streamed text matches the trimmed response
+    let receivedText = false
+    const onTextChunk = options.onTextChunk
+      ? (chunk: string) => {
+          const text = receivedText ? chunk : chunk.trimStart()
+          if (text.length > 0) {
+            receivedText = true
+            options.onTextChunk?.(text)
+          }
+        }
+      : undefined
+
     // Create inference promise with retry logic
+    // Streaming disables retries: delivered chunks cannot be taken back
     // TypeScript knows chatSessionInstance is non-null here (initialized above)
-    const inferencePromise = withRetry(() =>
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- chatSessionInstance is guaranteed non-null after initialization
-      chatSessionInstance!.prompt(prompt, {
-        temperature,
-        maxTokens,
-        topP: INFERENCE_CONFIG.topP,
-        topK: INFERENCE_CONFIG.topK,
-        // RepeatPenalty type expects an object, not a number
-        repeatPenalty: {
-          penalty: INFERENCE_CONFIG.repeatPenalty,
-          frequencyPenalty: 0,
-          presencePenalty: 0,
-        },
-      })
+    inferencePromise = withRetry(
+      () =>
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- chatSessionInstance is guaranteed non-null after initialization
+        chatSessionInstance!.prompt(prompt, {
+          temperature,
+          maxTokens,
+          topP: INFERENCE_CONFIG.topP,
+          topK: INFERENCE_CONFIG.topK,
+          // RepeatPenalty type expects an object, not a number
+          repeatPenalty: {
+            penalty: INFERENCE_CONFIG.repeatPenalty,
+            frequencyPenalty: 0,
+            presencePenalty: 0,
+          },
+          onTextChunk,
+          signal: controller.signal,
+        }),
+      onTextChunk ? 0 : undefined
     )
 
-    // Create timeout promise
+    // Create timeout promise (stops generation so the context is free for the next call)
     const timeoutMs = options.timeoutMs ?? INFERENCE_CONFIG.timeoutMs
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
+      timeoutId = setTimeout(() => {
+        controller.abort()
         reject(new Error(`Inference timeout after ${String(timeoutMs)}ms`))
       }, timeoutMs)
     })
 
-    // Race between inference and timeout
-    const response = await Promise.race([inferencePromise, timeoutPromise])
+    // Create abort promise (caller cancellation)
+    const abortPromise = new Promise<never>((_, reject) => {
+      const onAbort = () => {
+        controller.abort()
+        reject(new Error('Inference aborted'))
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true })
+      removeAbortListener = () => options.signal?.removeEventListener('abort', onAbort)
+      // Aborted while the chat session was being reset
+      if (options.signal?.aborted) {
+        onAbort()
+      }
+    })
+
+    // Race between inference, timeout and cancellation
+    const response = await Promise.race([inferencePromise, timeoutPromise, abortPromise])
 
     // Report performance metrics
     const inferenceTimeMs = Date.now() - startTime
@@ -273,6 +338,12 @@ export async function generateExplanation(
 
     return response.trim()
   } catch (error) {
+    // Timed out or aborted: wait for generation to stop so the chat session is
+    // idle (and usable) before the next call
+    if (controller.signal.aborted) {
+      await inferencePromise?.catch(() => undefined)
+    }
+
     // Preserve error context for debugging
     const originalError = error as Error
     const contextError = new Error(
@@ -286,6 +357,96 @@ export async function generateExplanation(
     // Preserve original stack trace
     contextError.cause = originalError
     throw contextError
+  } finally {
+    clearTimeout(timeoutId)
+    removeAbortListener?.()
+  }
+}
+
+/**
+ * Stream music theory explanation
+ *
+ * **Streaming API**: Same as {@link generateExplanation}, but yields text chunks as the
+ * model produces them, so UIs can show the answer while it is being written.
+ *
+ * **Cancellation**: Aborting `options.signal` or leaving the loop early (`break`) stops
+ * token generation. Timeouts and inference errors are thrown from the iterator.
+ *
+ * @param prompt - User's music theory question
+ * @param options - Inference configuration (`onTextChunk` is still called for each chunk)
+ * @returns Async iterable of text chunks that concatenate to the explanation
+ *
+ * @throws Error if model fails to load or inference fails
+ *
+ * @example
+ * ```typescript
+ * for await (const chunk of streamExplanation("What notes are in a G7 chord?")) {
+ *   process.stdout.write(chunk);
+ * }
+ * ```
+ */
+export async function* streamExplanation(
+  prompt: string,
+  options: InferenceOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  const chunks: string[] = []
+  let finished = false
+  let failure: unknown
+  let wake: (() => void) | undefined
+
+  // Stops generation when the caller aborts or stops iterating
+  const controller = new AbortController()
+  const onAbort = () => {
+    controller.abort()
+  }
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+  if (options.signal?.aborted) {
+    controller.abort()
+  }
+
+  const inference = generateExplanation(prompt, {
+    ...options,
+    signal: controller.signal,
+    onTextChunk: (text) => {
+      options.onTextChunk?.(text)
+      chunks.push(text)
+      wake?.()
+    },
+  }).then(
+    () => {
+      finished = true
+      wake?.()
+    },
+    (error: unknown) => {
+      failure = error
+      finished = true
+      wake?.()
+    }
+  )
+
+  try {
+    while (true) {
+      const chunk = chunks.shift()
+      if (chunk !== undefined) {
+        yield chunk
+        continue
+      }
+      if (finished) {
+        break
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve
+      })
+      wake = undefined
+    }
+
+    if (failure !== undefined) {
+      throw failure
+    }
+  } finally {
+    controller.abort()
+    options.signal?.removeEventListener('abort', onAbort)
+    await inference
   }
 }
 
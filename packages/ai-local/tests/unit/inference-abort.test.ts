@@ -0,0 +1,50 @@
+/**
+ * Inference Cancellation Unit Tests
+ *
+ * Tests that aborting while the model loads stops the call before inference
+ * (the loader is mocked, so no model file is needed)
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+
+const prompt = vi.fn(() => Promise.resolve('An explanation'))
+const loading = { abortDuringLoad: undefined as AbortController | undefined }
+
+vi.mock('../../src/loader.js', () => ({
+  loadModel: vi.fn(() => {
+    // Simulate the caller giving up while the model file is being loaded
+    loading.abortDuringLoad?.abort()
+    return Promise.resolve({})
+  }),
+  createContext: vi.fn(() => Promise.resolve({})),
+  createChatSession: vi.fn(() => Promise.resolve({ prompt })),
+  resetContext: vi.fn(),
+}))
+
+const { generateExplanation } = await import('../../src/inference.js')
+
+describe('Inference cancellation', () => {
+  beforeEach(() => {
+    prompt.mockClear()
+    loading.abortDuringLoad = undefined
+  })
+
+  test('does not run inference when aborted during model load', async () => {
+    const abort = new AbortController()
+    loading.abortDuringLoad = abort
+
+    await expect(
+      generateExplanation('What is a C major chord?', { signal: abort.signal })
+    ).rejects.toThrow('Inference aborted')
+    expect(prompt).not.toHaveBeenCalled()
+  })
+
+  test('runs inference when not aborted', async () => {
+    const abort = new AbortController()
+
+    await expect(
+      generateExplanation('What is a C major chord?', { signal: abort.signal })
+    ).resolves.toBe('An explanation')
+    expect(prompt).toHaveBeenCalledTimes(1)
+  })
+})
@@ -17,9 +17,23 @@ import type {
   ChordBuild,
   ChordBuildOptions,
   ChordSubstitution,
+  ChordSymbolAST,
+  ParallelMotion,
+  VoiceLeading,
+  VoiceLeadingOptions,
   VoicingOptions,
 } from '@music-reasoning/types'
 import { MusicReasoningError } from '@music-reasoning/types'
+import { findParallelMotion } from './voice-leading'
+import { getSymbolInversion } from './inversion'
+import { parseSpellingKey, respellChordName, spellChordInKey } from './spelling'
+import {
+  getChordData,
+  isDominantSeventh,
+  isMajorSeventh,
+  isMinorSeventh,
+  tryParseChordSymbol,
+} from './symbol'
 
 /**
  * Constants for compound interval detection.
@@ -34,6 +48,18 @@ const COMPOUND_INTERVAL_THRESHOLD = {
   THIRTEENTH: 6, // Index where 6th becomes 13th
 } as const
 
+/**
+ * Default pitch range for voice leading (C3 to C6).
+ */
+const DEFAULT_VOICE_RANGE = { low: 'C3', high: 'C6' } as const
+
+/**
+ * Order in which chord tones are kept when there are fewer voices than tones.
+ * Indices refer to the stacked-thirds order of tonal.js chord notes:
+ * root, 3rd, 7th, extensions, and the 5th last (it is the most expendable tone).
+ */
+const CHORD_TONE_PRIORITY = [0, 1, 3, 4, 5, 6, 2] as const
+
 /**
  * Builds a chord from a chord symbol string.
  *
@@ -49,6 +75,12 @@ const COMPOUND_INTERVAL_THRESHOLD = {
  *
  * const voiced = buildChord('Dm7', { voicing: 'drop2', octave: 4 })
  * // Returns chord with voicing: { ..., voicing: { type: 'drop2', notes: ['D4', 'A3', 'F4', 'C5'] } }
+ *
+ * const inverted = buildChord('C/G', { voicing: 'drop2' })
+ * // Returns: { ..., bass: 'G', inversion: 2, figuredBass: '6/4', voicing: { notes: ['G3', 'C4', 'E5'] } }
+ *
+ * const applied = buildChord('D#7', { key: 'Db major' })
+ * // Returns: { chord: 'Eb7', root: 'Eb', notes: ['Eb', 'G', 'Bb', 'Db'], ... } (V/V in Db major)
  * ```
  */
 export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBuild {
@@ -57,8 +89,8 @@ export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBu
     throw new MusicReasoningError('INVALID_CHORD', 'Chord symbol cannot be empty', { symbol })
   }
 
-  // Parse chord using tonal.js
-  const chordData = Chord.get(symbol)
+  // Parse chord using tonal.js (other notations are normalized first)
+  const chordData = getChordData(symbol)
 
   // Chord.get always returns an object, but it might be empty or invalid
   if (chordData.empty || !chordData.tonic) {
@@ -69,17 +101,31 @@ export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBu
     )
   }
 
+  // Resolve the spelling key up front so an invalid key fails before any work
+  const spellingKey = options?.key !== undefined ? parseSpellingKey(options.key) : null
+
   // Extract chord information
-  const root = chordData.tonic
+  let root = chordData.tonic
   // Use aliases[0] for chord type (e.g., "maj7", "7", "m7"), fallback to quality
   // aliases and quality are always defined per tonal.js Chord type, but ESLint doesn't know this
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
   const rawQuality = chordData.aliases[0] ?? chordData.quality ?? 'major'
   const quality = rawQuality.toLowerCase()
   let notes = chordData.notes
-
-  // Handle enharmonic preferences if specified
-  if (options?.enharmonic) {
+  let chord = symbol
+
+  if (spellingKey) {
+    // Spell for the key: each tone keeps its interval above the respelled root
+    const spelled = spellChordInKey(
+      root,
+      notes.map((note) => Interval.distance(root, note) || '1P'),
+      spellingKey
+    )
+    root = spelled.root
+    notes = spelled.notes
+    chord = respellChordName(symbol.trim(), root, chordData.bass ? notes[0] : undefined)
+  } else if (options?.enharmonic) {
+    // Handle enharmonic preferences if specified
     notes = notes.map((note) => {
       if (options.enharmonic === 'sharps') {
         // Only convert if the note contains flats
@@ -115,19 +161,23 @@ export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBu
   // Generate voicing (default to close voicing at octave 4)
   const voicingType = options?.voicing || 'close'
   const octave = options?.octave || 4
+  // Slash chords keep their bass as the lowest voice (tonal.js lists it first)
+  const voicedNotes = generateVoicingInternal(notes, voicingType, octave)
   const voicing = {
     type: voicingType,
-    notes: generateVoicingInternal(notes, voicingType, octave),
+    notes: chordData.bass ? placeBassLowest(voicedNotes) : voicedNotes,
   }
 
+  const { inversion, figuredBass } = getSymbolInversion(chordData)
+
   // Get enharmonic alternatives for the root
   const enharmonics = getEnharmonicAlternatives(root)
 
   // Get common substitutions (pass root to avoid re-parsing)
-  const commonSubstitutions = getSimpleSubstitutions(root, quality)
+  const commonSubstitutions = getSimpleSubstitutions(root, tryParseChordSymbol(symbol))
 
   return {
-    chord: symbol,
+    chord,
     root,
     quality,
     notes,
@@ -136,6 +186,9 @@ export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBu
     voicing,
     enharmonics,
     commonSubstitutions,
+    bass: notes[0] ?? root,
+    inversion,
+    figuredBass,
   }
 }
 
@@ -144,7 +197,7 @@ export function buildChord(symbol: string, options?: ChordBuildOptions): ChordBu
  *
  * @param symbol - Chord symbol
  * @param options - Voicing configuration (type, octave, inversion)
- * @returns Array of notes with octave numbers
+ * @returns Array of notes with octave numbers (the slash bass of a slash chord is always lowest)
  * @throws {MusicReasoningError} If voicing type is invalid
  *
  * @example
@@ -165,7 +218,7 @@ export function generateVoicing(symbol: string, options: VoicingOptions): string
   }
 
   // Parse chord to get notes
-  const chordData = Chord.get(symbol)
+  const chordData = getChordData(symbol)
   // Chord.get always returns an object, check if it's valid
   // notes might be empty array but is always defined per tonal.js type
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -183,9 +236,305 @@ export function generateVoicing(symbol: string, options: VoicingOptions): string
   if (options.inversion && options.inversion > 0) {
     const inv = options.inversion % notes.length
     notes = [...notes.slice(inv), ...notes.slice(0, inv)]
+    return generateVoicingInternal(notes, options.type, options.octave)
+  }
+
+  // Slash chords keep their bass as the lowest voice
+  const voiced = generateVoicingInternal(notes, options.type, options.octave)
+  return chordData.bass ? placeBassLowest(voiced) : voiced
+}
+
+/**
+ * Voices a chord so that each voice of the previous voicing moves as little as possible.
+ *
+ * @param fromChord - Previous chord, either as voiced notes (e.g., ['C4', 'E4', 'G4'])
+ *   or as a chord symbol (voiced in close position at `options.octave`)
+ * @param toChord - Chord symbol to move to (slash chords keep their bass in the lowest voice)
+ * @param options - Range limits and parallel-motion handling
+ * @returns Voicing of `toChord` with per-voice motion, lowest voice first
+ * @throws {MusicReasoningError} If either chord is invalid or no voicing fits the range
+ *
+ * @remarks
+ * The number of voices is taken from the previous voicing. Every chord tone is
+ * covered when there are enough voices; otherwise the 5th is omitted first.
+ * Voices never cross, and ties between equally smooth voicings prefer doubling
+ * the root.
+ *
+ * @example
+ * ```typescript
+ * voiceLead(['C4', 'E4', 'G4'], 'F')
+ * // { chord: 'F', notes: ['C4', 'F4', 'A4'], motion: [0, 1, 2], totalMotion: 3, parallels: [] }
+ *
+ * voiceLead('Dm7', 'G7')
+ * // Common tones D, F stay; A → B, C → B or G depending on the range
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function voiceLead(
+  fromChord: string | readonly string[],
+  toChord: string,
+  options?: VoiceLeadingOptions
+): VoiceLeading {
+  const octave = options?.octave ?? 4
+  const avoidParallels = options?.avoidParallels ?? true
+  const range = options?.range ?? DEFAULT_VOICE_RANGE
+
+  const low = Note.midi(range.low)
+  const high = Note.midi(range.high)
+  if (low === null || high === null || low > high) {
+    throw new MusicReasoningError(
+      'INVALID_VOICING',
+      `Invalid voice range: "${range.low}" to "${range.high}"`,
+      { range }
+    )
+  }
+
+  const fromNotes =
+    typeof fromChord === 'string'
+      ? generateVoicing(fromChord, { type: 'close', octave })
+      : [...fromChord]
+  const fromPitches = fromNotes.map((note) => {
+    const midi = Note.midi(note)
+    if (midi === null) {
+      throw new MusicReasoningError(
+        'INVALID_VOICING',
+        `Voiced notes must include an octave number (e.g., "C4"), got "${note}"`,
+        { notes: fromNotes }
+      )
+    }
+    return midi
+  })
+  if (fromPitches.length === 0) {
+    throw new MusicReasoningError('INVALID_VOICING', 'Cannot voice lead from an empty voicing', {
+      notes: fromNotes,
+    })
+  }
+  // Voices are identified from lowest to highest
+  fromPitches.sort((a, b) => a - b)
+
+  const { tones, bass } = getVoiceLeadingTones(toChord)
+  const required = selectRequiredTones(tones, bass, fromPitches.length)
+
+  // Best parallel-free voicing and best voicing overall
+  const found: { clean: Candidate | null; any: Candidate | null } = { clean: null, any: null }
+
+  const search = (voice: number, chosen: VoicedTone[], motion: number): void => {
+    if (voice === fromPitches.length) {
+      const names = new Set(chosen.map((tone) => tone.name))
+      if (!required.every((name) => names.has(name))) return
+
+      const candidate: Candidate = {
+        tones: [...chosen],
+        motion,
+        // Prefer doubling the root when motion is equal
+        tieBreak: -chosen.filter((tone) => tone.name === tones[0]).length,
+        parallels: findParallelMotion(
+          fromPitches,
+          chosen.map((tone) => tone.midi)
+        ),
+      }
+
+      if (!found.any || isBetterCandidate(candidate, found.any)) found.any = candidate
+      if (
+        candidate.parallels.length === 0 &&
+        (!found.clean || isBetterCandidate(candidate, found.clean))
+      ) {
+        found.clean = candidate
+      }
+      return
+    }
+
+    const from = fromPitches[voice]
+    if (from === undefined) return // Type guard
+    const floor = chosen[chosen.length - 1]?.midi ?? low
+
+    // Slash chords keep their bass note in the lowest voice
+    const names = voice === 0 && bass ? [bass] : tones
+    for (const name of names) {
+      for (const midi of getNearestPlacements(name, from, floor, high)) {
+        const nextMotion = motion + Math.abs(midi - from)
+        // Branch and bound: a smoother parallel-free voicing is already known
+        if (found.clean && nextMotion > found.clean.motion) continue
+        chosen.push({ name, midi })
+        search(voice + 1, chosen, nextMotion)
+        chosen.pop()
+      }
+    }
+  }
+
+  search(0, [], 0)
+
+  const result = avoidParallels ? (found.clean ?? found.any) : found.any
+  if (!result) {
+    throw new MusicReasoningError(
+      'INVALID_VOICING',
+      `Cannot voice "${toChord}" with ${String(fromPitches.length)} voices between ${range.low} and ${range.high}`,
+      { chord: toChord, voices: fromPitches.length, range }
+    )
+  }
+
+  return {
+    chord: toChord,
+    notes: result.tones.map((tone) => spellMidi(tone.name, tone.midi)),
+    motion: result.tones.map((tone, i) => tone.midi - (fromPitches[i] ?? tone.midi)),
+    totalMotion: result.motion,
+    parallels: result.parallels,
+  }
+}
+
+/**
+ * Voice leads a whole progression, starting from a close voicing of the first chord.
+ *
+ * @param chords - Chord symbols in order (e.g., the input to analyzeProgression)
+ * @param options - Range limits and parallel-motion handling (see voiceLead)
+ * @returns One voicing per chord; the first has zero motion
+ * @throws {MusicReasoningError} If any chord is invalid or cannot be voiced in range
+ *
+ * @example
+ * ```typescript
+ * voiceLeadProgression(['C', 'Am', 'F', 'G'])
+ * // [['C4', 'E4', 'G4'], ['C4', 'E4', 'A4'], ['C4', 'F4', 'A4'], ['B3', 'D4', 'G4']]
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function voiceLeadProgression(
+  chords: readonly string[],
+  options?: VoiceLeadingOptions
+): VoiceLeading[] {
+  const first = chords[0]
+  if (first === undefined) return []
+
+  const initial = generateVoicing(first, { type: 'close', octave: options?.octave ?? 4 })
+  const results: VoiceLeading[] = [
+    {
+      chord: first,
+      notes: initial,
+      motion: initial.map(() => 0),
+      totalMotion: 0,
+      parallels: [],
+    },
+  ]
+
+  let previous: readonly string[] = initial
+  for (const chord of chords.slice(1)) {
+    const next = voiceLead(previous, chord, options)
+    results.push(next)
+    previous = next.notes
+  }
+
+  return results
+}
+
+/**
+ * A chord tone placed at a concrete pitch.
+ *
+ * @internal
+ */
+interface VoicedTone {
+  readonly name: string
+  readonly midi: number
+}
+
+/**
+ * A complete candidate voicing considered by voiceLead().
+ *
+ * @internal
+ */
+interface Candidate {
+  readonly tones: readonly VoicedTone[]
+  readonly motion: number
+  readonly tieBreak: number
+  readonly parallels: readonly ParallelMotion[]
+}
+
+/**
+ * Compares candidates by total motion, then by tie-break score.
+ *
+ * @internal
+ */
+function isBetterCandidate(candidate: Candidate, current: Candidate): boolean {
+  if (candidate.motion !== current.motion) return candidate.motion < current.motion
+  return candidate.tieBreak < current.tieBreak
+}
+
+/**
+ * Extracts chord tones (stacked in thirds) and optional slash bass for a symbol.
+ *
+ * @internal
+ */
+function getVoiceLeadingTones(symbol: string): { tones: string[]; bass: string | null } {
+  const chordData = getChordData(symbol)
+  if (chordData.empty || !chordData.tonic) {
+    throw new MusicReasoningError(
+      'INVALID_CHORD',
+      `Cannot voice lead to invalid chord: "${symbol}"`,
+      { symbol }
+    )
   }
 
-  return generateVoicingInternal(notes, options.type, options.octave)
+  // Slash chords rotate the bass to the front of notes; rebuild root-position tones
+  const tones = chordData.bass
+    ? Chord.getChord(chordData.type, chordData.tonic).notes
+    : chordData.notes
+
+  return { tones, bass: chordData.bass || null }
+}
+
+/**
+ * Chooses which chord tones must appear when voicing with a given number of voices.
+ *
+ * @internal
+ */
+function selectRequiredTones(tones: string[], bass: string | null, voices: number): string[] {
+  const upperVoices = bass ? voices - 1 : voices
+  const prioritized = CHORD_TONE_PRIORITY.map((index) => tones[index]).filter(
+    (tone): tone is string => tone !== undefined && tone !== bass
+  )
+  const required = prioritized.slice(0, Math.max(0, upperVoices))
+  return bass ? [bass, ...required] : required
+}
+
+/**
+ * Returns the closest pitches of a pitch class to a previous note, within bounds.
+ * Both the nearest placement at/above and below are returned so that the search
+ * can step around voice crossings.
+ *
+ * @internal
+ */
+function getNearestPlacements(
+  name: string,
+  from: number,
+  floor: number,
+  ceiling: number
+): number[] {
+  const chroma = Note.chroma(name)
+  // Note.chroma is always defined for valid chord tones
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+  if (chroma === undefined || Number.isNaN(chroma)) return []
+
+  const offset = (((chroma - from) % 12) + 12) % 12
+  const above = from + offset
+  const below = above - 12
+
+  return [above, below]
+    .filter((midi) => midi >= floor && midi <= ceiling)
+    .sort((a, b) => Math.abs(a - from) - Math.abs(b - from))
+}
+
+/**
+ * Spells a MIDI pitch using the given pitch-class name (e.g., 'Cb', 71 → 'Cb5').
+ *
+ * @internal
+ */
+function spellMidi(name: string, midi: number): string {
+  const octave = Math.floor(midi / 12) - 1
+  for (const candidate of [octave, octave + 1, octave - 1]) {
+    const note = name + String(candidate)
+    if (Note.midi(note) === midi) return note
+  }
+  return name + String(octave)
 }
 
 /**
@@ -265,6 +614,27 @@ function generateVoicingInternal(
   }
 }
 
+/**
+ * Moves the first voice (the bass) down by octaves until it is the lowest note.
+ * Open and drop voicings can place upper chord tones below a slash bass.
+ *
+ * @param voiced - Voiced notes with the bass first (e.g., ['G4', 'C4', 'E5'])
+ * @returns Voiced notes with the bass first and lowest (e.g., ['G3', 'C4', 'E5'])
+ *
+ * @internal
+ */
+function placeBassLowest(voiced: string[]): string[] {
+  const [bass, ...upper] = voiced
+  if (!bass) return voiced // Type guard
+
+  const lowestUpper = Math.min(...upper.map((note) => Note.midi(note) ?? Infinity))
+  const pc = Note.pitchClass(bass)
+  let octave = Note.octave(bass) ?? 4
+  while ((Note.midi(pc + String(octave)) ?? -Infinity) >= lowestUpper) octave--
+
+  return [pc + String(octave), ...upper]
+}
+
 /**
  * Generates close voicing (all notes within one octave).
  * Notes are stacked vertically, moving to next octave when pitch would descend.
@@ -460,7 +830,7 @@ function getEnharmonicAlternatives(note: string): string[] {
  * Gets simple chord substitutions using basic harmonic rules.
  *
  * @param root - Root note of the chord (e.g., "C", "F#", "Bb")
- * @param quality - Normalized chord quality (lowercase)
+ * @param ast - Parsed chord symbol, or null if it could not be parsed
  * @returns Array of substitute chord symbols (max 3)
  *
  * @internal
@@ -468,22 +838,22 @@ function getEnharmonicAlternatives(note: string): string[] {
  * This is a simplified version used internally by buildChord().
  * For detailed substitutions with explanations, use getSubstitutions().
  */
-function getSimpleSubstitutions(root: string, quality: string): string[] {
+function getSimpleSubstitutions(root: string, ast: ChordSymbolAST | null): string[] {
   const subs: string[] = []
 
   // Validate root note
-  if (!root || root.trim().length === 0) {
+  if (!root || root.trim().length === 0 || !ast) {
     return subs
   }
 
   // Basic substitution rules
-  if (quality.includes('maj7') || quality.includes('M7')) {
+  if (isMajorSeventh(ast)) {
     subs.push(root + '6')
-  } else if (quality.includes('7') && !quality.includes('maj7')) {
+  } else if (isDominantSeventh(ast)) {
     // Dominant 7th - tritone substitution
     const tritone = Note.transpose(root, '5d') // Diminished 5th (tritone)
     subs.push(tritone + '7')
-  } else if (quality.includes('m7')) {
+  } else if (isMinorSeventh(ast)) {
     subs.push(root + 'm6')
   }
 
@@ -507,24 +877,17 @@ function getSimpleSubstitutions(root: string, quality: string): string[] {
  * ```
  */
 export function getSubstitutions(symbol: string): ChordSubstitution[] {
-  const chordData = Chord.get(symbol)
-  // Chord.get always returns an object, check if it's valid
-  if (chordData.empty) {
+  const chordData = getChordData(symbol)
+  const ast = tryParseChordSymbol(symbol)
+  if (chordData.empty || !ast) {
     return []
   }
 
   const subs: ChordSubstitution[] = []
   const root = chordData.tonic || ''
-  // Use aliases[0] for the chord type (e.g., "maj7", "7", "m7")
-  const chordType = chordData.aliases[0] || ''
-
-  // Major 7th substitutions
-  if (
-    chordType.includes('maj7') ||
-    chordType.includes('M7') ||
-    chordType.includes('Δ7') ||
-    symbol.match(/maj7|M7|Δ7/)
-  ) {
+
+  // Major 7th substitutions (Cmaj7, Cmaj9, CΔ7, ...)
+  if (isMajorSeventh(ast)) {
     subs.push({
       chord: root + '6',
       reason:
@@ -547,13 +910,8 @@ export function getSubstitutions(symbol: string): ChordSubstitution[] {
     })
   }
 
-  // Dominant 7th substitutions (G7, C7, etc.)
-  // Check if it's a dominant 7th (has '7' but not 'maj7' or 'm7')
-  else if (
-    chordType === '7' ||
-    chordType.includes('dom') ||
-    (symbol.includes('7') && !symbol.match(/maj7|m7|M7/))
-  ) {
+  // Dominant 7th substitutions (G7, C9, C7alt, etc.)
+  else if (isDominantSeventh(ast)) {
     // Tritone substitution (most important)
     const tritone = Note.transpose(root, '5d') // Diminished 5th = tritone
     subs.push({
@@ -579,7 +937,7 @@ export function getSubstitutions(symbol: string): ChordSubstitution[] {
   }
 
   // Minor 7th substitutions
-  else if (chordType.includes('m7') || chordType.includes('minor7') || symbol.match(/m7/)) {
+  else if (isMinorSeventh(ast)) {
     subs.push({
       chord: root + 'm6',
       reason:
@@ -602,12 +960,7 @@ export function getSubstitutions(symbol: string): ChordSubstitution[] {
   }
 
   // Major triad substitutions (C, D, E, etc. without 7th)
-  else if (
-    !chordType ||
-    chordType === '' ||
-    chordType.toLowerCase() === 'major' ||
-    (chordData.quality === 'Major' && !symbol.match(/7|m/))
-  ) {
+  else if (ast.quality === 'major' && !ast.seventh) {
     subs.push({
       chord: root + 'maj7',
       reason: 'Major 7th adds sophistication and jazz flavor to the basic major triad.',
@@ -628,7 +981,7 @@ export function getSubstitutions(symbol: string): ChordSubstitution[] {
   }
 
   // Diminished chords have fewer common substitutions
-  else if (chordType.includes('dim') || symbol.includes('dim')) {
+  else if (ast.quality === 'diminished') {
     // Diminished chords can be enharmonically reinterpreted from any chord tone
     subs.push({
       chord: Note.transpose(root, 'm3') + 'dim7',
@@ -10,10 +10,12 @@
  */
 
 import { Chord as TonalChord, Note, Interval, distance } from 'tonal'
-import type { ChordIdentification } from '@music-reasoning/types'
+import type { ChordIdentification, ChordIdentifyOptions } from '@music-reasoning/types'
 import { validateNote } from '../theory/notes'
 import { getEnharmonics } from '../theory/enharmonics'
 import { normalizeInterval } from '../theory/intervals'
+import { getInversionInfo, getLowestNote } from './inversion'
+import { parseSpellingKey, respellChordName, spellChordInKey } from './spelling'
 
 /**
  * Error codes for chord identification failures.
@@ -330,11 +332,14 @@ function selectBestChordCandidate(candidates: string[], providedNotes: string[])
  * Identify a chord from an array of note names.
  *
  * Uses tonal.js Chord.detect() for primary identification, then calculates
- * intervals, degrees, alternatives, and confidence score.
+ * intervals, degrees, alternatives, and confidence score. The lowest note
+ * determines the bass, inversion and figured bass.
  *
  * @param notes - Array of note names (e.g., ['C', 'E', 'G'])
+ * @param options - Optional key to spell the result in (alternatives keep the input spelling)
  * @returns ChordIdentification object with comprehensive chord information
  * @throws {ChordIdentificationError} If notes are invalid or insufficient
+ * @throws {MusicReasoningError} If the key name is invalid
  *
  * @example
  * ```typescript
@@ -362,12 +367,29 @@ function selectBestChordCandidate(candidates: string[], providedNotes: string[])
  * ```typescript
  * // Handles inversions
  * const result = identifyChord(['E', 'G', 'C'])
- * // { chord: 'C major', root: 'C', alternatives: ['C/E', ...], ... }
+ * // { chord: 'C major', root: 'C', bass: 'E', inversion: 1, figuredBass: '6', ... }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // With octaves, the lowest pitch is the bass regardless of input order
+ * const result = identifyChord(['B4', 'D5', 'F3', 'G4'])
+ * // { chord: 'G7/F', root: 'G', bass: 'F', inversion: 3, figuredBass: '4/2', ... }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Spells the result for a key, whatever spelling the notes used
+ * const result = identifyChord(['D#', 'F##', 'A#', 'C#'], { key: 'Db major' })
+ * // { chord: 'Eb7', root: 'Eb', notes: ['Eb', 'G', 'Bb', 'Db'], ... }
  * ```
  *
  * @since v1.0.0
  */
-export function identifyChord(notes: string[]): ChordIdentification {
+export function identifyChord(
+  notes: string[],
+  options?: ChordIdentifyOptions
+): ChordIdentification {
   // T018: Error handling - Validate input
   if (!Array.isArray(notes)) {
     throw new ChordIdentificationError(
@@ -395,6 +417,8 @@ export function identifyChord(notes: string[]): ChordIdentification {
     )
   }
 
+  const spellingKey = options?.key !== undefined ? parseSpellingKey(options.key) : null
+
   // Strip octave information for chord detection (preserve pitch class only)
   const pitchClasses = notes.map((note) => {
     const parsed = Note.get(note)
@@ -404,6 +428,11 @@ export function identifyChord(notes: string[]): ChordIdentification {
   // Remove duplicates while preserving order
   const uniquePitchClasses = Array.from(new Set(pitchClasses))
 
+  // Detect with the lowest note first: tonal.js reads the first note as the bass,
+  // which distinguishes inversions (E-G-C → C/E) from root-position chords (Em#5)
+  const bass = getLowestNote(notes) ?? uniquePitchClasses[0] ?? ''
+  const bassFirst = [bass, ...uniquePitchClasses.filter((note) => note !== bass)]
+
   // Check for insufficient unique notes even after deduplication
   if (uniquePitchClasses.length < 2) {
     throw new ChordIdentificationError(
@@ -414,10 +443,10 @@ export function identifyChord(notes: string[]): ChordIdentification {
   }
 
   // Use tonal.js Chord.detect() to identify possible chords
-  const detectedChords = TonalChord.detect(uniquePitchClasses)
+  const detectedChords = TonalChord.detect(bassFirst)
 
   // Also try fallback extended chord detection
-  const extendedChord = detectExtendedChord(uniquePitchClasses)
+  const extendedChord = detectExtendedChord(bassFirst)
 
   let chordData: ReturnType<typeof TonalChord.get>
   let usedFallback = false
@@ -558,17 +587,39 @@ export function identifyChord(notes: string[]): ChordIdentification {
   // Detect richer quality string from chord data (handles 7ths, extensions properly)
   const normalizedQuality = detectChordQuality(chordData)
 
-  return {
+  // Describe which chord tone is in the bass (inversion and figured bass)
+  const { inversion, figuredBass } = getInversionInfo(root, bass, rawIntervals)
+
+  const identification = {
     chord: chordName,
-    // TypeScript guard: chordData.tonic is non-null here (validated at line 461)
-    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    root: chordData.tonic!,
+    root,
     quality: normalizedQuality,
     notes: uniquePitchClasses, // Return unique notes in output
     intervals,
     degrees,
     alternatives,
     confidence,
+    bass,
+    inversion,
+    figuredBass,
+  }
+
+  if (!spellingKey) {
+    return identification
+  }
+
+  // Respell root, notes, bass and name for the key; each note keeps its place in the output
+  const spelled = spellChordInKey(root, rawIntervals, spellingKey)
+  const spelledBass = spelled.notes[uniquePitchClasses.indexOf(bass)] ?? bass
+  return {
+    ...identification,
+    chord: respellChordName(chordName, spelled.root, spelledBass),
+    root: spelled.root,
+    notes: spelled.notes,
+    intervals: spelled.notes.map((note) =>
+      convertIntervalFormat(distance(spelled.root, note) || '1P')
+    ),
+    bass: spelledBass,
   }
 }
 
@@ -596,8 +647,11 @@ function calculateConfidence(
   // ESLint sees chordData.notes and chordData.intervals as always defined, but tonal.js can return undefined
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
   const chordNotes = chordData.notes || []
+  // Simplify compound intervals so inversions (e.g., C/G: '5P', '8P', '10M') still show a third
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  const intervals = chordData.intervals || []
+  const intervals = (chordData.intervals || []).map(
+    (interval) => Interval.simplify(interval) || interval
+  )
   const root = chordData.tonic
 
   if (chordNotes.length === 0) {
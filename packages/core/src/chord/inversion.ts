@@ -0,0 +1,170 @@
+/**
+ * Chord Inversions
+ *
+ * Shared helpers for describing which chord tone sits in the bass:
+ * - Lowest-note detection for note lists with or without octaves
+ * - Inversion number (0 = root position, 1 = first inversion, ...)
+ * - Figured-bass abbreviations (6, 6/4, 6/5, 4/3, 4/2)
+ *
+ * Used by chord identification, chord building and Roman numeral analysis.
+ *
+ * @module chord/inversion
+ * @since v2.0.0
+ */
+
+import { Chord, Interval, Note, distance } from 'tonal'
+
+/**
+ * Figured-bass abbreviations by inversion.
+ * Root-position triads carry no figure (5/3 is implied).
+ */
+const TRIAD_FIGURES = ['', '6', '6/4'] as const
+const SEVENTH_FIGURES = ['7', '6/5', '4/3', '4/2'] as const
+
+/**
+ * Chord-tone position of the bass above the root, by generic interval.
+ * 1 → root, 3 → third, 5 → fifth, 7 → seventh.
+ */
+const INVERSION_BY_DEGREE: Readonly<Record<number, number>> = {
+  1: 0,
+  3: 1,
+  5: 2,
+  7: 3,
+}
+
+/**
+ * Inversion details for a chord with a known root and bass.
+ */
+export interface InversionInfo {
+  /** Inversion number, or null if the bass is not a chord tone */
+  readonly inversion: number | null
+
+  /**
+   * Figured-bass abbreviation, or null when figures do not apply
+   * (non-tertian chords, extended chords, or a non-chord-tone bass)
+   */
+  readonly figuredBass: string | null
+}
+
+/**
+ * Returns the pitch class of the lowest note.
+ *
+ * When every note carries an octave (e.g., ['C4', 'E3', 'G3']), the lowest
+ * pitch wins. Otherwise the first note is taken as the bass, following the
+ * convention that note lists are written bottom-up.
+ *
+ * @param notes - Note names, with or without octaves
+ * @returns Pitch class of the bass note, or null for an empty list
+ *
+ * @example
+ * ```typescript
+ * getLowestNote(['C4', 'E3', 'G3']) // 'E'
+ * getLowestNote(['G', 'C', 'E'])    // 'G'
+ * ```
+ *
+ * @internal
+ */
+export function getLowestNote(notes: readonly string[]): string | null {
+  const parsed = notes.map((note) => Note.get(note))
+  const first = parsed[0]
+  if (!first) return null
+
+  if (parsed.every((note) => note.oct !== undefined && note.midi !== null)) {
+    const lowest = parsed.reduce((low, note) => ((note.midi ?? 0) < (low.midi ?? 0) ? note : low))
+    return lowest.pc
+  }
+
+  return first.pc || first.name
+}
+
+/**
+ * Describes the inversion of a chord from its root, bass and chord tones.
+ *
+ * @param root - Chord root (e.g., 'C')
+ * @param bass - Bass note (e.g., 'E')
+ * @param intervals - Intervals from the root to each chord tone, in tonal format
+ *   ('1P', '3M', '5P', '7m') or quality-first format ('P1', 'M3', 'P5', 'm7')
+ * @returns Inversion number and figured-bass abbreviation
+ *
+ * @remarks
+ * Suspended chords report the suspended tone in the bass as first inversion
+ * but carry no figures. Figures are only given for triads and seventh chords;
+ * chords with added tones or extensions return `figuredBass: null`.
+ *
+ * @example
+ * ```typescript
+ * getInversionInfo('C', 'E', ['1P', '3M', '5P'])         // { inversion: 1, figuredBass: '6' }
+ * getInversionInfo('G', 'F', ['1P', '3M', '5P', '7m'])   // { inversion: 3, figuredBass: '4/2' }
+ * getInversionInfo('C', 'D', ['1P', '3M', '5P'])         // { inversion: null, figuredBass: null }
+ * ```
+ *
+ * @internal
+ */
+export function getInversionInfo(
+  root: string,
+  bass: string,
+  intervals: readonly string[]
+): InversionInfo {
+  const degrees = intervals.map(getGenericDegree)
+  const hasThird = degrees.includes(3)
+  const hasSeventh = degrees.includes(7)
+  const bassDegree = getGenericDegree(distance(root, bass) || '1P')
+
+  // Chord tones must be part of the chord for the bass to define an inversion
+  const bassIsChordTone = degrees.includes(bassDegree)
+
+  let inversion: number | null = bassIsChordTone ? (INVERSION_BY_DEGREE[bassDegree] ?? null) : null
+  if (bassIsChordTone && !hasThird && (bassDegree === 2 || bassDegree === 4)) {
+    // The suspended tone stands in for the third
+    inversion = 1
+  }
+
+  // Figures describe tertian triads and seventh chords only
+  const isTertian = hasThird && degrees.every((degree) => degree in INVERSION_BY_DEGREE)
+  let figuredBass: string | null = null
+  if (isTertian && inversion !== null) {
+    const figures: readonly string[] = hasSeventh ? SEVENTH_FIGURES : TRIAD_FIGURES
+    figuredBass = figures[inversion] ?? null
+  }
+
+  return { inversion, figuredBass }
+}
+
+/**
+ * Describes the bass and inversion of a parsed chord symbol.
+ *
+ * @param chordData - Chord parsed with tonal.js Chord.get() (e.g., 'G7/B')
+ * @returns Bass note (slash bass or root) with inversion number and figured bass
+ *
+ * @example
+ * ```typescript
+ * getSymbolInversion(Chord.get('G7/B')) // { bass: 'B', inversion: 1, figuredBass: '6/5' }
+ * getSymbolInversion(Chord.get('Dm'))   // { bass: 'D', inversion: 0, figuredBass: '' }
+ * ```
+ *
+ * @internal
+ */
+export function getSymbolInversion(
+  chordData: ReturnType<typeof Chord.get>
+): InversionInfo & { readonly bass: string } {
+  const root = chordData.tonic ?? ''
+  const bass = chordData.bass || root
+
+  // A slash bass outside the chord (e.g., C/D) is listed first but is not a chord tone
+  const chordTones =
+    chordData.bass && !chordData.rootDegree ? chordData.notes.slice(1) : chordData.notes
+  const intervals = chordTones.map((note) => distance(root, note) || '1P')
+
+  return { bass, ...getInversionInfo(root, bass, intervals) }
+}
+
+/**
+ * Returns the generic (simple) interval number, e.g. '10M' → 3, '8P' → 1, 'm7' → 7.
+ *
+ * @internal
+ */
+function getGenericDegree(interval: string): number {
+  const num = Interval.get(interval).num
+  if (typeof num !== 'number' || Number.isNaN(num)) return 1
+  return ((Math.abs(num) - 1) % 7) + 1
+}
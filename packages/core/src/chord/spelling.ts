@@ -0,0 +1,220 @@
+/**
+ * Key-Aware Chord Spelling
+ *
+ * Spells chord tones the way they are written in a key, whatever spelling the
+ * input used. The root is chosen from its function in the key, and the other
+ * tones follow from their intervals above the root:
+ * - Diatonic roots use the key's scale (D#7 in Db major → Eb7: Eb, G, Bb, Db)
+ * - Secondary dominants sit a fifth above a diatonic degree
+ * - Diminished chords are leading-tone chords a semitone below a diatonic degree
+ * - A dominant seventh on the lowered sixth degree is a German augmented sixth
+ *   (C7 in E major → C, E, G, A#)
+ * - Other chromatic roots take the spelling with the fewest accidentals
+ *
+ * @module chord/spelling
+ * @since v2.0.0
+ */
+
+import { Interval, Note, Scale } from 'tonal'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { parseKeyName } from '../progression/key-detection'
+
+/** Root at the start of a chord name */
+const NOTE_PREFIX = /^[A-G](?:##|bb|#|b|♯|♭|x)?/
+
+/** Slash bass at the end of a chord name */
+const SLASH_BASS = /\/[A-G](?:##|bb|#|b|♯|♭|x)?$/
+
+/**
+ * Key used to spell chord tones.
+ *
+ * @internal
+ */
+export interface SpellingKey {
+  readonly root: string
+  readonly scaleType: 'major' | 'minor'
+}
+
+/**
+ * Chord tones spelled for a key.
+ *
+ * @internal
+ */
+export interface SpelledChord {
+  /** Root spelled for the key */
+  readonly root: string
+
+  /** Chord tones in the order of the input intervals */
+  readonly notes: string[]
+}
+
+/**
+ * Parses a key name for spelling (e.g., "Db major", "F# minor", "F#m", or a bare tonic "Bb").
+ *
+ * @param key - Key name
+ * @param defaultScaleType - Scale type of a bare tonic (default: major)
+ * @returns Key root and scale type
+ * @throws {MusicReasoningError} If the key name is invalid
+ *
+ * @internal
+ */
+export function parseSpellingKey(
+  key: string,
+  defaultScaleType: 'major' | 'minor' = 'major'
+): SpellingKey {
+  try {
+    return parseKeyName(key, defaultScaleType)
+  } catch {
+    throw new MusicReasoningError('INVALID_KEY', `Invalid key: "${key}"`, {
+      key,
+      suggestion: 'Use a key name such as "Db major", "F# minor" or "F#m"',
+    })
+  }
+}
+
+/**
+ * Spells a chord's tones for a key.
+ *
+ * @param root - Chord root in any spelling (e.g., "D#")
+ * @param intervals - Tonal.js intervals of each tone above the root (e.g., ['1P', '3M', '5P', '7m'])
+ * @param key - Key to spell in
+ * @returns Root and tones spelled for the key
+ *
+ * @example
+ * ```typescript
+ * spellChordInKey('D#', ['1P', '3M', '5P', '7m'], { root: 'Db', scaleType: 'major' })
+ * // => { root: 'Eb', notes: ['Eb', 'G', 'Bb', 'Db'] }
+ *
+ * spellChordInKey('C', ['1P', '3M', '5P', '7m'], { root: 'E', scaleType: 'major' })
+ * // => { root: 'C', notes: ['C', 'E', 'G', 'A#'] } (German augmented sixth)
+ * ```
+ *
+ * @internal
+ */
+export function spellChordInKey(
+  root: string,
+  intervals: readonly string[],
+  key: SpellingKey
+): SpelledChord {
+  const rootChroma = Note.chroma(root)
+  const tones = new Set(intervals.map((interval) => mod12(Interval.semitones(interval) ?? 0)))
+  const keyNotes = getKeyNotes(key)
+  const tonicChroma = Note.chroma(key.root)
+
+  const dominantSeventh = tones.has(4) && tones.has(10) && !tones.has(3) && !tones.has(11)
+  const germanSixth = dominantSeventh && mod12(rootChroma - tonicChroma) === 8
+
+  let spelledRoot: string
+  if (germanSixth) {
+    spelledRoot = Note.transpose(key.root, '6m')
+  } else {
+    spelledRoot =
+      keyNotes.get(rootChroma) ??
+      spellSecondaryRoot(rootChroma, tones, keyNotes) ??
+      spellChromaticRoot(rootChroma, intervals, keyNotes)
+  }
+
+  const notes = intervals.map((interval) => {
+    // The minor seventh of a German sixth is written as an augmented sixth
+    const written = germanSixth && mod12(Interval.semitones(interval) ?? 0) === 10 ? '6A' : interval
+    return Note.get(Note.transpose(spelledRoot, written)).pc
+  })
+
+  return { root: spelledRoot, notes }
+}
+
+/**
+ * Replaces the root and slash bass of a chord name with new spellings,
+ * keeping everything in between (e.g., "D#7/C##" → "Eb7/G").
+ *
+ * @param name - Chord symbol or name starting with its root (e.g., "D#7", "C# major")
+ * @param root - New root spelling
+ * @param bass - New slash bass spelling, if the name has one
+ *
+ * @internal
+ */
+export function respellChordName(name: string, root: string, bass?: string): string {
+  const respelled = name.replace(NOTE_PREFIX, root)
+  return bass ? respelled.replace(SLASH_BASS, `/${bass}`) : respelled
+}
+
+/**
+ * Maps pitch classes to their spelling in a key.
+ * Minor keys include the raised leading tone of harmonic minor.
+ *
+ * @internal
+ */
+function getKeyNotes(key: SpellingKey): Map<number, string> {
+  const names = Scale.get(`${key.root} ${key.scaleType}`).notes
+  if (key.scaleType === 'minor') {
+    names.push(Note.transpose(key.root, '7M'))
+  }
+  return new Map(names.map((name) => [Note.chroma(name), name]))
+}
+
+/**
+ * Spells the root of an applied chord from the diatonic degree it points to:
+ * dominants a fifth above it, diminished chords a semitone below it.
+ *
+ * @internal
+ */
+function spellSecondaryRoot(
+  rootChroma: number,
+  tones: ReadonlySet<number>,
+  keyNotes: ReadonlyMap<number, string>
+): string | undefined {
+  if (tones.has(4) && !tones.has(11) && !tones.has(8)) {
+    const target = keyNotes.get(mod12(rootChroma + 5))
+    if (target) return Note.transpose(target, '5P')
+  }
+
+  if (tones.has(3) && tones.has(6)) {
+    const target = keyNotes.get(mod12(rootChroma + 1))
+    if (target) return Note.transpose(target, '-2m')
+  }
+
+  return undefined
+}
+
+/**
+ * Spells a chromatic root as a raised lower or lowered upper scale note,
+ * whichever gives the chord fewer accidentals (the lowered one on a tie).
+ *
+ * @internal
+ */
+function spellChromaticRoot(
+  rootChroma: number,
+  intervals: readonly string[],
+  keyNotes: ReadonlyMap<number, string>
+): string {
+  const lowered = keyNotes.get(mod12(rootChroma + 1))
+  const raised = keyNotes.get(mod12(rootChroma - 1))
+  const candidates = [
+    lowered ? Note.transpose(lowered, '-1A') : '',
+    raised ? Note.transpose(raised, '1A') : '',
+  ].filter((candidate) => candidate !== '')
+
+  let best: string | undefined
+  let bestCount = Number.POSITIVE_INFINITY
+  for (const candidate of candidates) {
+    const count = intervals.reduce(
+      (sum, interval) => sum + Note.get(Note.transpose(candidate, interval)).acc.length,
+      0
+    )
+    if (count < bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+
+  return best ?? Note.get(Note.fromMidi(rootChroma)).pc
+}
+
+/**
+ * Wraps a semitone count into 0-11.
+ *
+ * @internal
+ */
+function mod12(semitones: number): number {
+  return ((semitones % 12) + 12) % 12
+}
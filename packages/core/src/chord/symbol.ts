@@ -0,0 +1,461 @@
+/**
+ * Chord Symbol Parsing and Formatting
+ *
+ * Parses chord symbols written in pop, jazz, Berklee or classical notation
+ * into a structured AST, and formats an AST back into any of those styles:
+ * - Pop: Cm7, Cmaj7, Cm7b5, Cdim7, C7b9
+ * - Jazz: C-7, CΔ7, Cø, C°7, C7b9
+ * - Berklee: C-7, Cmaj7, C-7(b5), Co7, C7(b9)
+ * - Classical: Cm7, CM7, Cø7, C°7, C7b9
+ *
+ * The pop style is also the spelling tonal.js understands, so symbols in
+ * other styles can be normalized before Chord.get().
+ *
+ * @module chord/symbol
+ * @since v2.0.0
+ */
+
+import { Chord } from 'tonal'
+import type { ChordSymbolAST, ChordSymbolDialect, ChordSymbolOptions } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+/** Root or bass note: letter plus optional accidentals */
+const NOTE_PATTERN = /^[A-G](?:##|bb|#|b|♯|♭|x)?/
+
+/** Extensions in stacking order */
+const EXTENSION_ORDER = ['6', '9', '11', '13'] as const
+
+/** Alterations in display order */
+const ALTERATION_ORDER = ['b5', '#5', 'b9', '#9', '#11', 'b13', 'alt'] as const
+
+/**
+ * Notation tokens for each dialect.
+ *
+ * @internal
+ */
+interface DialectTokens {
+  readonly minor: string
+  readonly majorSeventh: string
+  readonly diminished: string
+  readonly diminishedSeventh: string
+  readonly augmented: string
+  readonly halfDiminished: (top: string) => string
+  readonly minorMajor: (top: string) => string
+  /** Write the half-diminished flat five with the alterations */
+  readonly halfDiminishedFlatFive: boolean
+  /** Wrap alterations, added tones and omissions in parentheses */
+  readonly parenthesized: boolean
+}
+
+const DIALECTS: Readonly<Record<ChordSymbolDialect, DialectTokens>> = {
+  pop: {
+    minor: 'm',
+    majorSeventh: 'maj',
+    diminished: 'dim',
+    diminishedSeventh: 'dim',
+    augmented: 'aug',
+    halfDiminished: (top) => `m${top}b5`,
+    minorMajor: (top) => `mMaj${top}`,
+    halfDiminishedFlatFive: false,
+    parenthesized: false,
+  },
+  jazz: {
+    minor: '-',
+    majorSeventh: 'Δ',
+    diminished: 'dim',
+    diminishedSeventh: '°',
+    augmented: '+',
+    halfDiminished: (top) => (top === '7' ? 'ø' : `ø${top}`),
+    minorMajor: (top) => `-Δ${top}`,
+    halfDiminishedFlatFive: false,
+    parenthesized: false,
+  },
+  berklee: {
+    minor: '-',
+    majorSeventh: 'maj',
+    diminished: 'o',
+    diminishedSeventh: 'o',
+    augmented: '+',
+    halfDiminished: (top) => `-${top}`,
+    minorMajor: (top) => `-(maj${top})`,
+    halfDiminishedFlatFive: true,
+    parenthesized: true,
+  },
+  classical: {
+    minor: 'm',
+    majorSeventh: 'M',
+    diminished: '°',
+    diminishedSeventh: '°',
+    augmented: '+',
+    halfDiminished: (top) => `ø${top}`,
+    minorMajor: (top) => `mM${top}`,
+    halfDiminishedFlatFive: false,
+    parenthesized: false,
+  },
+}
+
+/**
+ * Parses a chord symbol into a structured AST.
+ *
+ * @param symbol - Chord symbol in any supported notation (e.g., "Cm7", "C-7", "CΔ7", "G7(b9, #11)/F")
+ * @param options - Dialect used to read ambiguous notation
+ * @returns Chord symbol AST
+ * @throws {MusicReasoningError} If the symbol cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * parseChordSymbol('C-7')
+ * // => { root: 'C', quality: 'minor', seventh: 'minor', extensions: [], ... }
+ *
+ * parseChordSymbol('Bb13#11/Ab')
+ * // => { root: 'Bb', quality: 'major', seventh: 'minor', extensions: ['13'], alterations: ['#11'], bass: 'Ab', ... }
+ *
+ * parseChordSymbol('Fadd9no3')
+ * // => { root: 'F', quality: 'major', seventh: null, added: ['9'], omissions: ['3'], ... }
+ * ```
+ *
+ * @remarks
+ * Equivalent spellings share one AST: C7#5 and C+7 are both an augmented
+ * triad with a minor seventh, and Cm7b5 and Cø are both a diminished triad
+ * with a minor seventh.
+ */
+export function parseChordSymbol(symbol: string, options?: ChordSymbolOptions): ChordSymbolAST {
+  const dialect = options?.dialect ?? 'pop'
+  const trimmed = typeof symbol === 'string' ? symbol.trim() : ''
+
+  const rootMatch = NOTE_PATTERN.exec(trimmed)
+  if (!rootMatch) {
+    throw invalidSymbol(symbol, 'Chord symbols must start with a root note (A-G)')
+  }
+  const root = normalizeAccidentals(rootMatch[0])
+
+  // Slash bass: the last "/" followed by a note (6/9 is not a slash chord)
+  let suffix = trimmed.slice(rootMatch[0].length)
+  let bass: string | null = null
+  const slashMatch = /\/([A-G](?:##|bb|#|b|♯|♭|x)?)$/.exec(suffix)
+  if (slashMatch?.[1]) {
+    bass = normalizeAccidentals(slashMatch[1])
+    suffix = suffix.slice(0, slashMatch.index)
+  }
+
+  // Parentheses, commas, spaces and inner slashes (Cm/maj7) only group tokens
+  let rest = suffix.replace(/[(),\s]|\/(?=.)/g, '')
+
+  let triad: 'major' | 'minor' | 'diminished' | 'augmented' | 'half-diminished' | 'power' = 'major'
+  let majorSeventh = false
+  let impliedSeventh = false
+  let seventhNumber = false
+  let suspension: 'sus2' | 'sus4' | null = null
+  const extensions = new Set<string>()
+  const alterations = new Set<string>()
+  const added = new Set<string>()
+  const omissions = new Set<string>()
+
+  // Quality markers come first (e.g., "m", "-", "dim", "ø", "+", "maj", "Δ")
+  const qualityMatch = /^(?:min|mi|m(?!aj|a\d)|-|dim|°|o(?!mit)|ø|Ø|h|aug|\+)/.exec(rest)
+  if (qualityMatch) {
+    const marker = qualityMatch[0]
+    rest = rest.slice(marker.length)
+    if (['min', 'mi', 'm', '-'].includes(marker)) triad = 'minor'
+    else if (marker === 'ø' || marker === 'Ø' || marker === 'h') triad = 'half-diminished'
+    else if (marker === 'aug' || marker === '+') triad = 'augmented'
+    else {
+      triad = 'diminished'
+      // Jazz lead sheets write a bare ° for the diminished seventh
+      if (marker === '°' && dialect === 'jazz' && !/^\d/.test(rest)) impliedSeventh = true
+    }
+  }
+
+  const majorMatch = /^(?:maj|Maj|MAJ|ma|M|Δ|\^)/.exec(rest)
+  if (majorMatch) {
+    rest = rest.slice(majorMatch[0].length)
+    majorSeventh = true
+    // A bare triangle means maj7; a bare "maj", "M" or "^" is just a major triad
+    if (majorMatch[0] === 'Δ' && !/^\d/.test(rest)) {
+      impliedSeventh = true
+    }
+  }
+
+  while (rest.length > 0) {
+    let match: RegExpExecArray | null
+
+    if ((match = /^(?:6\/9|69)/.exec(rest))) {
+      extensions.add('6').add('9')
+    } else if ((match = /^(?:13|11|9|7)/.exec(rest))) {
+      seventhNumber = true
+      if (match[0] !== '7') extensions.add(match[0])
+    } else if ((match = /^dom/.exec(rest))) {
+      seventhNumber = true
+    } else if ((match = /^6/.exec(rest))) {
+      extensions.add('6')
+    } else if ((match = /^5/.exec(rest)) && triad === 'major' && !majorSeventh) {
+      triad = 'power'
+    } else if ((match = /^sus([24])?/.exec(rest))) {
+      suspension = match[1] === '2' ? 'sus2' : 'sus4'
+    } else if ((match = /^add([b#♭♯]?)(2|4|6|9|11|13)/.exec(rest))) {
+      added.add(normalizeAccidentals(match[1] ?? '') + (match[2] ?? ''))
+    } else if ((match = /^([b#♭♯+-])(4|5|6|9|11|13)/.exec(rest))) {
+      const accidental = match[1] === '+' ? '#' : match[1] === '-' ? 'b' : match[1]
+      // #4 and b6 are the compound #11 and b13
+      const degree = match[2] === '4' ? '11' : match[2] === '6' ? '13' : match[2]
+      alterations.add(normalizeAccidentals(accidental ?? '') + (degree ?? ''))
+    } else if ((match = /^(?:\+|aug)/.exec(rest))) {
+      // A trailing "+" or "aug" raises the fifth (C7+, C7aug)
+      alterations.add('#5')
+    } else if ((match = /^alt/.exec(rest))) {
+      alterations.add('alt')
+      seventhNumber = true
+    } else if ((match = /^(?:no|omit)(1|3|5)/.exec(rest))) {
+      omissions.add(match[1] ?? '')
+    } else {
+      throw invalidSymbol(symbol, `Unrecognized "${rest}" in chord symbol`)
+    }
+
+    rest = rest.slice(match[0].length)
+  }
+
+  const hasSeventh = seventhNumber || impliedSeventh || triad === 'half-diminished'
+
+  // Resolve the triad and seventh
+  let quality: ChordSymbolAST['quality']
+  if (triad === 'half-diminished') quality = 'diminished'
+  else if (suspension && triad === 'major') quality = suspension
+  else quality = triad
+
+  // Alterations that only respell the triad (Cm7b5 = Cø, C7#5 = C+7)
+  if (quality === 'minor' && alterations.has('b5')) {
+    quality = 'diminished'
+    alterations.delete('b5')
+  } else if (quality === 'major' && alterations.has('#5')) {
+    quality = 'augmented'
+    alterations.delete('#5')
+  }
+
+  let seventh: ChordSymbolAST['seventh'] = null
+  if (hasSeventh) {
+    if (majorSeventh) seventh = 'major'
+    else if (triad === 'diminished') seventh = 'diminished'
+    else seventh = 'minor'
+  }
+
+  return {
+    root,
+    quality,
+    seventh,
+    extensions: sortByOrder(extensions, EXTENSION_ORDER),
+    alterations: sortByOrder(alterations, ALTERATION_ORDER),
+    added: sortByOrder(added, ['2', '4', '6', 'b9', '9', '#9', '11', '#11', 'b13', '13']),
+    omissions: [...omissions].sort(),
+    bass,
+  }
+}
+
+/**
+ * Formats a chord symbol AST in a notation style.
+ *
+ * @param ast - Chord symbol AST (e.g., from parseChordSymbol())
+ * @param options - Target dialect (default: 'pop')
+ * @returns Chord symbol string
+ * @throws {MusicReasoningError} If the AST root or bass is not a valid note
+ *
+ * @example
+ * ```typescript
+ * const ast = parseChordSymbol('Cm7b5')
+ * formatChordSymbol(ast, { dialect: 'pop' })       // 'Cm7b5'
+ * formatChordSymbol(ast, { dialect: 'jazz' })      // 'Cø'
+ * formatChordSymbol(ast, { dialect: 'berklee' })   // 'C-7(b5)'
+ * formatChordSymbol(ast, { dialect: 'classical' }) // 'Cø7'
+ * ```
+ *
+ * @remarks
+ * Formatting and parsing in the same dialect round-trips:
+ * `parseChordSymbol(formatChordSymbol(ast, { dialect }), { dialect })` equals `ast`.
+ */
+export function formatChordSymbol(ast: ChordSymbolAST, options?: ChordSymbolOptions): string {
+  const tokens = DIALECTS[options?.dialect ?? 'pop']
+
+  if (!NOTE_PATTERN.test(ast.root) || (ast.bass !== null && !NOTE_PATTERN.test(ast.bass))) {
+    throw new MusicReasoningError(
+      'INVALID_CHORD',
+      `Invalid chord symbol root or bass: "${ast.root}"${ast.bass ? `/"${ast.bass}"` : ''}`,
+      { root: ast.root, bass: ast.bass }
+    )
+  }
+
+  const six = ast.extensions.includes('6')
+  const upper = ast.extensions.filter((extension) => extension !== '6')
+  const top = upper[upper.length - 1] ?? '7'
+  const sixth = six ? (upper.includes('9') && !ast.seventh ? '6/9' : '6') : ''
+  const seventh = formatSeventh(ast.seventh, top, tokens)
+  const alterations = [...ast.alterations]
+
+  let body: string
+  if (ast.quality === 'power') {
+    body = '5'
+  } else if (ast.quality === 'sus2' || ast.quality === 'sus4') {
+    body = seventh + sixth + ast.quality
+  } else if (ast.quality === 'diminished' && ast.seventh === 'minor') {
+    body = tokens.halfDiminished(top)
+    if (tokens.halfDiminishedFlatFive) alterations.unshift('b5')
+  } else if (ast.quality === 'diminished' && ast.seventh === 'diminished') {
+    body = tokens.diminishedSeventh + top
+  } else if (ast.quality === 'diminished') {
+    body = tokens.diminished + seventh + sixth
+  } else if (ast.quality === 'augmented' && ast.seventh === 'major') {
+    // Written as a raised fifth so tonal.js can read the pop spelling (Cmaj7#5)
+    body = seventh + sixth
+    alterations.unshift('#5')
+  } else if (ast.quality === 'augmented') {
+    body = tokens.augmented + seventh + sixth
+  } else if (ast.quality === 'minor' && ast.seventh === 'major') {
+    body = tokens.minorMajor(top)
+  } else if (ast.quality === 'minor') {
+    body = tokens.minor + seventh + sixth
+  } else {
+    body = seventh + sixth
+  }
+
+  const added = ast.added.map((tone) => `add${tone}`)
+  const omissions = ast.omissions.map((tone) => `no${tone}`)
+  const bass = ast.bass ? `/${ast.bass}` : ''
+
+  if (tokens.parenthesized) {
+    const tensions = [...alterations, ...added, ...omissions]
+    return ast.root + body + (tensions.length > 0 ? `(${tensions.join(', ')})` : '') + bass
+  }
+
+  return ast.root + body + alterations.join('') + added.join('') + omissions.join('') + bass
+}
+
+/**
+ * Returns tonal.js chord data for a symbol in any supported notation.
+ *
+ * Symbols tonal.js understands are parsed as-is. Others (e.g., "CΔ7", "Cø7",
+ * "G7(b9)", "CM9") are normalized to pop notation first.
+ *
+ * @param symbol - Chord symbol
+ * @returns tonal.js chord data (empty if the symbol cannot be parsed)
+ *
+ * @example
+ * ```typescript
+ * getChordData('C-Δ7').notes // ['C', 'Eb', 'G', 'B']
+ * ```
+ *
+ * @internal
+ */
+export function getChordData(symbol: string): ReturnType<typeof Chord.get> {
+  const chordData = Chord.get(symbol)
+  if (!chordData.empty) return chordData
+
+  try {
+    return Chord.get(formatChordSymbol(parseChordSymbol(symbol)))
+  } catch {
+    return chordData
+  }
+}
+
+/**
+ * Parses a chord symbol without throwing.
+ *
+ * Symbols only tonal.js understands (e.g., "Cmaj#4") are retried with the
+ * tonal.js aliases of the same chord type.
+ *
+ * @param symbol - Chord symbol
+ * @returns Chord symbol AST, or null if neither parser understands the symbol
+ *
+ * @internal
+ */
+export function tryParseChordSymbol(symbol: string): ChordSymbolAST | null {
+  try {
+    return parseChordSymbol(symbol)
+  } catch {
+    const chordData = Chord.get(symbol)
+    if (chordData.empty || !chordData.tonic) return null
+
+    const slash = chordData.bass ? `/${chordData.bass}` : ''
+    for (const alias of chordData.aliases) {
+      try {
+        return parseChordSymbol(chordData.tonic + alias + slash)
+      } catch {
+        // Try the next alias
+      }
+    }
+    return null
+  }
+}
+
+/**
+ * Checks for a major seventh chord (Cmaj7, Cmaj9, CΔ13).
+ *
+ * @internal
+ */
+export function isMajorSeventh(ast: ChordSymbolAST): boolean {
+  return ast.quality === 'major' && ast.seventh === 'major'
+}
+
+/**
+ * Checks for a dominant seventh chord (C7, C9sus4, C7alt, C+7).
+ *
+ * @internal
+ */
+export function isDominantSeventh(ast: ChordSymbolAST): boolean {
+  return ast.seventh === 'minor' && ast.quality !== 'minor' && ast.quality !== 'diminished'
+}
+
+/**
+ * Checks for a minor seventh chord (Cm7, C-9, Cm11).
+ *
+ * @internal
+ */
+export function isMinorSeventh(ast: ChordSymbolAST): boolean {
+  return ast.quality === 'minor' && ast.seventh === 'minor'
+}
+
+/**
+ * Formats the seventh and upper extension (e.g., "7", "maj9", "13").
+ *
+ * @internal
+ */
+function formatSeventh(
+  seventh: ChordSymbolAST['seventh'],
+  top: string,
+  tokens: DialectTokens
+): string {
+  if (seventh === 'major') return tokens.majorSeventh + top
+  return seventh ? top : ''
+}
+
+/**
+ * Replaces Unicode accidentals with ASCII (♭ → b, ♯ → #).
+ *
+ * @internal
+ */
+function normalizeAccidentals(text: string): string {
+  return text.replace(/♭/g, 'b').replace(/♯/g, '#').replace(/x/g, '##')
+}
+
+/**
+ * Sorts a set of tokens by a reference order (unknown tokens last).
+ *
+ * @internal
+ */
+function sortByOrder(values: ReadonlySet<string>, order: readonly string[]): string[] {
+  const rank = (value: string): number => {
+    const index = order.indexOf(value)
+    return index === -1 ? order.length : index
+  }
+  return [...values].sort((a, b) => rank(a) - rank(b))
+}
+
+/**
+ * Builds the error thrown for an unparseable chord symbol.
+ *
+ * @internal
+ */
+function invalidSymbol(symbol: string, reason: string): MusicReasoningError {
+  return new MusicReasoningError(
+    'INVALID_CHORD',
+    `Unable to parse chord symbol: "${symbol}". ${reason}`,
+    { symbol }
+  )
+}
@@ -0,0 +1,450 @@
+/**
+ * Four-Part Voice-Leading Checker
+ *
+ * Checks SATB chord sequences against common-practice voice-leading rules:
+ * - Parallel fifths and octaves between any pair of voices
+ * - Hidden (direct) fifths and octaves between the outer voices
+ * - Voice crossing and spacing wider than an octave in the upper voices
+ * - Unresolved leading tones and chordal sevenths
+ * - Doubled leading tones in dominant chords
+ *
+ * @module chord/voice-leading
+ * @since v2.0.0
+ */
+
+import { Note } from 'tonal'
+import type {
+  ParallelMotion,
+  SATBChord,
+  SATBVoice,
+  VoiceLeadingCheck,
+  VoiceLeadingCheckOptions,
+  VoiceLeadingViolation,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { identifyChord } from './identify'
+import { parseSpellingKey } from './spelling'
+import { getChordData } from './symbol'
+import { detectKey } from '../progression/key-detection'
+
+/**
+ * Voices from lowest to highest. Array input uses this order,
+ * matching generateVoicing() output (bass first).
+ */
+const SATB_VOICES: readonly SATBVoice[] = ['bass', 'tenor', 'alto', 'soprano']
+
+/** Maximum distance in semitones between adjacent upper voices */
+const MAX_UPPER_VOICE_SPACING = 12
+
+/** Largest soprano motion (in semitones) that still counts as a step */
+const MAX_STEP = 2
+
+/**
+ * A four-part chord resolved to MIDI pitches and pitch-class information.
+ *
+ * @internal
+ */
+interface ParsedChord {
+  /** MIDI pitch per voice, bass first */
+  readonly pitches: readonly number[]
+  /** Chroma (0-11) of the chord root, or null if the chord could not be identified */
+  readonly rootChroma: number | null
+  /** Chroma of the chordal seventh, or null for triads and unidentified chords */
+  readonly seventhChroma: number | null
+  /** Identified chord symbol, used for key detection */
+  readonly symbol: string | null
+}
+
+/**
+ * Checks a sequence of four-part chords against common-practice voice-leading rules.
+ *
+ * @param chords - Chords as `{ soprano, alto, tenor, bass }` objects or as arrays of
+ *   four octave-qualified notes ordered bass, tenor, alto, soprano (the order
+ *   generateVoicing() returns)
+ * @param options - Optional key for leading-tone rules (detected when omitted)
+ * @returns Validity flag, key used, and violations in chord order
+ * @throws {MusicReasoningError} If a chord does not have exactly four valid notes with octaves
+ *
+ * @remarks
+ * Leading-tone rules only apply to dominant-function chords (V and vii°). Inner
+ * voices may leave the leading tone to drop to the fifth of the tonic chord, as
+ * is customary in V–I. Sevenths held into a chord with the same root are not
+ * reported as unresolved.
+ *
+ * @example
+ * ```typescript
+ * const result = checkVoiceLeading([
+ *   { soprano: 'D5', alto: 'B4', tenor: 'G4', bass: 'G3' },
+ *   { soprano: 'C5', alto: 'C5', tenor: 'E4', bass: 'C3' },
+ * ], { key: 'C major' })
+ * // result.valid === true
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function checkVoiceLeading(
+  chords: readonly (SATBChord | readonly string[])[],
+  options?: VoiceLeadingCheckOptions
+): VoiceLeadingCheck {
+  const parsed = chords.map((chord, index) => parseSATBChord(chord, index))
+
+  const key = options?.key ?? detectVoiceLeadingKey(parsed)
+  const tonicChroma = parseKeyTonic(key)
+  const leadingTone = (tonicChroma + 11) % 12
+
+  const violations: VoiceLeadingViolation[] = []
+
+  parsed.forEach((chord, index) => {
+    violations.push(...checkChord(chord, index, tonicChroma, leadingTone))
+
+    const previous = parsed[index - 1]
+    if (previous) {
+      violations.push(...checkMotion(previous, chord, index))
+      violations.push(...checkResolutions(previous, chord, index, tonicChroma, leadingTone))
+    }
+  })
+
+  return {
+    valid: violations.length === 0,
+    key,
+    violations,
+  }
+}
+
+/**
+ * Finds pairs of voices moving in parallel perfect fifths or octaves.
+ *
+ * @param from - Previous pitches (MIDI), one per voice
+ * @param to - Next pitches (MIDI), one per voice
+ * @returns Offending voice pairs (indices into the pitch arrays, lowest first)
+ *
+ * @internal
+ * @remarks
+ * Shared with voiceLead() in build.ts. Both voices must move, in the same
+ * direction; repeated notes are not parallels.
+ */
+export function findParallelMotion(
+  from: readonly number[],
+  to: readonly number[]
+): ParallelMotion[] {
+  const parallels: ParallelMotion[] = []
+
+  for (let i = 0; i < from.length; i++) {
+    for (let j = i + 1; j < from.length; j++) {
+      const fromLow = from[i]
+      const fromHigh = from[j]
+      const toLow = to[i]
+      const toHigh = to[j]
+      if (
+        fromLow === undefined ||
+        fromHigh === undefined ||
+        toLow === undefined ||
+        toHigh === undefined
+      ) {
+        continue // Type guard
+      }
+
+      const lowMotion = toLow - fromLow
+      const highMotion = toHigh - fromHigh
+      if (lowMotion === 0 || highMotion === 0 || Math.sign(lowMotion) !== Math.sign(highMotion)) {
+        continue
+      }
+
+      const before = intervalClass(fromLow, fromHigh)
+      const after = intervalClass(toLow, toHigh)
+      if (before === 7 && after === 7) {
+        parallels.push({ voices: [i, j], interval: 'fifth' })
+      } else if (before === 0 && after === 0) {
+        parallels.push({ voices: [i, j], interval: 'octave' })
+      }
+    }
+  }
+
+  return parallels
+}
+
+/**
+ * Checks rules that apply within a single chord (crossing, spacing, doubling).
+ *
+ * @internal
+ */
+function checkChord(
+  chord: ParsedChord,
+  index: number,
+  tonicChroma: number,
+  leadingTone: number
+): VoiceLeadingViolation[] {
+  const violations: VoiceLeadingViolation[] = []
+  const { pitches } = chord
+
+  for (let i = 0; i < SATB_VOICES.length - 1; i++) {
+    const lower = pitches[i]
+    const upper = pitches[i + 1]
+    const lowerVoice = SATB_VOICES[i]
+    const upperVoice = SATB_VOICES[i + 1]
+    if (lower === undefined || upper === undefined || !lowerVoice || !upperVoice) continue
+
+    if (lower > upper) {
+      violations.push({
+        code: 'VOICE_CROSSING',
+        message: `The ${lowerVoice} sounds above the ${upperVoice}`,
+        chordIndex: index,
+        voices: [lowerVoice, upperVoice],
+        suggestion: `Keep the ${lowerVoice} at or below the ${upperVoice}`,
+      })
+    }
+
+    // Spacing only applies between adjacent upper voices (tenor-alto, alto-soprano)
+    if (i > 0 && upper - lower > MAX_UPPER_VOICE_SPACING) {
+      violations.push({
+        code: 'SPACING',
+        message: `More than an octave between the ${lowerVoice} and ${upperVoice}`,
+        chordIndex: index,
+        voices: [lowerVoice, upperVoice],
+        suggestion: `Move the ${lowerVoice} up or the ${upperVoice} down to within an octave`,
+      })
+    }
+  }
+
+  if (isDominantFunction(chord, tonicChroma)) {
+    const doubled = SATB_VOICES.filter((_, i) => chroma(pitches[i]) === leadingTone)
+    if (doubled.length > 1) {
+      violations.push({
+        code: 'DOUBLED_LEADING_TONE',
+        message: 'The leading tone is doubled in a dominant chord',
+        chordIndex: index,
+        voices: doubled,
+        suggestion: 'Double the root or fifth instead of the leading tone',
+      })
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Checks motion between two chords (parallel and hidden fifths/octaves).
+ *
+ * @internal
+ */
+function checkMotion(
+  previous: ParsedChord,
+  chord: ParsedChord,
+  index: number
+): VoiceLeadingViolation[] {
+  const violations: VoiceLeadingViolation[] = []
+
+  for (const parallel of findParallelMotion(previous.pitches, chord.pitches)) {
+    const voices = parallel.voices.map((voice) => SATB_VOICES[voice] ?? 'bass')
+    const name = parallel.interval === 'fifth' ? 'fifths' : 'octaves'
+    violations.push({
+      code: parallel.interval === 'fifth' ? 'PARALLEL_FIFTHS' : 'PARALLEL_OCTAVES',
+      message: `Parallel ${name} between the ${voices.join(' and ')}`,
+      chordIndex: index,
+      voices,
+      suggestion: 'Move one of the voices in contrary or oblique motion',
+    })
+  }
+
+  // Hidden intervals: outer voices only (bass = index 0, soprano = index 3)
+  const bassFrom = previous.pitches[0]
+  const bassTo = chord.pitches[0]
+  const sopranoFrom = previous.pitches[3]
+  const sopranoTo = chord.pitches[3]
+  if (
+    bassFrom === undefined ||
+    bassTo === undefined ||
+    sopranoFrom === undefined ||
+    sopranoTo === undefined
+  ) {
+    return violations
+  }
+
+  const bassMotion = bassTo - bassFrom
+  const sopranoMotion = sopranoTo - sopranoFrom
+  const similar =
+    bassMotion !== 0 && sopranoMotion !== 0 && Math.sign(bassMotion) === Math.sign(sopranoMotion)
+  const before = intervalClass(bassFrom, sopranoFrom)
+  const after = intervalClass(bassTo, sopranoTo)
+
+  if (similar && Math.abs(sopranoMotion) > MAX_STEP && (after === 7 || after === 0)) {
+    // Already reported as parallel if the interval is repeated
+    if (before !== after) {
+      const name = after === 7 ? 'fifth' : 'octave'
+      violations.push({
+        code: after === 7 ? 'HIDDEN_FIFTHS' : 'HIDDEN_OCTAVES',
+        message: `Outer voices approach a perfect ${name} in similar motion with a soprano leap`,
+        chordIndex: index,
+        voices: ['bass', 'soprano'],
+        suggestion: `Approach the ${name} by step in the soprano or in contrary motion`,
+      })
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Checks leading-tone and chordal-seventh resolution into the next chord.
+ *
+ * @internal
+ */
+function checkResolutions(
+  previous: ParsedChord,
+  chord: ParsedChord,
+  index: number,
+  tonicChroma: number,
+  leadingTone: number
+): VoiceLeadingViolation[] {
+  const violations: VoiceLeadingViolation[] = []
+  const sameRoot = previous.rootChroma !== null && previous.rootChroma === chord.rootChroma
+
+  SATB_VOICES.forEach((voice, i) => {
+    const from = previous.pitches[i]
+    const to = chord.pitches[i]
+    if (from === undefined || to === undefined) return // Type guard
+    const motion = to - from
+
+    if (isDominantFunction(previous, tonicChroma) && !sameRoot && chroma(from) === leadingTone) {
+      const resolves = motion === 1
+      // Inner voices may drop to the fifth of the tonic chord (V–I)
+      const innerVoiceDrop =
+        (voice === 'alto' || voice === 'tenor') &&
+        chord.rootChroma === tonicChroma &&
+        chroma(to) === (tonicChroma + 7) % 12
+      if (!resolves && !innerVoiceDrop) {
+        violations.push({
+          code: 'UNRESOLVED_LEADING_TONE',
+          message: `The leading tone in the ${voice} does not resolve up to the tonic`,
+          chordIndex: index,
+          voices: [voice],
+          suggestion: `Move the ${voice} up a half step to the tonic`,
+        })
+      }
+    }
+
+    if (previous.seventhChroma !== null && !sameRoot && chroma(from) === previous.seventhChroma) {
+      if (motion > -1 || motion < -MAX_STEP) {
+        violations.push({
+          code: 'UNRESOLVED_SEVENTH',
+          message: `The chordal seventh in the ${voice} does not resolve down by step`,
+          chordIndex: index,
+          voices: [voice],
+          suggestion: `Move the ${voice} down a half or whole step`,
+        })
+      }
+    }
+  })
+
+  return violations
+}
+
+/**
+ * Validates and parses a four-part chord into MIDI pitches and harmonic information.
+ *
+ * @internal
+ */
+function parseSATBChord(chord: SATBChord | readonly string[], index: number): ParsedChord {
+  const notes = isSATBChord(chord)
+    ? [chord.bass, chord.tenor, chord.alto, chord.soprano]
+    : [...chord]
+
+  if (notes.length !== SATB_VOICES.length) {
+    throw new MusicReasoningError(
+      'INVALID_VOICING',
+      `Chord ${String(index)} must have exactly 4 notes (bass, tenor, alto, soprano), got ${String(notes.length)}`,
+      { index, notes }
+    )
+  }
+
+  const pitches = notes.map((note) => {
+    const midi = Note.midi(note)
+    if (midi === null) {
+      throw new MusicReasoningError(
+        'INVALID_VOICING',
+        `Invalid note "${note}" in chord ${String(index)}. Notes must include an octave (e.g., "C4").`,
+        { index, notes }
+      )
+    }
+    return midi
+  })
+
+  let symbol: string | null = null
+  try {
+    symbol = identifyChord(notes.map((note) => Note.pitchClass(note))).chord
+  } catch {
+    // Non-tertian sonorities cannot be identified; chord-dependent rules are skipped
+    return { pitches, rootChroma: null, seventhChroma: null, symbol: null }
+  }
+
+  const chordData = getChordData(symbol)
+  const root = chordData.tonic
+  const seventh = chordData.notes[3]
+  const seventhInterval = chordData.intervals[3]
+
+  return {
+    pitches,
+    rootChroma: root ? Note.chroma(root) : null,
+    seventhChroma: seventh && seventhInterval?.startsWith('7') ? Note.chroma(seventh) : null,
+    symbol,
+  }
+}
+
+/**
+ * Type guard for object-form SATB chords.
+ *
+ * @internal
+ */
+function isSATBChord(chord: SATBChord | readonly string[]): chord is SATBChord {
+  return !Array.isArray(chord)
+}
+
+/**
+ * Detects the key from identified chords, defaulting to C major.
+ *
+ * @internal
+ */
+function detectVoiceLeadingKey(chords: readonly ParsedChord[]): string {
+  const symbols = chords
+    .map((chord) => chord.symbol)
+    .filter((symbol): symbol is string => symbol !== null)
+  return symbols.length > 0 ? detectKey(symbols).key : 'C major'
+}
+
+/**
+ * Parses the tonic of a key name (e.g., "C major", "F# minor", "F#m", "Bb").
+ *
+ * @internal
+ */
+function parseKeyTonic(key: string): number {
+  return Note.chroma(parseSpellingKey(key).root)
+}
+
+/**
+ * Whether a chord has dominant function (V or vii° of the key).
+ *
+ * @internal
+ */
+function isDominantFunction(chord: ParsedChord, tonicChroma: number): boolean {
+  if (chord.rootChroma === null) return false
+  const degree = (chord.rootChroma - tonicChroma + 12) % 12
+  return degree === 7 || degree === 11
+}
+
+/**
+ * Pitch class (0-11) of a MIDI pitch.
+ *
+ * @internal
+ */
+function chroma(midi: number | undefined): number | null {
+  return midi === undefined ? null : ((midi % 12) + 12) % 12
+}
+
+/**
+ * Interval class (0-11) between two MIDI pitches.
+ *
+ * @internal
+ */
+function intervalClass(low: number, high: number): number {
+  return (((high - low) % 12) + 12) % 12
+}
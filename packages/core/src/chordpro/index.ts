@@ -0,0 +1,18 @@
+/**
+ * ChordPro support
+ * Song parsing into sections with lyrics-aligned chords, and serialization
+ * back to ChordPro, transposed or annotated with Roman numerals
+ */
+
+export { parseChordPro } from './parse'
+export { serializeChordPro } from './serialize'
+
+// Re-export canonical types from @music-reasoning/types
+export type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSectionType,
+  ChordProSection,
+  ChordProSong,
+  ChordProSerializeOptions,
+} from '@music-reasoning/types'
@@ -0,0 +1,285 @@
+/**
+ * ChordPro Parsing
+ *
+ * Reads ChordPro songs into metadata, sections and lyrics lines with their
+ * inline chords:
+ *
+ * ```text
+ * {title: Amazing Grace}
+ * {key: G}
+ *
+ * {start_of_verse: Verse 1}
+ * A[G]mazing [G7]grace, how [C]sweet the [G]sound
+ * {end_of_verse}
+ *
+ * {chorus}
+ * ```
+ *
+ * - Metadata directives (`{title}`, `{key}`, `{capo}`, `{meta: name value}`, ...) fill `metadata`
+ * - `{start_of_verse}`, `{start_of_chorus}`, `{start_of_bridge}`, `{start_of_tab}` and
+ *   `{start_of_grid}` open sections; lines outside them form paragraphs split by blank lines
+ * - `{chorus}` repeats the previous chorus
+ * - Other directives (`{comment}`, `{new_page}`, ...) stay in place as directive lines
+ * - Lines starting with `#` are comments and are skipped
+ *
+ * @module chordpro/parse
+ * @since v2.0.0
+ */
+
+import type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSection,
+  ChordProSectionType,
+  ChordProSong,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { getChordData } from '../chord/symbol'
+
+/** Directive: name, then an argument after a colon or whitespace (e.g., "{title: Song}") */
+const DIRECTIVE_LINE = /^\{\s*([\w-]+)\s*(?::\s*|\s+)?(.*?)\s*\}$/
+
+/** Chord with a trailing annotation (e.g., "G7 (V7)") */
+const ANNOTATED_CHORD = /^(\S+)\s+\((.+)\)$/
+
+/** Environment label written as an attribute (e.g., 'label="Verse 1"') */
+const LABEL_ATTRIBUTE = /^label\s*=\s*"(.*)"$/
+
+/** Abbreviated directive names */
+const DIRECTIVE_ALIASES: Readonly<Record<string, string>> = {
+  t: 'title',
+  st: 'subtitle',
+  c: 'comment',
+  ci: 'comment_italic',
+  cb: 'comment_box',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+  sog: 'start_of_grid',
+  eog: 'end_of_grid',
+}
+
+/**
+ * Directives that describe the song rather than a place in it
+ *
+ * @internal
+ */
+export const METADATA_DIRECTIVES: ReadonlySet<string> = new Set([
+  'title',
+  'sorttitle',
+  'subtitle',
+  'artist',
+  'composer',
+  'lyricist',
+  'arranger',
+  'copyright',
+  'album',
+  'year',
+  'key',
+  'time',
+  'tempo',
+  'duration',
+  'capo',
+])
+
+/** Environments that open a section */
+const ENVIRONMENTS: ReadonlySet<string> = new Set(['verse', 'chorus', 'bridge', 'tab', 'grid'])
+
+/** Mutable section while its lines are being read */
+interface DraftSection {
+  readonly type: ChordProSectionType
+  readonly label?: string
+  readonly recall?: boolean
+  readonly lines: ChordProLine[]
+}
+
+/**
+ * Parses a ChordPro song.
+ *
+ * @param text - ChordPro file contents
+ * @returns Metadata, sections with lyrics and chord positions, and the song's chords in order
+ *
+ * @throws {MusicReasoningError} INVALID_CHORDPRO if sections are nested or closed without being opened
+ *
+ * @example
+ * ```typescript
+ * const song = parseChordPro('{key: G}\n{soc}\n[C]Praise [G]God\n{eoc}')
+ * // song.metadata.key === 'G'
+ * // song.sections[0].type === 'chorus'
+ * // song.sections[0].lines[0] => { type: 'lyrics', text: 'Praise God', chords: [{ chord: 'C', position: 0 }, { chord: 'G', position: 7 }] }
+ *
+ * analyzeProgression(song.chords, { key: 'G major' })
+ * ```
+ *
+ * @remarks
+ * Bracketed text that is not a chord symbol (e.g., "N.C." or a `[*annotation]`)
+ * is kept in the line but left out of `chords`. Lines in tab and grid sections
+ * are kept as raw text.
+ *
+ * @since v2.0.0
+ */
+export function parseChordPro(text: string): ChordProSong {
+  const metadata: Record<string, string> = {}
+  const sections: DraftSection[] = []
+  // Open environment, or the paragraph being read outside one
+  let current: DraftSection | null = null
+  let environment = false
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+    if (line.startsWith('#')) return
+
+    if (line === '') {
+      if (environment) current?.lines.push({ type: 'lyrics', text: '', chords: [] })
+      else current = null
+      return
+    }
+
+    const directive = DIRECTIVE_LINE.exec(line)
+    if (directive) {
+      const rawName = (directive[1] ?? '').toLowerCase()
+      const name = DIRECTIVE_ALIASES[rawName] ?? rawName
+      const value = directive[2] ?? ''
+
+      if (METADATA_DIRECTIVES.has(name)) {
+        metadata[name] = value
+        return
+      }
+      if (name === 'meta') {
+        const [metaName = '', ...metaValue] = value.split(/\s+/)
+        if (metaName) metadata[metaName.toLowerCase()] = metaValue.join(' ')
+        return
+      }
+
+      const [boundary, type] = name.split(/_of_/)
+      if ((boundary === 'start' || boundary === 'end') && type && ENVIRONMENTS.has(type)) {
+        const sectionType = type as ChordProSectionType
+        if (boundary === 'start') {
+          if (environment) {
+            throw invalidChordPro(`{${name}} inside another section`, { line: lineNumber })
+          }
+          const label = parseLabel(value)
+          current = { type: sectionType, ...(label && { label }), lines: [] }
+          sections.push(current)
+          environment = true
+        } else {
+          if (!environment || current?.type !== sectionType) {
+            throw invalidChordPro(`{${name}} does not close an open section`, { line: lineNumber })
+          }
+          current = null
+          environment = false
+        }
+        return
+      }
+
+      if (name === 'chorus' && !environment) {
+        const chorus = sections.filter((section) => section.type === 'chorus').pop()
+        const label = value || chorus?.label
+        sections.push({
+          type: 'chorus',
+          ...(label && { label }),
+          recall: true,
+          lines: [...(chorus?.lines ?? [])],
+        })
+        current = null
+        return
+      }
+
+      current = current ?? startParagraph(sections)
+      current.lines.push(value ? { type: 'directive', name, value } : { type: 'directive', name })
+      return
+    }
+
+    current = current ?? startParagraph(sections)
+    const raw = current.type === 'tab' || current.type === 'grid'
+    current.lines.push(raw ? { type: 'lyrics', text: line, chords: [] } : parseLyricsLine(line))
+  })
+
+  const parsedSections: ChordProSection[] = sections.map((section) => ({
+    ...section,
+    chords: section.lines.flatMap((line) =>
+      line.type === 'lyrics'
+        ? line.chords.filter((chord) => isChordSymbol(chord.chord)).map((chord) => chord.chord)
+        : []
+    ),
+  }))
+
+  return {
+    metadata,
+    sections: parsedSections,
+    chords: parsedSections.flatMap((section) => section.chords),
+  }
+}
+
+/**
+ * Checks whether bracketed text is a chord symbol (not "N.C." or an annotation).
+ *
+ * @internal
+ */
+export function isChordSymbol(text: string): boolean {
+  return !text.startsWith('*') && Boolean(getChordData(text).tonic)
+}
+
+/**
+ * Splits a lyrics line into its text and inline chords.
+ *
+ * @internal
+ */
+function parseLyricsLine(line: string): ChordProLine {
+  const chords: ChordProChord[] = []
+  let text = ''
+  let rest = line
+
+  for (;;) {
+    const open = rest.indexOf('[')
+    const close = open === -1 ? -1 : rest.indexOf(']', open)
+    if (close === -1) break
+
+    text += rest.slice(0, open)
+    const content = rest.slice(open + 1, close).trim()
+    const annotated = ANNOTATED_CHORD.exec(content)
+    chords.push(
+      annotated
+        ? { chord: annotated[1] ?? '', position: text.length, annotation: annotated[2] ?? '' }
+        : { chord: content, position: text.length }
+    )
+    rest = rest.slice(close + 1)
+  }
+
+  return { type: 'lyrics', text: text + rest, chords }
+}
+
+/**
+ * Reads an environment label, plain or as a `label="..."` attribute.
+ *
+ * @internal
+ */
+function parseLabel(value: string): string {
+  return LABEL_ATTRIBUTE.exec(value)?.[1] ?? value
+}
+
+/**
+ * Starts a paragraph outside any environment.
+ *
+ * @internal
+ */
+function startParagraph(sections: DraftSection[]): DraftSection {
+  const paragraph: DraftSection = { type: 'none', lines: [] }
+  sections.push(paragraph)
+  return paragraph
+}
+
+/**
+ * Creates an INVALID_CHORDPRO error.
+ *
+ * @internal
+ */
+function invalidChordPro(message: string, details: Record<string, unknown>): MusicReasoningError {
+  return new MusicReasoningError('INVALID_CHORDPRO', `Invalid ChordPro: ${message}`, details)
+}
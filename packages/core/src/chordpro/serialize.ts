@@ -0,0 +1,163 @@
+/**
+ * ChordPro Serialization
+ *
+ * Writes a song back to ChordPro, optionally transposed to another key and
+ * with each chord annotated with its Roman numeral:
+ *
+ * ```text
+ * {title: Amazing Grace}
+ * {key: G}
+ *
+ * A[G (I)]mazing [G7 (I7)]grace, how [C (IV)]sweet the [G (I)]sound
+ * ```
+ *
+ * @module chordpro/serialize
+ * @since v2.0.0
+ */
+
+import type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSerializeOptions,
+  ChordProSong,
+} from '@music-reasoning/types'
+import { analyzeProgression } from '../progression'
+import { detectKey } from '../progression/key-detection'
+import { transposeProgression } from '../transpose'
+import { isChordSymbol, METADATA_DIRECTIVES } from './parse'
+
+/**
+ * Serializes a song to ChordPro.
+ *
+ * Without options, parsing the text again gives back the same song.
+ *
+ * @param song - Song, usually from parseChordPro()
+ * @param options - Transposition and Roman numeral annotation
+ * @returns ChordPro text
+ *
+ * @throws {MusicReasoningError} If the song's `{key}` or the target key is invalid (see transposeProgression())
+ * @throws {Error} If the song's `{key}` is invalid when annotating (see analyzeProgression())
+ *
+ * @example
+ * ```typescript
+ * const song = parseChordPro('{key: G}\nA[G]mazing [G7]grace, how [C]sweet the [G]sound')
+ *
+ * serializeChordPro(song, { transpose: 'A' })
+ * // '{key: A}\n\nA[A]mazing [A7]grace, how [D]sweet the [A]sound\n'
+ *
+ * serializeChordPro(song, { annotate: true })
+ * // '{key: G}\n\nA[G (I)]mazing [G7 (I7)]grace, how [C (IV)]sweet the [G (I)]sound\n'
+ * ```
+ *
+ * @remarks
+ * Text in brackets that is not a chord symbol (e.g., "N.C.") and raw tab and
+ * grid lines are written unchanged. Recalled choruses are written as `{chorus}`.
+ *
+ * @since v2.0.0
+ */
+export function serializeChordPro(song: ChordProSong, options?: ChordProSerializeOptions): string {
+  const transposition = options?.transpose ? transposeSong(song, options.transpose) : null
+  const rename = (chord: string): string => transposition?.chords.get(chord) ?? chord
+  const metadata = transposition ? { ...song.metadata, key: transposition.key } : song.metadata
+
+  const romans = options?.annotate ? annotateSong(song.chords.map(rename), metadata.key) : null
+  let chordIndex = 0
+  const writeChord = (chord: ChordProChord): string => {
+    if (!isChordSymbol(chord.chord)) return formatChord(chord.chord, chord.annotation)
+    const annotation = romans ? romans[chordIndex] : chord.annotation
+    chordIndex++
+    return formatChord(rename(chord.chord), annotation)
+  }
+
+  const header = Object.entries(metadata).map(([name, value]) =>
+    METADATA_DIRECTIVES.has(name) ? `{${name}: ${value}}` : `{meta: ${name} ${value}}`
+  )
+
+  const blocks = song.sections.map((section) => {
+    if (section.recall) {
+      // Recalled lines are not written, but their chords were analyzed
+      chordIndex += section.chords.length
+      return section.label ? `{chorus: ${section.label}}` : '{chorus}'
+    }
+
+    const lines = section.lines.map((line) => formatLine(line, writeChord))
+    if (section.type === 'none') return lines.join('\n')
+
+    const label = section.label ? `: ${section.label}` : ''
+    return [`{start_of_${section.type}${label}}`, ...lines, `{end_of_${section.type}}`].join('\n')
+  })
+
+  return [...(header.length > 0 ? [header.join('\n')] : []), ...blocks].join('\n\n') + '\n'
+}
+
+/**
+ * Moves every chord of a song to a target key.
+ *
+ * @returns New chord symbol for each chord symbol, and the new `{key}` value
+ *
+ * @internal
+ */
+function transposeSong(
+  song: ChordProSong,
+  to: string
+): { chords: Map<string, string>; key: string } {
+  const from = song.metadata.key ?? (song.chords.length > 0 ? detectKey([...song.chords]).key : to)
+  const transposed = transposeProgression(song.chords, { from, to })
+  const [key = to] = transposeProgression([toTonicChord(from)], { from, to })
+
+  return {
+    chords: new Map(song.chords.map((chord, index) => [chord, transposed[index] ?? chord])),
+    key,
+  }
+}
+
+/**
+ * Analyzes a song's chords and returns the Roman numeral of each.
+ *
+ * @internal
+ */
+function annotateSong(chords: readonly string[], key: string | undefined): string[] {
+  if (chords.length === 0) return []
+  const options = key === undefined ? undefined : { key }
+  return analyzeProgression([...chords], options).analysis.map((chord) => chord.roman)
+}
+
+/**
+ * Writes a lyrics line with its chords inline, or a directive line.
+ *
+ * @internal
+ */
+function formatLine(line: ChordProLine, writeChord: (chord: ChordProChord) => string): string {
+  if (line.type === 'directive') {
+    return line.value === undefined ? `{${line.name}}` : `{${line.name}: ${line.value}}`
+  }
+
+  let text = ''
+  let position = 0
+  for (const chord of line.chords) {
+    text += line.text.slice(position, chord.position) + writeChord(chord)
+    position = Math.max(position, chord.position)
+  }
+  return text + line.text.slice(position)
+}
+
+/**
+ * Writes a bracketed chord with its annotation.
+ *
+ * @internal
+ */
+function formatChord(chord: string, annotation: string | undefined): string {
+  return annotation ? `[${chord} (${annotation})]` : `[${chord}]`
+}
+
+/**
+ * Converts a key name ("E minor", "G major", "Em") to its tonic chord ("Em", "G").
+ *
+ * @internal
+ */
+function toTonicChord(key: string): string {
+  return key
+    .trim()
+    .replace(/\s+major$/i, '')
+    .replace(/\s+minor$/i, 'm')
+}
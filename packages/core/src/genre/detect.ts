@@ -1,8 +1,9 @@
 import type { GenrePattern, GenreDetectionResult, Genre } from '@music-reasoning/types'
-import { Chord, Note } from 'tonal'
+import { Note } from 'tonal'
+import { getChordData } from '../chord/symbol'
 import { GENRE_PATTERNS } from './patterns'
 import { detectKey } from '../progression/key-detection'
-import { getRomanNumerals } from '../progression/roman-numerals'
+import { getRomanNumerals, toRootPositionRoman } from '../progression/roman-numerals'
 import { getRelativeMajor, getRelativeMinor } from '../scale/relationships'
 
 /**
@@ -56,7 +57,7 @@ export function detectGenre(
 
   // Validate all chords
   for (const chord of chords) {
-    const chordData = Chord.get(chord)
+    const chordData = getChordData(chord)
     if (!chordData.tonic) {
       return [{ genre: 'unknown', confidence: 0, matchedPatterns: [] }]
     }
@@ -89,8 +90,8 @@ export function detectGenre(
   // Safe: length check at line 53 guarantees at least 1 element
   const firstChord = chords[0] as string
   const lastChord = chords[chords.length - 1] as string
-  const firstChordData = Chord.get(firstChord)
-  const lastChordData = Chord.get(lastChord)
+  const firstChordData = getChordData(firstChord)
+  const lastChordData = getChordData(lastChord)
 
   // Use Set to deduplicate on "root:scaleType" to preserve same-root different-mode keys
   const keySet = new Set<string>()
@@ -193,7 +194,8 @@ export function detectGenre(
     for (const candidate of keyCandidates) {
       try {
         const romanNumerals = getRomanNumerals(windowChords, candidate.root, candidate.scaleType)
-        const romanString = romanNumerals.map((rn) => rn.roman).join('-')
+        // Genre patterns are written in root position (V6/5 matches V7)
+        const romanString = romanNumerals.map((rn) => toRootPositionRoman(rn.roman)).join('-')
         romanStringCandidates.push(romanString)
       } catch {
         // Skip invalid key candidates (e.g., chords don't fit in this key)
@@ -298,8 +300,10 @@ export function detectGenre(
  * matchesPattern("I7-IV7-I7-V7", "I7-IV7-I7-V7") // => true (exact match with 7ths)
  * matchesPattern("I-IV-I-V", "I7-IV7-I7-V7") // => false (pattern requires 7ths)
  * ```
+ *
+ * @internal
  */
-function matchesPattern(progressionRoman: string, patternRoman: string): boolean {
+export function matchesPattern(progressionRoman: string, patternRoman: string): boolean {
   // Normalize accidentals (♭→b, ♯→#) for both strings
   const normalizeAccidentals = (roman: string): string => {
     return roman.replace(/♭/g, 'b').replace(/♯/g, '#').trim()
@@ -314,7 +318,7 @@ function matchesPattern(progressionRoman: string, patternRoman: string): boolean
 
   // Helper: strip extensions from a progression token only if pattern token doesn't have them
   const normalizeToken = (progToken: string, patternToken: string): string => {
-    const extensions = ['maj7', 'add9', 'sus4', 'sus2', '13', '11', '9', '7', '6']
+    const extensions = ['maj7', 'add9', 'add6', 'sus4', 'sus2', '13', '11', '9', '7', '6']
     let normalized = progToken
 
     for (const ext of extensions) {
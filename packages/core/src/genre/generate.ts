@@ -0,0 +1,407 @@
+/**
+ * Progression Generation
+ *
+ * Composes chord progressions from the genre pattern database, the inverse of
+ * genre detection:
+ * - Fragments are drawn from GENRE_PATTERNS, weighted by pattern weight
+ * - The last fragment ends on a cadence to the tonic (or resolves to it)
+ * - Roman numerals are realized as chord symbols in the key
+ * - A seeded random number generator makes every result reproducible
+ *
+ * @module genre/generate
+ * @since v2.0.0
+ */
+
+import { Note } from 'tonal'
+import type {
+  Cadence,
+  GeneratedProgression,
+  GenerateProgressionOptions,
+  GenrePattern,
+  ProgressionFragment,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { parseSpellingKey, type SpellingKey } from '../chord/spelling'
+import { analyzeChordsInKey } from '../progression/analyze'
+import { detectCadences } from '../progression/cadences'
+import { GENRE_PATTERNS } from './patterns'
+
+/** Default number of chords */
+const DEFAULT_LENGTH = 8
+
+/** Maximum number of chords */
+const MAX_LENGTH = 64
+
+/**
+ * Weight factor for a fragment that starts on the chord the previous
+ * fragment ended on, so progressions rarely repeat a chord across bars
+ */
+const REPEAT_PENALTY = 0.25
+
+/** Roman numeral token: accidental, numeral, chord modifier, seventh */
+const ROMAN_TOKEN = /^([b#♭♯]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)([°ø+]?)(maj7|m7|7)?$/
+
+/** Major-scale intervals of each degree, used for numerals with an accidental */
+const MAJOR_INTERVALS = ['1P', '2M', '3M', '4P', '5P', '6M', '7M'] as const
+
+/** Natural-minor intervals of each degree, used for unaltered numerals in minor keys */
+const MINOR_INTERVALS = ['1P', '2M', '3m', '4P', '5P', '6m', '7m'] as const
+
+/**
+ * Major-key numerals as they appear in the parallel minor (the dominant
+ * keeps its leading tone). Used for genres without minor-key patterns.
+ */
+const PARALLEL_MINOR: Readonly<Record<string, string>> = {
+  I: 'i',
+  ii: 'ii°',
+  iii: 'III',
+  IV: 'iv',
+  V: 'V',
+  vi: 'VI',
+}
+
+/** Genres whose cadence falls back to a dominant seventh */
+const SEVENTH_CHORD_GENRES: ReadonlySet<string> = new Set(['jazz', 'blues'])
+
+/** Cadence types that resolve to the tonic */
+const CLOSING_CADENCES: ReadonlySet<string> = new Set(['authentic', 'plagal'])
+
+/**
+ * A pattern with its numerals realized as chords in the key.
+ *
+ * @internal
+ */
+interface Fragment {
+  readonly pattern: string
+  readonly weight: number
+  readonly romanNumerals: readonly string[]
+  readonly chords: readonly string[]
+}
+
+/**
+ * Generates a chord progression from a genre's patterns.
+ *
+ * @param options - Key, genre, length, closing cadence and random seed
+ * @returns Chords, Roman numerals, the fragments used and the closing cadence
+ * @throws {MusicReasoningError} If the key, genre, length or seed is invalid
+ *
+ * @example
+ * ```typescript
+ * const progression = generateProgression({ key: 'Bb', genre: 'jazz', length: 8, seed: 7 })
+ * // progression.chords => ['Cm', 'F', 'Bb', 'Cb7', 'Bb', 'Cm', 'F', 'Bb']
+ * // progression.romanNumerals => ['ii', 'V', 'I', 'bII7', 'I', 'ii', 'V', 'I']
+ * // progression.cadence => { type: 'authentic', chords: ['F', 'Bb'], strength: 'strong' }
+ *
+ * // The same seed gives the same progression
+ * generateProgression({ key: 'Bb', genre: 'jazz', length: 8, seed: 7 }).chords // same chords
+ * ```
+ *
+ * @remarks
+ * Fragments are chosen at random in proportion to their pattern weight. In a
+ * minor key, patterns on a minor tonic are used; genres without any (pop,
+ * classical) use their major-key patterns moved to the parallel minor
+ * (I-IV-V-I → i-iv-V-i). Numerals without an accidental are degrees of the
+ * key's scale (natural minor in minor keys); numerals with one alter the major
+ * scale (bVII in C is Bb). A gap shorter than every pattern takes the start
+ * of one.
+ *
+ * @since v2.0.0
+ */
+export function generateProgression(options: GenerateProgressionOptions): GeneratedProgression {
+  const length = options.length ?? DEFAULT_LENGTH
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32)
+  validateOptions(options, length, seed)
+
+  const key = parseSpellingKey(options.key)
+  const pool = buildFragments(options.genre, key)
+  const random = createRandom(seed)
+
+  const tonic = realizeFragment(key.scaleType === 'major' ? 'I' : 'i', key)
+  const fillable = getFillableLengths(pool, length)
+  const ending =
+    (options.endOnCadence ?? true) && length >= 2
+      ? chooseEnding(pool, tonic, length, fillable, key, options.genre, random)
+      : []
+
+  const parts: Fragment[] = []
+  let remaining = length - ending.reduce((sum, part) => sum + part.chords.length, 0)
+  while (remaining > 0) {
+    const fits = pool.filter((fragment) => fragment.chords.length <= remaining)
+    // Prefer fragments that leave a gap other patterns can fill
+    const preferred = fits.filter((fragment) => fillable[remaining - fragment.chords.length])
+    const previous = parts[parts.length - 1]?.chords.at(-1)
+    const candidates = preferred.length > 0 ? preferred : fits.length > 0 ? fits : pool
+    const fragment =
+      pickWeighted(candidates, random, (candidate) =>
+        candidate.chords[0] === previous ? REPEAT_PENALTY : 1
+      ) ?? tonic
+    // A gap shorter than every pattern takes the start of one
+    const part = truncateFragment(fragment, remaining)
+    parts.push(part)
+    remaining -= part.chords.length
+  }
+  parts.push(...ending)
+
+  const fragments: ProgressionFragment[] = []
+  let start = 0
+  for (const part of parts) {
+    fragments.push({ pattern: part.pattern, start, length: part.chords.length })
+    start += part.chords.length
+  }
+
+  const chords = parts.flatMap((part) => part.chords)
+  return {
+    key: `${key.root} ${key.scaleType}`,
+    genre: options.genre,
+    seed,
+    chords,
+    romanNumerals: parts.flatMap((part) => part.romanNumerals),
+    fragments,
+    cadence: getFinalCadence(chords, key),
+  }
+}
+
+/**
+ * Validates generation options.
+ *
+ * @internal
+ */
+function validateOptions(options: GenerateProgressionOptions, length: number, seed: number): void {
+  if (!GENRE_PATTERNS.some((pattern) => pattern.genre === options.genre)) {
+    throw new MusicReasoningError('INVALID_OPTIONS', `Unknown genre: "${String(options.genre)}"`, {
+      genre: options.genre,
+      suggestion: 'Use one of jazz, pop, classical, rock, edm or blues',
+    })
+  }
+  if (!Number.isInteger(length) || length < 1 || length > MAX_LENGTH) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Length must be an integer from 1 to ${String(MAX_LENGTH)}, got ${String(length)}`,
+      { length }
+    )
+  }
+  if (!Number.isSafeInteger(seed)) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Seed must be an integer, got ${String(seed)}`,
+      {
+        seed,
+      }
+    )
+  }
+}
+
+/**
+ * Realizes the genre's patterns that suit the key's mode.
+ *
+ * @internal
+ */
+function buildFragments(genre: GenrePattern['genre'], key: SpellingKey): Fragment[] {
+  const patterns = GENRE_PATTERNS.filter((pattern) => pattern.genre === genre)
+  const minorTonic = patterns.filter((pattern) => hasMinorTonic(pattern.pattern))
+
+  let sources: { pattern: GenrePattern; romanNumerals: string[] }[]
+  if (key.scaleType === 'major') {
+    sources = patterns
+      .filter((pattern) => !minorTonic.includes(pattern))
+      .map((pattern) => ({ pattern, romanNumerals: pattern.pattern.split('-') }))
+  } else if (minorTonic.length > 0) {
+    sources = minorTonic.map((pattern) => ({ pattern, romanNumerals: pattern.pattern.split('-') }))
+  } else {
+    sources = patterns.map((pattern) => ({
+      pattern,
+      romanNumerals: pattern.pattern.split('-').map((roman) => PARALLEL_MINOR[roman] ?? roman),
+    }))
+  }
+
+  return sources.map(({ pattern, romanNumerals }) => ({
+    pattern: pattern.pattern,
+    weight: pattern.weight,
+    romanNumerals,
+    chords: romanNumerals.map((roman) => realizeRoman(roman, key)),
+  }))
+}
+
+/**
+ * Chooses the closing fragments: a pattern that ends with an authentic or
+ * plagal cadence, a pattern on the dominant or subdominant followed by the
+ * tonic, or a plain V-I when the genre has neither.
+ *
+ * @internal
+ */
+function chooseEnding(
+  pool: readonly Fragment[],
+  tonic: Fragment,
+  length: number,
+  fillable: readonly boolean[],
+  key: SpellingKey,
+  genre: string,
+  random: () => number
+): Fragment[] {
+  const endings = pool
+    .map((fragment) => (closesOnTonic(fragment.chords, key) ? [fragment] : [fragment, tonic]))
+    .filter((parts) => {
+      const chords = parts.flatMap((part) => part.chords)
+      return chords.length <= length && closesOnTonic(chords, key)
+    })
+  const endingLength = (parts: readonly Fragment[]): number =>
+    parts.reduce((sum, part) => sum + part.chords.length, 0)
+  const preferred = endings.filter((parts) => fillable[length - endingLength(parts)])
+
+  const candidates = preferred.length > 0 ? preferred : endings
+  const chosen = pickWeighted(
+    candidates.map((parts) => parts[0] as Fragment),
+    random,
+    () => 1
+  )
+  const ending = candidates.find((parts) => parts[0] === chosen)
+  if (ending) return ending
+
+  const dominant = SEVENTH_CHORD_GENRES.has(genre) ? 'V7' : 'V'
+  return [realizeFragment(`${dominant}-${tonic.romanNumerals[0] ?? 'I'}`, key)]
+}
+
+/**
+ * Checks whether chords end with an authentic or plagal cadence.
+ *
+ * @internal
+ */
+function closesOnTonic(chords: readonly string[], key: SpellingKey): boolean {
+  return CLOSING_CADENCES.has(getFinalCadence(chords, key)?.type ?? '')
+}
+
+/**
+ * Finds which gap lengths up to `length` can be filled exactly with patterns.
+ *
+ * @internal
+ */
+function getFillableLengths(pool: readonly Fragment[], length: number): boolean[] {
+  const fillable = [true]
+  for (let n = 1; n <= length; n++) {
+    fillable[n] = pool.some(
+      (fragment) => fragment.chords.length <= n && fillable[n - fragment.chords.length] === true
+    )
+  }
+  return fillable
+}
+
+/**
+ * Keeps the first `length` chords of a fragment.
+ *
+ * @internal
+ */
+function truncateFragment(fragment: Fragment, length: number): Fragment {
+  if (fragment.chords.length <= length) return fragment
+  return {
+    ...fragment,
+    romanNumerals: fragment.romanNumerals.slice(0, length),
+    chords: fragment.chords.slice(0, length),
+  }
+}
+
+/**
+ * Builds a fragment that is not from the pattern database (e.g., "V-I").
+ *
+ * @internal
+ */
+function realizeFragment(pattern: string, key: SpellingKey): Fragment {
+  const romanNumerals = pattern.split('-')
+  return {
+    pattern,
+    weight: 1,
+    romanNumerals,
+    chords: romanNumerals.map((roman) => realizeRoman(roman, key)),
+  }
+}
+
+/**
+ * Realizes a Roman numeral as a chord symbol in the key (e.g., "bVII7" in C → "Bb7").
+ *
+ * @internal
+ */
+function realizeRoman(roman: string, key: SpellingKey): string {
+  const match = ROMAN_TOKEN.exec(roman)
+  if (!match) {
+    throw new MusicReasoningError('INVALID_CHORD', `Invalid Roman numeral: "${roman}"`, { roman })
+  }
+
+  const [, accidental = '', numeral = '', modifier = '', seventh = ''] = match
+  const degree = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'].indexOf(numeral.toUpperCase())
+  const intervals = accidental || key.scaleType === 'major' ? MAJOR_INTERVALS : MINOR_INTERVALS
+
+  let root = Note.transpose(key.root, intervals[degree] ?? '1P')
+  if (accidental === 'b' || accidental === '♭') root = Note.transpose(root, '-1A')
+  if (accidental === '#' || accidental === '♯') root = Note.transpose(root, '1A')
+  if (Note.get(root).acc.length > 1) root = Note.simplify(root)
+
+  return root + getChordSuffix(numeral === numeral.toLowerCase(), modifier, seventh)
+}
+
+/**
+ * Chord symbol suffix for a numeral's case, modifier and seventh.
+ *
+ * @internal
+ */
+function getChordSuffix(minor: boolean, modifier: string, seventh: string): string {
+  if (modifier === '°') return seventh ? 'dim7' : 'dim'
+  if (modifier === 'ø') return 'm7b5'
+  if (modifier === '+') return seventh ? '7#5' : 'aug'
+  if (minor) return seventh === 'maj7' ? 'mMaj7' : seventh ? 'm7' : 'm'
+  return seventh
+}
+
+/**
+ * Checks whether a pattern's tonic is a minor chord (e.g., "i-bVII-bVI").
+ *
+ * @internal
+ */
+function hasMinorTonic(pattern: string): boolean {
+  return pattern.split('-').some((roman) => /^i(?:m?7)?$/.test(roman))
+}
+
+/**
+ * Cadence formed by the last two chords, if any.
+ *
+ * @internal
+ */
+function getFinalCadence(chords: readonly string[], key: SpellingKey): Cadence | null {
+  const last = chords.slice(-2)
+  const analysis = analyzeChordsInKey(last, key.root, key.scaleType)
+  return detectCadences(analysis, last)[0] ?? null
+}
+
+/**
+ * Picks a fragment at random in proportion to its pattern weight times a
+ * factor, or undefined when there are none.
+ *
+ * @internal
+ */
+function pickWeighted(
+  fragments: readonly Fragment[],
+  random: () => number,
+  factor: (fragment: Fragment) => number
+): Fragment | undefined {
+  const weights = fragments.map((fragment) => fragment.weight * factor(fragment))
+  let target = random() * weights.reduce((sum, weight) => sum + weight, 0)
+  for (let i = 0; i < fragments.length; i++) {
+    target -= weights[i] ?? 0
+    if (target < 0) return fragments[i]
+  }
+  return fragments[fragments.length - 1]
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32) returning values in [0, 1).
+ *
+ * @internal
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32
+  }
+}
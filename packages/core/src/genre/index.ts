@@ -5,6 +5,14 @@
 
 export { GENRE_PATTERNS } from './patterns'
 export { detectGenre } from './detect'
+export { generateProgression } from './generate'
 
 // Re-export canonical types from @music-reasoning/types
-export type { GenreDetectionResult, Genre, GenrePattern } from '@music-reasoning/types'
+export type {
+  GenreDetectionResult,
+  Genre,
+  GenrePattern,
+  GenerateProgressionOptions,
+  GeneratedProgression,
+  ProgressionFragment,
+} from '@music-reasoning/types'
@@ -0,0 +1,678 @@
+/**
+ * Melody Harmonization
+ *
+ * Finds chords for a melody that has none. The melody is cut into slots by
+ * the harmonic rhythm (one chord per bar or per beat), and a beam search
+ * picks one chord per slot from the key's chord vocabulary:
+ * - Diatonic chords, plus secondary dominants and borrowed chords
+ * - Scored by chord-tone coverage of the melody (downbeats count double)
+ * - Scored by functional flow (getHarmonicFunction) and the closing cadence
+ *   (detectCadences)
+ * - Scored by genre fit (the weights of matching GENRE_PATTERNS)
+ *
+ * @module harmonize
+ * @since v2.0.0
+ */
+
+import { Note } from 'tonal'
+import type {
+  ChordAnalysis,
+  Genre,
+  GenrePattern,
+  HarmonicFunction,
+  HarmonizationChordSource,
+  HarmonizationScore,
+  HarmonizeMelodyOptions,
+  Harmonization,
+  HarmonizedSlot,
+  WeightedNote,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { getChordData } from '../chord/symbol'
+import { parseSpellingKey, spellChordInKey } from '../chord/spelling'
+import { GENRE_PATTERNS } from '../genre/patterns'
+import { matchesPattern } from '../genre/detect'
+import { analyzeChordsInKey, getHarmonicFunction } from '../progression/analyze'
+import { detectCadences } from '../progression/cadences'
+import { findKeyFromNotes } from '../progression/key-profile'
+import { toRootPositionRoman } from '../progression/roman-numerals'
+
+/**
+ * Weights of the score components in the overall score.
+ * Genre fit counts for more when the caller asks for a genre.
+ */
+const SCORE_WEIGHTS = {
+  anyGenre: { coverage: 0.5, flow: 0.35, genre: 0.15 },
+  requestedGenre: { coverage: 0.45, flow: 0.3, genre: 0.25 },
+} as const
+
+/** Partial harmonizations kept after each slot */
+const BEAM_WIDTH = 64
+
+/** Most chords (slots) in a harmonization; each slot runs a beam search step */
+const MAX_SLOTS = 512
+
+/** Correlation gap within which a key ending on its tonic beats the best-correlated key */
+const KEY_CORRELATION_MARGIN = 0.15
+
+/** Maximum pattern weight in GENRE_PATTERNS, used to normalize genre fit */
+const MAX_PATTERN_WEIGHT = 10
+
+/**
+ * Chord vocabulary of a key: interval of the chord root above the tonic,
+ * chord symbol suffix, Roman numeral and source.
+ */
+const VOCABULARY: Readonly<
+  Record<
+    'major' | 'minor',
+    readonly {
+      interval: string
+      suffix: string
+      roman: string
+      source: HarmonizationChordSource
+    }[]
+  >
+> = {
+  major: [
+    { interval: '1P', suffix: '', roman: 'I', source: 'diatonic' },
+    { interval: '2M', suffix: 'm', roman: 'ii', source: 'diatonic' },
+    { interval: '3M', suffix: 'm', roman: 'iii', source: 'diatonic' },
+    { interval: '4P', suffix: '', roman: 'IV', source: 'diatonic' },
+    { interval: '5P', suffix: '', roman: 'V', source: 'diatonic' },
+    { interval: '5P', suffix: '7', roman: 'V7', source: 'diatonic' },
+    { interval: '6M', suffix: 'm', roman: 'vi', source: 'diatonic' },
+    { interval: '7M', suffix: 'dim', roman: 'vii°', source: 'diatonic' },
+    { interval: '6M', suffix: '7', roman: 'V7/ii', source: 'secondary-dominant' },
+    { interval: '7M', suffix: '7', roman: 'V7/iii', source: 'secondary-dominant' },
+    { interval: '1P', suffix: '7', roman: 'V7/IV', source: 'secondary-dominant' },
+    { interval: '2M', suffix: '7', roman: 'V7/V', source: 'secondary-dominant' },
+    { interval: '3M', suffix: '7', roman: 'V7/vi', source: 'secondary-dominant' },
+    { interval: '4P', suffix: 'm', roman: 'iv', source: 'borrowed' },
+    { interval: '3m', suffix: '', roman: '♭III', source: 'borrowed' },
+    { interval: '6m', suffix: '', roman: '♭VI', source: 'borrowed' },
+    { interval: '7m', suffix: '', roman: '♭VII', source: 'borrowed' },
+  ],
+  minor: [
+    { interval: '1P', suffix: 'm', roman: 'i', source: 'diatonic' },
+    { interval: '2M', suffix: 'dim', roman: 'ii°', source: 'diatonic' },
+    { interval: '3m', suffix: '', roman: 'III', source: 'diatonic' },
+    { interval: '4P', suffix: 'm', roman: 'iv', source: 'diatonic' },
+    { interval: '5P', suffix: 'm', roman: 'v', source: 'diatonic' },
+    { interval: '5P', suffix: '', roman: 'V', source: 'diatonic' },
+    { interval: '5P', suffix: '7', roman: 'V7', source: 'diatonic' },
+    { interval: '6m', suffix: '', roman: 'VI', source: 'diatonic' },
+    { interval: '7m', suffix: '', roman: 'VII', source: 'diatonic' },
+    { interval: '7M', suffix: 'dim', roman: 'vii°', source: 'diatonic' },
+    { interval: '7m', suffix: '7', roman: 'V7/III', source: 'secondary-dominant' },
+    { interval: '1P', suffix: '7', roman: 'V7/iv', source: 'secondary-dominant' },
+    { interval: '2M', suffix: '7', roman: 'V7/V', source: 'secondary-dominant' },
+    { interval: '3m', suffix: '7', roman: 'V7/VI', source: 'secondary-dominant' },
+    { interval: '4P', suffix: '', roman: 'IV', source: 'borrowed' },
+    { interval: '1P', suffix: '', roman: 'I', source: 'borrowed' },
+  ],
+}
+
+/**
+ * How well one harmonic function leads to the next (0.0-1.0).
+ * Rewards T → S → D → T motion and penalizes D → S retrogression.
+ */
+const FUNCTION_FLOW: Readonly<
+  Record<HarmonicFunction, Readonly<Record<HarmonicFunction, number>>>
+> = {
+  tonic: { tonic: 0.6, subdominant: 1, dominant: 0.8, deceptive: 0.9, passing: 0.7 },
+  subdominant: { tonic: 0.6, subdominant: 0.7, dominant: 1, deceptive: 0.5, passing: 0.6 },
+  dominant: { tonic: 1, subdominant: 0.2, dominant: 0.6, deceptive: 0.8, passing: 0.4 },
+  deceptive: { tonic: 0.5, subdominant: 1, dominant: 0.7, deceptive: 0.5, passing: 0.7 },
+  passing: { tonic: 0.6, subdominant: 0.9, dominant: 0.8, deceptive: 0.9, passing: 0.6 },
+}
+
+/** Memoized single-token results of matchesPattern(), keyed by "roman|pattern token" */
+const TOKEN_MATCHES = new Map<string, boolean>()
+
+/** Weight of the opening chord and closing cadence in the flow score, in chord-to-chord moves */
+const FRAME_WEIGHT = 2
+
+/** Score for the closing cadence, by type (no cadence scores lower) */
+const CADENCE_SCORES = { authentic: 1, plagal: 0.8, half: 0.6, deceptive: 0.5 } as const
+
+/**
+ * A chord of the key's vocabulary with what the search needs to score it.
+ *
+ * @internal
+ */
+interface CandidateChord {
+  readonly chord: string
+  readonly roman: string
+  readonly source: HarmonizationChordSource
+  readonly degree: number
+  readonly function: HarmonicFunction
+  /** Pitch class of the chord root */
+  readonly rootChroma: number
+  /** Pitch class of the root a secondary dominant resolves to */
+  readonly resolution: number | null
+  readonly tones: ReadonlySet<number>
+  /** Analysis of the chord in the key, shared by every harmonization that uses it */
+  readonly analysis: ChordAnalysis
+}
+
+/**
+ * A stretch of melody that gets one chord.
+ *
+ * @internal
+ */
+interface MelodySlot {
+  readonly bar: number
+  readonly beat: number
+  readonly start: number
+  readonly duration: number
+  readonly melody: string[]
+  /** Sounding time of each pitch class in the slot */
+  readonly weights: Map<number, number>
+  /** Pitch class sounding at the start of the slot */
+  readonly downbeat: number | null
+}
+
+/**
+ * A partial harmonization in the beam search.
+ *
+ * @internal
+ */
+interface SearchState {
+  /** Index of the last chord in the candidate list */
+  readonly candidate: number
+  /** State for the preceding slots (null before the first slot) */
+  readonly previous: SearchState | null
+  readonly coverage: number
+  readonly flow: number
+}
+
+/**
+ * Harmonizes a melody with ranked chord progressions.
+ *
+ * @param melody - Notes in order with durations in beats, or plain note names / MIDI
+ *   numbers (each one beat long)
+ * @param options - Key, genre, harmonic rhythm, meter, result count and chord vocabulary
+ * @returns Harmonizations, best first
+ * @throws {MusicReasoningError} If the melody is empty, a note is invalid, or an option is invalid
+ * @throws {MusicReasoningError} If the melody needs more than 512 chords (bars or beats)
+ *
+ * @example
+ * ```typescript
+ * const [best] = harmonizeMelody(
+ *   [
+ *     { pitch: 'E4', duration: 2 }, { pitch: 'G4', duration: 2 },
+ *     { pitch: 'F4', duration: 2 }, { pitch: 'A4', duration: 2 },
+ *     { pitch: 'D4', duration: 2 }, { pitch: 'B3', duration: 2 },
+ *     { pitch: 'C4', duration: 4 },
+ *   ],
+ *   { key: 'C major' }
+ * )
+ * // best.chords => ['C', 'F', 'G', 'C']
+ * // best.cadences => [{ type: 'authentic', chords: ['G', 'C'], strength: 'strong' }]
+ * ```
+ *
+ * @remarks
+ * Durations are in beats of the time signature's beat unit. When no key is
+ * given, it is found from the melody with findKeyFromNotes(). Coverage and
+ * chord-to-chord flow are scored during the search; the opening chord,
+ * closing cadence and genre patterns are scored on complete harmonizations.
+ * With a `genre`, only that genre's patterns count towards genre fit.
+ *
+ * @since v2.0.0
+ */
+export function harmonizeMelody(
+  melody: readonly (WeightedNote | string | number)[],
+  options?: HarmonizeMelodyOptions
+): Harmonization[] {
+  const [beatsPerBar] = options?.timeSignature ?? [4, 4]
+  const limit = options?.limit ?? 3
+  validateOptions(options, beatsPerBar, limit)
+
+  const notes = normalizeMelody(melody)
+  const key = options?.key
+    ? parseSpellingKey(options.key)
+    : detectMelodyKey(melody, notes[notes.length - 1]?.chroma ?? 0)
+
+  const slotLength = options?.harmonicRhythm === 'beat' ? 1 : beatsPerBar
+  const slots = buildSlots(notes, key, slotLength, beatsPerBar)
+  const candidates = buildCandidates(key, options?.chromatic ?? true)
+
+  const ranked = searchHarmonizations(slots, candidates)
+    .map((state) => scoreHarmonization(state, slots, candidates, key, options?.genre))
+    .sort((a, b) => b.score - a.score)
+
+  // Harmonizations that differ only in sevenths count as one (the best-scored)
+  const seen = new Set<string>()
+  return ranked
+    .filter((harmonization) => {
+      const outline = harmonization.slots.map((slot) => slot.roman.replace('7', '')).join('-')
+      if (seen.has(outline)) return false
+      seen.add(outline)
+      return true
+    })
+    .slice(0, limit)
+}
+
+/**
+ * Validates harmonization options.
+ *
+ * @internal
+ */
+function validateOptions(
+  options: HarmonizeMelodyOptions | undefined,
+  beatsPerBar: number,
+  limit: number
+): void {
+  if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Beats per bar must be a positive integer, got ${String(beatsPerBar)}`,
+      { timeSignature: options?.timeSignature }
+    )
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 10) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Limit must be an integer from 1 to 10, got ${String(limit)}`,
+      { limit }
+    )
+  }
+  const genre = options?.genre
+  if (genre !== undefined && !GENRE_PATTERNS.some((pattern) => pattern.genre === genre)) {
+    throw new MusicReasoningError('INVALID_OPTIONS', `Unknown genre: "${String(genre)}"`, {
+      genre,
+      suggestion: 'Use one of jazz, pop, classical, rock, edm or blues',
+    })
+  }
+  const rhythm = options?.harmonicRhythm
+  if (rhythm !== undefined && rhythm !== 'beat' && rhythm !== 'bar') {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Harmonic rhythm must be 'beat' or 'bar', got "${String(rhythm)}"`,
+      { harmonicRhythm: rhythm }
+    )
+  }
+}
+
+/**
+ * Validates melody notes and resolves their pitch classes and durations.
+ *
+ * @internal
+ */
+function normalizeMelody(
+  melody: readonly (WeightedNote | string | number)[]
+): { pitch: string | number; chroma: number; duration: number }[] {
+  if (melody.length === 0) {
+    throw new MusicReasoningError('INVALID_NOTES', 'Melody cannot be empty', {
+      suggestion: 'Provide notes such as [{ pitch: "E4", duration: 1 }]',
+    })
+  }
+
+  return melody.map((item, index) => {
+    const note = typeof item === 'object' ? item : { pitch: item }
+    const duration = note.duration ?? 1
+    const chroma =
+      typeof note.pitch === 'number'
+        ? Number.isInteger(note.pitch) && note.pitch >= 0 && note.pitch <= 127
+          ? note.pitch % 12
+          : Number.NaN
+        : Note.chroma(note.pitch)
+
+    if (Number.isNaN(chroma) || !Number.isFinite(duration) || duration <= 0) {
+      throw new MusicReasoningError(
+        'INVALID_NOTES',
+        `Invalid melody note at index ${String(index)}: ${JSON.stringify(item)}`,
+        {
+          index,
+          note: item,
+          suggestion: 'Use a note name or MIDI number and a positive duration in beats',
+        }
+      )
+    }
+
+    return { pitch: note.pitch, chroma, duration }
+  })
+}
+
+/**
+ * Finds the key of a melody by pitch-class-profile correlation. Among keys
+ * that correlate almost as well as the best, one whose tonic is the melody's
+ * last note wins: melodies usually end on the tonic.
+ *
+ * @internal
+ */
+function detectMelodyKey(
+  melody: readonly (WeightedNote | string | number)[],
+  lastChroma: number
+): { root: string; scaleType: 'major' | 'minor' } {
+  const { root, scaleType, correlations } = findKeyFromNotes(melody)
+  const best = correlations[0]?.correlation ?? 0
+  const endsOnTonic = correlations.find(
+    (candidate) =>
+      best - candidate.correlation <= KEY_CORRELATION_MARGIN &&
+      Note.chroma(candidate.root) === lastChroma
+  )
+  return endsOnTonic
+    ? { root: endsOnTonic.root, scaleType: endsOnTonic.scaleType }
+    : { root, scaleType }
+}
+
+/**
+ * Cuts the melody into slots of equal length, splitting notes that cross a
+ * slot boundary.
+ *
+ * @throws {MusicReasoningError} If the melody spans more than MAX_SLOTS slots
+ *
+ * @internal
+ */
+function buildSlots(
+  notes: readonly { pitch: string | number; chroma: number; duration: number }[],
+  key: { root: string; scaleType: 'major' | 'minor' },
+  slotLength: number,
+  beatsPerBar: number
+): MelodySlot[] {
+  const total = notes.reduce((sum, note) => sum + note.duration, 0)
+  const slotCount = Math.ceil(total / slotLength)
+  if (slotCount > MAX_SLOTS) {
+    throw new MusicReasoningError(
+      'INVALID_NOTES',
+      `Melody is too long to harmonize: ${String(slotCount)} chords (max ${String(MAX_SLOTS)})`,
+      {
+        beats: total,
+        suggestion: 'Harmonize the melody in sections, or use a bar harmonic rhythm',
+      }
+    )
+  }
+
+  const slots: MelodySlot[] = []
+
+  for (let start = 0; start < total; start += slotLength) {
+    const index = slots.length
+    slots.push({
+      bar: Math.floor((index * slotLength) / beatsPerBar) + 1,
+      beat: ((index * slotLength) % beatsPerBar) + 1,
+      start,
+      duration: Math.min(slotLength, total - start),
+      melody: [],
+      weights: new Map(),
+      downbeat: null,
+    })
+  }
+
+  let time = 0
+  for (const note of notes) {
+    const end = time + note.duration
+    const name =
+      typeof note.pitch === 'number'
+        ? spellChordInKey(Note.fromMidi(note.pitch), ['1P'], key).root
+        : Note.get(note.pitch).pc
+
+    for (let index = Math.floor(time / slotLength); index < slots.length; index++) {
+      const slot = slots[index]
+      if (!slot || slot.start >= end) break
+
+      const overlap = Math.min(end, slot.start + slot.duration) - Math.max(time, slot.start)
+      if (overlap <= 0) continue
+
+      slot.weights.set(note.chroma, (slot.weights.get(note.chroma) ?? 0) + overlap)
+      if (!slot.melody.includes(name)) slot.melody.push(name)
+      if (time <= slot.start && slot.downbeat === null) {
+        slots[index] = { ...slot, downbeat: note.chroma }
+      }
+    }
+    time = end
+  }
+
+  return slots
+}
+
+/**
+ * Builds the chord vocabulary of a key.
+ *
+ * @internal
+ */
+function buildCandidates(
+  key: { root: string; scaleType: 'major' | 'minor' },
+  chromatic: boolean
+): CandidateChord[] {
+  return VOCABULARY[key.scaleType]
+    .filter((entry) => chromatic || entry.source === 'diatonic')
+    .map((entry) => {
+      const root = Note.transpose(key.root, entry.interval)
+      const chord = (/##|bb/.test(root) ? Note.simplify(root) : root) + entry.suffix
+      const [analysis] = analyzeChordsInKey([chord], key.root, key.scaleType)
+      const { degree, quality } = analysis as ChordAnalysis
+
+      return {
+        chord,
+        roman: entry.roman,
+        source: entry.source,
+        degree,
+        function: getHarmonicFunction(degree, quality),
+        rootChroma: Note.chroma(root),
+        resolution: entry.source === 'secondary-dominant' ? (Note.chroma(root) + 5) % 12 : null,
+        tones: new Set(getChordData(chord).notes.map((note) => Note.chroma(note))),
+        analysis: analysis as ChordAnalysis,
+      }
+    })
+}
+
+/**
+ * Beam search over one chord per slot, keeping the best partial harmonizations
+ * by coverage and chord-to-chord flow.
+ *
+ * @internal
+ */
+function searchHarmonizations(
+  slots: readonly MelodySlot[],
+  candidates: readonly CandidateChord[]
+): SearchState[] {
+  const totalDuration = slots.reduce((sum, slot) => sum + slot.duration, 0)
+  const rank = (state: SearchState): number =>
+    SCORE_WEIGHTS.anyGenre.coverage * (state.coverage / totalDuration) +
+    SCORE_WEIGHTS.anyGenre.flow * (state.flow / (slots.length - 1 + 2 * FRAME_WEIGHT))
+  let beam: SearchState[] = []
+
+  for (const slot of slots) {
+    const next: SearchState[] = []
+    const coverages = candidates.map((candidate) => getSlotCoverage(slot, candidate, true))
+
+    for (const state of beam.length > 0 ? beam : [null]) {
+      const previous = state ? candidates[state.candidate] : undefined
+      candidates.forEach((candidate, index) => {
+        next.push({
+          candidate: index,
+          previous: state,
+          coverage: (state?.coverage ?? 0) + (coverages[index] ?? 0) * slot.duration,
+          flow: previous
+            ? (state?.flow ?? 0) + getTransition(previous, candidate)
+            : FRAME_WEIGHT * getOpeningScore(candidate),
+        })
+      })
+    }
+
+    next.sort((a, b) => rank(b) - rank(a))
+    beam = next.slice(0, BEAM_WIDTH)
+  }
+
+  return beam
+}
+
+/**
+ * Share of a slot's melody covered by a chord's tones, by duration.
+ * With `emphasizeDownbeat`, the note on the slot's first beat counts double.
+ *
+ * @internal
+ */
+function getSlotCoverage(
+  slot: MelodySlot,
+  candidate: CandidateChord,
+  emphasizeDownbeat: boolean
+): number {
+  let covered = 0
+  let total = 0
+  for (const [chroma, weight] of slot.weights) {
+    const emphasis = emphasizeDownbeat && chroma === slot.downbeat ? 2 : 1
+    total += weight * emphasis
+    if (candidate.tones.has(chroma)) covered += weight * emphasis
+  }
+  return total > 0 ? covered / total : 1
+}
+
+/**
+ * Scores the move from one chord to the next (0.0-1.0).
+ *
+ * @internal
+ */
+function getTransition(from: CandidateChord, to: CandidateChord): number {
+  // Secondary dominants should resolve to the degree they point at
+  if (from.resolution !== null) {
+    return to.rootChroma === from.resolution && to.source === 'diatonic' ? 1 : 0.2
+  }
+  // Repeating a chord keeps the harmony static
+  if (from.chord === to.chord) return 0.5
+  return FUNCTION_FLOW[from.function][to.function]
+}
+
+/**
+ * Scores how a harmonization starts: best on a tonic chord.
+ *
+ * @internal
+ */
+function getOpeningScore(candidate: CandidateChord): number {
+  return candidate.function === 'tonic' && candidate.source !== 'secondary-dominant' ? 1 : 0.5
+}
+
+/**
+ * Scores a complete harmonization and builds its result.
+ *
+ * @internal
+ */
+function scoreHarmonization(
+  state: SearchState,
+  slots: readonly MelodySlot[],
+  candidates: readonly CandidateChord[],
+  key: { root: string; scaleType: 'major' | 'minor' },
+  genre: Genre | undefined
+): Harmonization {
+  const chosen: CandidateChord[] = []
+  for (let step: SearchState | null = state; step; step = step.previous) {
+    chosen.unshift(candidates[step.candidate] as CandidateChord)
+  }
+  const chords = chosen.map((candidate) => candidate.chord)
+  const analysis = chosen.map((candidate) => candidate.analysis)
+
+  const totalDuration = slots.reduce((sum, slot) => sum + slot.duration, 0)
+  const coverage = totalDuration > 0 ? state.coverage / totalDuration : 1
+
+  const closing = getClosingScore(analysis, chords, chosen)
+  // Opening and closing each weigh as much as FRAME_WEIGHT chord-to-chord moves
+  const flow = (state.flow + FRAME_WEIGHT * closing) / (chords.length - 1 + 2 * FRAME_WEIGHT)
+
+  const { patterns: genrePatterns, chordWeights } = findGenrePatterns(analysis, genre)
+  const weights = genre ? SCORE_WEIGHTS.requestedGenre : SCORE_WEIGHTS.anyGenre
+  const patternWeight = chordWeights.reduce((sum, weight) => sum + weight, 0) / chords.length
+  const breakdown: HarmonizationScore = {
+    coverage,
+    flow,
+    genre: Math.min(patternWeight / MAX_PATTERN_WEIGHT, 1),
+  }
+
+  const slotResults: HarmonizedSlot[] = slots.map((slot, index) => {
+    const candidate = chosen[index] as CandidateChord
+    return {
+      chord: candidate.chord,
+      roman: candidate.roman,
+      source: candidate.source,
+      function: candidate.function,
+      bar: slot.bar,
+      beat: slot.beat,
+      start: slot.start,
+      duration: slot.duration,
+      melody: slot.melody,
+      chordToneRatio: getSlotCoverage(slot, candidate, false),
+    }
+  })
+
+  return {
+    key: `${key.root} ${key.scaleType}`,
+    chords,
+    slots: slotResults,
+    cadences: detectCadences(analysis, chords),
+    genrePatterns,
+    score:
+      weights.coverage * breakdown.coverage +
+      weights.flow * breakdown.flow +
+      weights.genre * breakdown.genre,
+    breakdown,
+  }
+}
+
+/**
+ * Scores how a harmonization ends: by its closing cadence, or whether it
+ * ends on the tonic when the last two chords form no cadence.
+ *
+ * @internal
+ */
+function getClosingScore(
+  analysis: readonly ChordAnalysis[],
+  chords: readonly string[],
+  chosen: readonly CandidateChord[]
+): number {
+  // A secondary dominant at the end never reaches its target
+  if (chosen[chosen.length - 1]?.source === 'secondary-dominant') return 0.2
+
+  const [cadence] = detectCadences(analysis.slice(-2), chords.slice(-2))
+  if (cadence) return CADENCE_SCORES[cadence.type]
+  return analysis[analysis.length - 1]?.degree === 1 ? 0.6 : 0.3
+}
+
+/**
+ * Finds the genre patterns contained in a chord sequence, and how strongly
+ * each chord belongs to one: the largest weight of a pattern occurrence
+ * covering it (0 for chords outside every pattern).
+ *
+ * @internal
+ */
+function findGenrePatterns(
+  analysis: readonly ChordAnalysis[],
+  genre: Genre | undefined
+): { patterns: GenrePattern[]; chordWeights: number[] } {
+  // Genre patterns are written in root position
+  const romans = analysis.map((chord) => toRootPositionRoman(chord.roman))
+  const chordWeights = romans.map(() => 0)
+  const patterns: GenrePattern[] = []
+
+  for (const pattern of GENRE_PATTERNS) {
+    if (genre && pattern.genre !== genre) continue
+
+    const tokens = pattern.pattern.split('-')
+    let found = false
+    for (let offset = 0; offset + tokens.length <= romans.length; offset++) {
+      if (!tokens.every((token, i) => tokenMatches(romans[offset + i] ?? '', token))) continue
+      found = true
+      for (let i = offset; i < offset + tokens.length; i++) {
+        chordWeights[i] = Math.max(chordWeights[i] ?? 0, pattern.weight)
+      }
+    }
+    if (found) patterns.push(pattern)
+  }
+
+  return { patterns, chordWeights }
+}
+
+/**
+ * Compares one Roman numeral with one pattern token, using matchesPattern() rules.
+ * Token pairs are compared once: long harmonizations are checked many times.
+ *
+ * @internal
+ */
+function tokenMatches(roman: string, token: string): boolean {
+  const cacheKey = `${roman}|${token}`
+  let matches = TOKEN_MATCHES.get(cacheKey)
+  if (matches === undefined) {
+    matches = matchesPattern(roman, token)
+    TOKEN_MATCHES.set(cacheKey, matches)
+  }
+  return matches
+}
@@ -0,0 +1,15 @@
+/**
+ * Melody Harmonization
+ * Ranked chord progressions for a melody from diatonic, applied and borrowed chords
+ */
+
+export { harmonizeMelody } from './harmonize'
+
+// Re-export canonical types from @music-reasoning/types
+export type {
+  HarmonizeMelodyOptions,
+  Harmonization,
+  HarmonizationChordSource,
+  HarmonizationScore,
+  HarmonizedSlot,
+} from '@music-reasoning/types'
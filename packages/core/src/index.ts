@@ -11,7 +11,19 @@ export {
 } from './chord/identify'
 
 // Chord building and voicing
-export { buildChord, generateVoicing, getSubstitutions } from './chord/build'
+export {
+  buildChord,
+  generateVoicing,
+  getSubstitutions,
+  voiceLead,
+  voiceLeadProgression,
+} from './chord/build'
+
+// Four-part voice-leading rules
+export { checkVoiceLeading } from './chord/voice-leading'
+
+// Chord symbol parsing and notation dialects
+export { parseChordSymbol, formatChordSymbol } from './chord/symbol'
 
 // Scale functions
 export {
@@ -53,12 +65,34 @@ export {
 export {
   analyzeProgression,
   detectKey,
+  detectKeyCandidates,
+  findKeyFromNotes,
   getRomanNumeral as getProgressionRomanNumeral,
   getRomanNumerals,
   getHarmonicFunction as getProgressionHarmonicFunction,
   detectCadences,
   detectPatterns,
+  detectKeyRegions,
+  detectForm,
 } from './progression'
 
+// Transposition
+export { transposeChord, transposeScale, transposeProgression } from './transpose'
+
+// Melody harmonization
+export { harmonizeMelody } from './harmonize'
+
+// MIDI import and export
+export { parseMidi, importMidi, exportMidi } from './midi'
+
+// Lead sheet parsing and serialization
+export { parseLeadSheet, serializeLeadSheet } from './leadsheet'
+
+// ChordPro import and export
+export { parseChordPro, serializeChordPro } from './chordpro'
+
+// MusicXML import and export
+export { importMusicXml, exportMusicXml, annotateMusicXml } from './musicxml'
+
 // Genre detection and patterns
 export * from './genre'
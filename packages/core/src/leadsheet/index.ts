@@ -0,0 +1,17 @@
+/**
+ * Lead sheet support
+ * Plain-text chord chart parsing into timed progressions for analysis, and
+ * serialization back to text
+ */
+
+export { parseLeadSheet } from './parse'
+export { serializeLeadSheet } from './serialize'
+
+// Re-export canonical types from @music-reasoning/types
+export type {
+  LeadSheet,
+  LeadSheetBar,
+  LeadSheetSection,
+  LeadSheetParseOptions,
+  LeadSheetSerializeOptions,
+} from '@music-reasoning/types'
@@ -0,0 +1,426 @@
+/**
+ * Lead Sheet Parsing
+ *
+ * Reads plain-text chord charts into sections, bars and timed chords:
+ *
+ * ```text
+ * Title: Example
+ * Key: C
+ * Time: 4/4
+ *
+ * [A]
+ * |: C | Am7 | Dm7 G7 |1. C A7 :|2. C / / G7 ||
+ * [B]
+ * | F | % | Fm | C |
+ * ```
+ *
+ * - `[Label]` starts a section; bars before the first label form an unlabeled section
+ * - Chords in a bar share it equally; `/` (or `.`, `%`) holds the previous chord for another slot
+ * - A bar of just `%` repeats the previous bar
+ * - `|:` and `:|` repeat the bars between them (a `:|` without `|:` repeats from the section start)
+ * - `|1.`, `|2.` open numbered endings of the repeat
+ * - `Title:`, `Key:` and `Time:` lines set the sheet's metadata
+ *
+ * @module leadsheet/parse
+ * @since v2.0.0
+ */
+
+import type {
+  LeadSheet,
+  LeadSheetBar,
+  LeadSheetParseOptions,
+  LeadSheetSection,
+  TimedChord,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { getChordData } from '../chord/symbol'
+
+/** Bar line: optional repeat end, single or double bar, optional repeat start */
+const BAR_LINE = /(:?\|\|?:?)/
+
+/** Metadata line (e.g., "Key: Bb") */
+const METADATA_LINE = /^(title|key|time)\s*:\s*(.*)$/i
+
+/** Section label line, optionally followed by bars (e.g., "[Chorus] | C | G |") */
+const SECTION_LINE = /^\[([^\]]+)\]\s*(.*)$/
+
+/** Time signature (e.g., "3/4") */
+const TIME_SIGNATURE = /^(\d+)\s*\/\s*(\d+)$/
+
+/** Ending marker at the start of a bar (e.g., "1.") */
+const ENDING_MARKER = /^(\d+)\.$/
+
+/** Tokens that hold the previous chord for another slot of the bar */
+const SLOT_TOKENS: ReadonlySet<string> = new Set(['/', '.', '%'])
+
+/** Mutable bar while its bar lines are being read */
+type DraftBar = { -readonly [K in keyof LeadSheetBar]: LeadSheetBar[K] }
+
+/** Mutable section while its lines are being read */
+interface DraftSection {
+  readonly label: string | null
+  readonly bars: DraftBar[]
+}
+
+/**
+ * Parses a plain-text lead sheet.
+ *
+ * @param text - Chord chart text
+ * @param options - Parse options (meter for sheets without a `Time:` line)
+ * @returns Sections with their bars, and the timed progression of each section and of the whole form
+ *
+ * @throws {MusicReasoningError} INVALID_LEAD_SHEET if the chart has no bars, or its bar lines, repeats or endings are malformed
+ * @throws {MusicReasoningError} INVALID_CHORD if a chord symbol is not recognized
+ *
+ * @example
+ * ```typescript
+ * const sheet = parseLeadSheet('[A]\n| C | Am7 | Dm7 G7 | C % |')
+ * // sheet.sections[0].label === 'A'
+ * // sheet.sections[0].bars[2].chords === [{ chord: 'Dm7', beats: 2 }, { chord: 'G7', beats: 2 }]
+ * // sheet.progression === [{ chord: 'C', beats: 4 }, { chord: 'Am7', beats: 4 }, ..., { chord: 'C', beats: 4 }]
+ *
+ * analyzeProgression(sheet.progression, { timeSignature: sheet.timeSignature })
+ * ```
+ *
+ * @example
+ * Repeats and endings are expanded in the progression:
+ * ```typescript
+ * const sheet = parseLeadSheet('|: C |1. G :|2. F ||')
+ * // sheet.progression.map((timed) => timed.chord) === ['C', 'G', 'C', 'F']
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function parseLeadSheet(text: string, options?: LeadSheetParseOptions): LeadSheet {
+  let title: string | undefined
+  let key: string | undefined
+  let timeSignature = options?.timeSignature ?? ([4, 4] as const)
+  let beatsPerBar = validateTimeSignature(timeSignature, 0)
+
+  const sections: DraftSection[] = []
+  let previousBar: DraftBar | null = null
+  let pendingRepeatStart = false
+
+  const lines = text.split(/\r?\n/)
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+    if (line === '') return
+
+    const metadata = METADATA_LINE.exec(line)
+    if (metadata) {
+      const field = (metadata[1] ?? '').toLowerCase()
+      const value = (metadata[2] ?? '').trim()
+      if (field === 'title') title = value
+      else if (field === 'key') key = value
+      else {
+        if (previousBar) {
+          throw invalidLeadSheet('the time signature must come before the first bar', {
+            line: lineNumber,
+          })
+        }
+        timeSignature = parseTimeSignature(value, lineNumber)
+        beatsPerBar = validateTimeSignature(timeSignature, lineNumber)
+      }
+      return
+    }
+
+    let barText = line
+    const label = SECTION_LINE.exec(line)
+    if (label) {
+      if (pendingRepeatStart) {
+        throw invalidLeadSheet('repeat sign |: is not followed by a bar', { line: lineNumber })
+      }
+      sections.push({ label: (label[1] ?? '').trim(), bars: [] })
+      barText = label[2] ?? ''
+      if (barText === '') return
+    }
+
+    if (sections.length === 0) sections.push({ label: null, bars: [] })
+    const section = sections[sections.length - 1]
+    if (!section) return // Type guard
+
+    // Splitting on the bar-line pattern alternates bar contents and bar lines
+    const parts = barText.split(BAR_LINE)
+    parts.forEach((part, partIndex) => {
+      if (partIndex % 2 === 1) {
+        const lastBar = section.bars[section.bars.length - 1]
+        if (part.startsWith(':')) {
+          if (!lastBar) {
+            throw invalidLeadSheet('repeat sign :| is not preceded by a bar', { line: lineNumber })
+          }
+          lastBar.repeatEnd = true
+        }
+        if (part.includes('||') && lastBar) lastBar.doubleBar = true
+        if (part.endsWith(':')) pendingRepeatStart = true
+        return
+      }
+
+      const content = part.trim()
+      if (content === '') {
+        // Bar lines at either end of a line leave empty parts
+        if (partIndex === 0 || partIndex === parts.length - 1) return
+        throw invalidLeadSheet('empty bar', { line: lineNumber })
+      }
+
+      const bar = parseBar(content, beatsPerBar, previousBar, lineNumber)
+      if (pendingRepeatStart) bar.repeatStart = true
+      pendingRepeatStart = false
+      section.bars.push(bar)
+      previousBar = bar
+    })
+  })
+
+  if (pendingRepeatStart) {
+    throw invalidLeadSheet('repeat sign |: is not followed by a bar', { line: lines.length })
+  }
+  if (!previousBar) {
+    throw invalidLeadSheet('no bars found', {})
+  }
+
+  const parsedSections: LeadSheetSection[] = sections.map((section) => ({
+    label: section.label,
+    bars: section.bars,
+    progression: mergeHeldChords(
+      expandRepeats(section.bars, section.label).flatMap(
+        (index) => section.bars[index]?.chords ?? []
+      )
+    ),
+  }))
+
+  return {
+    ...(title !== undefined && { title }),
+    ...(key !== undefined && { key }),
+    timeSignature,
+    sections: parsedSections,
+    progression: mergeHeldChords(parsedSections.flatMap((section) => section.progression)),
+  }
+}
+
+/**
+ * Lists bar indices in playing order, expanding repeats and endings.
+ *
+ * A repeat is played once more, or once per ending when it has numbered
+ * endings; each pass skips to the ending with its number.
+ *
+ * @throws {MusicReasoningError} INVALID_LEAD_SHEET for nested or unclosed repeats and missing endings
+ *
+ * @internal
+ */
+function expandRepeats(bars: readonly LeadSheetBar[], label: string | null): number[] {
+  const order: number[] = []
+  // Bar a :| jumps back to (the section start until the first repeat closes)
+  let repeatFrom: number | null = 0
+  let passes = countPasses(bars, 0)
+  let explicit = false
+  let pass = 1
+  let i = 0
+
+  while (i < bars.length) {
+    const bar = bars[i]
+    if (!bar) break // Type guard
+
+    if (bar.repeatStart && !(explicit && i === repeatFrom)) {
+      if (explicit) throw invalidLeadSheet('nested repeats are not supported', { section: label })
+      repeatFrom = i
+      passes = countPasses(bars, i)
+      explicit = true
+      pass = 1
+    }
+
+    if (bar.ending !== undefined) {
+      if (repeatFrom === null) {
+        throw invalidLeadSheet(`ending ${String(bar.ending)} is outside a repeat`, {
+          section: label,
+        })
+      }
+      if (bar.ending !== pass) {
+        const next = bars.findIndex((other, index) => index > i && other.ending === pass)
+        if (next === -1) {
+          throw invalidLeadSheet(`missing ending ${String(pass)}`, { section: label })
+        }
+        i = next
+        continue
+      }
+      if (pass === passes && !bar.repeatEnd) {
+        // The last ending plays through: the repeat is done
+        repeatFrom = null
+        explicit = false
+        pass = 1
+      } else if (pass < passes && !isEndingClosed(bars, i)) {
+        throw invalidLeadSheet(`ending ${String(bar.ending)} is not closed with :|`, {
+          section: label,
+        })
+      }
+    }
+
+    order.push(i)
+
+    if (bar.repeatEnd) {
+      if (repeatFrom === null) {
+        throw invalidLeadSheet('repeat sign :| has no matching |:', { section: label })
+      }
+      if (pass < passes) {
+        pass++
+        i = repeatFrom
+        continue
+      }
+      repeatFrom = null
+      explicit = false
+      pass = 1
+    }
+
+    i++
+  }
+
+  if (explicit) throw invalidLeadSheet('repeat sign |: is never closed', { section: label })
+  return order
+}
+
+/**
+ * Counts the passes through a repeat: two, or one per numbered ending.
+ *
+ * @internal
+ */
+function countPasses(bars: readonly LeadSheetBar[], from: number): number {
+  let passes = 2
+  for (let i = from; i < bars.length; i++) {
+    const bar = bars[i]
+    if (!bar || (i > from && bar.repeatStart)) break
+    if (bar.ending !== undefined) passes = Math.max(passes, bar.ending)
+  }
+  return passes
+}
+
+/**
+ * Checks whether an ending closes with a repeat sign before the next ending
+ * or repeat starts.
+ *
+ * @internal
+ */
+function isEndingClosed(bars: readonly LeadSheetBar[], from: number): boolean {
+  for (let i = from; i < bars.length; i++) {
+    const bar = bars[i]
+    if (!bar || (i > from && (bar.ending !== undefined || bar.repeatStart))) break
+    if (bar.repeatEnd) return true
+  }
+  return false
+}
+
+/**
+ * Parses the contents of one bar.
+ *
+ * @internal
+ */
+function parseBar(
+  content: string,
+  beatsPerBar: number,
+  previousBar: DraftBar | null,
+  line: number
+): DraftBar {
+  const tokens = content.split(/\s+/)
+  const bar: DraftBar = { chords: [] }
+
+  const ending = ENDING_MARKER.exec(tokens[0] ?? '')
+  if (ending) {
+    bar.ending = Number(ending[1])
+    tokens.shift()
+    if (bar.ending < 1) throw invalidLeadSheet('endings are numbered from 1', { line })
+  }
+
+  if (tokens.length === 0) throw invalidLeadSheet('empty bar', { line })
+
+  if (tokens.length === 1 && tokens[0] === '%') {
+    if (!previousBar) throw invalidLeadSheet('% has no previous bar to repeat', { line })
+    bar.chords = previousBar.chords
+    bar.simile = true
+    return bar
+  }
+
+  const slots: { chord: string; count: number }[] = []
+  for (const token of tokens) {
+    const last = slots[slots.length - 1]
+    if (SLOT_TOKENS.has(token)) {
+      if (!last) throw invalidLeadSheet(`"${token}" must follow a chord`, { line })
+      last.count++
+      continue
+    }
+    if (!getChordData(token).tonic) {
+      throw new MusicReasoningError(
+        'INVALID_CHORD',
+        `Invalid chord "${token}" on line ${String(line)}`,
+        {
+          chord: token,
+          line,
+        }
+      )
+    }
+    slots.push({ chord: token, count: 1 })
+  }
+
+  const totalSlots = slots.reduce((sum, slot) => sum + slot.count, 0)
+  bar.chords = slots.map((slot) => ({
+    chord: slot.chord,
+    beats: (slot.count * beatsPerBar) / totalSlots,
+  }))
+  return bar
+}
+
+/**
+ * Merges consecutive chords with the same symbol into one held chord.
+ *
+ * @internal
+ */
+function mergeHeldChords(chords: readonly TimedChord[]): TimedChord[] {
+  const merged: TimedChord[] = []
+  for (const timed of chords) {
+    const last = merged[merged.length - 1]
+    if (last?.chord === timed.chord) {
+      merged[merged.length - 1] = { chord: last.chord, beats: last.beats + timed.beats }
+    } else {
+      merged.push(timed)
+    }
+  }
+  return merged
+}
+
+/**
+ * Parses a `Time:` value (e.g., "3/4").
+ *
+ * @internal
+ */
+function parseTimeSignature(value: string, line: number): [number, number] {
+  const match = TIME_SIGNATURE.exec(value)
+  if (!match) throw invalidLeadSheet(`invalid time signature "${value}"`, { line })
+  return [Number(match[1]), Number(match[2])]
+}
+
+/**
+ * Validates a time signature and returns its beats per bar.
+ *
+ * @internal
+ */
+function validateTimeSignature(timeSignature: readonly [number, number], line: number): number {
+  const [beatsPerBar, beatUnit] = timeSignature
+  if (
+    !Number.isInteger(beatsPerBar) ||
+    !Number.isInteger(beatUnit) ||
+    beatsPerBar < 1 ||
+    beatUnit < 1
+  ) {
+    throw invalidLeadSheet(
+      `invalid time signature ${String(beatsPerBar)}/${String(beatUnit)}`,
+      line > 0 ? { line } : {}
+    )
+  }
+  return beatsPerBar
+}
+
+/**
+ * Creates an INVALID_LEAD_SHEET error.
+ *
+ * @internal
+ */
+function invalidLeadSheet(message: string, details: Record<string, unknown>): MusicReasoningError {
+  return new MusicReasoningError('INVALID_LEAD_SHEET', `Invalid lead sheet: ${message}`, details)
+}
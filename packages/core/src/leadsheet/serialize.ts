@@ -0,0 +1,117 @@
+/**
+ * Lead Sheet Serialization
+ *
+ * Writes a lead sheet back to the plain-text chart format read by
+ * parseLeadSheet(). Uneven bars are written with `/` beat slots, and bars
+ * written as `%` stay `%`.
+ *
+ * @module leadsheet/serialize
+ * @since v2.0.0
+ */
+
+import type { LeadSheet, LeadSheetBar, LeadSheetSerializeOptions } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+/** Default number of bars per line */
+const DEFAULT_BARS_PER_LINE = 4
+
+/** Most slots tried when writing an uneven bar with `/` */
+const MAX_SLOTS = 32
+
+/** Tolerance for slot counts computed from fractional beats */
+const EPSILON = 1e-9
+
+/**
+ * Serializes a lead sheet to plain text.
+ *
+ * Parsing the text again gives back the same sheet.
+ *
+ * @param sheet - Lead sheet, usually from parseLeadSheet()
+ * @param options - Layout options
+ * @returns Chord chart text
+ *
+ * @throws {MusicReasoningError} INVALID_OPTIONS if barsPerLine is not a positive integer
+ *
+ * @example
+ * ```typescript
+ * serializeLeadSheet(parseLeadSheet('Key: C\n[A]\n|: C | Am7 | Dm7 G7 :|'))
+ * // 'Key: C\n\n[A]\n|: C | Am7 | Dm7 G7 :|\n'
+ * ```
+ *
+ * @example
+ * Uneven bars use beat slots:
+ * ```typescript
+ * serializeLeadSheet(parseLeadSheet('| C . . G7 | C |'))
+ * // '| C / / G7 | C |\n'
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function serializeLeadSheet(sheet: LeadSheet, options?: LeadSheetSerializeOptions): string {
+  const barsPerLine = options?.barsPerLine ?? DEFAULT_BARS_PER_LINE
+  if (!Number.isInteger(barsPerLine) || barsPerLine < 1) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Bars per line must be a positive integer, got ${String(barsPerLine)}`,
+      { barsPerLine }
+    )
+  }
+
+  const header: string[] = []
+  if (sheet.title !== undefined) header.push(`Title: ${sheet.title}`)
+  if (sheet.key !== undefined) header.push(`Key: ${sheet.key}`)
+  const [beatsPerBar, beatUnit] = sheet.timeSignature
+  if (beatsPerBar !== 4 || beatUnit !== 4) {
+    header.push(`Time: ${String(beatsPerBar)}/${String(beatUnit)}`)
+  }
+
+  const blocks = sheet.sections.map((section) => {
+    const lines = section.label === null ? [] : [`[${section.label}]`]
+    for (let start = 0; start < section.bars.length; start += barsPerLine) {
+      lines.push(formatLine(section.bars.slice(start, start + barsPerLine)))
+    }
+    return lines.join('\n')
+  })
+
+  return [...(header.length > 0 ? [header.join('\n')] : []), ...blocks].join('\n\n') + '\n'
+}
+
+/**
+ * Writes a line of bars with their bar lines, repeat signs and endings.
+ *
+ * @internal
+ */
+function formatLine(bars: readonly LeadSheetBar[]): string {
+  let text = bars[0]?.repeatStart ? '|:' : '|'
+  bars.forEach((bar, index) => {
+    const ending = bar.ending === undefined ? ' ' : `${String(bar.ending)}. `
+    const close = (bar.repeatEnd ? ':' : '') + (bar.doubleBar ? '||' : '|')
+    const open = bars[index + 1]?.repeatStart ? ':' : ''
+    text += `${ending}${formatBar(bar)} ${close}${open}`
+  })
+  return text
+}
+
+/**
+ * Writes the chords of a bar, with `/` slots when they are not equally long.
+ *
+ * @internal
+ */
+function formatBar(bar: LeadSheetBar): string {
+  if (bar.simile) return '%'
+
+  const total = bar.chords.reduce((sum, timed) => sum + timed.beats, 0)
+  for (let slots = bar.chords.length; slots <= MAX_SLOTS; slots++) {
+    const counts = bar.chords.map((timed) => (timed.beats * slots) / total)
+    if (counts.every((count) => Math.abs(count - Math.round(count)) < EPSILON)) {
+      return bar.chords
+        .map((timed, index) =>
+          [timed.chord, ...Array<string>(Math.round(counts[index] ?? 1) - 1).fill('/')].join(' ')
+        )
+        .join(' ')
+    }
+  }
+
+  // Lengths no slot grid can express are written as equal chords
+  return bar.chords.map((timed) => timed.chord).join(' ')
+}
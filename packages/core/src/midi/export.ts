@@ -0,0 +1,375 @@
+/**
+ * MIDI Export
+ *
+ * Writes chord progressions as Standard MIDI Files (format 1) so suggested
+ * chords, voicings and substitutions can be auditioned in a DAW.
+ *
+ * Track layout:
+ * - Track 0: tempo, time signature and sequence name
+ * - Track 1: voiced chords (channel 1)
+ * - Track 2: bass line on the chord root or slash bass (channel 2, optional)
+ *
+ * @module midi/export
+ * @since v2.0.0
+ */
+
+import { Note } from 'tonal'
+import type { MidiExportOptions } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { generateVoicing } from '../chord/build'
+import { getChordData } from '../chord/symbol'
+
+/** Default ticks per quarter note */
+const DEFAULT_TICKS_PER_BEAT = 480
+
+/** Microseconds per minute, used to convert BPM to Set Tempo values */
+const MICROSECONDS_PER_MINUTE = 60_000_000
+
+/** Largest Set Tempo value (24 bits of microseconds per quarter note, about 3.58 BPM) */
+const MAX_TEMPO_MICROSECONDS = 0xffffff
+
+/** Largest time-signature numerator (one byte) */
+const MAX_NUMERATOR = 255
+
+/** Largest time-signature denominator (128th notes, as parseMidi() accepts) */
+const MAX_DENOMINATOR = 128
+
+/** Largest delta time a variable-length quantity holds (28 bits) */
+const MAX_DELTA_TICKS = 0x0fffffff
+
+/**
+ * A note event in ticks, before encoding.
+ *
+ * @internal
+ */
+interface ScheduledNote {
+  readonly pitch: number
+  readonly start: number
+  readonly end: number
+}
+
+/**
+ * Exports a chord progression as a Standard MIDI File.
+ *
+ * @param chords - Chord symbols (e.g., ['Dm7', 'G7', 'Cmaj7'] or getSubstitutions() output)
+ * @param options - Tempo, meter, durations, rhythm, velocity, voicing and bass options
+ * @returns Format 1 MIDI file bytes, ready to write to disk or download
+ * @throws {MusicReasoningError} If a chord symbol is invalid or an option is out of range
+ *
+ * @remarks
+ * Durations and rhythm values are in beats of the time signature's beat unit
+ * (quarter notes in 4/4, eighth notes in 6/8). A rhythm pattern restarts at
+ * every chord and is cut off at the chord's end.
+ *
+ * @example
+ * ```typescript
+ * const bytes = exportMidi(['C', 'Am', 'F', 'G/B'], { tempo: 96, rhythm: [1, 1, 2] })
+ * await fs.writeFile('progression.mid', bytes)
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function exportMidi(chords: readonly string[], options?: MidiExportOptions): Uint8Array {
+  const tempo = options?.tempo ?? 120
+  const [numerator, denominator] = options?.timeSignature ?? [4, 4]
+  const velocity = options?.velocity ?? 90
+  const voicing = options?.voicing ?? 'close'
+  const octave = options?.octave ?? 4
+  const bassTrack = options?.bassTrack ?? true
+  const bassOctave = options?.bassOctave ?? 2
+  const ticksPerBeat = options?.ticksPerBeat ?? DEFAULT_TICKS_PER_BEAT
+
+  validateExportOptions(options, { tempo, numerator, denominator, velocity, ticksPerBeat })
+
+  // Ticks per beat of the time signature's beat unit
+  const beatTicks = (ticksPerBeat * 4) / denominator
+  const rhythm = options?.rhythm && options.rhythm.length > 0 ? options.rhythm : null
+
+  const chordNotes: ScheduledNote[] = []
+  const bassNotes: ScheduledNote[] = []
+  let tick = 0
+
+  chords.forEach((symbol, index) => {
+    const durations = options?.durations
+    const beats = (typeof durations === 'number' ? durations : durations?.[index]) ?? numerator
+    if (!(beats > 0)) {
+      throw new MusicReasoningError(
+        'INVALID_OPTIONS',
+        `Duration for chord ${String(index)} ("${symbol}") must be a positive number of beats`,
+        { index, chord: symbol, beats }
+      )
+    }
+
+    const pitches = generateVoicing(symbol, { type: voicing, octave }).map((note) =>
+      toMidiPitch(note, symbol)
+    )
+    const bassPitch = toMidiPitch(getBassNote(symbol) + String(bassOctave), symbol)
+    const end = tick + Math.round(beats * beatTicks)
+
+    for (const hit of scheduleHits(tick, end, rhythm, beatTicks)) {
+      for (const pitch of pitches) chordNotes.push({ pitch, ...hit })
+      if (bassTrack) bassNotes.push({ pitch: bassPitch, ...hit })
+    }
+
+    tick = end
+  })
+
+  const tracks = [
+    encodeConductorTrack(tempo, numerator, denominator),
+    encodeNoteTrack('Chords', chordNotes, 0, velocity),
+  ]
+  if (bassTrack) tracks.push(encodeNoteTrack('Bass', bassNotes, 1, velocity))
+
+  return encodeFile(tracks, ticksPerBeat)
+}
+
+/**
+ * Validates numeric export options.
+ *
+ * @internal
+ */
+function validateExportOptions(
+  options: MidiExportOptions | undefined,
+  values: {
+    tempo: number
+    numerator: number
+    denominator: number
+    velocity: number
+    ticksPerBeat: number
+  }
+): void {
+  const { tempo, numerator, denominator, velocity, ticksPerBeat } = values
+
+  if (!(tempo > 0)) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Tempo must be positive, got ${String(tempo)}`,
+      { tempo }
+    )
+  }
+  const micros = Math.round(MICROSECONDS_PER_MINUTE / tempo)
+  if (!(micros >= 1 && micros <= MAX_TEMPO_MICROSECONDS)) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Tempo ${String(tempo)} BPM does not fit a MIDI Set Tempo event`,
+      { tempo }
+    )
+  }
+  if (!Number.isInteger(velocity) || velocity < 1 || velocity > 127) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Velocity must be an integer from 1 to 127, got ${String(velocity)}`,
+      { velocity }
+    )
+  }
+  if (
+    !Number.isInteger(numerator) ||
+    numerator < 1 ||
+    numerator > MAX_NUMERATOR ||
+    !Number.isInteger(Math.log2(denominator)) ||
+    denominator < 1 ||
+    denominator > MAX_DENOMINATOR
+  ) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Invalid time signature ${String(numerator)}/${String(denominator)}`,
+      { timeSignature: options?.timeSignature }
+    )
+  }
+  if (!Number.isInteger(ticksPerBeat) || ticksPerBeat < 1 || ticksPerBeat > 0x7fff) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `ticksPerBeat must be an integer from 1 to 32767, got ${String(ticksPerBeat)}`,
+      { ticksPerBeat }
+    )
+  }
+}
+
+/**
+ * Splits a chord's time span into hits following the rhythm pattern.
+ *
+ * @internal
+ */
+function scheduleHits(
+  start: number,
+  end: number,
+  rhythm: readonly number[] | null,
+  beatTicks: number
+): { start: number; end: number }[] {
+  if (!rhythm) return [{ start, end }]
+
+  const hits: { start: number; end: number }[] = []
+  let tick = start
+  for (let i = 0; tick < end; i++) {
+    const value = rhythm[i % rhythm.length] ?? 0
+    const length = Math.round(Math.abs(value) * beatTicks)
+    // A zero-length pattern would never advance
+    if (length === 0) break
+    if (value > 0) hits.push({ start: tick, end: Math.min(tick + length, end) })
+    tick += length
+  }
+  return hits
+}
+
+/**
+ * Returns the bass note of a chord: the slash bass if present, otherwise the root.
+ *
+ * @internal
+ */
+function getBassNote(symbol: string): string {
+  const chordData = getChordData(symbol)
+  return chordData.bass || chordData.tonic || ''
+}
+
+/**
+ * Converts a note with octave to a MIDI pitch, validating the range.
+ *
+ * @internal
+ */
+function toMidiPitch(note: string, symbol: string): number {
+  const midi = Note.midi(note)
+  if (midi === null || midi < 0 || midi > 127) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Note "${note}" of chord "${symbol}" is outside the MIDI range`,
+      { note, chord: symbol }
+    )
+  }
+  return midi
+}
+
+/**
+ * Encodes the conductor track with tempo and time signature.
+ *
+ * @internal
+ */
+function encodeConductorTrack(tempo: number, numerator: number, denominator: number): number[] {
+  const micros = Math.round(MICROSECONDS_PER_MINUTE / tempo)
+  return [
+    ...metaEvent(0x03, textBytes('Music Reasoning SDK')),
+    ...metaEvent(0x51, [(micros >> 16) & 0xff, (micros >> 8) & 0xff, micros & 0xff]),
+    // nn dd cc bb: 24 MIDI clocks per metronome click, 8 thirty-seconds per quarter
+    ...metaEvent(0x58, [numerator, Math.log2(denominator), 24, 8]),
+    ...metaEvent(0x2f, []),
+  ]
+}
+
+/**
+ * Encodes a named track of notes on one channel.
+ *
+ * @internal
+ */
+function encodeNoteTrack(
+  name: string,
+  notes: readonly ScheduledNote[],
+  channel: number,
+  velocity: number
+): number[] {
+  const events: { tick: number; on: boolean; pitch: number }[] = []
+  for (const note of notes) {
+    events.push({ tick: note.start, on: true, pitch: note.pitch })
+    events.push({ tick: note.end, on: false, pitch: note.pitch })
+  }
+  // Note-offs before note-ons at the same tick so repeated notes retrigger cleanly
+  events.sort((a, b) => a.tick - b.tick || Number(a.on) - Number(b.on) || a.pitch - b.pitch)
+
+  const bytes = metaEvent(0x03, textBytes(name))
+  let tick = 0
+  for (const event of events) {
+    bytes.push(
+      ...varint(event.tick - tick),
+      (event.on ? 0x90 : 0x80) | channel,
+      event.pitch,
+      event.on ? velocity : 0
+    )
+    tick = event.tick
+  }
+  bytes.push(...metaEvent(0x2f, []))
+  return bytes
+}
+
+/**
+ * Wraps encoded track bodies in MThd/MTrk chunks.
+ *
+ * @internal
+ */
+function encodeFile(tracks: readonly number[][], ticksPerBeat: number): Uint8Array {
+  const header: number[] = [
+    ...textBytes('MThd'),
+    ...uint32(6),
+    0,
+    1, // Format 1
+    (tracks.length >> 8) & 0xff,
+    tracks.length & 0xff,
+    (ticksPerBeat >> 8) & 0xff,
+    ticksPerBeat & 0xff,
+  ]
+
+  // Copy into a preallocated buffer; spreading long tracks into push() overflows the stack
+  const bytes = new Uint8Array(
+    header.length + tracks.reduce((total, track) => total + 8 + track.length, 0)
+  )
+  bytes.set(header)
+  let offset = header.length
+  for (const track of tracks) {
+    bytes.set([...textBytes('MTrk'), ...uint32(track.length)], offset)
+    bytes.set(track, offset + 8)
+    offset += 8 + track.length
+  }
+
+  return bytes
+}
+
+/**
+ * Encodes a meta event at delta time 0.
+ *
+ * @internal
+ */
+function metaEvent(type: number, data: readonly number[]): number[] {
+  return [0, 0xff, type, ...varint(data.length), ...data]
+}
+
+/**
+ * Encodes a variable-length quantity.
+ *
+ * @throws {MusicReasoningError} If the value exceeds 28 bits (a delta time too long for MIDI)
+ *
+ * @internal
+ */
+function varint(value: number): number[] {
+  if (value > MAX_DELTA_TICKS) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Delta time of ${String(value)} ticks exceeds the MIDI limit of ${String(MAX_DELTA_TICKS)}`,
+      { ticks: value }
+    )
+  }
+  const bytes = [value & 0x7f]
+  let rest = value >>> 7
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80)
+    rest >>>= 7
+  }
+  return bytes
+}
+
+/**
+ * Encodes a 32-bit big-endian unsigned integer.
+ *
+ * @internal
+ */
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * Encodes ASCII text (non-ASCII characters are replaced with "?").
+ *
+ * @internal
+ */
+function textBytes(text: string): number[] {
+  return [...text].map((char) => {
+    const code = char.charCodeAt(0)
+    return code < 0x80 ? code : 0x3f
+  })
+}
@@ -0,0 +1,230 @@
+/**
+ * MIDI Harmonic Import
+ *
+ * Segments a MIDI file into beat or bar windows, identifies the chord sounding
+ * in each window, and analyzes the resulting progression.
+ *
+ * Pipeline:
+ * 1. parseMidi() decodes the file into notes
+ * 2. Notes are split into windows on the bar/beat grid (honoring meter changes)
+ * 3. identifyChord() runs on the pitch classes that sound long enough in each window
+ * 4. analyzeProgression() runs on the identified chord symbols
+ *
+ * @module midi/import
+ * @since v2.0.0
+ */
+
+import { Chord } from 'tonal'
+import type {
+  ChordIdentification,
+  HarmonicWindow,
+  MidiFile,
+  MidiImport,
+  MidiImportOptions,
+  MidiNote,
+} from '@music-reasoning/types'
+import { identifyChord } from '../chord/identify'
+import { analyzeProgression } from '../progression'
+import { invalidMidi, parseMidi } from './parse'
+
+/** General MIDI percussion channel (channel 10, zero-based 9) */
+const DRUM_CHANNEL = 9
+
+/**
+ * Default minimum fraction of a window a pitch class must sound
+ *
+ * @internal
+ */
+export const DEFAULT_MIN_DURATION = 0.25
+
+/** Most bar or beat windows a file may be split into */
+const MAX_WINDOWS = 100_000
+
+/** Smallest number of pitch classes worth identifying as a chord */
+const MIN_CHORD_SIZE = 2
+
+/** Pitch-class names for MIDI note numbers (common black-key spellings) */
+const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'] as const
+
+/**
+ * Imports a MIDI file and analyzes its harmony.
+ *
+ * @param input - Raw Standard MIDI File bytes, or a file already decoded with parseMidi()
+ * @param options - Segmentation and filtering options
+ * @returns Harmonic windows, chord symbols and progression analysis
+ * @throws {MusicReasoningError} If the bytes are not a valid format 0/1 MIDI file, a decoded
+ *   file has a non-positive time division or meter, or the file spans more than 100,000 windows
+ *
+ * @example
+ * ```typescript
+ * const result = importMidi(bytes, { segmentBy: 'bar' })
+ * // result.chords === ['C', 'Am', 'F', 'G']
+ * // result.analysis?.key === 'C major'
+ * // result.windows[1] === { bar: 2, beat: 1, pitchClasses: ['A', 'C', 'E'], chord: 'Am', ... }
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function importMidi(input: Uint8Array | MidiFile, options?: MidiImportOptions): MidiImport {
+  const file = input instanceof Uint8Array ? parseMidi(input) : input
+  const segmentBy = options?.segmentBy ?? 'bar'
+  const minDuration = options?.minDuration ?? DEFAULT_MIN_DURATION
+  const ignoreDrums = options?.ignoreDrums ?? true
+  const mergeRepeats = options?.mergeRepeats ?? true
+
+  const notes = file.tracks
+    .flatMap((track) => track.notes)
+    .filter((note) => note.durationTicks > 0 && !(ignoreDrums && note.channel === DRUM_CHANNEL))
+
+  const endTick = notes.reduce((end, note) => Math.max(end, note.startTick + note.durationTicks), 0)
+
+  const windows = buildGrid(file, segmentBy, endTick).map((slot) => {
+    const pitchClasses = getSoundingPitchClasses(notes, slot.startTick, slot.endTick, minDuration)
+    const identification = identifyWindow(pitchClasses)
+    const window: HarmonicWindow = {
+      ...slot,
+      pitchClasses,
+      chord: identification ? toChordSymbol(identification) : null,
+    }
+    return identification ? { ...window, identification } : window
+  })
+
+  const chords: string[] = []
+  for (const window of windows) {
+    if (window.chord === null) continue
+    if (mergeRepeats && chords[chords.length - 1] === window.chord) continue
+    chords.push(window.chord)
+  }
+
+  return {
+    file,
+    windows,
+    chords,
+    analysis: chords.length > 0 ? analyzeProgression(chords) : null,
+  }
+}
+
+/**
+ * Builds the bar or beat grid up to the last sounding tick, honoring meter changes.
+ *
+ * @throws {MusicReasoningError} If a bar is not positive or the grid exceeds MAX_WINDOWS
+ *
+ * @internal
+ */
+function buildGrid(
+  file: MidiFile,
+  segmentBy: 'beat' | 'bar',
+  endTick: number
+): { startTick: number; endTick: number; bar: number; beat: number }[] {
+  const grid: { startTick: number; endTick: number; bar: number; beat: number }[] = []
+  const meters =
+    file.timeSignatures.length > 0 && file.timeSignatures[0]?.tick === 0
+      ? file.timeSignatures
+      : [{ tick: 0, numerator: 4, denominator: 4 }, ...file.timeSignatures]
+
+  let tick = 0
+  let bar = 1
+  let meterIndex = 0
+
+  while (tick < endTick) {
+    // Advance to the meter in effect at this bar line
+    while ((meters[meterIndex + 1]?.tick ?? Infinity) <= tick) meterIndex++
+    const meter = meters[meterIndex]
+    if (!meter) break // Type guard
+
+    const beatTicks = (file.ticksPerBeat * 4) / meter.denominator
+    const barTicks = beatTicks * meter.numerator
+    if (!(barTicks > 0)) {
+      throw invalidMidi('Bar length must be positive', {
+        ticksPerBeat: file.ticksPerBeat,
+        numerator: meter.numerator,
+        denominator: meter.denominator,
+      })
+    }
+    // A meter change mid-bar starts a new bar at the change
+    const barEnd = Math.min(tick + barTicks, meters[meterIndex + 1]?.tick ?? Infinity)
+
+    if (segmentBy === 'bar') {
+      grid.push({ startTick: tick, endTick: barEnd, bar, beat: 1 })
+    } else {
+      for (let beat = 1, start = tick; start < barEnd; beat++, start += beatTicks) {
+        grid.push({ startTick: start, endTick: Math.min(start + beatTicks, barEnd), bar, beat })
+        if (grid.length > MAX_WINDOWS) break
+      }
+    }
+    if (grid.length > MAX_WINDOWS) {
+      throw invalidMidi(`File spans more than ${String(MAX_WINDOWS)} ${segmentBy} windows`, {
+        endTick,
+      })
+    }
+
+    tick = barEnd
+    bar++
+  }
+
+  return grid
+}
+
+/**
+ * Returns pitch classes that sound for at least `minDuration` of the window,
+ * ordered by the lowest pitch at which each sounds (bass first).
+ *
+ * @internal
+ */
+export function getSoundingPitchClasses(
+  notes: readonly MidiNote[],
+  start: number,
+  end: number,
+  minDuration: number
+): string[] {
+  const length = end - start
+  const sounding = new Map<number, { ticks: number; lowest: number }>()
+
+  for (const note of notes) {
+    const overlap =
+      Math.min(end, note.startTick + note.durationTicks) - Math.max(start, note.startTick)
+    if (overlap <= 0) continue
+
+    const chroma = note.pitch % 12
+    const entry = sounding.get(chroma) ?? { ticks: 0, lowest: note.pitch }
+    // Overlapping notes of the same pitch class are capped at the window length
+    entry.ticks = Math.min(length, entry.ticks + overlap)
+    entry.lowest = Math.min(entry.lowest, note.pitch)
+    sounding.set(chroma, entry)
+  }
+
+  return [...sounding.entries()]
+    .filter(([, entry]) => entry.ticks / length >= minDuration)
+    .sort((a, b) => a[1].lowest - b[1].lowest)
+    .map(([chroma]) => PITCH_CLASS_NAMES[chroma] ?? 'C')
+}
+
+/**
+ * Identifies the chord in a window. Returns null when too few pitch classes
+ * sound or no chord matches.
+ *
+ * @internal
+ */
+export function identifyWindow(pitchClasses: readonly string[]): ChordIdentification | null {
+  if (pitchClasses.length < MIN_CHORD_SIZE) return null
+
+  try {
+    return identifyChord([...pitchClasses])
+  } catch {
+    // Clusters and other non-tertian sonorities are left unlabeled
+    return null
+  }
+}
+
+/**
+ * Converts an identification result to a chord symbol (e.g., "C major" → "C").
+ *
+ * @internal
+ */
+export function toChordSymbol(identification: ChordIdentification): string {
+  const chordData = Chord.get(identification.chord)
+  if (chordData.empty || !chordData.tonic) return identification.chord
+
+  const alias = chordData.aliases[0] ?? ''
+  return chordData.tonic + (alias === 'M' ? '' : alias)
+}
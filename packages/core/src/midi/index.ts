@@ -0,0 +1,22 @@
+/**
+ * MIDI file support
+ * Pure TypeScript Standard MIDI File reading for harmonic analysis and writing
+ * for auditioning progressions
+ */
+
+export { parseMidi } from './parse'
+export { importMidi } from './import'
+export { exportMidi } from './export'
+
+// Re-export canonical types from @music-reasoning/types
+export type {
+  MidiFile,
+  MidiTrack,
+  MidiNote,
+  MidiTempo,
+  MidiTimeSignature,
+  MidiImportOptions,
+  MidiImport,
+  HarmonicWindow,
+  MidiExportOptions,
+} from '@music-reasoning/types'
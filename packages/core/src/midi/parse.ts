@@ -0,0 +1,347 @@
+/**
+ * Standard MIDI File Parser
+ *
+ * Decodes Standard MIDI Files (format 0 and 1) from raw bytes into notes,
+ * tempo changes and time signatures. Pure TypeScript with no native or
+ * Node-specific dependencies, so it runs in browsers and Node alike.
+ *
+ * @module midi/parse
+ * @since v2.0.0
+ */
+
+import type {
+  MidiFile,
+  MidiNote,
+  MidiTempo,
+  MidiTimeSignature,
+  MidiTrack,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+/** Microseconds per minute, used to convert Set Tempo values to BPM */
+const MICROSECONDS_PER_MINUTE = 60_000_000
+
+/** Largest time-signature denominator exponent (2^7: 128th notes) */
+const MAX_DENOMINATOR_EXPONENT = 7
+
+/** Meta event types that the parser reads */
+const META = {
+  TRACK_NAME: 0x03,
+  END_OF_TRACK: 0x2f,
+  SET_TEMPO: 0x51,
+  TIME_SIGNATURE: 0x58,
+} as const
+
+/**
+ * Sequential big-endian reader over a byte array.
+ *
+ * @internal
+ */
+class ByteReader {
+  private position: number
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    start: number = 0,
+    private readonly end: number = bytes.length
+  ) {
+    this.position = start
+  }
+
+  get offset(): number {
+    return this.position
+  }
+
+  get done(): boolean {
+    return this.position >= this.end
+  }
+
+  uint8(): number {
+    if (this.position >= this.end) {
+      throw invalidMidi('Unexpected end of data', { offset: this.position })
+    }
+    const value = this.bytes[this.position] ?? 0
+    this.position++
+    return value
+  }
+
+  peek(): number {
+    if (this.position >= this.end) {
+      throw invalidMidi('Unexpected end of data', { offset: this.position })
+    }
+    return this.bytes[this.position] ?? 0
+  }
+
+  uint16(): number {
+    return (this.uint8() << 8) | this.uint8()
+  }
+
+  uint32(): number {
+    return ((this.uint16() << 16) >>> 0) + this.uint16()
+  }
+
+  /** Reads a variable-length quantity (up to 4 bytes) */
+  varint(): number {
+    let value = 0
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8()
+      value = (value << 7) | (byte & 0x7f)
+      if ((byte & 0x80) === 0) return value
+    }
+    throw invalidMidi('Variable-length quantity exceeds 4 bytes', { offset: this.position })
+  }
+
+  ascii(length: number): string {
+    let text = ''
+    for (let i = 0; i < length; i++) {
+      text += String.fromCharCode(this.uint8())
+    }
+    return text
+  }
+
+  skip(length: number): void {
+    if (this.position + length > this.end) {
+      throw invalidMidi('Unexpected end of data', { offset: this.position })
+    }
+    this.position += length
+  }
+
+  slice(length: number): Uint8Array {
+    const start = this.position
+    this.skip(length)
+    return this.bytes.subarray(start, start + length)
+  }
+}
+
+/**
+ * Parses a Standard MIDI File.
+ *
+ * @param bytes - Raw file contents (e.g., from `fs.readFile` or `fetch().arrayBuffer()`)
+ * @returns Decoded tracks with paired notes, tempo changes and time signatures
+ * @throws {MusicReasoningError} If the data is not a valid format 0/1 MIDI file
+ *
+ * @example
+ * ```typescript
+ * const file = parseMidi(new Uint8Array(await response.arrayBuffer()))
+ * // file.ticksPerBeat === 480
+ * // file.tracks[0].notes[0].pitch === 60
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function parseMidi(bytes: Uint8Array): MidiFile {
+  const reader = new ByteReader(bytes)
+
+  if (bytes.length < 14 || reader.ascii(4) !== 'MThd') {
+    throw invalidMidi('Missing MThd header chunk', { length: bytes.length })
+  }
+
+  const headerLength = reader.uint32()
+  if (headerLength < 6) {
+    throw invalidMidi('MThd header chunk is too short', { headerLength })
+  }
+  const headerStart = reader.offset
+  const format = reader.uint16()
+  const trackCount = reader.uint16()
+  const division = reader.uint16()
+  reader.skip(headerLength - (reader.offset - headerStart))
+
+  if (format !== 0 && format !== 1) {
+    throw invalidMidi(`Unsupported MIDI format ${String(format)} (only formats 0 and 1)`, {
+      format,
+    })
+  }
+  if (division & 0x8000) {
+    throw invalidMidi('SMPTE time division is not supported', { division })
+  }
+  if (division === 0) {
+    throw invalidMidi('Time division must be positive', { division })
+  }
+
+  const tracks: MidiTrack[] = []
+  const tempos: MidiTempo[] = []
+  const timeSignatures: MidiTimeSignature[] = []
+
+  while (!reader.done && tracks.length < trackCount) {
+    const chunkType = reader.ascii(4)
+    const chunkLength = reader.uint32()
+    const chunk = reader.slice(chunkLength)
+
+    // Skip unknown chunk types as required by the SMF specification
+    if (chunkType !== 'MTrk') continue
+
+    tracks.push(parseTrack(chunk, tempos, timeSignatures))
+  }
+
+  if (tracks.length === 0) {
+    throw invalidMidi('MIDI file contains no tracks', { trackCount })
+  }
+
+  return {
+    format,
+    ticksPerBeat: division,
+    tracks,
+    tempos: tempos.sort((a, b) => a.tick - b.tick),
+    timeSignatures: timeSignatures.sort((a, b) => a.tick - b.tick),
+  }
+}
+
+/**
+ * Parses one MTrk chunk, pairing note-on/note-off events into notes.
+ * Tempo and time-signature meta events are appended to the shared arrays.
+ *
+ * @internal
+ */
+function parseTrack(
+  chunk: Uint8Array,
+  tempos: MidiTempo[],
+  timeSignatures: MidiTimeSignature[]
+): MidiTrack {
+  const reader = new ByteReader(chunk)
+  const notes: MidiNote[] = []
+  // Pending note-ons per channel/pitch, first-in first-out
+  const pending = new Map<number, { tick: number; velocity: number }[]>()
+  let name: string | undefined
+  let tick = 0
+  let runningStatus = 0
+
+  const noteOff = (channel: number, pitch: number): void => {
+    const starts = pending.get(channel * 128 + pitch)
+    const start = starts?.shift()
+    if (!start) return // Note-off without note-on
+    notes.push({
+      pitch,
+      velocity: start.velocity,
+      channel,
+      startTick: start.tick,
+      durationTicks: tick - start.tick,
+    })
+  }
+
+  while (!reader.done) {
+    tick += reader.varint()
+
+    let status = reader.peek()
+    if (status & 0x80) {
+      reader.uint8()
+    } else if (runningStatus) {
+      // Running status: reuse the previous channel status byte
+      status = runningStatus
+    } else {
+      throw invalidMidi('Data byte without status byte', { offset: reader.offset })
+    }
+
+    if (status === 0xff) {
+      const type = reader.uint8()
+      const length = reader.varint()
+      const data = reader.slice(length)
+
+      if (type === META.END_OF_TRACK) break
+      if (type === META.TRACK_NAME && name === undefined) {
+        name = decodeLatin1(data)
+      } else if (type === META.SET_TEMPO && data.length === 3) {
+        const microseconds = ((data[0] ?? 0) << 16) | ((data[1] ?? 0) << 8) | (data[2] ?? 0)
+        if (microseconds > 0) {
+          // Tempo is stored in whole microseconds; round away the quantization error
+          const bpm = Math.round((MICROSECONDS_PER_MINUTE / microseconds) * 100) / 100
+          tempos.push({ tick, bpm })
+        }
+      } else if (type === META.TIME_SIGNATURE && data.length >= 2) {
+        if (data[0] === 0) {
+          throw invalidMidi('Time signature numerator must be positive', { tick })
+        }
+        const exponent = data[1] ?? 2
+        if (exponent > MAX_DENOMINATOR_EXPONENT) {
+          throw invalidMidi('Time signature denominator exceeds 128th notes', {
+            tick,
+            exponent,
+          })
+        }
+        timeSignatures.push({
+          tick,
+          numerator: data[0] ?? 4,
+          denominator: 2 ** exponent,
+        })
+      }
+      continue
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      // System exclusive: length-prefixed, cancels running status
+      reader.skip(reader.varint())
+      runningStatus = 0
+      continue
+    }
+
+    if (status < 0x80 || status > 0xef) {
+      throw invalidMidi(`Unsupported status byte 0x${status.toString(16)}`, {
+        offset: reader.offset,
+      })
+    }
+
+    runningStatus = status
+    const type = status & 0xf0
+    const channel = status & 0x0f
+
+    if (type === 0xc0 || type === 0xd0) {
+      // Program change and channel pressure carry one data byte
+      reader.uint8()
+      continue
+    }
+
+    const data1 = reader.uint8()
+    const data2 = reader.uint8()
+
+    if (type === 0x90 && data2 > 0) {
+      const key = channel * 128 + data1
+      const starts = pending.get(key) ?? []
+      starts.push({ tick, velocity: data2 })
+      pending.set(key, starts)
+    } else if (type === 0x80 || type === 0x90) {
+      // Note-on with velocity 0 is a note-off
+      noteOff(channel, data1)
+    }
+  }
+
+  // Close notes left hanging at the end of the track
+  for (const [key, starts] of pending) {
+    for (const start of starts) {
+      notes.push({
+        pitch: key % 128,
+        velocity: start.velocity,
+        channel: Math.floor(key / 128),
+        startTick: start.tick,
+        durationTicks: tick - start.tick,
+      })
+    }
+  }
+
+  notes.sort((a, b) => a.startTick - b.startTick || a.pitch - b.pitch)
+
+  return name === undefined ? { notes } : { name, notes }
+}
+
+/**
+ * Decodes bytes one character per byte (Latin-1), as meta-event text is stored.
+ *
+ * @internal
+ */
+function decodeLatin1(bytes: Uint8Array): string {
+  let text = ''
+  for (const byte of bytes) {
+    text += String.fromCharCode(byte)
+  }
+  return text
+}
+
+/**
+ * Creates an INVALID_MIDI error.
+ *
+ * @internal
+ */
+export function invalidMidi(
+  message: string,
+  details: Record<string, unknown>
+): MusicReasoningError {
+  return new MusicReasoningError('INVALID_MIDI', `Invalid MIDI file: ${message}`, details)
+}
@@ -0,0 +1,339 @@
+/**
+ * MusicXML Export
+ *
+ * Writes chord progressions and their analysis as MusicXML:
+ * - exportMusicXml() builds a lead-sheet score with one `<harmony>` per chord
+ *   and rests for the rhythm
+ * - annotateMusicXml() adds the analysis to an existing score, keeping
+ *   everything else as it was
+ *
+ * Annotations are `<words>` directions placed below each chord:
+ *
+ * ```xml
+ * <harmony>...</harmony>
+ * <direction placement="below"><direction-type><words>V7</words></direction-type></direction>
+ * ```
+ *
+ * @module musicxml/export
+ * @since v2.0.0
+ */
+
+import type {
+  ChordAnalysis,
+  MusicXmlAnnotateOptions,
+  MusicXmlAnnotations,
+  MusicXmlExportOptions,
+  TimedChord,
+} from '@music-reasoning/types'
+import { analyzeProgression } from '../progression'
+import { KEY_SIGNATURES_MAJOR, KEY_SIGNATURES_MINOR } from '../theory/cache'
+import { createHarmony } from './harmony'
+import { readChords } from './import'
+import type { XmlElement, XmlNode } from './xml'
+import { createElement, getChildren, serializeXml } from './xml'
+
+/** Divisions per quarter note in exported scores */
+const DIVISIONS = 480
+
+/** Rest lengths in quarter notes with their note types, longest first */
+const REST_TYPES: readonly (readonly [number, string, boolean])[] = [
+  [4, 'whole', false],
+  [3, 'half', true],
+  [2, 'half', false],
+  [1.5, 'quarter', true],
+  [1, 'quarter', false],
+  [0.75, 'eighth', true],
+  [0.5, 'eighth', false],
+  [0.25, '16th', false],
+]
+
+/** XML declaration and DOCTYPE of exported scores */
+const PROLOG: readonly XmlNode[] = [
+  { type: 'raw', markup: '<?xml version="1.0" encoding="UTF-8" standalone="no"?>' },
+  { type: 'text', text: '\n' },
+  {
+    type: 'raw',
+    markup:
+      '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+  },
+  { type: 'text', text: '\n' },
+]
+
+/**
+ * Writes a chord progression as a MusicXML lead sheet.
+ *
+ * @param progression - Chord symbols (one bar each) or timed chords
+ * @param options - Title, meter, key and annotations
+ * @returns MusicXML text (score-partwise 4.0) with one part of chords over rests
+ *
+ * @throws {Error} If the progression is empty or a chord is invalid (see analyzeProgression())
+ * @throws {Error} If options.key is not a valid key name or a chord length is not positive
+ *
+ * @example
+ * ```typescript
+ * const xml = exportMusicXml(
+ *   [{ chord: 'Dm7', beats: 2 }, { chord: 'G7', beats: 2 }, { chord: 'Cmaj7', beats: 4 }],
+ *   { title: 'ii-V-I', annotations: 'both' }
+ * )
+ * // <harmony><root><root-step>G</root-step></root><kind text="7">dominant</kind></harmony>
+ * // <direction placement="below"><direction-type><words>V7 (dominant)</words></direction-type></direction>
+ * ```
+ *
+ * @remarks
+ * Reading the score back with importMusicXml() gives the same progression.
+ *
+ * @since v2.0.0
+ */
+export function exportMusicXml(
+  progression: readonly string[] | readonly TimedChord[],
+  options?: MusicXmlExportOptions
+): string {
+  const timeSignature = options?.timeSignature ?? [4, 4]
+  const [beatsPerBar, beatType] = timeSignature
+  const timed: TimedChord[] = progression.map((chord) =>
+    typeof chord === 'string' ? { chord, beats: beatsPerBar } : chord
+  )
+
+  const analysis = analyzeProgression(timed, {
+    timeSignature,
+    ...(options?.key !== undefined && { key: options.key }),
+  })
+  const annotations = options?.annotations ?? 'roman'
+
+  // Lay the chords out on the bar grid in divisions
+  const barLength = (beatsPerBar * 4 * DIVISIONS) / beatType
+  const measures: XmlNode[][] = []
+  let position = 0
+  timed.forEach((chord, index) => {
+    const length = Math.round((chord.beats * 4 * DIVISIONS) / beatType)
+    let remaining = length
+    let first = true
+
+    while (remaining > 0) {
+      const bar = Math.floor(position / barLength)
+      const rest = Math.min(remaining, barLength - (position % barLength))
+      const content = (measures[bar] ??= [])
+      if (first) {
+        content.push(createHarmony(chord.chord))
+        const words = formatAnnotation(analysis.analysis[index], annotations)
+        if (words) content.push(createWords(words))
+        first = false
+      }
+      content.push(...createRests(rest))
+      position += rest
+      remaining -= rest
+    }
+  })
+
+  const attributes = createElement('attributes', [
+    createElement('divisions', String(DIVISIONS)),
+    createElement('key', [
+      createElement('fifths', String(getFifths(analysis.key))),
+      createElement('mode', analysis.key.endsWith('minor') ? 'minor' : 'major'),
+    ]),
+    createElement('time', [
+      createElement('beats', String(beatsPerBar)),
+      createElement('beat-type', String(beatType)),
+    ]),
+    createElement('clef', [createElement('sign', 'G'), createElement('line', '2')]),
+  ])
+
+  const root = createElement(
+    'score-partwise',
+    [
+      ...(options?.title
+        ? [createElement('work', [createElement('work-title', options.title)])]
+        : []),
+      createElement('part-list', [
+        createElement('score-part', [createElement('part-name', 'Chords')], { id: 'P1' }),
+      ]),
+      createElement(
+        'part',
+        measures.map((content, index) =>
+          createElement('measure', index === 0 ? [attributes, ...content] : content, {
+            number: String(index + 1),
+          })
+        ),
+        { id: 'P1' }
+      ),
+    ],
+    { version: '4.0' }
+  )
+
+  return serializeXml({
+    prolog: PROLOG,
+    root: indent(root, 0),
+    epilog: [{ type: 'text', text: '\n' }],
+  })
+}
+
+/**
+ * Adds the harmonic analysis of a MusicXML score to the score.
+ *
+ * Each chord gets a `<words>` direction below it. Chords identified from the
+ * notes are also written as `<harmony>` elements at the start of their
+ * measure. The rest of the score is kept as it was.
+ *
+ * @param xml - MusicXML text (score-partwise)
+ * @param options - Chord source, part, key and annotations
+ * @returns Annotated MusicXML text, or the score unchanged if it has no chords
+ *
+ * @throws {MusicReasoningError} INVALID_MUSICXML if the text is not well-formed XML, not a partwise score, or has a non-numeric duration or offset
+ * @throws {MusicReasoningError} INVALID_OPTIONS if `part` is not a part of the score or `minDuration` is out of range
+ * @throws {Error} If options.key is not a valid key name (see analyzeProgression())
+ *
+ * @example
+ * ```typescript
+ * const annotated = annotateMusicXml(xml, { key: 'C major' })
+ * // ...<harmony>...<kind>dominant</kind></harmony>
+ * // <direction placement="below"><direction-type><words>V7</words></direction-type></direction>...
+ * ```
+ *
+ * @since v2.0.0
+ */
+export function annotateMusicXml(xml: string, options?: MusicXmlAnnotateOptions): string {
+  const { score, chords, progression, starts, timeSignature } = readChords(xml, options)
+  if (progression.length === 0) return xml
+
+  const analysis = analyzeProgression(progression, {
+    timeSignature,
+    ...(options?.key !== undefined && { key: options.key }),
+  })
+  const annotations = options?.annotations ?? 'roman'
+
+  chords.forEach((chord, index) => {
+    const start = starts[index]
+    const measure = score.measureElements.get(chord.part)?.[chord.measure]
+    if (start === null || start === undefined || !measure) return
+
+    const words = formatAnnotation(analysis.analysis[start], annotations)
+    const inserted = [
+      ...(chord.element ? [] : [createHarmony(progression[start]?.chord ?? '')]),
+      ...(words ? [createWords(words)] : []),
+    ]
+
+    // Insert after the harmony, or before the first note of the measure
+    const anchor = chord.element ?? getChildren(measure).find((child) => child.name === 'note')
+    const anchorIndex = anchor ? measure.children.indexOf(anchor) : measure.children.length
+    const at = chord.element ? anchorIndex + 1 : anchorIndex
+    const whitespace = getIndentation(measure, anchorIndex)
+    measure.children.splice(
+      at,
+      0,
+      ...inserted.flatMap((element): XmlNode[] =>
+        chord.element ? [whitespace, element] : [element, whitespace]
+      )
+    )
+  })
+
+  return serializeXml(score.document)
+}
+
+/**
+ * Formats the annotation of an analyzed chord.
+ *
+ * @internal
+ */
+function formatAnnotation(
+  chord: ChordAnalysis | undefined,
+  annotations: MusicXmlAnnotations
+): string | null {
+  if (!chord) return null
+  switch (annotations) {
+    case 'roman':
+      return chord.roman
+    case 'function':
+      return chord.function
+    case 'both':
+      return `${chord.roman} (${chord.function})`
+    case 'none':
+      return null
+  }
+}
+
+/**
+ * Creates a `<words>` direction below the staff.
+ *
+ * @internal
+ */
+function createWords(words: string): XmlElement {
+  return createElement(
+    'direction',
+    [createElement('direction-type', [createElement('words', words)])],
+    { placement: 'below' }
+  )
+}
+
+/**
+ * Creates rests filling a length in divisions, longest first.
+ *
+ * @internal
+ */
+function createRests(length: number): XmlElement[] {
+  const rests: XmlElement[] = []
+  let remaining = length
+
+  while (remaining > 0) {
+    const quarters = remaining / DIVISIONS
+    const fit = REST_TYPES.find(([size]) => size <= quarters)
+    const duration = fit ? fit[0] * DIVISIONS : remaining
+    rests.push(
+      createElement('note', [
+        createElement('rest'),
+        createElement('duration', String(duration)),
+        ...(fit ? [createElement('type', fit[1])] : []),
+        ...(fit?.[2] ? [createElement('dot')] : []),
+      ])
+    )
+    remaining -= duration
+  }
+
+  return rests
+}
+
+/**
+ * Returns the key signature of a key as a number of fifths (sharps positive, flats negative).
+ *
+ * @internal
+ */
+function getFifths(key: string): number {
+  const [tonic = 'C', mode] = key.split(/\s+/)
+  const signatures: Readonly<Record<string, { sharps: number; flats: number }>> =
+    mode === 'minor' ? KEY_SIGNATURES_MINOR : KEY_SIGNATURES_MAJOR
+  const signature = signatures[mode === 'minor' ? `${tonic}m` : tonic]
+  return signature ? signature.sharps - signature.flats : 0
+}
+
+/**
+ * Returns the whitespace before a measure child, to indent inserted elements alike.
+ *
+ * @internal
+ */
+function getIndentation(measure: XmlElement, index: number): XmlNode {
+  const previous = measure.children[index - 1]
+  const text = previous?.type === 'text' && !previous.cdata && previous.text.trim() === ''
+  return { type: 'text', text: text ? previous.text : '' }
+}
+
+/**
+ * Indents elements that contain only elements, two spaces per level.
+ *
+ * @internal
+ */
+function indent(element: XmlElement, depth: number): XmlElement {
+  const children = getChildren(element)
+  if (children.length === 0 || children.length !== element.children.length) return element
+
+  const inner = '\n' + '  '.repeat(depth + 1)
+  return createElement(
+    element.name,
+    [
+      ...children.flatMap((child): XmlNode[] => [
+        { type: 'text', text: inner },
+        indent(child, depth + 1),
+      ]),
+      { type: 'text', text: '\n' + '  '.repeat(depth) },
+    ],
+    element.attributes
+  )
+}
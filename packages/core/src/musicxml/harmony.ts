@@ -0,0 +1,344 @@
+/**
+ * MusicXML Harmony Elements
+ *
+ * Converts between `<harmony>` elements and chord symbols through the chord
+ * symbol AST:
+ *
+ * ```xml
+ * <harmony>
+ *   <root><root-step>G</root-step></root>
+ *   <kind text="7">dominant</kind>
+ *   <bass><bass-step>B</bass-step></bass>
+ *   <degree><degree-value>9</degree-value><degree-alter>-1</degree-alter><degree-type>add</degree-type></degree>
+ * </harmony>
+ * ```
+ *
+ * reads as "G7b9/B". Degrees follow the chord-symbol convention of notation
+ * programs: an added 7 is a minor seventh unless raised, and added 9ths, 11ths
+ * and 13ths extend a seventh chord. The kind's `text` attribute is read instead
+ * when it spells the same kind and every degree, since it can say more (e.g., "7alt").
+ *
+ * @module musicxml/harmony
+ * @since v2.0.0
+ */
+
+import type { ChordSymbolAST } from '@music-reasoning/types'
+import { formatChordSymbol, getChordData, tryParseChordSymbol } from '../chord/symbol'
+import type { XmlElement } from './xml'
+import { createElement, getChild, getChildren, getNumber, getText } from './xml'
+
+/** Chord symbol suffix for each MusicXML chord kind */
+const KIND_SYMBOLS: Readonly<Record<string, string>> = {
+  major: '',
+  minor: 'm',
+  augmented: 'aug',
+  diminished: 'dim',
+  dominant: '7',
+  'major-seventh': 'maj7',
+  'minor-seventh': 'm7',
+  'diminished-seventh': 'dim7',
+  'augmented-seventh': '7#5',
+  'half-diminished': 'm7b5',
+  'major-minor': 'mMaj7',
+  'major-sixth': '6',
+  'minor-sixth': 'm6',
+  'dominant-ninth': '9',
+  'major-ninth': 'maj9',
+  'minor-ninth': 'm9',
+  'dominant-11th': '11',
+  'major-11th': 'maj11',
+  'minor-11th': 'm11',
+  'dominant-13th': '13',
+  'major-13th': 'maj13',
+  'minor-13th': 'm13',
+  'suspended-second': 'sus2',
+  'suspended-fourth': 'sus4',
+  power: '5',
+  // Functional and historical kinds, spelled as the chord they sound as
+  pedal: '',
+  Neapolitan: '',
+  Italian: '7',
+  German: '7',
+  French: '7b5',
+  Tristan: 'm7b5',
+}
+
+/**
+ * A `<degree>` as [value, alter, type]
+ *
+ * @internal
+ */
+type Degree = [number, number, 'add' | 'alter' | 'subtract']
+
+/** Semitone offset of each accidental */
+const ALTERS: Readonly<Record<string, number>> = { bb: -2, b: -1, '': 0, '#': 1, '##': 2 }
+
+/** Degrees written for an altered dominant ("7alt") */
+const ALT_DEGREES: readonly Degree[] = [
+  [5, -1, 'alter'],
+  [5, 1, 'alter'],
+  [9, -1, 'add'],
+  [9, 1, 'add'],
+]
+
+/** Extensions written as chord kinds */
+const UPPER_KINDS: Readonly<Record<string, string>> = { '9': 'ninth', '11': '11th', '13': '13th' }
+
+/**
+ * Reads the chord symbol of a `<harmony>` element.
+ *
+ * @param harmony - `<harmony>` element
+ * @returns Chord symbol, or null for "no chord" and harmonies without a root
+ *   (e.g., Roman numerals or figured bass only)
+ *
+ * @internal
+ */
+export function readHarmony(harmony: XmlElement): string | null {
+  const root = readNote(getChild(harmony, 'root'), 'root')
+  const kindElement = getChild(harmony, 'kind')
+  const kind = getText(kindElement) ?? 'major'
+  if (!root || kind === 'none') return null
+
+  const bass = readNote(getChild(harmony, 'bass'), 'bass')
+  const slash = bass ? `/${bass}` : ''
+  const text = kindElement?.attributes.text ?? ''
+  const suffix = KIND_SYMBOLS[kind] ?? text
+
+  const degrees = getChildren(harmony, 'degree')
+  const written = readKindText(root + text + slash, kind, degrees)
+  if (written) return written
+
+  const base = tryParseChordSymbol(root + suffix + slash) ?? tryParseChordSymbol(root + slash)
+  if (!base) return null
+
+  const symbol = formatChordSymbol(base)
+  if (!getChordData(symbol).tonic) return null
+  if (degrees.length === 0) return symbol
+
+  try {
+    const withDegrees = formatChordSymbol(degrees.reduce(applyDegree, base))
+    // Degrees tonal.js cannot spell fall back to the chord without them
+    return getChordData(withDegrees).tonic ? withDegrees : symbol
+  } catch {
+    return symbol
+  }
+}
+
+/**
+ * Creates a `<harmony>` element for a chord symbol.
+ *
+ * @param chord - Chord symbol (e.g., "G7b9/B")
+ * @returns `<harmony>` element, with kind `none` if the symbol cannot be read
+ *
+ * @internal
+ */
+export function createHarmony(chord: string): XmlElement {
+  const ast = tryParseChordSymbol(chord)
+  if (!ast) {
+    return createElement('harmony', [createElement('kind', 'none', { text: chord })])
+  }
+
+  const { kind, degrees } = toKind(ast)
+  const symbol = formatChordSymbol(ast)
+  const suffix = symbol.slice(ast.root.length, ast.bass ? -(ast.bass.length + 1) : undefined)
+
+  return createElement('harmony', [
+    createNote(ast.root, 'root'),
+    createElement('kind', kind, { text: suffix }),
+    ...(ast.bass ? [createNote(ast.bass, 'bass')] : []),
+    ...degrees.map(([value, alter, type]) =>
+      createElement('degree', [
+        createElement('degree-value', String(value)),
+        createElement('degree-alter', String(alter)),
+        createElement('degree-type', type),
+      ])
+    ),
+  ])
+}
+
+/**
+ * Reads the chord written in a `<kind>` text attribute, if it spells the
+ * harmony's kind and at least its degrees (e.g., "7alt" for a dominant kind
+ * with or without the altered degrees).
+ *
+ * @param chord - Root, kind text and slash bass (e.g., "G7alt/B")
+ * @returns Chord symbol, or null if the text spells another kind or leaves out a degree
+ *
+ * @internal
+ */
+function readKindText(chord: string, kind: string, degrees: readonly XmlElement[]): string | null {
+  const ast = tryParseChordSymbol(chord)
+  if (!ast) return null
+
+  const expected = toKind(ast)
+  const spelled = new Set(expected.degrees.map((degree) => degree.join(' ')))
+  if (
+    expected.kind !== kind ||
+    !degrees.every((degree) => spelled.has(readDegree(degree).join(' ')))
+  ) {
+    return null
+  }
+
+  const symbol = formatChordSymbol(ast)
+  return getChordData(symbol).tonic ? symbol : null
+}
+
+/**
+ * Reads a `<degree>` as [value, alter, type].
+ *
+ * @internal
+ */
+function readDegree(degree: XmlElement): Degree {
+  const type = getText(degree, 'degree-type')
+  return [
+    getNumber(degree, 'degree-value', 0),
+    getNumber(degree, 'degree-alter', 0),
+    type === 'alter' || type === 'subtract' ? type : 'add',
+  ]
+}
+
+/**
+ * Adds a `<degree>` to a chord symbol AST.
+ *
+ * @internal
+ */
+function applyDegree(ast: ChordSymbolAST, degree: XmlElement): ChordSymbolAST {
+  const value = getText(degree, 'degree-value') ?? ''
+  const alter = getNumber(degree, 'degree-alter', 0)
+  const type = getText(degree, 'degree-type')
+
+  if (type === 'subtract') {
+    return ['1', '3', '5'].includes(value)
+      ? { ...ast, omissions: [...new Set([...ast.omissions, value])].sort() }
+      : ast
+  }
+
+  if (value === '7') {
+    return { ...ast, seventh: alter > 0 ? 'major' : (ast.seventh ?? 'minor') }
+  }
+
+  if (alter !== 0) {
+    // #4 and b6 are the compound #11 and b13
+    const compound = value === '4' ? '11' : value === '6' ? '13' : value
+    const alteration = (alter > 0 ? '#' : 'b') + compound
+    return { ...ast, alterations: [...new Set([...ast.alterations, alteration])] }
+  }
+
+  const six = ast.extensions.includes('6')
+  if (value === '6') return six ? ast : { ...ast, extensions: ['6', ...ast.extensions] }
+
+  // Upper tones extend a seventh chord (or a sixth chord to a 6/9) and are added otherwise
+  if (['9', '11', '13'].includes(value) && (ast.seventh || (six && value === '9'))) {
+    const upper = [...ast.extensions.filter((extension) => extension !== '6'), value]
+    const highest = Math.max(...upper.map(Number))
+    return { ...ast, extensions: [...(six ? ['6'] : []), String(highest)] }
+  }
+
+  return ['2', '4', '9', '11', '13'].includes(value)
+    ? { ...ast, added: [...new Set([...ast.added, value])] }
+    : ast
+}
+
+/**
+ * Chooses the MusicXML kind for a chord symbol AST, with degrees for the
+ * tones the kind does not include.
+ *
+ * @returns Kind and degrees as [value, alter, type]
+ *
+ * @internal
+ */
+function toKind(ast: ChordSymbolAST): { kind: string; degrees: Degree[] } {
+  const degrees: Degree[] = []
+  const six = ast.extensions.includes('6')
+  const upper = ast.extensions.filter((extension) => extension !== '6')
+  const top = upper[upper.length - 1]
+  let kind: string
+  // Whether `top` is written by the kind
+  let topInKind = false
+  let sixInKind = false
+
+  const seventhKind = (family: 'dominant' | 'major' | 'minor', seventh: string): string => {
+    if (!top || !UPPER_KINDS[top]) return seventh
+    topInKind = true
+    return `${family}-${UPPER_KINDS[top] ?? ''}`
+  }
+
+  if (ast.quality === 'power') {
+    kind = 'power'
+  } else if (ast.quality === 'sus2' || ast.quality === 'sus4') {
+    kind = ast.quality === 'sus2' ? 'suspended-second' : 'suspended-fourth'
+    if (ast.seventh) degrees.push([7, ast.seventh === 'major' ? 1 : 0, 'add'])
+  } else if (ast.quality === 'diminished') {
+    kind =
+      ast.seventh === 'minor'
+        ? 'half-diminished'
+        : ast.seventh === 'diminished'
+          ? 'diminished-seventh'
+          : 'diminished'
+  } else if (ast.quality === 'augmented') {
+    kind = ast.seventh === 'minor' ? 'augmented-seventh' : 'augmented'
+    if (ast.seventh === 'major') degrees.push([7, 1, 'add'])
+  } else if (ast.quality === 'minor') {
+    if (ast.seventh === 'major') kind = 'major-minor'
+    else if (ast.seventh === 'minor') kind = seventhKind('minor', 'minor-seventh')
+    else {
+      kind = six ? 'minor-sixth' : 'minor'
+      sixInKind = six
+    }
+  } else if (ast.seventh === 'minor') {
+    kind = seventhKind('dominant', 'dominant')
+  } else if (ast.seventh === 'major') {
+    kind = seventhKind('major', 'major-seventh')
+  } else {
+    kind = six ? 'major-sixth' : 'major'
+    sixInKind = six
+  }
+
+  if (six && !sixInKind) degrees.push([6, 0, 'add'])
+  if (top && !topInKind) degrees.push([Number(top), 0, 'add'])
+  for (const alteration of ast.alterations) {
+    if (alteration === 'alt') {
+      degrees.push(...ALT_DEGREES.map((degree): Degree => [...degree]))
+      continue
+    }
+    const match = /^([b#])(\d+)$/.exec(alteration)
+    if (!match) continue
+    const value = Number(match[2])
+    degrees.push([value, match[1] === '#' ? 1 : -1, value === 5 ? 'alter' : 'add'])
+  }
+  for (const tone of ast.added) {
+    const match = /^([b#]?)(\d+)$/.exec(tone)
+    if (match) degrees.push([Number(match[2]), ALTERS[match[1] ?? ''] ?? 0, 'add'])
+  }
+  for (const tone of ast.omissions) degrees.push([Number(tone), 0, 'subtract'])
+
+  return { kind, degrees }
+}
+
+/**
+ * Reads a `<root>` or `<bass>` note name (e.g., root-step B, root-alter -1 → "Bb").
+ *
+ * @internal
+ */
+function readNote(element: XmlElement | undefined, prefix: 'root' | 'bass'): string | null {
+  const step = getText(element, `${prefix}-step`)?.toUpperCase()
+  if (!step || !/^[A-G]$/.test(step)) return null
+
+  const alter = Math.round(getNumber(element, `${prefix}-alter`, 0))
+  const accidental = Object.keys(ALTERS).find((name) => ALTERS[name] === alter) ?? ''
+  return step + accidental
+}
+
+/**
+ * Creates a `<root>` or `<bass>` element for a note name.
+ *
+ * @internal
+ */
+function createNote(note: string, prefix: 'root' | 'bass'): XmlElement {
+  const step = note.charAt(0)
+  const alter = ALTERS[note.slice(1)] ?? 0
+  return createElement(prefix, [
+    createElement(`${prefix}-step`, step),
+    ...(alter !== 0 ? [createElement(`${prefix}-alter`, String(alter))] : []),
+  ])
+}
@@ -0,0 +1,428 @@
+/**
+ * MusicXML Harmonic Import
+ *
+ * Reads the chords of a MusicXML score, from its `<harmony>` elements or
+ * identified from the notes of each measure, and analyzes the progression.
+ *
+ * Pipeline:
+ * 1. parseXml() reads the score (partwise MusicXML)
+ * 2. Each part is walked measure by measure, following `<divisions>`, `<time>`,
+ *    `<backup>` and `<forward>` to place notes and harmonies in time
+ * 3. Harmonies are read with readHarmony(), or the pitch classes sounding in
+ *    each measure are identified as a chord (as in importMidi())
+ * 4. analyzeProgression() runs on the chords in beats of the first time signature
+ *
+ * @module musicxml/import
+ * @since v2.0.0
+ */
+
+import type {
+  MusicXmlHarmony,
+  MusicXmlImport,
+  MusicXmlImportOptions,
+  TimedChord,
+} from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import {
+  DEFAULT_MIN_DURATION,
+  getSoundingPitchClasses,
+  identifyWindow,
+  toChordSymbol,
+} from '../midi/import'
+import { analyzeProgression } from '../progression'
+import { readHarmony } from './harmony'
+import type { XmlDocument, XmlElement } from './xml'
+import { getChild, getChildren, getNumber, getText, invalidXml, parseXml } from './xml'
+
+/** Ticks per quarter note when notes are handed to the MIDI helpers */
+const TICKS_PER_QUARTER = 480
+
+/** Semitones above C of each note step */
+const STEP_SEMITONES: Readonly<Record<string, number>> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+}
+
+/**
+ * A measure of the score, timed in quarter notes.
+ *
+ * @internal
+ */
+export interface ScoreMeasure {
+  /** Start from the beginning of the score */
+  readonly start: number
+  /** Length (the longest part, or the time signature for empty measures) */
+  readonly length: number
+  /** Time signature in effect */
+  readonly timeSignature: readonly [number, number]
+}
+
+/**
+ * A chord placed in the score, from a `<harmony>` element or the notes.
+ *
+ * @internal
+ */
+export interface PlacedChord {
+  readonly part: string
+  /** Measure index (0-based) */
+  readonly measure: number
+  /** Position within the measure in quarter notes */
+  readonly offset: number
+  readonly chord: string | null
+  /** The `<harmony>` element the chord was read from */
+  readonly element?: XmlElement
+}
+
+/**
+ * A score read into measures, harmonies and sounding notes.
+ *
+ * @internal
+ */
+export interface ScoreContents {
+  readonly document: XmlDocument
+  readonly title?: string
+  readonly partIds: readonly string[]
+  readonly measures: readonly ScoreMeasure[]
+  /** The `<measure>` elements of each part, by part id */
+  readonly measureElements: ReadonlyMap<string, readonly XmlElement[]>
+  readonly harmonies: readonly PlacedChord[]
+  /** Pitched notes: part, MIDI pitch, and start and end in quarter notes */
+  readonly notes: readonly { part: string; pitch: number; start: number; end: number }[]
+}
+
+/**
+ * Imports a MusicXML score and analyzes its harmony.
+ *
+ * @param xml - MusicXML text (score-partwise, as written by notation programs)
+ * @param options - Chord source, part and note filtering options
+ * @returns Chords with their measure and beat, the timed progression and its analysis
+ *
+ * @throws {MusicReasoningError} INVALID_MUSICXML if the text is not well-formed XML, not a partwise score, or has a non-numeric duration or offset
+ * @throws {MusicReasoningError} INVALID_OPTIONS if `part` is not a part of the score or `minDuration` is out of range
+ *
+ * @example
+ * ```typescript
+ * const result = importMusicXml(xml)
+ * // result.harmonies[1] => { part: 'P1', measure: 1, beat: 3, beats: 2, chord: 'G7', source: 'harmony' }
+ * // result.progression => [{ chord: 'Dm7', beats: 2 }, { chord: 'G7', beats: 2 }, { chord: 'Cmaj7', beats: 4 }]
+ * // result.analysis?.key === 'C major'
+ * ```
+ *
+ * @remarks
+ * Chords are read in score order: repeats and endings are not expanded.
+ * Compressed `.mxl` files must be unzipped first.
+ *
+ * @since v2.0.0
+ */
+export function importMusicXml(xml: string, options?: MusicXmlImportOptions): MusicXmlImport {
+  const { score, harmonies, progression, timeSignature } = readChords(xml, options)
+
+  return {
+    ...(score.title !== undefined && { title: score.title }),
+    timeSignature,
+    harmonies,
+    progression,
+    analysis: progression.length > 0 ? analyzeProgression(progression, { timeSignature }) : null,
+  }
+}
+
+/**
+ * Reads a score and its chords, timed and as a progression.
+ *
+ * @returns The score, the chords as placed in it and as harmonies, the
+ *   progression, and for each chord the index of the progression chord it starts
+ *
+ * @internal
+ */
+export function readChords(
+  xml: string,
+  options?: MusicXmlImportOptions
+): {
+  score: ScoreContents
+  chords: PlacedChord[]
+  harmonies: MusicXmlHarmony[]
+  progression: TimedChord[]
+  starts: (number | null)[]
+  timeSignature: readonly [number, number]
+} {
+  const minDuration = options?.minDuration ?? DEFAULT_MIN_DURATION
+  if (!(minDuration >= 0 && minDuration <= 1)) {
+    throw new MusicReasoningError(
+      'INVALID_OPTIONS',
+      `Minimum duration must be between 0 and 1, got ${String(minDuration)}`,
+      { minDuration }
+    )
+  }
+
+  const score = readScore(xml)
+  const part = options?.part
+  if (part !== undefined && !score.partIds.includes(part)) {
+    throw new MusicReasoningError('INVALID_OPTIONS', `Part "${part}" is not in the score`, {
+      part,
+      parts: score.partIds,
+    })
+  }
+
+  const { chords, source } = selectChords(score, options?.source ?? 'auto', part, minDuration)
+  const harmonies = timeHarmonies(score.measures, chords, source)
+  const timeSignature = score.measures[0]?.timeSignature ?? [4, 4]
+  const { progression, starts } = toProgression(harmonies, score.measures, timeSignature)
+
+  return { score, chords, harmonies, progression, starts, timeSignature }
+}
+
+/**
+ * Reads a partwise score into timed measures, harmonies and notes.
+ *
+ * @internal
+ */
+function readScore(xml: string): ScoreContents {
+  const document = parseXml(xml)
+  const { root } = document
+  if (root.name !== 'score-partwise') {
+    throw invalidXml(
+      root.name === 'score-timewise'
+        ? 'timewise scores are not supported, convert to partwise first'
+        : `expected <score-partwise>, found <${root.name}>`,
+      { root: root.name }
+    )
+  }
+
+  const title = getText(getChild(root, 'work'), 'work-title') || getText(root, 'movement-title')
+  const parts = getChildren(root, 'part')
+  const partIds = parts.map((part, index) => part.attributes.id ?? `P${index + 1}`)
+  const measureElements = new Map(
+    parts.map((part, index) => [partIds[index] ?? '', getChildren(part, 'measure')])
+  )
+
+  // Walk each part, collecting measure lengths and events relative to measure starts
+  const lengths: number[] = []
+  const meters: (readonly [number, number])[] = []
+  const harmonies: PlacedChord[] = []
+  const localNotes: { part: string; measure: number; pitch: number; start: number; end: number }[] =
+    []
+
+  for (const [part, measures] of measureElements) {
+    let divisions = 1
+    let meter: readonly [number, number] = [4, 4]
+
+    measures.forEach((measure, index) => {
+      let cursor = 0
+      let lastStart = 0
+      let contentEnd = 0
+      let hasContent = false
+
+      for (const element of getChildren(measure)) {
+        if (element.name === 'attributes') {
+          divisions = getNumber(element, 'divisions', divisions)
+          if (divisions <= 0) {
+            throw invalidXml(`<divisions> must be positive, got ${String(divisions)}`, { part })
+          }
+          const time = getChild(element, 'time')
+          const beats = Number(getText(time, 'beats'))
+          const beatType = Number(getText(time, 'beat-type'))
+          if (beats > 0 && beatType > 0) meter = [beats, beatType]
+        } else if (element.name === 'harmony') {
+          const offset = getNumber(element, 'offset', 0) / divisions
+          harmonies.push({
+            part,
+            measure: index,
+            offset: Math.max(0, cursor + offset),
+            chord: readHarmony(element),
+            element,
+          })
+        } else if (element.name === 'note') {
+          if (getChild(element, 'grace')) continue
+          const duration = getNumber(element, 'duration', 0) / divisions
+          const start = getChild(element, 'chord') ? lastStart : cursor
+          const pitch = readPitch(getChild(element, 'pitch'))
+          if (pitch !== null && duration > 0) {
+            localNotes.push({ part, measure: index, pitch, start, end: start + duration })
+          }
+          lastStart = start
+          cursor = start + duration
+          hasContent = true
+        } else if (element.name === 'backup') {
+          cursor -= getNumber(element, 'duration', 0) / divisions
+        } else if (element.name === 'forward') {
+          cursor += getNumber(element, 'duration', 0) / divisions
+          hasContent = true
+        }
+        contentEnd = Math.max(contentEnd, cursor)
+      }
+
+      // Empty measures last a full bar; pickups and cut measures last as long as their content
+      const length = hasContent ? contentEnd : (meter[0] * 4) / meter[1]
+      lengths[index] = Math.max(lengths[index] ?? 0, length)
+      meters[index] = meters[index] ?? meter
+    })
+  }
+
+  const measures: ScoreMeasure[] = []
+  let start = 0
+  lengths.forEach((length, index) => {
+    measures.push({ start, length, timeSignature: meters[index] ?? [4, 4] })
+    start += length
+  })
+
+  const notes = localNotes.map((note) => {
+    const offset = measures[note.measure]?.start ?? 0
+    return {
+      part: note.part,
+      pitch: note.pitch,
+      start: offset + note.start,
+      end: offset + note.end,
+    }
+  })
+
+  return {
+    document,
+    ...(title && { title }),
+    partIds,
+    measures,
+    measureElements,
+    harmonies,
+    notes,
+  }
+}
+
+/**
+ * Picks the chords of a score: the `<harmony>` elements of one part, or the
+ * chords identified from the notes of each measure.
+ *
+ * @internal
+ */
+function selectChords(
+  score: ScoreContents,
+  source: 'harmony' | 'notes' | 'auto',
+  part: string | undefined,
+  minDuration: number
+): { chords: PlacedChord[]; source: 'harmony' | 'notes' } {
+  const harmonyPart =
+    part ??
+    score.harmonies.find((harmony) => harmony.chord !== null)?.part ??
+    score.harmonies[0]?.part
+  const placed = score.harmonies.filter((harmony) => harmony.part === harmonyPart)
+
+  return source === 'harmony' || (source === 'auto' && placed.length > 0)
+    ? { chords: placed, source: 'harmony' }
+    : { chords: identifyMeasures(score, part, minDuration), source: 'notes' }
+}
+
+/**
+ * Identifies the chord sounding in each measure.
+ *
+ * @internal
+ */
+function identifyMeasures(
+  score: ScoreContents,
+  part: string | undefined,
+  minDuration: number
+): PlacedChord[] {
+  const notes = score.notes
+    .filter((note) => part === undefined || note.part === part)
+    .map((note) => ({
+      pitch: note.pitch,
+      velocity: 64,
+      channel: 0,
+      startTick: Math.round(note.start * TICKS_PER_QUARTER),
+      durationTicks: Math.round((note.end - note.start) * TICKS_PER_QUARTER),
+    }))
+
+  return score.measures.map((measure, index) => {
+    const start = Math.round(measure.start * TICKS_PER_QUARTER)
+    const end = Math.round((measure.start + measure.length) * TICKS_PER_QUARTER)
+    const pitchClasses = end > start ? getSoundingPitchClasses(notes, start, end, minDuration) : []
+    const identification = identifyWindow(pitchClasses)
+
+    return {
+      part: part ?? score.partIds[0] ?? 'P1',
+      measure: index,
+      offset: 0,
+      chord: identification ? toChordSymbol(identification) : null,
+    }
+  })
+}
+
+/**
+ * Gives each chord its measure, beat and length in beats.
+ *
+ * @internal
+ */
+function timeHarmonies(
+  measures: readonly ScoreMeasure[],
+  chords: readonly PlacedChord[],
+  source: 'harmony' | 'notes'
+): MusicXmlHarmony[] {
+  const last = measures[measures.length - 1]
+  const scoreEnd = last ? last.start + last.length : 0
+  const starts = chords.map((chord) => (measures[chord.measure]?.start ?? 0) + chord.offset)
+
+  return chords.map((chord, index) => {
+    const [, beatType] = measures[chord.measure]?.timeSignature ?? [4, 4]
+    const quarters = Math.max(0, (starts[index + 1] ?? scoreEnd) - (starts[index] ?? 0))
+
+    return {
+      part: chord.part,
+      measure: chord.measure + 1,
+      beat: 1 + (chord.offset * beatType) / 4,
+      beats: (quarters * beatType) / 4,
+      chord: chord.chord,
+      source,
+    }
+  })
+}
+
+/**
+ * Converts harmonies to a progression in beats of the first time signature,
+ * merging repeated chords and adding "no chord" time to the chord before it.
+ *
+ * @returns Progression, and for each harmony the index of the progression
+ *   chord it starts (null if it continues the chord before it or is dropped)
+ *
+ * @internal
+ */
+function toProgression(
+  harmonies: readonly MusicXmlHarmony[],
+  measures: readonly ScoreMeasure[],
+  timeSignature: readonly [number, number]
+): { progression: TimedChord[]; starts: (number | null)[] } {
+  const progression: { chord: string; beats: number }[] = []
+  const starts: (number | null)[] = []
+
+  for (const harmony of harmonies) {
+    const [, beatType] = measures[harmony.measure - 1]?.timeSignature ?? [4, 4]
+    const beats = (harmony.beats * timeSignature[1]) / beatType
+    const previous = progression[progression.length - 1]
+
+    if (previous && (harmony.chord === null || harmony.chord === previous.chord)) {
+      previous.beats += beats
+      starts.push(null)
+    } else if (harmony.chord !== null && beats > 0) {
+      starts.push(progression.length)
+      progression.push({ chord: harmony.chord, beats })
+    } else {
+      starts.push(null)
+    }
+  }
+
+  return { progression, starts }
+}
+
+/**
+ * Reads the MIDI pitch of a `<pitch>` element.
+ *
+ * @internal
+ */
+function readPitch(pitch: XmlElement | undefined): number | null {
+  const step = STEP_SEMITONES[getText(pitch, 'step') ?? '']
+  const octave = Number(getText(pitch, 'octave'))
+  if (step === undefined || !Number.isFinite(octave)) return null
+
+  return (octave + 1) * 12 + step + Math.round(getNumber(pitch, 'alter', 0))
+}
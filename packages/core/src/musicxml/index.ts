@@ -0,0 +1,18 @@
+/**
+ * MusicXML support
+ * Chord reading from `<harmony>` elements or the notes of a score, and
+ * writing of progressions and their analysis as MusicXML
+ */
+
+export { importMusicXml } from './import'
+export { annotateMusicXml, exportMusicXml } from './export'
+
+// Re-export canonical types from @music-reasoning/types
+export type {
+  MusicXmlHarmony,
+  MusicXmlImportOptions,
+  MusicXmlImport,
+  MusicXmlAnnotations,
+  MusicXmlExportOptions,
+  MusicXmlAnnotateOptions,
+} from '@music-reasoning/types'
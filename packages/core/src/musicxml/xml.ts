@@ -0,0 +1,361 @@
+/**
+ * XML Reading and Writing
+ *
+ * A small XML parser and serializer for MusicXML, in pure TypeScript:
+ * - Elements keep their attributes and children in document order
+ * - Comments, processing instructions, the DOCTYPE and CDATA sections are
+ *   kept verbatim, so a parsed document serializes back to the same text
+ *   apart from entity and attribute-quote normalization
+ * - Predefined and numeric character entities are decoded
+ *
+ * @module musicxml/xml
+ * @since v2.0.0
+ */
+
+import { MusicReasoningError } from '@music-reasoning/types'
+
+/**
+ * An XML element.
+ *
+ * @internal
+ */
+export interface XmlElement {
+  readonly type: 'element'
+  readonly name: string
+  readonly attributes: Record<string, string>
+  /** Children in document order (mutable so elements can be inserted) */
+  readonly children: XmlNode[]
+}
+
+/**
+ * Character data, decoded. CDATA sections keep their markup when written.
+ *
+ * @internal
+ */
+export interface XmlText {
+  readonly type: 'text'
+  readonly text: string
+  readonly cdata?: boolean
+}
+
+/**
+ * Markup kept verbatim: comments, processing instructions and the DOCTYPE.
+ *
+ * @internal
+ */
+export interface XmlRaw {
+  readonly type: 'raw'
+  readonly markup: string
+}
+
+/** @internal */
+export type XmlNode = XmlElement | XmlText | XmlRaw
+
+/**
+ * A parsed XML document.
+ *
+ * @internal
+ */
+export interface XmlDocument {
+  /** Declaration, DOCTYPE, comments and whitespace before the root element */
+  readonly prolog: readonly XmlNode[]
+  readonly root: XmlElement
+  /** Comments and whitespace after the root element */
+  readonly epilog: readonly XmlNode[]
+}
+
+/** Predefined entities */
+const ENTITIES: Readonly<Record<string, string>> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+}
+
+/** Largest Unicode code point a character reference may name */
+const MAX_CODE_POINT = 0x10ffff
+
+/** Attribute in a start tag: name, then a single- or double-quoted value */
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/**
+ * Parses an XML document.
+ *
+ * @param text - XML text
+ * @returns Document with its root element
+ * @throws {MusicReasoningError} INVALID_MUSICXML if the text is not well-formed XML
+ *
+ * @internal
+ */
+export function parseXml(text: string): XmlDocument {
+  const prolog: XmlNode[] = []
+  const epilog: XmlNode[] = []
+  const stack: XmlElement[] = []
+  let root: XmlElement | null = null
+  let i = 0
+
+  const append = (node: XmlNode): void => {
+    const parent = stack[stack.length - 1]
+    if (parent) parent.children.push(node)
+    else (root ? epilog : prolog).push(node)
+  }
+
+  while (i < text.length) {
+    if (text[i] !== '<') {
+      const end = text.indexOf('<', i)
+      const chunk = text.slice(i, end === -1 ? text.length : end)
+      if (stack.length === 0 && chunk.trim() !== '') {
+        throw invalidXml('text outside the root element', { offset: i })
+      }
+      append({ type: 'text', text: decodeEntities(chunk) })
+      i = end === -1 ? text.length : end
+      continue
+    }
+
+    if (text.startsWith('<!--', i)) {
+      const end = findEnd(text, '-->', i)
+      append({ type: 'raw', markup: text.slice(i, end) })
+      i = end
+    } else if (text.startsWith('<![CDATA[', i)) {
+      const end = findEnd(text, ']]>', i)
+      append({ type: 'text', text: text.slice(i + 9, end - 3), cdata: true })
+      i = end
+    } else if (text.startsWith('<?', i)) {
+      const end = findEnd(text, '?>', i)
+      append({ type: 'raw', markup: text.slice(i, end) })
+      i = end
+    } else if (text.startsWith('<!', i)) {
+      const end = findDoctypeEnd(text, i)
+      append({ type: 'raw', markup: text.slice(i, end) })
+      i = end
+    } else if (text.startsWith('</', i)) {
+      const end = findEnd(text, '>', i)
+      const name = text.slice(i + 2, end - 1).trim()
+      const open = stack.pop()
+      if (open?.name !== name) {
+        throw invalidXml(`unexpected closing tag </${name}>`, { offset: i })
+      }
+      i = end
+    } else {
+      const end = findTagEnd(text, i)
+      const selfClosing = text[end - 2] === '/'
+      const body = text.slice(i + 1, selfClosing ? end - 2 : end - 1)
+      const name = /^[^\s/>]+/.exec(body)?.[0]
+      if (!name) throw invalidXml('missing element name', { offset: i })
+      if (stack.length === 0 && root) throw invalidXml('more than one root element', { offset: i })
+
+      const element: XmlElement = {
+        type: 'element',
+        name,
+        attributes: parseAttributes(body.slice(name.length)),
+        children: [],
+      }
+      if (stack.length === 0) root = element
+      else append(element)
+      if (!selfClosing) stack.push(element)
+      i = end
+    }
+  }
+
+  const unclosed = stack[stack.length - 1]
+  if (unclosed) throw invalidXml(`<${unclosed.name}> is never closed`, {})
+  if (!root) throw invalidXml('no root element', {})
+
+  return { prolog, root, epilog }
+}
+
+/**
+ * Serializes an XML document.
+ *
+ * @internal
+ */
+export function serializeXml(document: XmlDocument): string {
+  return [...document.prolog, document.root, ...document.epilog].map(serializeNode).join('')
+}
+
+/**
+ * Serializes a node and its descendants.
+ *
+ * @internal
+ */
+export function serializeNode(node: XmlNode): string {
+  if (node.type === 'raw') return node.markup
+  if (node.type === 'text') {
+    return node.cdata ? `<![CDATA[${node.text}]]>` : escapeXml(node.text, false)
+  }
+
+  const attributes = Object.entries(node.attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`)
+    .join('')
+  if (node.children.length === 0) return `<${node.name}${attributes}/>`
+  return `<${node.name}${attributes}>${node.children.map(serializeNode).join('')}</${node.name}>`
+}
+
+/**
+ * Creates an element, with text content when given a string.
+ *
+ * @internal
+ */
+export function createElement(
+  name: string,
+  content: string | readonly XmlNode[] = [],
+  attributes: Record<string, string> = {}
+): XmlElement {
+  const children: XmlNode[] =
+    typeof content === 'string' ? [{ type: 'text', text: content }] : [...content]
+  return { type: 'element', name, attributes, children }
+}
+
+/**
+ * Returns the child elements of an element, optionally only those with a name.
+ *
+ * @internal
+ */
+export function getChildren(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      child.type === 'element' && (name === undefined || child.name === name)
+  )
+}
+
+/**
+ * Returns the first child element with a name, if any.
+ *
+ * @internal
+ */
+export function getChild(element: XmlElement, name: string): XmlElement | undefined {
+  return getChildren(element, name)[0]
+}
+
+/**
+ * Returns the trimmed text content of an element, or of its first child with a name.
+ *
+ * @internal
+ */
+export function getText(element: XmlElement | undefined, name?: string): string | undefined {
+  const target = element && name !== undefined ? getChild(element, name) : element
+  if (!target) return undefined
+  return target.children
+    .map((child) => (child.type === 'text' ? child.text : ''))
+    .join('')
+    .trim()
+}
+
+/**
+ * Returns the number in a child element, or a default when the child is missing.
+ *
+ * @throws {MusicReasoningError} INVALID_MUSICXML if the child's text is not a number
+ *
+ * @internal
+ */
+export function getNumber(element: XmlElement | undefined, name: string, fallback: number): number {
+  const text = getText(element, name)
+  if (text === undefined) return fallback
+
+  const value = Number(text)
+  if (text === '' || !Number.isFinite(value)) {
+    throw invalidXml(`<${name}> is not a number: "${text}"`, { element: name, text })
+  }
+  return value
+}
+
+/**
+ * Escapes text for element content or attribute values.
+ *
+ * @internal
+ */
+function escapeXml(text: string, attribute: boolean): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped
+}
+
+/**
+ * Decodes predefined and numeric character entities.
+ *
+ * @internal
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (!name.startsWith('#')) return ENTITIES[name] ?? entity
+
+    const codePoint = name.startsWith('#x')
+      ? parseInt(name.slice(2), 16)
+      : parseInt(name.slice(1), 10)
+    if (codePoint > MAX_CODE_POINT) {
+      throw invalidXml(`character reference ${entity} is out of range`, { entity })
+    }
+    return String.fromCodePoint(codePoint)
+  })
+}
+
+/**
+ * Parses the attributes of a start tag.
+ *
+ * @internal
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of text.matchAll(ATTRIBUTE)) {
+    const [, name = '', doubleQuoted, singleQuoted] = match
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? '')
+  }
+  return attributes
+}
+
+/**
+ * Finds the end of markup closed by a delimiter (index after the delimiter).
+ *
+ * @internal
+ */
+function findEnd(text: string, delimiter: string, start: number): number {
+  const end = text.indexOf(delimiter, start)
+  if (end === -1)
+    throw invalidXml(`unterminated markup, expected "${delimiter}"`, { offset: start })
+  return end + delimiter.length
+}
+
+/**
+ * Finds the end of a start tag, skipping `>` inside quoted attribute values.
+ *
+ * @internal
+ */
+function findTagEnd(text: string, start: number): number {
+  let quote: string | null = null
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '>') {
+      return i + 1
+    }
+  }
+  throw invalidXml('unterminated start tag', { offset: start })
+}
+
+/**
+ * Finds the end of a DOCTYPE, skipping its internal subset.
+ *
+ * @internal
+ */
+function findDoctypeEnd(text: string, start: number): number {
+  let depth = 0
+  for (let i = start + 2; i < text.length; i++) {
+    const char = text[i]
+    if (char === '[') depth++
+    else if (char === ']') depth--
+    else if (char === '>' && depth === 0) return i + 1
+  }
+  throw invalidXml('unterminated DOCTYPE', { offset: start })
+}
+
+/**
+ * Creates an INVALID_MUSICXML error.
+ *
+ * @internal
+ */
+export function invalidXml(message: string, details: Record<string, unknown>): MusicReasoningError {
+  return new MusicReasoningError('INVALID_MUSICXML', `Invalid MusicXML: ${message}`, details)
+}
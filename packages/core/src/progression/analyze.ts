@@ -15,7 +15,63 @@
  * @since v2.0.0
  */
 
-import type { HarmonicFunction } from '@music-reasoning/types'
+import type { ChordAnalysis, HarmonicFunction } from '@music-reasoning/types'
+import { Interval } from 'tonal'
+import { getChordData } from '../chord/symbol'
+import { spellChordInKey } from '../chord/spelling'
+import { getRomanNumerals } from './roman-numerals'
+
+/**
+ * Analyze each chord of a progression in a given key
+ *
+ * @param chords - Array of chord symbols
+ * @param keyRoot - Root of the key (e.g., "C")
+ * @param scaleType - "major" or "minor"
+ * @returns Per-chord Roman numeral, quality, degree, function, bass, inversion
+ * and chord tones spelled for the key
+ *
+ * @throws {Error} If any chord is invalid
+ *
+ * @example
+ * ```typescript
+ * analyzeChordsInKey(['Em', 'A7', 'D'], 'D', 'major')
+ * // => [
+ * //   { chord: 'Em', roman: 'ii', quality: 'minor', degree: 2, function: 'subdominant', bass: 'E', inversion: 0, notes: ['E', 'G', 'B'] },
+ * //   { chord: 'A7', roman: 'V7', quality: 'dominant', degree: 5, function: 'dominant', bass: 'A', inversion: 0, notes: ['A', 'C#', 'E', 'G'] },
+ * //   { chord: 'D', roman: 'I', quality: 'major', degree: 1, function: 'tonic', bass: 'D', inversion: 0, notes: ['D', 'F#', 'A'] }
+ * // ]
+ * ```
+ */
+export function analyzeChordsInKey(
+  chords: readonly string[],
+  keyRoot: string,
+  scaleType: 'major' | 'minor'
+): ChordAnalysis[] {
+  return getRomanNumerals([...chords], keyRoot, scaleType).map((rn, index) => ({
+    chord: chords[index] ?? '',
+    roman: rn.roman,
+    quality: rn.quality,
+    degree: rn.degree,
+    function: getHarmonicFunction(rn.degree, rn.quality),
+    bass: rn.bass,
+    inversion: rn.inversion,
+    notes: spellNotesInKey(chords[index] ?? '', keyRoot, scaleType),
+  }))
+}
+
+/**
+ * Spells a chord's tones for the key it is analyzed in (a slash bass comes first).
+ *
+ * @internal
+ */
+function spellNotesInKey(chord: string, keyRoot: string, scaleType: 'major' | 'minor'): string[] {
+  const chordData = getChordData(chord)
+  if (!chordData.tonic) return chordData.notes
+
+  const root = chordData.tonic
+  const intervals = chordData.notes.map((note) => Interval.distance(root, note) || '1P')
+  return spellChordInKey(root, intervals, { root: keyRoot, scaleType }).notes
+}
 
 /**
  * Get the harmonic function for a scale degree
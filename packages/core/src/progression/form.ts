@@ -0,0 +1,504 @@
+/**
+ * Song Form Detection
+ *
+ * Finds the sections a progression repeats and names the form they make:
+ * 1. The progression is laid out in bars (plain chord symbols last one bar each)
+ * 2. 12-bar blues choruses are matched against the blues outline
+ * 3. Otherwise the bars are split into sections of 16, 12, 8 or 4 bars and
+ *    sections that match an earlier one share its letter label
+ * 4. The label sequence names the form (AABA, ABAC, verse/chorus, ...), with
+ *    rhythm changes recognized from its A section and bridge
+ *
+ * Bars are compared beat by beat, so the same changes with a different
+ * rhythm or voicing still count as the same section.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import { Note } from 'tonal'
+import type {
+  FormAnalysis,
+  FormDetectionOptions,
+  FormSection,
+  FormType,
+  SectionRole,
+  TimedChord,
+} from '@music-reasoning/types'
+import { getChordData, tryParseChordSymbol } from '../chord/symbol'
+import { getBeatsPerBar, getChordTimings, isTimedProgression } from './meter'
+
+/** Section lengths tried, longest first */
+const SECTION_LENGTHS = [16, 12, 8, 4] as const
+
+/** Letters of section labels; later labels add a number (A1, B1, ...) */
+const LABEL_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+/** Similarity at which a section repeats an earlier one */
+const REPEAT_THRESHOLD = 0.75
+
+/** Longest progression analyzed, in bars; sections are compared pairwise */
+const MAX_BARS = 1000
+
+/** Most beats per bar analyzed; bars are compared beat by beat */
+const MAX_BEATS_PER_BAR = 64
+
+/** Tolerance for beat positions built from fractional durations (e.g., thirds) */
+const EPSILON = 1e-9
+
+/**
+ * Root of each bar of a 12-bar blues, in semitones above the tonic.
+ * Covers the basic, quick-change, jazz and minor blues.
+ */
+const BLUES_OUTLINE: readonly (readonly number[])[] = [
+  [0],
+  [0, 5],
+  [0],
+  [0, 7],
+  [5],
+  [5, 6],
+  [0, 4],
+  [0, 3, 4, 9],
+  [2, 7, 8],
+  [2, 5, 7],
+  [0, 4],
+  [0, 2, 7, 9],
+]
+
+/** Bars of a blues chorus that must follow the outline */
+const BLUES_MIN_MATCHES = 10
+
+/** Roots of the rhythm-changes A section (I-vi-ii-V) and bridge (III7-VI7-II7-V7) */
+const RHYTHM_CHANGES_A = [0, 9, 2, 7] as const
+const RHYTHM_CHANGES_BRIDGE = [4, 9, 2, 7] as const
+
+/** Chord sounding on each beat of a bar, or null after the progression ends */
+type Bar = readonly (ChordInfo | null)[]
+
+/** A chord symbol with the parts bars are compared by */
+interface ChordInfo {
+  readonly symbol: string
+  /** Pitch class of the root (0-11) */
+  readonly chroma: number
+  /** Triad quality, or null when the symbol has no AST */
+  readonly triad: string | null
+}
+
+/**
+ * Detect the form of a progression
+ *
+ * @param progression - Chord symbols (one bar each) or timed chords
+ * @param options - Meter and section length
+ * @returns Sections with labels and roles, the named form and pairwise section similarity
+ *
+ * @throws {Error} If the progression is empty or a chord is invalid
+ * @throws {Error} If the time signature, a chord length or sectionBars is invalid
+ * @throws {Error} If the progression is longer than 1000 bars or a bar longer than 64 beats
+ *
+ * @example
+ * ```typescript
+ * const sheet = parseLeadSheet(chart)
+ * const form = detectForm(sheet.progression, { timeSignature: sheet.timeSignature })
+ * // form.form === 'AABA'
+ * // form.labels => ['A', 'A', 'B', 'A']
+ * // form.sections[2] => { label: 'B', role: 'bridge', startBar: 17, bars: 8, ... }
+ *
+ * detectForm(['F7', 'Bb7', 'F7', 'F7', 'Bb7', 'Bb7', 'F7', 'F7', 'C7', 'Bb7', 'F7', 'C7']).form
+ * // 'twelve-bar-blues'
+ * ```
+ *
+ * @remarks
+ * Sections are compared as written, so a section repeated in another key
+ * gets a new label. A progression too short to repeat a 4-bar section is a
+ * single through-composed section.
+ */
+export function detectForm(
+  progression: string[] | readonly TimedChord[],
+  options?: FormDetectionOptions
+): FormAnalysis {
+  if (progression.length === 0) {
+    throw new Error('Cannot detect form of empty chord progression')
+  }
+
+  const beatsPerBar = getBeatsPerBar(options?.timeSignature ?? [4, 4])
+  if (beatsPerBar > MAX_BEATS_PER_BAR) {
+    throw new Error(
+      `Bar is too long for form detection: ${String(beatsPerBar)} beats per bar (max ${String(MAX_BEATS_PER_BAR)})`
+    )
+  }
+  const chords: readonly TimedChord[] = isTimedProgression(progression)
+    ? progression
+    : progression.map((chord) => ({ chord, beats: beatsPerBar }))
+
+  const sectionBars = options?.sectionBars
+  if (sectionBars !== undefined && (!Number.isInteger(sectionBars) || sectionBars < 1)) {
+    throw new Error(`Invalid section length: ${String(sectionBars)}`)
+  }
+
+  const bars = layOutBars(chords, beatsPerBar)
+
+  // Blues choruses first: their 12-bar outline is not a repeat of shorter sections
+  if ((sectionBars === undefined || sectionBars === 12) && isBlues(bars)) {
+    const labels = bars.filter((_, index) => index % 12 === 0).map(() => 'A')
+    return buildForm('twelve-bar-blues', labels, 12, bars, chords, beatsPerBar, () => 'chorus')
+  }
+
+  const length = sectionBars ?? chooseSectionLength(bars)
+  const labels = labelSections(splitSections(bars, length))
+  const form = nameForm(labels, bars, length)
+  return buildForm(form, labels, length, bars, chords, beatsPerBar, getRoles(form, labels))
+}
+
+/**
+ * Lay timed chords out in bars, one chord per beat
+ *
+ * @throws {Error} If a chord is invalid or its length is not positive
+ * @throws {Error} If the chords span more than MAX_BARS bars
+ *
+ * @internal
+ */
+function layOutBars(chords: readonly TimedChord[], beatsPerBar: number): Bar[] {
+  const timings = getChordTimings(chords, beatsPerBar)
+  const infos = chords.map(({ chord }) => getChordInfo(chord))
+  const last = timings[timings.length - 1]
+  const totalBeats = last ? last.start + last.beats : 0
+  const barCount = Math.ceil(totalBeats / beatsPerBar - EPSILON)
+  if (barCount > MAX_BARS) {
+    throw new Error(
+      `Progression is too long for form detection: ${String(barCount)} bars (max ${String(MAX_BARS)})`
+    )
+  }
+
+  const bars: Bar[] = []
+  let index = 0
+  for (let bar = 0; bar < barCount; bar++) {
+    const slots: (ChordInfo | null)[] = []
+    for (let beat = 0; beat < beatsPerBar; beat++) {
+      const time = bar * beatsPerBar + beat
+      while (
+        index < timings.length - 1 &&
+        (timings[index + 1]?.start ?? Infinity) <= time + EPSILON
+      ) {
+        index++
+      }
+      slots.push(time < totalBeats - EPSILON ? (infos[index] ?? null) : null)
+    }
+    bars.push(slots)
+  }
+  return bars
+}
+
+/**
+ * Read the root and triad of a chord symbol
+ *
+ * @throws {Error} If the chord is invalid
+ *
+ * @internal
+ */
+function getChordInfo(symbol: string): ChordInfo {
+  const chordData = getChordData(symbol)
+  const chroma = Note.chroma(chordData.tonic ?? '')
+  if (!chordData.tonic || chroma === undefined) {
+    throw new Error(`Invalid chord: ${symbol}`)
+  }
+  return { symbol, chroma, triad: tryParseChordSymbol(symbol)?.quality ?? null }
+}
+
+/**
+ * Score two chords: 1 for the same chord, 0.75 for the same root and triad, 0.5 for the same root
+ *
+ * @internal
+ */
+function compareChords(a: ChordInfo | null, b: ChordInfo | null): number {
+  if (a === null || b === null) return a === b ? 1 : 0
+  if (a.symbol === b.symbol) return 1
+  if (a.chroma !== b.chroma) return 0
+  return a.triad !== null && a.triad === b.triad ? 0.75 : 0.5
+}
+
+/**
+ * Score two runs of bars beat by beat; bars missing from the shorter run score 0
+ *
+ * @internal
+ */
+function compareSections(a: readonly Bar[], b: readonly Bar[]): number {
+  const length = Math.max(a.length, b.length)
+  if (length === 0) return 1
+
+  let total = 0
+  for (let bar = 0; bar < Math.min(a.length, b.length); bar++) {
+    const slotsA = a[bar] ?? []
+    const slotsB = b[bar] ?? []
+    let score = 0
+    slotsA.forEach((slot, beat) => {
+      score += compareChords(slot, slotsB[beat] ?? null)
+    })
+    total += score / Math.max(1, slotsA.length)
+  }
+  return total / length
+}
+
+/**
+ * Split bars into sections of a length (the last may be shorter)
+ *
+ * @internal
+ */
+function splitSections(bars: readonly Bar[], length: number): Bar[][] {
+  const sections: Bar[][] = []
+  for (let start = 0; start < bars.length; start += length) {
+    sections.push(bars.slice(start, start + length))
+  }
+  return sections
+}
+
+/**
+ * Label sections A to Z, then A1 to Z1 and so on; a section matching an
+ * earlier label takes the best match
+ *
+ * @internal
+ */
+function labelSections(sections: readonly (readonly Bar[])[]): string[] {
+  const firsts: { label: string; bars: readonly Bar[] }[] = []
+
+  return sections.map((bars) => {
+    let best: { label: string; score: number } | null = null
+    for (const first of firsts) {
+      const score = compareSections(first.bars, bars)
+      if (score >= REPEAT_THRESHOLD && (!best || score > best.score)) {
+        best = { label: first.label, score }
+      }
+    }
+    if (best) return best.label
+
+    const count = firsts.length
+    const letter = LABEL_LETTERS[count % LABEL_LETTERS.length] ?? ''
+    const round = Math.floor(count / LABEL_LETTERS.length)
+    const label = round > 0 ? `${letter}${String(round)}` : letter
+    firsts.push({ label, bars })
+    return label
+  })
+}
+
+/**
+ * Choose the section length that explains the most repetition
+ *
+ * Lengths are tried longest first, and a shorter length replaces a longer one
+ * when its sections repeat more often. A shorter length that only splits the
+ * longer sections (each shorter section belongs to one kind of longer section)
+ * is skipped, so a 32-bar AABA is four 8-bar sections rather than eight 4-bar ones.
+ *
+ * @internal
+ */
+function chooseSectionLength(bars: readonly Bar[]): number {
+  let best: { length: number; labels: string[]; score: number } | null = null
+
+  for (const length of SECTION_LENGTHS) {
+    if (bars.length < length * 2 || bars.length % length !== 0) continue
+
+    const labels = labelSections(splitSections(bars, length))
+    const repeats = labels.filter((label, index) => labels.indexOf(label) < index).length
+    const score = repeats / labels.length
+    if (best && best.length % length === 0 && refines(labels, best.labels, best.length / length)) {
+      continue
+    }
+    if (!best || score > best.score) best = { length, labels, score }
+  }
+
+  return best?.length ?? bars.length
+}
+
+/**
+ * Check whether shorter sections only split longer ones: every shorter label
+ * appears within a single longer label
+ *
+ * @internal
+ */
+function refines(shorter: readonly string[], longer: readonly string[], ratio: number): boolean {
+  const parents = new Map<string, string>()
+  return shorter.every((label, index) => {
+    const parent = longer[Math.floor(index / ratio)] ?? ''
+    const known = parents.get(label)
+    parents.set(label, parent)
+    return known === undefined || known === parent
+  })
+}
+
+/**
+ * Check whether the bars are one or more 12-bar blues choruses
+ *
+ * @internal
+ */
+function isBlues(bars: readonly Bar[]): boolean {
+  if (bars.length === 0 || bars.length % 12 !== 0) return false
+
+  return splitSections(bars, 12).every((chorus) => {
+    const tonic = chorus[0]?.[0]?.chroma
+    if (tonic === undefined) return false
+
+    const matches = chorus.filter((bar, index) => {
+      const root = bar[0]?.chroma
+      return root !== undefined && (BLUES_OUTLINE[index] ?? []).includes((root - tonic + 12) % 12)
+    }).length
+    return matches >= BLUES_MIN_MATCHES
+  })
+}
+
+/**
+ * Check for rhythm changes: an A section on I-vi-ii-V and a bridge of dominants from III7
+ *
+ * @internal
+ */
+function isRhythmChanges(a: readonly Bar[], bridge: readonly Bar[]): boolean {
+  const tonic = a[0]?.[0]?.chroma
+  if (tonic === undefined) return false
+
+  const degree = (chord: ChordInfo | null | undefined): number | null =>
+    chord ? (chord.chroma - tonic + 12) % 12 : null
+  const matches = (roots: readonly (number | null)[], expected: readonly number[]): boolean =>
+    roots.filter((root, index) => root === expected[index]).length >= expected.length - 1
+
+  // Two changes a bar (Bb G7 | Cm7 F7) or one (Bb | G7 | Cm7 | F7)
+  const half = Math.floor((a[0]?.length ?? 0) / 2)
+  const twoPerBar = [a[0]?.[0], a[0]?.[half], a[1]?.[0], a[1]?.[half]].map(degree)
+  const onePerBar = a.slice(0, 4).map((bar) => degree(bar[0]))
+  const bridgeRoots = [0, 2, 4, 6].map((index) => degree(bridge[index]?.[0]))
+
+  return (
+    (matches(twoPerBar, RHYTHM_CHANGES_A) || matches(onePerBar, RHYTHM_CHANGES_A)) &&
+    matches(bridgeRoots, RHYTHM_CHANGES_BRIDGE)
+  )
+}
+
+/**
+ * Name the form made by a label sequence
+ *
+ * @internal
+ */
+function nameForm(labels: readonly string[], bars: readonly Bar[], length: number): FormType {
+  const pass = getRepeatedPass(labels).join('')
+  const distinct = new Set(labels).size
+
+  if (pass === 'AABA') {
+    const sections = splitSections(bars, length)
+    const a = sections[0] ?? []
+    const bridge = sections[2] ?? []
+    return length === 8 && isRhythmChanges(a, bridge) ? 'rhythm-changes' : 'AABA'
+  }
+  if (pass === 'ABAC') return 'ABAC'
+  if (labels.length > 1 && distinct === 1) return 'strophic'
+  // A section other than the first that comes back after different material
+  const recurs = labels.some((label, index) => labels.indexOf(label) < index - 1)
+  return distinct > 1 && recurs ? 'verse-chorus' : 'through-composed'
+}
+
+/**
+ * Return the shortest label sequence the labels repeat (e.g., AABA for AABAAABA)
+ *
+ * @internal
+ */
+function getRepeatedPass(labels: readonly string[]): readonly string[] {
+  for (let length = 1; length < labels.length; length++) {
+    if (
+      labels.length % length === 0 &&
+      labels.every((label, index) => label === labels[index % length])
+    ) {
+      return labels.slice(0, length)
+    }
+  }
+  return labels
+}
+
+/**
+ * Assign section roles for a form
+ *
+ * - Verse/chorus: the most frequent label is the chorus (ties go to the later
+ *   one); other recurring labels and one-off sections before the first chorus
+ *   are verses; one-off sections after it are bridges
+ * - AABA and rhythm changes: B is the bridge
+ * - Strophic: every section is a verse
+ *
+ * @internal
+ */
+function getRoles(
+  form: FormType,
+  labels: readonly string[]
+): (label: string, index: number) => SectionRole | null {
+  if (form === 'AABA' || form === 'rhythm-changes') {
+    return (label) => (label === 'B' ? 'bridge' : null)
+  }
+  if (form === 'strophic') return () => 'verse'
+  if (form !== 'verse-chorus') return () => null
+
+  const counts = new Map<string, number>()
+  for (const label of labels) counts.set(label, (counts.get(label) ?? 0) + 1)
+  let chorus = labels[0] ?? 'A'
+  for (const [label, count] of counts) {
+    if (count >= (counts.get(chorus) ?? 0)) chorus = label
+  }
+  const firstChorus = labels.indexOf(chorus)
+
+  return (label, index) => {
+    if (label === chorus) return 'chorus'
+    if ((counts.get(label) ?? 0) > 1 || index < firstChorus) return 'verse'
+    return 'bridge'
+  }
+}
+
+/**
+ * Assemble the form analysis: section chords, roles and similarity
+ *
+ * @internal
+ */
+function buildForm(
+  form: FormType,
+  labels: readonly string[],
+  length: number,
+  bars: readonly Bar[],
+  chords: readonly TimedChord[],
+  beatsPerBar: number,
+  getRole: (label: string, index: number) => SectionRole | null
+): FormAnalysis {
+  const sectionBars = splitSections(bars, length)
+  const similarity = sectionBars.map((a) => sectionBars.map((b) => round(compareSections(a, b))))
+
+  const sections: FormSection[] = labels.map((label, index) => {
+    const first = labels.indexOf(label)
+    const start = index * length
+    const barsInSection = sectionBars[index]?.length ?? 0
+    return {
+      label,
+      role: getRole(label, index),
+      startBar: start + 1,
+      bars: barsInSection,
+      chords: sliceChords(chords, start * beatsPerBar, (start + barsInSection) * beatsPerBar),
+      similarity: similarity[first]?.[index] ?? 1,
+    }
+  })
+
+  return { form, labels, sectionBars: length, sections, similarity }
+}
+
+/**
+ * Return the chords sounding between two beat positions, split at the edges
+ *
+ * @internal
+ */
+function sliceChords(chords: readonly TimedChord[], from: number, to: number): TimedChord[] {
+  const sliced: TimedChord[] = []
+  let start = 0
+  for (const { chord, beats } of chords) {
+    const overlap = Math.min(to, start + beats) - Math.max(from, start)
+    if (overlap > EPSILON) sliced.push({ chord, beats: overlap })
+    start += beats
+  }
+  return sliced
+}
+
+/**
+ * Round a similarity to two decimals
+ *
+ * @internal
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -11,6 +11,7 @@
  * - Borrowed chord detection
  * - Secondary dominant identification
  * - Loopability analysis
+ * - Modulation detection with per-region analysis
  *
  * @packageDocumentation
  * @since v2.0.0
@@ -23,24 +24,37 @@ import type {
   BorrowedChord,
   SecondaryDominant,
   GenreDetectionResult,
+  TimedChord,
 } from '@music-reasoning/types'
-import { Chord, Note, Scale } from 'tonal'
-import { detectKey } from './key-detection'
-import { getRomanNumerals } from './roman-numerals'
-import { getHarmonicFunction } from './analyze'
+import { Note, Scale } from 'tonal'
+import { getChordData } from '../chord/symbol'
+import { detectKey, evaluateKey, parseKeyName } from './key-detection'
+import { analyzeChordsInKey } from './analyze'
+import { detectKeyRegions } from './modulation'
 import { detectCadences } from './cadences'
 import { detectPatterns } from './patterns'
+import {
+  applyTimings,
+  detectMetricalCadences,
+  fillsWholeBars,
+  getBeatsPerBar,
+  getChordTimings,
+  isTimedProgression,
+} from './meter'
 import { detectGenre } from '../genre/detect'
 
 /**
  * Analyze a chord progression
  *
- * @param chords - Array of chord symbols (e.g., ['C', 'Am', 'F', 'G'])
- * @param options - Optional analysis options (genre hint, etc.)
+ * @param progression - Array of chord symbols (e.g., ['C', 'Am', 'F', 'G']), or timed
+ *   chords with their length in beats (e.g., [{ chord: 'C', beats: 8 }, { chord: 'G7', beats: 2 }])
+ * @param options - Optional analysis options (genre hint, key override, time signature)
  * @returns Complete progression analysis with key, Roman numerals, cadences, patterns, etc.
  *
  * @throws {Error} If chords array is empty
  * @throws {Error} If any chord is invalid
+ * @throws {Error} If options.key is not a valid key name
+ * @throws {Error} If a timed chord's length or the time signature is invalid
  *
  * @example
  * ```typescript
@@ -53,12 +67,42 @@ import { detectGenre } from '../genre/detect'
  * ```
  *
  * @example
+ * Inversions are shown with figured bass:
+ * ```typescript
+ * const result = analyzeProgression(['C', 'G/B', 'Am', 'D7/F#', 'G', 'C'])
+ * // result.analysis[1].roman === 'V6'
+ * // result.analysis[1].bass === 'B'
+ * // result.analysis[3].roman === 'II6/5'
+ * // result.secondaryDominants[0].romanNotation === 'V6/5/V'
+ * ```
+ *
+ * @example
  * With genre hint:
  * ```typescript
  * const result = analyzeProgression(['Dm7', 'G7', 'Cmaj7'], { genre: 'jazz' })
  * // Prioritizes jazz patterns in genre detection
  * ```
  *
+ * @example
+ * With an explicit key (skips key detection):
+ * ```typescript
+ * const result = analyzeProgression(['Am', 'F', 'C', 'G'], { key: 'C major' })
+ * // result.key === 'C major'
+ * // result.analysis[0].roman === 'vi'
+ * ```
+ *
+ * @example
+ * Timed chords in 3/4 (durations weight key detection, cadences carry their bar):
+ * ```typescript
+ * const result = analyzeProgression(
+ *   [{ chord: 'C', beats: 6 }, { chord: 'F', beats: 3 }, { chord: 'G7', beats: 3 }, { chord: 'C', beats: 3 }],
+ *   { timeSignature: [3, 4] }
+ * )
+ * // result.analysis[1].bar === 3
+ * // result.cadences[0] => { type: 'half', chords: ['F', 'G7'], strength: 'weak', bar: 4, beat: 1, phraseEnd: true }
+ * // result.cadences[1] => { type: 'authentic', chords: ['G7', 'C'], strength: 'strong', bar: 5, beat: 1, phraseEnd: true }
+ * ```
+ *
  * @remarks
  * This function is fully synchronous and offline-capable. All analysis is
  * performed using deterministic algorithms without any AI or cloud dependencies.
@@ -68,47 +112,48 @@ import { detectGenre } from '../genre/detect'
  * Target: p95 < 100ms for all progression lengths.
  */
 export function analyzeProgression(
-  chords: string[],
+  progression: string[] | readonly TimedChord[],
   options?: ProgressionAnalysisOptions
 ): ProgressionAnalysis {
   // Step 1: Validate input
-  if (chords.length === 0) {
+  if (progression.length === 0) {
     throw new Error('Cannot analyze empty chord progression')
   }
 
+  // Timed chords are placed in bars; plain symbols are equal slots without a meter
+  const beatsPerBar = getBeatsPerBar(options?.timeSignature ?? [4, 4])
+  const timings = isTimedProgression(progression) ? getChordTimings(progression, beatsPerBar) : null
+  const chords = isTimedProgression(progression)
+    ? progression.map((timed) => timed.chord)
+    : progression
+  const durations = timings?.map((timing) => timing.beats)
+
   // Validate all chords
   for (const chord of chords) {
-    const chordData = Chord.get(chord)
+    const chordData = getChordData(chord)
     if (!chordData.tonic) {
       throw new Error(`Invalid chord: ${chord}`)
     }
   }
 
-  // Step 2: Detect key
-  const keyDetection = detectKey(chords)
+  // Step 2: Detect key (or use the caller's key)
+  const keyOverride = options?.key ? parseKeyName(options.key) : null
+  const keyDetection = keyOverride
+    ? evaluateKey(chords, keyOverride.root, keyOverride.scaleType, durations)
+    : detectKey(chords, { durations })
   const { key, confidence, root: keyRoot, scaleType } = keyDetection
 
-  // Step 3: Convert chords to Roman numerals
-  const romanNumerals = getRomanNumerals(chords, keyRoot, scaleType)
-
-  // Step 4: Build chord analysis array
-  const analysis: ChordAnalysis[] = romanNumerals.map((rn, index) => {
-    const harmonicFunction = getHarmonicFunction(rn.degree, rn.quality)
+  // Step 3-4: Convert chords to Roman numerals and build chord analysis array
+  const chordAnalysis = analyzeChordsInKey(chords, keyRoot, scaleType)
+  const analysis = timings ? applyTimings(chordAnalysis, timings) : chordAnalysis
 
-    return {
-      chord: chords[index] ?? '',
-      roman: rn.roman,
-      quality: rn.quality,
-      degree: rn.degree,
-      function: harmonicFunction,
-    }
-  })
-
-  // Step 5: Detect cadences
-  const cadences = detectCadences(analysis, chords)
+  // Step 5: Detect cadences (on strong beats and phrase ends for timed chords)
+  const cadences = timings
+    ? detectMetricalCadences(analysis, chords, timings, beatsPerBar)
+    : detectCadences(analysis, chords)
 
   // Step 6: Detect general patterns
-  const romanStrings = romanNumerals.map((rn) => rn.roman)
+  const romanStrings = analysis.map((chord) => chord.roman)
   const patterns = detectPatterns(romanStrings)
 
   // Step 7: Detect genre patterns using Roman numeral matching
@@ -129,14 +174,24 @@ export function analyzeProgression(
   // Step 10: Update analysis with borrowed/secondary dominant markers
   const enrichedAnalysis = enrichAnalysis(analysis, borrowedChords, secondaryDominants)
 
-  // Step 11: Determine loopability
-  const loopable = isLoopable(enrichedAnalysis)
+  // Step 11: Determine loopability (a timed loop must fill whole bars)
+  const loopable =
+    isLoopable(enrichedAnalysis) && (!timings || fillsWholeBars(timings, beatsPerBar))
 
-  // Step 12: Return complete analysis
+  // Step 12: Detect modulations and analyze each region in its local key
+  // Without modulation, the single region follows the caller's key
+  const detectedRegions = detectKeyRegions(chords)
+  const keyRegions =
+    keyOverride && detectedRegions.length === 1
+      ? [{ start: 0, end: chords.length - 1, key, confidence, analysis }]
+      : detectedRegions
+
+  // Step 13: Return complete analysis
   return {
     key,
     confidence,
     analysis: enrichedAnalysis,
+    keyRegions,
     patterns,
     genrePatterns, // Now type-safe without casts
     suggestedGenres: genreResults,
@@ -180,7 +235,7 @@ function detectBorrowedChords(
   const parallelNotes = parallelScale.notes.map((n) => Note.simplify(n))
 
   for (const chordAnalysis of analysis) {
-    const chordData = Chord.get(chordAnalysis.chord)
+    const chordData = getChordData(chordAnalysis.chord)
     if (!chordData.tonic) continue
 
     const chordRoot = Note.simplify(chordData.tonic)
@@ -361,8 +416,8 @@ function detectSecondaryDominants(
 
     if (!currentChord || !nextChord) continue
 
-    const currentChordData = Chord.get(currentChord)
-    const nextChordData = Chord.get(nextChord)
+    const currentChordData = getChordData(currentChord)
+    const nextChordData = getChordData(nextChord)
 
     // Validate chord data before processing to prevent crashes
     if (!currentChordData.tonic || !nextChordData.tonic) continue
@@ -387,11 +442,11 @@ function detectSecondaryDominants(
     if (interval === 5 || interval === 7) {
       // This is a secondary dominant!
       // Normalize target Roman numeral:
-      // 1. Strip extensions (maj7, 7, 9, 11, 13, 6)
+      // 1. Strip extensions (add6, maj7, 7, 9, 11, 13, 6)
       // 2. Strip accidentals (♭, ♯, #, b)
       // 3. Preserve case (uppercase for major, lowercase for minor)
       let targetRoman = next.roman
-        .replace(/maj7|7|9|11|13|6/g, '') // Remove extensions
+        .replace(/add6|maj7|7|9|11|13|6/g, '') // Remove extensions
         .replace(/[♭♯#b]/g, '') // Remove accidentals
 
       // Ensure proper case (uppercase for major/aug, lowercase for minor/dim)
@@ -401,10 +456,13 @@ function detectSecondaryDominants(
         targetRoman = romanMatch[1]
       }
 
+      // Keep the dominant's own extension or inversion figures (V7/V, V6/5/V, V4/2/IV)
+      const figures = current.roman.replace(/^[♭♯#b]?[ivIV]+[°+]?/, '') || '7'
+
       secondaries.push({
         chord: currentChord,
         targetChord: nextChord,
-        romanNotation: `V7/${targetRoman}`,
+        romanNotation: `V${figures}/${targetRoman}`,
       })
     }
   }
@@ -474,9 +532,12 @@ function isLoopable(analysis: readonly ChordAnalysis[]): boolean {
 }
 
 // Re-export types and helper functions
-export type { ProgressionAnalysis, ProgressionAnalysisOptions, ChordAnalysis }
-export { detectKey } from './key-detection'
+export type { ProgressionAnalysis, ProgressionAnalysisOptions, ChordAnalysis, TimedChord }
+export { detectKey, detectKeyCandidates } from './key-detection'
+export { findKeyFromNotes } from './key-profile'
 export { getRomanNumeral, getRomanNumerals } from './roman-numerals'
 export { getHarmonicFunction } from './analyze'
 export { detectCadences } from './cadences'
 export { detectPatterns } from './patterns'
+export { detectKeyRegions } from './modulation'
+export { detectForm } from './form'
@@ -14,7 +14,14 @@
  * @since v2.0.0
  */
 
-import { Note, Scale, Chord } from 'tonal'
+import type {
+  KeyCandidate,
+  KeyCandidateOptions,
+  KeyDetection,
+  KeyDetectionOptions,
+} from '@music-reasoning/types'
+import { Chord, Note, Scale } from 'tonal'
+import { getChordData } from '../chord/symbol'
 
 /**
  * Maximum number of keys to cache before evicting oldest entries
@@ -29,6 +36,12 @@ const MAX_SCALE_CACHE_SIZE = 100
  */
 const scaleNotesCache = new Map<string, string[]>()
 
+/**
+ * Cache for diatonic triads, keyed like scaleNotesCache
+ * Key detection and modulation detection test every chord against all 24 keys
+ */
+const diatonicChordsCache = new Map<string, string[]>()
+
 /**
  * Get natural scale notes (without harmonic/melodic alterations)
  * Used for accurate degree index calculations
@@ -54,8 +67,10 @@ function getNaturalScaleNotes(root: string, scaleType: 'major' | 'minor'): strin
  * - Maintains natural scale ordering for correct degree calculations
  * - Appends altered notes (raised 6th/7th) at end for membership tests
  * - Implements bounded LRU cache to prevent memory leaks
+ *
+ * @internal
  */
-function getScaleNotes(root: string, scaleType: 'major' | 'minor'): string[] {
+export function getScaleNotes(root: string, scaleType: 'major' | 'minor'): string[] {
   const cacheKey = `${root}:${scaleType}`
 
   // Check cache first
@@ -95,39 +110,12 @@ function getScaleNotes(root: string, scaleType: 'major' | 'minor'): string[] {
   return scaleNotes
 }
 
-/**
- * Key detection result with confidence score
- */
-export interface KeyDetection {
-  /** Detected key (e.g., "C major", "A minor") */
-  readonly key: string
-
-  /**
-   * Confidence in detection (0.0-1.0)
-   * - 1.0 = All chords diatonic
-   * - 0.8+ = Mostly diatonic
-   * - 0.5-0.8 = Moderately chromatic
-   * - <0.5 = Highly chromatic or ambiguous
-   */
-  readonly confidence: number
-
-  /** Root note of the key (e.g., "C", "A") */
-  readonly root: string
-
-  /** Scale type ("major" or "minor") */
-  readonly scaleType: 'major' | 'minor'
-
-  /** Number of diatonic chords found */
-  readonly diatonicCount: number
-
-  /** Total number of chords analyzed */
-  readonly totalChords: number
-}
-
 /**
  * All possible major and minor keys (24 total)
+ *
+ * @internal
  */
-const ALL_KEYS = [
+export const ALL_KEYS = [
   // Major keys
   'C major',
   'G major',
@@ -170,6 +158,12 @@ const ALL_KEYS = [
  * ```
  */
 function getDiatonicChords(root: string, scaleType: 'major' | 'minor'): string[] {
+  const cacheKey = `${root}:${scaleType}`
+  const cached = diatonicChordsCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
   const scale = Scale.get(`${root} ${scaleType}`)
   // ESLint sees !scale.notes as always falsy (Scale.get always returns notes array)
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -199,6 +193,14 @@ function getDiatonicChords(root: string, scaleType: 'major' | 'minor'): string[]
     }
   }
 
+  if (diatonicChordsCache.size >= MAX_SCALE_CACHE_SIZE) {
+    const oldestKey = diatonicChordsCache.keys().next().value
+    if (oldestKey) {
+      diatonicChordsCache.delete(oldestKey)
+    }
+  }
+
+  diatonicChordsCache.set(cacheKey, diatonicChords)
   return diatonicChords
 }
 
@@ -212,10 +214,16 @@ function getDiatonicChords(root: string, scaleType: 'major' | 'minor'): string[]
  *
  * @remarks
  * Handles extended chords (7ths, 9ths, etc.) by checking root and quality
+ *
+ * @internal
  */
-function isChordDiatonic(chord: string, root: string, scaleType: 'major' | 'minor'): boolean {
+export function isChordDiatonic(
+  chord: string,
+  root: string,
+  scaleType: 'major' | 'minor'
+): boolean {
   const diatonicChords = getDiatonicChords(root, scaleType)
-  const chordData = Chord.get(chord)
+  const chordData = getChordData(chord)
 
   if (!chordData.tonic) {
     return false
@@ -237,7 +245,7 @@ function isChordDiatonic(chord: string, root: string, scaleType: 'major' | 'mino
   // diatonic if their root and basic quality (major/minor/dim) match
 
   for (const diatonicChord of diatonicChords) {
-    const diatonicData = Chord.get(diatonicChord)
+    const diatonicData = getChordData(diatonicChord)
 
     if (!diatonicData.tonic) continue
 
@@ -301,31 +309,48 @@ function isChordDiatonic(chord: string, root: string, scaleType: 'major' | 'mino
   return false
 }
 
+/**
+ * Default number of candidates returned by detectKeyCandidates()
+ */
+const DEFAULT_CANDIDATE_LIMIT = 5
+
 /**
  * Score a key based on chord progression
  *
  * @param chords - Array of chord symbols
  * @param root - Root note of candidate key
  * @param scaleType - "major" or "minor"
- * @returns Score object with points and diatonic count
+ * @param weights - Weight of each chord (averaging 1)
+ * @returns Score object with points, diatonic count and weight, and non-diatonic chords
  */
 function scoreKey(
   chords: string[],
   root: string,
-  scaleType: 'major' | 'minor'
-): { score: number; diatonicCount: number } {
+  scaleType: 'major' | 'minor',
+  weights: readonly number[]
+): {
+  score: number
+  diatonicCount: number
+  diatonicWeight: number
+  nonDiatonicChords: string[]
+} {
   let score = 0
   let diatonicCount = 0
+  let diatonicWeight = 0
+  const nonDiatonicChords: string[] = []
 
   for (let i = 0; i < chords.length; i++) {
     const chord = chords[i]
     if (!chord) continue
+    const weight = weights[i] ?? 1
 
     if (isChordDiatonic(chord, root, scaleType)) {
-      score += 2 // Points for diatonic chords
+      score += 2 * weight // Points for diatonic chords
       diatonicCount++
+      diatonicWeight += weight
     } else {
-      score -= 1 // Penalty for non-diatonic chords
+      score -= weight // Penalty for non-diatonic chords
+      nonDiatonicChords.push(chord)
     }
   }
 
@@ -333,7 +358,7 @@ function scoreKey(
   // Starting on tonic is a STRONGER indicator than ending, so weight it higher
   const firstChord = chords[0]
   if (firstChord) {
-    const firstChordData = Chord.get(firstChord)
+    const firstChordData = getChordData(firstChord)
 
     if (firstChordData.tonic) {
       const firstRoot = Note.simplify(firstChordData.tonic)
@@ -348,7 +373,7 @@ function scoreKey(
   // Bonus points for progression ending on tonic
   const lastChord = chords[chords.length - 1]
   if (lastChord) {
-    const lastChordData = Chord.get(lastChord)
+    const lastChordData = getChordData(lastChord)
 
     if (lastChordData.tonic) {
       const lastRoot = Note.simplify(lastChordData.tonic)
@@ -371,8 +396,8 @@ function scoreKey(
       // TypeScript needs explicit null check for array indexing (noUncheckedIndexedAccess)
       if (!current || !next) continue
 
-      const currentData = Chord.get(current)
-      const nextData = Chord.get(next)
+      const currentData = getChordData(current)
+      const nextData = getChordData(next)
 
       // Validate chord data before processing to prevent crashes
       if (!currentData.tonic || !nextData.tonic) continue
@@ -407,16 +432,130 @@ function scoreKey(
     }
   }
 
-  return { score, diatonicCount }
+  return { score, diatonicCount, diatonicWeight, nonDiatonicChords }
+}
+
+/**
+ * Evaluate a chord progression against a single key
+ *
+ * @param chords - Array of chord symbols
+ * @param root - Root note of the key
+ * @param scaleType - "major" or "minor"
+ * @param durations - Optional length of each chord
+ * @returns Key candidate with score, confidence and non-diatonic chords
+ *
+ * @throws {Error} If durations do not match the chords or are not positive
+ *
+ * @internal
+ */
+export function evaluateKey(
+  chords: string[],
+  root: string,
+  scaleType: 'major' | 'minor',
+  durations?: readonly number[]
+): KeyCandidate {
+  const weights = getChordWeights(chords, durations)
+  const { score, diatonicCount, diatonicWeight, nonDiatonicChords } = scoreKey(
+    chords,
+    root,
+    scaleType,
+    weights
+  )
+
+  return {
+    key: `${root} ${scaleType}`,
+    root,
+    scaleType,
+    // Confidence is the diatonic percentage (of the total length for timed chords)
+    confidence: Math.min(1.0, diatonicWeight / chords.length),
+    score,
+    diatonicCount,
+    totalChords: chords.length,
+    nonDiatonicChords,
+  }
+}
+
+/**
+ * Parse a key name into its root and scale type
+ *
+ * @param key - Key name (e.g., "C major", "F# minor", "C#m" for minor, or a bare tonic "Bb")
+ * @param defaultScaleType - Scale type of a bare tonic (default: major)
+ * @returns Root note and scale type
+ *
+ * @throws {Error} If the key name is invalid
+ *
+ * @internal
+ */
+export function parseKeyName(
+  key: string,
+  defaultScaleType: 'major' | 'minor' = 'major'
+): { root: string; scaleType: 'major' | 'minor' } {
+  const [tonic = '', mode, ...rest] = key.trim().replace(/♯/g, '#').replace(/♭/g, 'b').split(/\s+/)
+  // "Am" is A minor, as in chord charts
+  const minorSuffix = mode === undefined && /^[A-G](?:##|bb|#|b)?m$/.test(tonic)
+  const root = Note.get(minorSuffix ? tonic.slice(0, -1) : tonic).pc
+  const scaleType = mode?.toLowerCase() ?? (minorSuffix ? 'minor' : defaultScaleType)
+
+  if (!root || rest.length > 0 || (scaleType !== 'major' && scaleType !== 'minor')) {
+    throw new Error(`Invalid key: ${key}`)
+  }
+
+  return { root, scaleType }
+}
+
+/**
+ * Rank the most likely keys of a chord progression
+ *
+ * @param chords - Array of chord symbols (e.g., ['Am', 'F', 'C', 'G'])
+ * @param options - Number of candidates to return and optional chord durations
+ * @returns Key candidates, best first
+ *
+ * @throws {Error} If chords array is empty
+ * @throws {Error} If limit is not a positive integer
+ * @throws {Error} If durations do not match the chords or are not positive
+ *
+ * @example
+ * ```typescript
+ * const candidates = detectKeyCandidates(['C', 'F', 'G', 'Bb'], { limit: 2 })
+ * // candidates[0] => { key: 'C major', confidence: 0.75, nonDiatonicChords: ['Bb'], ... }
+ * // candidates[1] => { key: 'F major', confidence: 0.75, nonDiatonicChords: ['G'], ... }
+ * ```
+ *
+ * @remarks
+ * Uses the same scoring as detectKey(), so `candidates[0]` is always the key
+ * detectKey() returns. Keys with equal scores keep the order of ALL_KEYS.
+ */
+export function detectKeyCandidates(
+  chords: string[],
+  options?: KeyCandidateOptions
+): KeyCandidate[] {
+  if (chords.length === 0) {
+    throw new Error('Cannot detect key from empty chord progression')
+  }
+
+  const limit = options?.limit ?? DEFAULT_CANDIDATE_LIMIT
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid candidate limit: ${String(limit)}`)
+  }
+
+  const candidates = ALL_KEYS.map((keyName) => {
+    const [root, scaleType] = keyName.split(' ') as [string, 'major' | 'minor']
+    return evaluateKey(chords, root, scaleType, options?.durations)
+  })
+
+  // Array.prototype.sort is stable, so ties keep ALL_KEYS order
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit)
 }
 
 /**
  * Detect the key of a chord progression
  *
  * @param chords - Array of chord symbols (e.g., ['C', 'F', 'G', 'C'])
+ * @param options - Optional chord durations
  * @returns Key detection result with confidence score
  *
  * @throws {Error} If chords array is empty
+ * @throws {Error} If durations do not match the chords or are not positive
  *
  * @example
  * ```typescript
@@ -429,42 +568,51 @@ function scoreKey(
  * @remarks
  * The algorithm scores all 24 major and minor keys and returns the highest-scoring key.
  * Confidence is calculated as the percentage of diatonic chords in the progression.
+ * With `durations`, each chord's points scale with its length, so a two-bar
+ * tonic outweighs a passing chord. Use detectKeyCandidates() for the runners-up.
  */
-export function detectKey(chords: string[]): KeyDetection {
-  if (chords.length === 0) {
+export function detectKey(chords: string[], options?: KeyDetectionOptions): KeyDetection {
+  const [best] = detectKeyCandidates(chords, { limit: 1, durations: options?.durations })
+  if (!best) {
     throw new Error('Cannot detect key from empty chord progression')
   }
 
-  let bestKey = 'C major'
-  let bestScore = -Infinity
-  let bestDiatonicCount = 0
-  let bestRoot = 'C'
-  let bestScaleType: 'major' | 'minor' = 'major'
-
-  // Score all possible keys
-  for (const keyName of ALL_KEYS) {
-    const [root, scaleType] = keyName.split(' ') as [string, 'major' | 'minor']
-    const { score, diatonicCount } = scoreKey(chords, root, scaleType)
-
-    if (score > bestScore) {
-      bestScore = score
-      bestKey = keyName
-      bestDiatonicCount = diatonicCount
-      bestRoot = root
-      bestScaleType = scaleType
-    }
+  return {
+    key: best.key,
+    confidence: best.confidence,
+    root: best.root,
+    scaleType: best.scaleType,
+    diatonicCount: best.diatonicCount,
+    totalChords: best.totalChords,
   }
+}
 
-  // Calculate confidence based on diatonic percentage
-  const diatonicPercentage = bestDiatonicCount / chords.length
-  const confidence = Math.min(1.0, diatonicPercentage)
+/**
+ * Turn chord durations into weights that average 1, so equal durations score
+ * exactly like unweighted chords
+ *
+ * @param chords - Array of chord symbols
+ * @param durations - Optional length of each chord
+ * @returns Weight of each chord
+ *
+ * @throws {Error} If durations do not match the chords or are not positive
+ *
+ * @internal
+ */
+function getChordWeights(chords: readonly string[], durations?: readonly number[]): number[] {
+  if (!durations) return chords.map(() => 1)
 
-  return {
-    key: bestKey,
-    confidence,
-    root: bestRoot,
-    scaleType: bestScaleType,
-    diatonicCount: bestDiatonicCount,
-    totalChords: chords.length,
+  if (durations.length !== chords.length) {
+    throw new Error(
+      `Expected ${String(chords.length)} chord durations, got ${String(durations.length)}`
+    )
   }
+  for (const duration of durations) {
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error(`Invalid chord duration: ${String(duration)}`)
+    }
+  }
+
+  const total = durations.reduce((sum, duration) => sum + duration, 0)
+  return durations.map((duration) => (duration * durations.length) / total)
 }
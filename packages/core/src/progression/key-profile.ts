@@ -0,0 +1,174 @@
+/**
+ * Pitch-Class-Profile Key Finding
+ *
+ * Finds the key of a note stream (melody, MIDI notes) rather than chord
+ * symbols, using the Krumhansl-Schmuckler algorithm:
+ * 1. Sum note durations into a 12-bin pitch-class distribution
+ * 2. Correlate the distribution with a major and minor key profile
+ *    rotated to each of the 12 tonics (24 keys)
+ * 3. Return the best-correlated key with correlations for all keys
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type {
+  KeyCorrelation,
+  KeyProfileDetection,
+  KeyProfileOptions,
+  WeightedNote,
+} from '@music-reasoning/types'
+import { Note } from 'tonal'
+import { ALL_KEYS, getScaleNotes } from './key-detection'
+
+/**
+ * Key profiles indexed by semitones above the tonic
+ *
+ * Krumhansl-Kessler (1982) probe-tone ratings, and Temperley (2007)
+ * profiles derived from the Kostka-Payne harmony textbook corpus.
+ */
+const KEY_PROFILES: Readonly<
+  Record<'krumhansl' | 'temperley', { major: readonly number[]; minor: readonly number[] }>
+> = {
+  krumhansl: {
+    major: [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88],
+    minor: [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17],
+  },
+  temperley: {
+    major: [0.748, 0.06, 0.488, 0.082, 0.67, 0.46, 0.096, 0.715, 0.104, 0.366, 0.057, 0.4],
+    minor: [0.712, 0.084, 0.474, 0.618, 0.049, 0.46, 0.105, 0.747, 0.404, 0.067, 0.133, 0.33],
+  },
+}
+
+/**
+ * Find the key of a note stream by pitch-class-profile correlation
+ *
+ * @param notes - Notes with optional durations, or plain note names / MIDI numbers
+ *   (each counted with weight 1)
+ * @param options - Key profile to use
+ * @returns Best key in the KeyDetection shape, plus correlations for all 24 keys
+ *
+ * @throws {Error} If notes array is empty
+ * @throws {Error} If a note is invalid or has a negative or non-finite duration
+ *
+ * @example
+ * ```typescript
+ * const result = findKeyFromNotes([
+ *   { pitch: 'A3', duration: 2 },
+ *   { pitch: 'C4', duration: 1 },
+ *   { pitch: 'E4', duration: 1 },
+ *   { pitch: 'G#4', duration: 0.5 },
+ *   { pitch: 'A4', duration: 2 },
+ * ])
+ * // result.key === 'A minor'
+ * // result.correlations[0].key === 'A minor'
+ * ```
+ *
+ * @remarks
+ * Confidence is the best key's correlation, clamped to 0.0-1.0.
+ * `diatonicCount` and `totalChords` count notes instead of chords;
+ * minor keys accept the raised 6th and 7th as diatonic.
+ * Keys with equal correlations keep the order of ALL_KEYS.
+ */
+export function findKeyFromNotes(
+  notes: readonly (WeightedNote | string | number)[],
+  options?: KeyProfileOptions
+): KeyProfileDetection {
+  if (notes.length === 0) {
+    throw new Error('Cannot find key from empty note list')
+  }
+
+  const profile = KEY_PROFILES[options?.profile ?? 'krumhansl']
+
+  // Step 1: Build the weighted pitch-class distribution
+  const chromas: number[] = []
+  const distribution = new Array<number>(12).fill(0)
+  for (const item of notes) {
+    const note = typeof item === 'object' ? item : { pitch: item }
+    const duration = note.duration ?? 1
+    const chroma = getChroma(note.pitch)
+
+    if (!Number.isFinite(duration) || duration < 0) {
+      throw new Error(`Invalid duration for note ${String(note.pitch)}: ${String(duration)}`)
+    }
+
+    chromas.push(chroma)
+    distribution[chroma] = (distribution[chroma] ?? 0) + duration
+  }
+
+  // Step 2: Correlate with every key profile
+  const correlations: KeyCorrelation[] = ALL_KEYS.map((keyName) => {
+    const [root, scaleType] = keyName.split(' ') as [string, 'major' | 'minor']
+    const tonic = Note.chroma(root)
+    const rotated = distribution.map((_, i) => distribution[(i + tonic) % 12] ?? 0)
+    return { key: keyName, root, scaleType, correlation: pearson(rotated, profile[scaleType]) }
+  })
+  correlations.sort((a, b) => b.correlation - a.correlation)
+
+  // Step 3: Report the best key
+  const best = correlations[0]
+  if (!best) {
+    throw new Error('Cannot find key from empty note list')
+  }
+
+  const scaleChromas = getScaleNotes(best.root, best.scaleType).map((n) => Note.chroma(n))
+  const diatonicCount = chromas.filter((chroma) => scaleChromas.includes(chroma)).length
+
+  return {
+    key: best.key,
+    confidence: Math.max(0, Math.min(1.0, best.correlation)),
+    root: best.root,
+    scaleType: best.scaleType,
+    diatonicCount,
+    totalChords: notes.length,
+    correlations,
+  }
+}
+
+/**
+ * Get the pitch class (0-11) of a note name or MIDI number
+ *
+ * @param pitch - Note name or MIDI pitch number
+ * @returns Pitch class number
+ *
+ * @throws {Error} If the pitch is invalid
+ */
+function getChroma(pitch: string | number): number {
+  if (typeof pitch === 'number') {
+    if (!Number.isInteger(pitch) || pitch < 0 || pitch > 127) {
+      throw new Error(`Invalid MIDI pitch: ${String(pitch)}`)
+    }
+    return pitch % 12
+  }
+
+  const chroma = Note.chroma(pitch)
+  if (Number.isNaN(chroma)) {
+    throw new Error(`Invalid note: ${pitch}`)
+  }
+  return chroma
+}
+
+/**
+ * Pearson correlation coefficient of two equal-length series
+ *
+ * @returns Correlation, or 0 when either series is constant
+ */
+function pearson(x: readonly number[], y: readonly number[]): number {
+  const n = x.length
+  const meanX = x.reduce((sum, v) => sum + v, 0) / n
+  const meanY = y.reduce((sum, v) => sum + v, 0) / n
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    const dx = (x[i] ?? 0) - meanX
+    const dy = (y[i] ?? 0) - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  }
+
+  const denominator = Math.sqrt(varianceX * varianceY)
+  return denominator === 0 ? 0 : covariance / denominator
+}
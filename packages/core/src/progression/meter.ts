@@ -0,0 +1,241 @@
+/**
+ * Metrical Position
+ *
+ * Places timed chords in bars and beats, and detects cadences with their
+ * metrical position in mind:
+ * - A cadence arrives on a strong beat (the downbeat, or the middle of an
+ *   even bar such as beat 3 of 4/4), or on the last chord
+ * - A half cadence needs a phrase end: the last chord, or a dominant held
+ *   through the end of a four-bar group
+ * - An authentic cadence is strong only at a phrase end
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { Cadence, ChordAnalysis, TimedChord } from '@music-reasoning/types'
+import { detectCadences } from './cadences'
+
+/** Bars in a phrase; cadences held through the end of one close the phrase */
+const PHRASE_BARS = 4
+
+/** Tolerance for beat positions built from fractional durations (e.g., thirds) */
+const EPSILON = 1e-9
+
+/** Reported beat positions are rounded to this many steps per beat */
+const BEAT_PRECISION = 1e6
+
+/**
+ * Position and length of a timed chord.
+ *
+ * @internal
+ */
+export interface ChordTiming {
+  /** Start in beats from the beginning */
+  readonly start: number
+
+  /** Length in beats */
+  readonly beats: number
+
+  /** Bar the chord starts in (1-based) */
+  readonly bar: number
+
+  /** Beat within the bar (1-based) */
+  readonly beat: number
+}
+
+/**
+ * Check whether a progression carries durations
+ *
+ * @param progression - Chord symbols or timed chords
+ * @returns true for timed chords
+ *
+ * @internal
+ */
+export function isTimedProgression(
+  progression: readonly string[] | readonly TimedChord[]
+): progression is readonly TimedChord[] {
+  return typeof progression[0] === 'object'
+}
+
+/**
+ * Validate a time signature and return its beats per bar
+ *
+ * @param timeSignature - Meter as [beats per bar, beat unit]
+ * @returns Beats per bar
+ *
+ * @throws {Error} If either number is not a positive integer
+ *
+ * @internal
+ */
+export function getBeatsPerBar(timeSignature: readonly [number, number]): number {
+  const [beatsPerBar, beatUnit] = timeSignature
+  if (
+    !Number.isInteger(beatsPerBar) ||
+    !Number.isInteger(beatUnit) ||
+    beatsPerBar < 1 ||
+    beatUnit < 1
+  ) {
+    throw new Error(`Invalid time signature: ${String(beatsPerBar)}/${String(beatUnit)}`)
+  }
+  return beatsPerBar
+}
+
+/**
+ * Place timed chords in bars and beats
+ *
+ * @param chords - Timed chords in order
+ * @param beatsPerBar - Beats per bar
+ * @returns Start, length, bar and beat of each chord
+ *
+ * @throws {Error} If a chord's length is not a positive number
+ *
+ * @example
+ * ```typescript
+ * getChordTimings([{ chord: 'C', beats: 6 }, { chord: 'G', beats: 2 }], 4)
+ * // => [
+ * //   { start: 0, beats: 6, bar: 1, beat: 1 },
+ * //   { start: 6, beats: 2, bar: 2, beat: 3 }
+ * // ]
+ * ```
+ *
+ * @internal
+ */
+export function getChordTimings(chords: readonly TimedChord[], beatsPerBar: number): ChordTiming[] {
+  let start = 0
+  return chords.map(({ chord, beats }, index) => {
+    if (!Number.isFinite(beats) || beats <= 0) {
+      throw new Error(
+        `Invalid duration for chord ${chord} at index ${String(index)}: ${String(beats)}`
+      )
+    }
+
+    const bar = Math.floor(start / beatsPerBar + EPSILON)
+    const timing = { start, beats, bar: bar + 1, beat: roundBeat(start - bar * beatsPerBar + 1) }
+    start += beats
+    return timing
+  })
+}
+
+/**
+ * Add bar, beat and length to each analyzed chord
+ *
+ * @param analysis - Per-chord analysis
+ * @param timings - Timing of each chord
+ * @returns Analysis with timing
+ *
+ * @internal
+ */
+export function applyTimings(
+  analysis: readonly ChordAnalysis[],
+  timings: readonly ChordTiming[]
+): ChordAnalysis[] {
+  return analysis.map((chord, index) => {
+    const timing = timings[index]
+    return timing ? { ...chord, bar: timing.bar, beat: timing.beat, beats: timing.beats } : chord
+  })
+}
+
+/**
+ * Detect cadences at strong metrical positions
+ *
+ * @param analysis - Per-chord analysis
+ * @param chords - Chord symbols
+ * @param timings - Timing of each chord
+ * @param beatsPerBar - Beats per bar
+ * @returns Cadences with the bar and beat of their arrival chord
+ *
+ * @example
+ * ```typescript
+ * // | C | F G | C | (G passes on beat 3 of bar 2, C arrives on the downbeat of bar 3)
+ * detectMetricalCadences(analysis, ['C', 'F', 'G', 'C'], timings, 4)
+ * // => [{ type: 'authentic', chords: ['G', 'C'], strength: 'strong', bar: 3, beat: 1, phraseEnd: true }]
+ * ```
+ *
+ * @remarks
+ * Motions that arrive on a weak beat are passing harmony, not cadences,
+ * unless they end the progression.
+ *
+ * @internal
+ */
+export function detectMetricalCadences(
+  analysis: readonly ChordAnalysis[],
+  chords: readonly string[],
+  timings: readonly ChordTiming[],
+  beatsPerBar: number
+): Cadence[] {
+  const cadences: Cadence[] = []
+
+  for (let i = 1; i < analysis.length; i++) {
+    const previous = analysis[i - 1]
+    const arrival = analysis[i]
+    const timing = timings[i]
+    if (!previous || !arrival || !timing) continue
+
+    const [cadence] = detectCadences([previous, arrival], [chords[i - 1] ?? '', chords[i] ?? ''])
+    if (!cadence) continue
+
+    const last = i === analysis.length - 1
+    const phraseEnd = last || isHeldThroughPhraseEnd(timing, beatsPerBar)
+    if (!last && !isStrongBeat(timing.beat, beatsPerBar)) continue
+    if (cadence.type === 'half' && !phraseEnd) continue
+
+    cadences.push({
+      ...cadence,
+      strength: cadence.type === 'authentic' && phraseEnd ? 'strong' : 'weak',
+      bar: timing.bar,
+      beat: timing.beat,
+      phraseEnd,
+    })
+  }
+
+  return cadences
+}
+
+/**
+ * Check whether timed chords fill a whole number of bars
+ *
+ * @param timings - Timing of each chord
+ * @param beatsPerBar - Beats per bar
+ * @returns true if the last chord ends on a bar line
+ *
+ * @internal
+ */
+export function fillsWholeBars(timings: readonly ChordTiming[], beatsPerBar: number): boolean {
+  const last = timings[timings.length - 1]
+  if (!last) return false
+  const total = last.start + last.beats
+  return Math.abs(total / beatsPerBar - Math.round(total / beatsPerBar)) < EPSILON
+}
+
+/**
+ * Check whether a beat is strong: the downbeat, or the middle of an even bar
+ * of four or more beats (beat 3 of 4/4, beat 4 of 6/8)
+ *
+ * @internal
+ */
+function isStrongBeat(beat: number, beatsPerBar: number): boolean {
+  if (beat === 1) return true
+  return beatsPerBar >= 4 && beatsPerBar % 2 === 0 && beat === beatsPerBar / 2 + 1
+}
+
+/**
+ * Check whether a chord is held through the last bar line of a phrase
+ *
+ * @internal
+ */
+function isHeldThroughPhraseEnd(timing: ChordTiming, beatsPerBar: number): boolean {
+  const phraseBeats = PHRASE_BARS * beatsPerBar
+  const end = timing.start + timing.beats
+  const nextPhraseEnd = (Math.floor(timing.start / phraseBeats + EPSILON) + 1) * phraseBeats
+  return end >= nextPhraseEnd - EPSILON
+}
+
+/**
+ * Round away floating-point noise from a beat position (a triplet starts on beat 1.333333)
+ *
+ * @internal
+ */
+function roundBeat(beat: number): number {
+  return Math.round(beat * BEAT_PRECISION) / BEAT_PRECISION
+}
@@ -0,0 +1,347 @@
+/**
+ * Modulation Detection
+ *
+ * Segments a chord progression into key regions so that songs which change
+ * key (e.g., a last chorus up a whole step) are analyzed in their local keys.
+ *
+ * Algorithm:
+ * 1. Score every chord against all 24 keys (diatonic membership, tonic bonus)
+ * 2. Find the cheapest key path with a Viterbi pass. Changing key costs more
+ *    than one chromatic chord, so brief tonicizations (V7/V → V) stay in place
+ * 3. Move each key change to the first chord outside the old key
+ * 4. Merge regions shorter than MIN_REGION_LENGTH into the preceding region
+ * 5. Find pivot chords at region boundaries
+ * 6. Reanalyze each region's chords in its local key
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { KeyRegion, PivotChord } from '@music-reasoning/types'
+import { Note } from 'tonal'
+import { getChordData } from '../chord/symbol'
+import { ALL_KEYS, detectKey, isChordDiatonic } from './key-detection'
+import { analyzeChordsInKey } from './analyze'
+
+/**
+ * Cost of a chord that is not diatonic to the current key
+ */
+const NON_DIATONIC_COST = 1
+
+/**
+ * Cost reduction for a diatonic chord on the key's tonic
+ * Helps separate keys that share most chords (C major vs G major)
+ */
+const TONIC_BONUS = 0.75
+
+/**
+ * Cost of changing key between two chords
+ * Higher than NON_DIATONIC_COST so a single chromatic chord is a tonicization,
+ * not a modulation
+ */
+const KEY_CHANGE_COST = 1.5
+
+/**
+ * Minimum number of chords for a region to count as a modulation
+ */
+const MIN_REGION_LENGTH = 3
+
+/**
+ * A key span before relabeling (inclusive indices)
+ */
+interface Segment {
+  start: number
+  end: number
+  key: string
+}
+
+/**
+ * Detect key regions (modulations) in a chord progression
+ *
+ * @param chords - Array of chord symbols
+ * @returns Key regions in progression order, each analyzed in its local key
+ *
+ * @throws {Error} If chords array is empty
+ * @throws {Error} If any chord is invalid
+ *
+ * @example
+ * ```typescript
+ * const regions = detectKeyRegions(['C', 'Am', 'F', 'G7', 'C', 'Em', 'A7', 'D', 'G', 'A7', 'D'])
+ * // regions[0] => { start: 0, end: 5, key: 'C major', ... }
+ * // regions[1] => {
+ * //   start: 5, end: 10, key: 'D major',
+ * //   pivot: { index: 5, chord: 'Em', fromRoman: 'iii', toRoman: 'ii', ... },
+ * //   analysis: [{ chord: 'Em', roman: 'ii', ... }, { chord: 'A7', roman: 'V7', ... }, ...]
+ * // }
+ * ```
+ *
+ * @remarks
+ * A progression without modulation returns a single region covering every
+ * chord, in the key reported by detectKey().
+ */
+export function detectKeyRegions(chords: string[]): KeyRegion[] {
+  if (chords.length === 0) {
+    throw new Error('Cannot detect key regions from empty chord progression')
+  }
+
+  const labeled = mergeShortSegments(delayKeyChanges(chords, findKeyPath(chords)))
+
+  // Without modulation, report the same key as detectKey()
+  const only = labeled.length === 1 ? labeled[0] : undefined
+  if (only) {
+    only.key = detectKey(chords).key
+  }
+
+  // A pivot chord belongs to both the region it leaves and the region it enters
+  for (const [i, segment] of labeled.entries()) {
+    const previous = labeled[i - 1]
+    if (!previous) continue
+    const pivotIndex = findPivotIndex(chords, previous, segment)
+    if (pivotIndex !== null) {
+      previous.end = pivotIndex
+      segment.start = pivotIndex
+    }
+  }
+
+  const regions = labeled.map((segment) => buildRegion(chords, segment))
+  return regions.map((region, i) => {
+    const previous = regions[i - 1]
+    if (!previous || previous.end !== region.start) return region
+    return { ...region, pivot: buildPivot(chords, region.start, previous, region) }
+  })
+}
+
+/**
+ * Find the cheapest sequence of keys with a Viterbi pass
+ *
+ * @param chords - Array of chord symbols
+ * @returns Segments of consecutive chords assigned to the same key
+ */
+function findKeyPath(chords: string[]): Segment[] {
+  // Repeated chords share a cost row
+  const rows = new Map<string, number[]>()
+  const costs = chords.map((chord) => {
+    const row = rows.get(chord) ?? ALL_KEYS.map((key) => getChordCost(chord, key))
+    rows.set(chord, row)
+    return row
+  })
+
+  let totals = costs[0] ?? []
+  const backPointers: number[][] = []
+
+  for (let t = 1; t < costs.length; t++) {
+    const stepCosts = costs[t]
+    if (!stepCosts) continue // Type guard
+
+    // Cheapest previous key overall, for key changes
+    let bestPrev = 0
+    for (let k = 1; k < totals.length; k++) {
+      if ((totals[k] ?? Infinity) < (totals[bestPrev] ?? Infinity)) bestPrev = k
+    }
+
+    const pointers: number[] = []
+    totals = stepCosts.map((cost, k) => {
+      const stay = totals[k] ?? Infinity
+      const change = (totals[bestPrev] ?? Infinity) + KEY_CHANGE_COST
+      // Ties stay in the current key
+      if (change < stay) {
+        pointers.push(bestPrev)
+        return change + cost
+      }
+      pointers.push(k)
+      return stay + cost
+    })
+    backPointers.push(pointers)
+  }
+
+  // Trace back the cheapest path
+  let current = 0
+  for (let k = 1; k < totals.length; k++) {
+    if ((totals[k] ?? Infinity) < (totals[current] ?? Infinity)) current = k
+  }
+  const path: number[] = [current]
+  for (let t = backPointers.length - 1; t >= 0; t--) {
+    current = backPointers[t]?.[current] ?? current
+    path.unshift(current)
+  }
+
+  // Collapse the path into segments
+  const segments: Segment[] = []
+  path.forEach((keyIndex, index) => {
+    const key = ALL_KEYS[keyIndex] ?? 'C major'
+    const last = segments[segments.length - 1]
+    if (last && last.key === key) {
+      last.end = index
+    } else {
+      segments.push({ start: index, end: index, key })
+    }
+  })
+
+  return segments
+}
+
+/**
+ * Move each key change to the first chord that does not fit the old key
+ *
+ * @param chords - Array of chord symbols
+ * @param segments - Segments from the Viterbi pass
+ * @returns Segments with boundaries moved as late as possible
+ *
+ * @remarks
+ * Chords shared by both keys can sit on either side of a boundary at equal
+ * cost. Keeping them in the old key places the boundary where the new key
+ * is first heard, which leaves the last shared chord as the pivot.
+ */
+function delayKeyChanges(chords: string[], segments: Segment[]): Segment[] {
+  const delayed: Segment[] = []
+
+  for (const segment of segments) {
+    const previous = delayed[delayed.length - 1]
+    const current = { ...segment }
+
+    if (previous) {
+      const [root, scaleType] = previous.key.split(' ') as [string, 'major' | 'minor']
+      while (current.start <= current.end) {
+        const chord = chords[current.start]
+        if (!chord || !isChordDiatonic(chord, root, scaleType)) break
+        current.start++
+        previous.end++
+      }
+      // The whole segment fit the old key
+      if (current.start > current.end) continue
+    }
+
+    delayed.push(current)
+  }
+
+  return delayed
+}
+
+/**
+ * Cost of a chord under a candidate key (lower is a better fit)
+ *
+ * @param chord - Chord symbol
+ * @param key - Key name (e.g., "C major")
+ * @returns Cost for the Viterbi pass
+ */
+function getChordCost(chord: string, key: string): number {
+  const [root, scaleType] = key.split(' ') as [string, 'major' | 'minor']
+
+  if (!isChordDiatonic(chord, root, scaleType)) {
+    return NON_DIATONIC_COST
+  }
+
+  const chordData = getChordData(chord)
+  const isTonic = chordData.tonic && Note.simplify(chordData.tonic) === Note.simplify(root)
+  return isTonic ? -TONIC_BONUS : 0
+}
+
+/**
+ * Merge regions that are too short to establish a key into the preceding region
+ *
+ * @param segments - Segments from the Viterbi pass
+ * @returns Segments of at least MIN_REGION_LENGTH chords (unless the input is shorter)
+ *
+ * @remarks
+ * A short opening segment merges into the following region instead.
+ */
+function mergeShortSegments(segments: Segment[]): Segment[] {
+  const merged: Segment[] = []
+
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1]
+    const length = segment.end - segment.start + 1
+
+    if (previous && (length < MIN_REGION_LENGTH || previous.key === segment.key)) {
+      previous.end = segment.end
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+
+  // A short first segment joins the region after it
+  const first = merged[0]
+  const second = merged[1]
+  if (first && second && first.end - first.start + 1 < MIN_REGION_LENGTH) {
+    merged.splice(0, 2, { start: first.start, end: second.end, key: second.key })
+  }
+
+  return merged
+}
+
+/**
+ * Find the pivot chord between two adjacent regions
+ *
+ * @param chords - Array of chord symbols
+ * @param previous - Region being left
+ * @param next - Region being entered
+ * @returns Index of a chord diatonic in both keys at the boundary, or null
+ *
+ * @remarks
+ * Checks the last chord of the old region first, then the first chord of the new one.
+ */
+function findPivotIndex(chords: string[], previous: Segment, next: Segment): number | null {
+  const [fromRoot, fromType] = previous.key.split(' ') as [string, 'major' | 'minor']
+  const [toRoot, toType] = next.key.split(' ') as [string, 'major' | 'minor']
+
+  for (const index of [previous.end, next.start]) {
+    const chord = chords[index]
+    if (!chord) continue // Type guard
+
+    if (isChordDiatonic(chord, fromRoot, fromType) && isChordDiatonic(chord, toRoot, toType)) {
+      return index
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build a key region with its local-key analysis
+ *
+ * @param chords - Array of chord symbols
+ * @param segment - Region span and key
+ * @returns Key region
+ */
+function buildRegion(chords: string[], segment: Segment): KeyRegion {
+  const regionChords = chords.slice(segment.start, segment.end + 1)
+  const [root, scaleType] = segment.key.split(' ') as [string, 'major' | 'minor']
+
+  // Confidence is the share of the region's chords that fit its key
+  const diatonicCount = regionChords.filter((chord) =>
+    isChordDiatonic(chord, root, scaleType)
+  ).length
+
+  return {
+    start: segment.start,
+    end: segment.end,
+    key: segment.key,
+    confidence: diatonicCount / regionChords.length,
+    analysis: analyzeChordsInKey(regionChords, root, scaleType),
+  }
+}
+
+/**
+ * Describe a pivot chord in both keys
+ *
+ * @param chords - Array of chord symbols
+ * @param index - Index of the pivot chord
+ * @param previous - Region being left (ends on the pivot)
+ * @param next - Region being entered (starts on the pivot)
+ * @returns Pivot chord description
+ */
+function buildPivot(
+  chords: string[],
+  index: number,
+  previous: KeyRegion,
+  next: KeyRegion
+): PivotChord {
+  return {
+    index,
+    chord: chords[index] ?? '',
+    fromKey: previous.key,
+    toKey: next.key,
+    fromRoman: previous.analysis[previous.analysis.length - 1]?.roman ?? '',
+    toRoman: next.analysis[0]?.roman ?? '',
+  }
+}
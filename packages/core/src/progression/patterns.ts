@@ -15,6 +15,7 @@
  */
 
 import type { Pattern } from '@music-reasoning/types'
+import { toRootPositionRoman } from './roman-numerals'
 
 /**
  * Common progression pattern definition
@@ -169,11 +170,14 @@ const COMMON_PATTERNS: readonly PatternDefinition[] = [
  * @returns Normalized Roman numeral (e.g., "I", "ii", "V")
  *
  * @remarks
- * Strips extensions (7, maj7, 9, etc.) but preserves case and diminished/augmented markers
+ * Strips inversion figures and extensions (7, maj7, 9, etc.) but preserves case
+ * and diminished/augmented markers
  */
 function normalizeRoman(roman: string): string {
-  // Remove numeric extensions but keep case and quality markers
-  return roman.replace(/maj7|7|9|11|13|6/g, '').replace(/\s+/g, '')
+  // Remove inversion figures and numeric extensions but keep case and quality markers
+  return toRootPositionRoman(roman)
+    .replace(/add6|maj7|7|9|11|13|6/g, '')
+    .replace(/\s+/g, '')
 }
 
 /**
@@ -9,12 +9,16 @@
  * - Lowercase (ii, iii, vi) = Minor
  * - Diminished = lowercase with ° (vii°)
  * - Extensions preserved (ii7, V7, Imaj7, etc.)
+ * - Inversions use figured bass (I6, I6/4, V6/5, V4/3, vii°4/2)
  *
  * @packageDocumentation
  * @since v2.0.0
  */
 
-import { Note, Scale, Chord } from 'tonal'
+import type { ChordSymbolAST } from '@music-reasoning/types'
+import { Note, Scale } from 'tonal'
+import { getSymbolInversion } from '../chord/inversion'
+import { getChordData, isDominantSeventh, tryParseChordSymbol } from '../chord/symbol'
 
 /**
  * Roman numeral analysis result for a single chord
@@ -28,8 +32,22 @@ export interface RomanNumeralResult {
 
   /** Chord quality (e.g., "major", "minor", "dominant", "diminished") */
   readonly quality: string
+
+  /** Bass note: the slash bass for slash chords, otherwise the root */
+  readonly bass: string
+
+  /** Inversion number (0 = root position), or null if the bass is not a chord tone */
+  readonly inversion: number | null
 }
 
+/**
+ * Seventh-chord inversion figures (a root-position seventh chord shows "7")
+ */
+const SEVENTH_INVERSION_FIGURES = /(6\/5|4\/3|4\/2)$/
+
+/** First-inversion figure of a triad (not the "6" of an added sixth) */
+const TRIAD_INVERSION_FIGURE = /(?<!add)6$/
+
 /**
  * Roman numeral symbols for scale degrees
  */
@@ -59,76 +77,29 @@ function getScaleDegree(note: string, keyRoot: string, scaleType: 'major' | 'min
 }
 
 /**
- * Determine chord quality from chord data
+ * Determine chord quality from a parsed chord symbol
  *
- * @param chordData - Tonal.js Chord object
+ * @param ast - Parsed chord symbol, or null if it could not be parsed
  * @returns Quality string (e.g., "major", "minor", "dominant", "diminished")
+ *
+ * @remarks
+ * Suspended and power chords have no third and are treated as major.
  */
-function determineChordQuality(chordData: ReturnType<typeof Chord.get>): string {
-  // ESLint sees chordData.quality/aliases as always truthy and doesn't need optional chaining
-  // But tonal.js can return empty/undefined values
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  const rawQuality = chordData.quality || chordData.aliases?.[0] || ''
-
-  // Normalize to lowercase for consistent matching (Tonal returns "Major", "Minor", etc.)
-  const quality = rawQuality.toLowerCase()
-  const type = (chordData.type || '').toLowerCase()
+function determineChordQuality(ast: ChordSymbolAST | null): string {
+  if (!ast) return 'major'
 
   // Diminished (including half-diminished m7b5)
-  if (quality.includes('dim') || quality.includes('°') || type.includes('diminished')) {
-    return 'diminished'
-  }
+  if (ast.quality === 'diminished') return 'diminished'
 
-  // Augmented
-  if (quality.includes('aug') || quality.includes('+') || type.includes('augmented')) {
-    return 'augmented'
-  }
+  // Augmented (including C7#5 / C+7)
+  if (ast.quality === 'augmented') return 'augmented'
 
-  // Dominant - Check type field FIRST (most reliable)
-  // Tonal.js returns type="dominant seventh", "dominant ninth", etc.
-  if (type.includes('dominant')) {
-    return 'dominant'
-  }
+  // Dominant: a minor seventh over a major or suspended triad (G7, G9, G7sus4)
+  if (isDominantSeventh(ast)) return 'dominant'
 
-  // Dominant (7th without maj7) - quality-based fallback
-  // Examples: "7", "9", "13" in quality string
-  if (
-    (quality.includes('7') ||
-      quality.includes('9') ||
-      quality.includes('11') ||
-      quality.includes('13')) &&
-    !quality.includes('maj7') &&
-    !quality.includes('m7') &&
-    !quality.includes('major 7')
-  ) {
-    return 'dominant'
-  }
+  if (ast.quality === 'minor') return 'minor'
 
-  // Major 7th (still major quality, just with extensions)
-  if (quality.includes('maj7') || quality.includes('major 7') || quality.includes('δ')) {
-    return 'major'
-  }
-
-  // Minor - check for explicit 'minor' keyword only
-  // CRITICAL: Do NOT check aliases because both major and minor have "m" alias after lowercasing
-  // Major aliases: ["M", "^", "", "maj"] → lowercase → ["m", "^", "", "maj"]
-  // Minor aliases: ["m", "min", "-"] → lowercase → ["m", "min", "-"]
-  // The quality field is the only reliable discriminator
-  if (quality.includes('minor')) {
-    return 'minor'
-  }
-
-  // Major (default for triads without quality markers)
-  if (!quality || quality.includes('major')) {
-    return 'major'
-  }
-
-  // Suspended chords
-  if (quality.includes('sus')) {
-    return 'suspended'
-  }
-
-  return 'major' // Default fallback
+  return 'major'
 }
 
 /**
@@ -179,51 +150,87 @@ function buildRomanNumeral(degree: number, quality: string, extensions: string):
 }
 
 /**
- * Extract chord extensions from chord symbol
+ * Add figured-bass inversion figures to a Roman numeral
+ *
+ * @param roman - Root-position Roman numeral (e.g., "V7", "I", "vii°7")
+ * @param extensions - Chord extensions used to build the numeral (e.g., "7", "maj7", "")
+ * @param figuredBass - Figured bass from the chord's inversion (e.g., "6/5"), or null
+ * @returns Roman numeral with figures (e.g., "V6/5", "I6", "vii°4/2")
  *
- * @param chordSymbol - Chord symbol (e.g., "Dm7", "Cmaj7", "G9")
- * @param chordData - Pre-parsed chord data from Chord.get() (avoids redundant parsing)
- * @returns Extension string (e.g., "7", "maj7", "9")
+ * @remarks
+ * Seventh chords replace their "7" with the inversion figure ("Imaj7" → "Imaj6/5").
+ * Triads append the figure. Chords that figures do not describe (9ths, added
+ * sixths, sus chords, non-chord-tone basses) are returned unchanged.
+ *
+ * @example
+ * ```typescript
+ * applyInversionFigures('V7', '7', '6/5') // => "V6/5"
+ * applyInversionFigures('I', '', '6/4') // => "I6/4"
+ * applyInversionFigures('V7', '7', '7') // => "V7"
+ * ```
  */
-function extractExtensions(chordSymbol: string, chordData: ReturnType<typeof Chord.get>): string {
-  // Parse the original chord symbol directly (most reliable)
-  // Examples: "Dm7", "G7", "Cmaj7", "Am9", "D13"
-
-  // Extract quality and type from pre-parsed chord data
-  // ESLint sees chordData.quality/type as always truthy, but can be empty/undefined
-  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-  const quality = (chordData.quality || '').toLowerCase()
-  const type = (chordData.type || '').toLowerCase()
-
-  // Check for major 7th variants first (maj7, M7, Δ7, major7)
-  if (/maj7/i.test(chordSymbol) || /Δ7/.test(chordSymbol) || /major7/i.test(chordSymbol)) {
-    return 'maj7'
+function applyInversionFigures(
+  roman: string,
+  extensions: string,
+  figuredBass: string | null
+): string {
+  if (!figuredBass) return roman
+
+  if (extensions === '7' || extensions === 'maj7') {
+    return roman.replace(/7$/, figuredBass)
   }
 
-  // Check for M7 (capital M) - supports both major seventh (CM7) and minor-major seventh (CmM7)
-  // Must come BEFORE /m7/i check to avoid false match on CmM7 → m7
-  if (/M7/.test(chordSymbol)) {
-    return 'maj7'
-  }
+  // Triad figures only apply when no extension was rendered
+  return extensions === '' ? roman + figuredBass : roman
+}
 
-  // Check for minor 7th (m7 with minor quality)
-  if (/m7/i.test(chordSymbol) && quality.includes('minor')) {
-    return '7'
-  }
+/**
+ * Convert a figured Roman numeral to its root-position form
+ *
+ * @param roman - Roman numeral, possibly with inversion figures (e.g., "V6/5", "I6/4")
+ * @returns Root-position Roman numeral (e.g., "V7", "I")
+ *
+ * @remarks
+ * Used by pattern matching, where I-IV6/4-I and I-IV-I are the same progression.
+ * Added sixths ("Iadd6") are not inversions and are kept.
+ *
+ * @example
+ * ```typescript
+ * toRootPositionRoman('V6/5') // => "V7"
+ * toRootPositionRoman('vii°4/2') // => "vii°7"
+ * toRootPositionRoman('IV6/4') // => "IV"
+ * toRootPositionRoman('I6') // => "I"
+ * toRootPositionRoman('Iadd6') // => "Iadd6"
+ * ```
+ */
+export function toRootPositionRoman(roman: string): string {
+  return roman
+    .replace(/6\/4$/, '')
+    .replace(SEVENTH_INVERSION_FIGURES, '7')
+    .replace(TRIAD_INVERSION_FIGURE, '')
+}
+
+/**
+ * Extract chord extensions from a parsed chord symbol
+ *
+ * @param ast - Parsed chord symbol, or null if it could not be parsed
+ * @returns Extension string (e.g., "7", "maj7", "9", "add6")
+ *
+ * @remarks
+ * Only the seventh and the highest upper extension are shown; alterations
+ * (C7b9) and added tones (Cadd9) are left out of the Roman numeral. Sixth
+ * chords without a seventh are written "add6" so they are not read as a
+ * first-inversion triad (C6 is "Iadd6", C/E is "I6").
+ */
+function extractExtensions(ast: ChordSymbolAST | null): string {
+  if (!ast) return ''
 
-  // Check for extensions in descending order (13, 11, 9, 7, 6)
-  if (/13/i.test(chordSymbol)) return '13'
-  if (/11/i.test(chordSymbol)) return '11'
-  if (/9/i.test(chordSymbol)) return '9'
-  if (/7/i.test(chordSymbol)) return '7'
-  if (/6/i.test(chordSymbol)) return '6'
+  const upper = ast.extensions.filter((extension) => extension !== '6')
+  const top = upper[upper.length - 1]
 
-  // Fallback to Tonal.js type field
-  if (type.includes('thirteenth')) return '13'
-  if (type.includes('eleventh')) return '11'
-  if (type.includes('ninth')) return '9'
-  if (type.includes('seventh')) return '7'
-  if (type.includes('sixth')) return '6'
+  if (ast.seventh === 'major') return 'maj' + (top ?? '7')
+  if (ast.seventh) return top ?? '7'
+  if (ast.extensions.includes('6')) return 'add6'
 
   return ''
 }
@@ -241,13 +248,16 @@ function extractExtensions(chordSymbol: string, chordData: ReturnType<typeof Cho
  * @example
  * ```typescript
  * getRomanNumeral('Dm', 'C', 'major')
- * // => { roman: 'ii', degree: 2, quality: 'minor' }
+ * // => { roman: 'ii', degree: 2, quality: 'minor', bass: 'D', inversion: 0 }
  *
  * getRomanNumeral('G7', 'C', 'major')
- * // => { roman: 'V7', degree: 5, quality: 'dominant' }
+ * // => { roman: 'V7', degree: 5, quality: 'dominant', bass: 'G', inversion: 0 }
  *
  * getRomanNumeral('Cmaj7', 'C', 'major')
- * // => { roman: 'Imaj7', degree: 1, quality: 'major' }
+ * // => { roman: 'Imaj7', degree: 1, quality: 'major', bass: 'C', inversion: 0 }
+ *
+ * getRomanNumeral('G7/B', 'C', 'major')
+ * // => { roman: 'V6/5', degree: 5, quality: 'dominant', bass: 'B', inversion: 1 }
  * ```
  *
  * @remarks
@@ -255,21 +265,27 @@ function extractExtensions(chordSymbol: string, chordData: ReturnType<typeof Cho
  * - Lowercase Roman numerals (ii, iii, vi) indicate minor chords
  * - Diminished chords use lowercase with ° (vii°)
  * - Extensions are preserved (7, maj7, 9, etc.)
+ * - Slash chords get figured-bass inversion figures (I6, I6/4, V6/5, V4/3, V4/2)
  */
 export function getRomanNumeral(
   chord: string,
   keyRoot: string,
   scaleType: 'major' | 'minor'
 ): RomanNumeralResult {
-  const chordData = Chord.get(chord)
+  const chordData = getChordData(chord)
 
   if (!chordData.tonic) {
     throw new Error(`Invalid chord: ${chord}`)
   }
 
+  const ast = tryParseChordSymbol(chord)
+
   // Get scale degree
   const degree = getScaleDegree(chordData.tonic, keyRoot, scaleType)
 
+  // Slash bass determines the inversion figures (G7/B → V6/5)
+  const { bass, inversion, figuredBass } = getSymbolInversion(chordData)
+
   if (degree === 0) {
     // Chord root is not in the scale - it's a chromatic/borrowed chord
     // Calculate degree by chromatic distance and preserve accidentals
@@ -308,26 +324,28 @@ export function getRomanNumeral(
       throw new Error(`Cannot determine degree for distance ${String(distance)}`)
     }
 
-    const quality = determineChordQuality(chordData)
-    const extensions = extractExtensions(chord, chordData)
+    const quality = determineChordQuality(ast)
+    const extensions = extractExtensions(ast)
 
-    // Build Roman numeral with accidental prefix
+    // Build Roman numeral with accidental prefix and inversion figures
     const baseRoman = buildRomanNumeral(mapping.degree, quality, extensions)
-    const roman = mapping.accidental + baseRoman
+    const roman = mapping.accidental + applyInversionFigures(baseRoman, extensions, figuredBass)
 
-    return { roman, degree: mapping.degree, quality }
+    return { roman, degree: mapping.degree, quality, bass, inversion }
   }
 
-  // Determine quality
-  const quality = determineChordQuality(chordData)
-
-  // Extract extensions (pass pre-parsed chordData to avoid redundant Chord.get())
-  const extensions = extractExtensions(chord, chordData)
+  // Determine quality and extensions from the parsed symbol
+  const quality = determineChordQuality(ast)
+  const extensions = extractExtensions(ast)
 
-  // Build Roman numeral
-  const roman = buildRomanNumeral(degree, quality, extensions)
+  // Build Roman numeral with inversion figures
+  const roman = applyInversionFigures(
+    buildRomanNumeral(degree, quality, extensions),
+    extensions,
+    figuredBass
+  )
 
-  return { roman, degree, quality }
+  return { roman, degree, quality, bass, inversion }
 }
 
 /**
@@ -342,10 +360,10 @@ export function getRomanNumeral(
  * ```typescript
  * getRomanNumerals(['C', 'F', 'G', 'C'], 'C', 'major')
  * // => [
- * //   { roman: 'I', degree: 1, quality: 'major' },
- * //   { roman: 'IV', degree: 4, quality: 'major' },
- * //   { roman: 'V', degree: 5, quality: 'major' },
- * //   { roman: 'I', degree: 1, quality: 'major' }
+ * //   { roman: 'I', degree: 1, quality: 'major', bass: 'C', inversion: 0 },
+ * //   { roman: 'IV', degree: 4, quality: 'major', bass: 'F', inversion: 0 },
+ * //   { roman: 'V', degree: 5, quality: 'major', bass: 'G', inversion: 0 },
+ * //   { roman: 'I', degree: 1, quality: 'major', bass: 'C', inversion: 0 }
  * // ]
  * ```
  */
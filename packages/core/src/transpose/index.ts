@@ -0,0 +1,9 @@
+/**
+ * Transposition
+ * Moves chords, scales and progressions to another key with key-signature spelling
+ */
+
+export { transposeChord, transposeScale, transposeProgression } from './transpose'
+
+// Re-export canonical types from @music-reasoning/types
+export type { TransposeProgressionOptions } from '@music-reasoning/types'
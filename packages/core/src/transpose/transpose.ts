@@ -0,0 +1,282 @@
+/**
+ * Transposition
+ *
+ * Moves chord symbols, scales and whole progressions to another pitch level
+ * with spellings a musician would write in the target key:
+ * - Roots are spelled from the key signatures (Db7, not C#7; Bbm, not A#m)
+ * - Slash basses move with the chord (C/E up a whole step is D/F#)
+ * - Everything after the root (quality, extensions, alterations, notation
+ *   style) is kept exactly as written
+ *
+ * @module transpose
+ * @since v2.0.0
+ */
+
+import { Interval, Note } from 'tonal'
+import type { ScaleInfo, TransposeProgressionOptions } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { parseSpellingKey, type SpellingKey } from '../chord/spelling'
+import { getChordData, tryParseChordSymbol } from '../chord/symbol'
+import { detectKey } from '../progression/key-detection'
+import { getScale, isMinorScaleType } from '../scale'
+import { KEY_SIGNATURES_MAJOR, KEY_SIGNATURES_MINOR } from '../theory/cache'
+
+/** Chord symbol split into root, body and optional slash bass (6/9 is not a slash) */
+const SYMBOL_PATTERN = /^([A-G](?:##|bb|#|b|♯|♭|x)?)(.*?)(?:\/([A-G](?:##|bb|#|b|♯|♭|x)?))?$/
+
+/**
+ * Transposes a chord symbol.
+ *
+ * @param symbol - Chord symbol in any supported notation (e.g., "Cmaj7", "C-7", "G7(b9)/F")
+ * @param interval - Semitones (e.g., 2, -3) or an interval name (e.g., "M2", "-m3")
+ * @returns Transposed chord symbol
+ * @throws {MusicReasoningError} If the symbol or interval is invalid
+ *
+ * @example
+ * ```typescript
+ * transposeChord('C/E', 2)          // 'D/F#'
+ * transposeChord('Cmaj9#11', 1)     // 'Dbmaj9#11'
+ * transposeChord('Am7', 1)          // 'Bbm7' (5 flats, not A#m7 with 7 sharps)
+ * transposeChord('G7(b9)/F', '-M2') // 'F7(b9)/Eb'
+ * ```
+ *
+ * @remarks
+ * The new root is spelled as the key with the fewest accidentals in
+ * KEY_SIGNATURES_MAJOR (or KEY_SIGNATURES_MINOR for minor and diminished
+ * chords). When two keys tie (F# and Gb), the interval's spelling decides.
+ * The slash bass keeps its interval above the root.
+ *
+ * @since v2.0.0
+ */
+export function transposeChord(symbol: string, interval: string | number): string {
+  const parts = splitSymbol(symbol)
+  const exact = Note.transpose(parts.root, resolveInterval(interval))
+  const minor = isMinorChord(symbol)
+  const root = spellAsKey(exact, minor)
+
+  return transposeParts(parts, Interval.distance(parts.root, root))
+}
+
+/**
+ * Transposes a scale.
+ *
+ * @param root - Root note of the scale (e.g., "C", "F#", "Bb")
+ * @param scaleType - Type of scale (e.g., "major", "minor", "dorian")
+ * @param interval - Semitones (e.g., 2, -3) or an interval name (e.g., "M2", "-m3")
+ * @returns Scale on the transposed root
+ * @throws {MusicReasoningError} If the interval is invalid
+ * @throws {Error} If the root or scale type is invalid (see getScale())
+ *
+ * @example
+ * ```typescript
+ * transposeScale('C', 'major', 6).notes
+ * // ['Gb', 'Ab', 'Bb', 'Cb', 'Db', 'Eb', 'F'] (interval spelling breaks the F#/Gb tie)
+ *
+ * transposeScale('A', 'minor', 1).root // 'Bb' (not A#)
+ * ```
+ *
+ * @remarks
+ * The root is spelled like transposeChord() roots, using the minor key
+ * signatures for minor scale types and the major ones otherwise.
+ *
+ * @since v2.0.0
+ */
+export function transposeScale(
+  root: string,
+  scaleType: string,
+  interval: string | number
+): ScaleInfo {
+  const exact = Note.transpose(normalizeAccidentals(root), resolveInterval(interval))
+  return getScale(exact ? spellAsKey(exact, isMinorScaleType(scaleType)) : root, scaleType)
+}
+
+/**
+ * Transposes a progression from one key to another.
+ *
+ * @param chords - Chord symbols (e.g., ['C', 'Am', 'F', 'G7'])
+ * @param options - Source key (detected when omitted) and target key
+ * @returns Transposed chord symbols, in order
+ * @throws {MusicReasoningError} If a key or chord symbol is invalid
+ *
+ * @example
+ * ```typescript
+ * transposeProgression(['C', 'Am7', 'F/A', 'G7sus4'], { from: 'C major', to: 'Eb' })
+ * // ['Eb', 'Cm7', 'Ab/C', 'Bb7sus4']
+ *
+ * // Chromatic chords keep their function: bVII and #IV°7 in E major
+ * transposeProgression(['C', 'Bb', 'F#dim7', 'G'], { from: 'C', to: 'E' })
+ * // ['E', 'D', 'A#dim7', 'B']
+ * ```
+ *
+ * @remarks
+ * Every chord moves by the interval between the two tonics, so chord
+ * spellings follow the target key (Gb major gets Cb, F# major gets B).
+ * A target tonic with no key signature of its own (e.g., "A# major") is
+ * respelled as its enharmonic key ("Bb major"). Double sharps and flats that
+ * remain in a transposed chord are simplified.
+ *
+ * @since v2.0.0
+ */
+export function transposeProgression(
+  chords: readonly string[],
+  options: TransposeProgressionOptions
+): string[] {
+  if (chords.length === 0) return []
+
+  const from = options.from ? parseSpellingKey(options.from) : detectSourceKey(chords)
+  // A bare target tonic keeps the source mode
+  const to = parseSpellingKey(options.to, from.scaleType)
+  const targetTonic = spellAsKey(to.root, to.scaleType === 'minor')
+  const interval = Interval.distance(from.root, targetTonic)
+
+  return chords.map((symbol) => transposeParts(splitSymbol(symbol), interval))
+}
+
+/**
+ * A chord symbol split around its root and slash bass.
+ *
+ * @internal
+ */
+interface SymbolParts {
+  readonly root: string
+  readonly body: string
+  readonly bass: string | null
+}
+
+/**
+ * Validates a chord symbol and splits it into root, body and slash bass.
+ *
+ * @internal
+ */
+function splitSymbol(symbol: string): SymbolParts {
+  const trimmed = typeof symbol === 'string' ? symbol.trim() : ''
+  const match = SYMBOL_PATTERN.exec(trimmed)
+
+  if (!match?.[1] || getChordData(trimmed).empty) {
+    throw new MusicReasoningError('INVALID_CHORD', `Invalid chord symbol: "${String(symbol)}"`, {
+      symbol,
+      suggestion: 'Use a chord symbol such as "Cmaj7", "F#m7b5" or "G7/B"',
+    })
+  }
+
+  return {
+    root: normalizeAccidentals(match[1]),
+    body: match[2] ?? '',
+    bass: match[3] ? normalizeAccidentals(match[3]) : null,
+  }
+}
+
+/**
+ * Moves a split chord symbol by an exact interval.
+ *
+ * @internal
+ */
+function transposeParts(parts: SymbolParts, interval: string): string {
+  const root = simplifyDoubleAccidentals(Note.transpose(parts.root, interval))
+  const bass = parts.bass ? simplifyDoubleAccidentals(Note.transpose(parts.bass, interval)) : null
+  return root + parts.body + (bass ? `/${bass}` : '')
+}
+
+/**
+ * Converts semitones or an interval name to a tonal interval name.
+ *
+ * @internal
+ */
+function resolveInterval(interval: string | number): string {
+  const name =
+    typeof interval === 'number'
+      ? Number.isInteger(interval)
+        ? Interval.fromSemitones(interval)
+        : ''
+      : parseIntervalName(interval)
+
+  if (!name) {
+    throw new MusicReasoningError('INVALID_INTERVAL', `Invalid interval: "${String(interval)}"`, {
+      interval,
+      suggestion:
+        'Use a whole number of semitones (e.g., 2, -3) or an interval name (e.g., "M2", "-m3")',
+    })
+  }
+  return name
+}
+
+/**
+ * Parses an interval name, reading a leading "-" as descending ("-M2" = "-2M").
+ *
+ * @internal
+ */
+function parseIntervalName(interval: string): string {
+  const trimmed = interval.trim()
+  if (!trimmed.startsWith('-')) return Interval.get(trimmed).name
+
+  const ascending = Interval.get(trimmed.slice(1)).name
+  return ascending && !ascending.startsWith('-') ? `-${ascending}` : ''
+}
+
+/**
+ * Detects the key of a progression when no source key is given.
+ *
+ * @internal
+ */
+function detectSourceKey(chords: readonly string[]): SpellingKey {
+  const { root, scaleType } = detectKey([...chords])
+  return { root, scaleType }
+}
+
+/**
+ * Spells a pitch as the key signature with the fewest accidentals.
+ *
+ * @param note - Note whose pitch class is spelled (its own spelling breaks ties)
+ * @param minor - Use the minor key signatures
+ *
+ * @internal
+ */
+function spellAsKey(note: string, minor: boolean): string {
+  const chroma = Note.chroma(note)
+  const candidates = Object.entries(minor ? KEY_SIGNATURES_MINOR : KEY_SIGNATURES_MAJOR)
+    .map(([key, signature]) => ({
+      tonic: minor ? key.slice(0, -1) : key,
+      accidentals: signature.sharps + signature.flats,
+    }))
+    .filter((candidate) => Note.chroma(candidate.tonic) === chroma)
+
+  let best: { tonic: string; accidentals: number } | undefined
+  for (const candidate of candidates) {
+    if (
+      !best ||
+      candidate.accidentals < best.accidentals ||
+      (candidate.accidentals === best.accidentals && candidate.tonic === Note.get(note).pc)
+    ) {
+      best = candidate
+    }
+  }
+  return best?.tonic ?? Note.get(note).pc
+}
+
+/**
+ * Checks whether a chord reads as a minor key tonic (minor or diminished triad).
+ *
+ * @internal
+ */
+function isMinorChord(symbol: string): boolean {
+  const ast = tryParseChordSymbol(symbol)
+  return ast?.quality === 'minor' || ast?.quality === 'diminished'
+}
+
+/**
+ * Replaces a double sharp or flat with its enharmonic natural or single accidental.
+ *
+ * @internal
+ */
+function simplifyDoubleAccidentals(note: string): string {
+  return /##|bb|x/.test(note) ? Note.simplify(note) : note
+}
+
+/**
+ * Converts Unicode and "x" accidentals to tonal.js spelling (C♯ → C#, Fx → F##).
+ *
+ * @internal
+ */
+function normalizeAccidentals(note: string): string {
+  return note.replace(/♯/g, '#').replace(/♭/g, 'b').replace(/x/g, '##')
+}
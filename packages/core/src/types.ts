@@ -43,6 +43,19 @@ export type {
   ChordBuild,
   Voicing,
   ChordBuildOptions,
+  ChordIdentifyOptions,
+  VoiceLeadingOptions,
+  VoiceLeading,
+  ParallelMotion,
+  SATBVoice,
+  SATBChord,
+  VoiceLeadingRuleCode,
+  VoiceLeadingViolation,
+  VoiceLeadingCheckOptions,
+  VoiceLeadingCheck,
+  ChordSymbolDialect,
+  ChordSymbolAST,
+  ChordSymbolOptions,
 } from '@music-reasoning/types'
 
 // Scale System Types
@@ -57,8 +70,87 @@ export type {
   CadenceType,
   BorrowedChord,
   SecondaryDominant,
+  PivotChord,
+  KeyRegion,
+  KeyCandidate,
+  KeyCandidateOptions,
+  KeyDetection,
+  KeyDetectionOptions,
+  WeightedNote,
+  KeyCorrelation,
+  KeyProfileOptions,
+  KeyProfileDetection,
   Pattern,
   ProgressionAnalysisOptions,
+  TimedChord,
+  TransposeProgressionOptions,
+} from '@music-reasoning/types'
+
+// MIDI Import/Export Types
+export type {
+  MidiNote,
+  MidiTrack,
+  MidiTempo,
+  MidiTimeSignature,
+  MidiFile,
+  MidiImportOptions,
+  HarmonicWindow,
+  MidiImport,
+  MidiExportOptions,
+} from '@music-reasoning/types'
+
+// Melody Harmonization Types
+export type {
+  HarmonizeMelodyOptions,
+  HarmonizationChordSource,
+  HarmonizedSlot,
+  HarmonizationScore,
+  Harmonization,
+} from '@music-reasoning/types'
+
+// Progression Generation Types
+export type {
+  GenerateProgressionOptions,
+  ProgressionFragment,
+  GeneratedProgression,
+} from '@music-reasoning/types'
+
+// Lead Sheet Types
+export type {
+  LeadSheetBar,
+  LeadSheetSection,
+  LeadSheet,
+  LeadSheetParseOptions,
+  LeadSheetSerializeOptions,
+} from '@music-reasoning/types'
+
+// ChordPro Types
+export type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSectionType,
+  ChordProSection,
+  ChordProSong,
+  ChordProSerializeOptions,
+} from '@music-reasoning/types'
+
+// MusicXML Import/Export Types
+export type {
+  MusicXmlHarmony,
+  MusicXmlImportOptions,
+  MusicXmlImport,
+  MusicXmlAnnotations,
+  MusicXmlExportOptions,
+  MusicXmlAnnotateOptions,
+} from '@music-reasoning/types'
+
+// Song Form Types
+export type {
+  FormType,
+  SectionRole,
+  FormSection,
+  FormAnalysis,
+  FormDetectionOptions,
 } from '@music-reasoning/types'
 
 // Genre Pattern Types (enhanced)
@@ -0,0 +1,146 @@
+/**
+ * Test Fixtures: Standard MIDI Files
+ *
+ * Hand-encodes small Standard MIDI Files so the parser can be tested against
+ * known byte layouts without binary fixtures in the repository.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+/**
+ * A note to encode, in ticks.
+ */
+export interface FixtureNote {
+  pitch: number
+  start: number
+  duration: number
+  velocity?: number
+  channel?: number
+}
+
+/**
+ * A track to encode.
+ */
+export interface FixtureTrack {
+  name?: string
+  notes?: FixtureNote[]
+  /** Tempo in BPM at tick 0 */
+  tempo?: number
+  /** Time signatures as [tick, numerator, denominator] */
+  timeSignatures?: [number, number, number][]
+}
+
+/**
+ * Encodes a variable-length quantity.
+ */
+export function varint(value: number): number[] {
+  const bytes = [value & 0x7f]
+  let rest = value >> 7
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80)
+    rest >>= 7
+  }
+  return bytes
+}
+
+/**
+ * Encodes a Standard MIDI File with one MTrk chunk per track.
+ * Note-offs are written as note-on with velocity 0 using running status,
+ * which exercises the parser's running-status handling.
+ */
+export function buildMidiFile(
+  tracks: FixtureTrack[],
+  options: { format?: number; ticksPerBeat?: number } = {}
+): Uint8Array {
+  const format = options.format ?? (tracks.length > 1 ? 1 : 0)
+  const ticksPerBeat = options.ticksPerBeat ?? 480
+  const bytes: number[] = [
+    ...ascii('MThd'),
+    0,
+    0,
+    0,
+    6,
+    0,
+    format,
+    0,
+    tracks.length,
+    (ticksPerBeat >> 8) & 0xff,
+    ticksPerBeat & 0xff,
+  ]
+
+  for (const track of tracks) {
+    const events: { tick: number; order: number; data: number[] }[] = []
+
+    if (track.name) {
+      const name = ascii(track.name)
+      events.push({ tick: 0, order: 0, data: [0xff, 0x03, ...varint(name.length), ...name] })
+    }
+    if (track.tempo) {
+      const micros = Math.round(60_000_000 / track.tempo)
+      events.push({
+        tick: 0,
+        order: 0,
+        data: [0xff, 0x51, 3, (micros >> 16) & 0xff, (micros >> 8) & 0xff, micros & 0xff],
+      })
+    }
+    for (const [tick, numerator, denominator] of track.timeSignatures ?? []) {
+      events.push({
+        tick,
+        order: 0,
+        data: [0xff, 0x58, 4, numerator, Math.log2(denominator), 24, 8],
+      })
+    }
+    for (const note of track.notes ?? []) {
+      const status = 0x90 | (note.channel ?? 0)
+      events.push({ tick: note.start, order: 2, data: [status, note.pitch, note.velocity ?? 90] })
+      events.push({ tick: note.start + note.duration, order: 1, data: [status, note.pitch, 0] })
+    }
+
+    events.sort((a, b) => a.tick - b.tick || a.order - b.order)
+
+    const body: number[] = []
+    let tick = 0
+    let runningStatus = 0
+    for (const event of events) {
+      body.push(...varint(event.tick - tick))
+      tick = event.tick
+      const [status, ...rest] = event.data
+      if (status !== undefined && status < 0xf0 && status === runningStatus) {
+        append(body, rest)
+      } else {
+        append(body, event.data)
+        runningStatus = status !== undefined && status < 0xf0 ? status : 0
+      }
+    }
+    body.push(0, 0xff, 0x2f, 0)
+
+    bytes.push(...ascii('MTrk'), ...uint32(body.length))
+    append(bytes, body)
+  }
+
+  return new Uint8Array(bytes)
+}
+
+/** Appends bytes one by one; spreading a long track into push() overflows the stack */
+function append(target: number[], source: readonly number[]): void {
+  for (const byte of source) target.push(byte)
+}
+
+/**
+ * Block chords: one chord per bar in 4/4, each as a list of MIDI pitches.
+ */
+export function blockChords(chords: number[][], ticksPerBeat: number = 480): FixtureNote[] {
+  const bar = ticksPerBeat * 4
+  return chords.flatMap((pitches, index) =>
+    pitches.map((pitch) => ({ pitch, start: index * bar, duration: bar }))
+  )
+}
+
+function ascii(text: string): number[] {
+  return [...text].map((char) => char.charCodeAt(0))
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
@@ -14,6 +14,7 @@
  */
 
 import { describe, test, expect } from 'vitest'
+import { Note } from 'tonal'
 import { buildChord, generateVoicing, getSubstitutions } from '../../src/chord/build'
 
 describe('Chord Building - buildChord()', () => {
@@ -272,6 +273,79 @@ describe('Voicing Generation - generateVoicing()', () => {
       expect(notes[0]).toBe('G4')
     })
   })
+
+  describe('Slash Chords', () => {
+    test('keeps the slash bass lowest in drop-2 voicing', () => {
+      // Close C/G is G4 C5 E5; dropping C5 would put it below the bass
+      const notes = generateVoicing('C/G', { type: 'drop2', octave: 4 })
+      expect(notes).toEqual(['G3', 'C4', 'E5'])
+    })
+
+    test('keeps the slash bass lowest in open voicing', () => {
+      const notes = generateVoicing('C/E', { type: 'open', octave: 4 })
+      expect(notes[0]).toBe('E3')
+    })
+
+    test('explicit inversion option still rotates the chord', () => {
+      const notes = generateVoicing('C', { type: 'close', octave: 4, inversion: 1 })
+      expect(notes).toEqual(['E4', 'G4', 'C5'])
+    })
+  })
+})
+
+describe('Chord Building - Slash Chords and Inversions', () => {
+  test('C/G is a second-inversion triad with G lowest in every voicing', () => {
+    for (const voicing of ['close', 'open', 'drop2', 'drop3'] as const) {
+      const result = buildChord('C/G', { voicing })
+      const pitches = result.voicing.notes.map((note) => Note.midi(note) ?? 0)
+      expect(result.voicing.notes[0]?.startsWith('G')).toBe(true)
+      expect(Math.min(...pitches)).toBe(pitches[0])
+    }
+    const result = buildChord('C/G')
+    expect(result.root).toBe('C')
+    expect(result.bass).toBe('G')
+    expect(result.inversion).toBe(2)
+    expect(result.figuredBass).toBe('6/4')
+  })
+
+  test('C/E is a first-inversion triad', () => {
+    const result = buildChord('C/E')
+    expect(result.bass).toBe('E')
+    expect(result.inversion).toBe(1)
+    expect(result.figuredBass).toBe('6')
+  })
+
+  test.each([
+    ['G7', 0, '7'],
+    ['G7/B', 1, '6/5'],
+    ['G7/D', 2, '4/3'],
+    ['G7/F', 3, '4/2'],
+  ])('%s has inversion %i and figures %s', (symbol, inversion, figuredBass) => {
+    const result = buildChord(symbol)
+    expect(result.inversion).toBe(inversion)
+    expect(result.figuredBass).toBe(figuredBass)
+  })
+
+  test('root-position chords report the root as bass', () => {
+    const result = buildChord('Cmaj7')
+    expect(result.bass).toBe('C')
+    expect(result.inversion).toBe(0)
+    expect(result.figuredBass).toBe('7')
+  })
+
+  test('non-chord-tone bass has no inversion', () => {
+    const result = buildChord('C/D')
+    expect(result.bass).toBe('D')
+    expect(result.inversion).toBeNull()
+    expect(result.figuredBass).toBeNull()
+    expect(result.voicing.notes[0]).toBe('D4')
+  })
+
+  test('sus chords report an inversion without figures', () => {
+    const result = buildChord('Csus4/F')
+    expect(result.inversion).toBe(1)
+    expect(result.figuredBass).toBeNull()
+  })
 })
 
 describe('Chord Substitutions - getSubstitutions()', () => {
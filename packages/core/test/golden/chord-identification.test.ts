@@ -807,6 +807,64 @@ describe('Chord Identification - Inversions (8 tests)', () => {
   })
 })
 
+describe('Chord Identification - Bass, Inversion and Figured Bass', () => {
+  test('E-G-C is C/E (first inversion), not Em#5', () => {
+    const result = identifyChord(['E', 'G', 'C'])
+    expect(result.root).toBe('C')
+    expect(result.bass).toBe('E')
+    expect(result.inversion).toBe(1)
+    expect(result.figuredBass).toBe('6')
+  })
+
+  test.each([
+    [['C', 'E', 'G'], 'C', 0, ''],
+    [['E', 'G', 'C'], 'E', 1, '6'],
+    [['G', 'C', 'E'], 'G', 2, '6/4'],
+    [['G', 'B', 'D', 'F'], 'G', 0, '7'],
+    [['B', 'D', 'F', 'G'], 'B', 1, '6/5'],
+    [['D', 'F', 'G', 'B'], 'D', 2, '4/3'],
+    [['F', 'G', 'B', 'D'], 'F', 3, '4/2'],
+  ])('%j has bass %s, inversion %i and figures "%s"', (notes, bass, inversion, figuredBass) => {
+    const result = identifyChord(notes)
+    expect(result.bass).toBe(bass)
+    expect(result.inversion).toBe(inversion)
+    expect(result.figuredBass).toBe(figuredBass)
+  })
+
+  test('uses the lowest pitch as bass when octaves are given', () => {
+    const result = identifyChord(['C4', 'E3', 'G3'])
+    expect(result.root).toBe('C')
+    expect(result.bass).toBe('E')
+    expect(result.inversion).toBe(1)
+    // Output notes keep the input order
+    expect(result.notes).toEqual(['C', 'E', 'G'])
+  })
+
+  test('identifies V4/2 from a spread voicing', () => {
+    const result = identifyChord(['B4', 'D5', 'F3', 'G4'])
+    expect(result.root).toBe('G')
+    expect(result.bass).toBe('F')
+    expect(result.figuredBass).toBe('4/2')
+  })
+
+  test('viio7 inversions use seventh-chord figures', () => {
+    const result = identifyChord(['D', 'F', 'Ab', 'B'])
+    expect(result.root).toBe('B')
+    expect(result.inversion).toBe(1)
+    expect(result.figuredBass).toBe('6/5')
+  })
+
+  test('inversions of complete chords keep full confidence', () => {
+    expect(identifyChord(['G', 'C', 'E']).confidence).toBe(1.0)
+    expect(identifyChord(['F', 'G', 'B', 'D']).confidence).toBe(1.0)
+  })
+
+  test('sus chords and power chords have no figures', () => {
+    expect(identifyChord(['C', 'F', 'G']).figuredBass).toBeNull()
+    expect(identifyChord(['C', 'G']).figuredBass).toBeNull()
+  })
+})
+
 describe('Chord Identification - Ambiguous Chords (5 tests)', () => {
   test('Am or C6 ambiguity (A-C-E)', () => {
     const result = identifyChord(['A', 'C', 'E'])
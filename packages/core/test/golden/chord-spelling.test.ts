@@ -0,0 +1,114 @@
+/**
+ * Golden Test Suite: Key-Aware Chord Spelling
+ *
+ * Validates that chord tones are spelled for their function in a key rather
+ * than as the input happened to spell them.
+ * Tests cover: buildChord() and identifyChord() with a key, ChordAnalysis.notes
+ *
+ * @group golden
+ * @group chord-spelling
+ */
+
+import { describe, test, expect } from 'vitest'
+import { buildChord } from '../../src/chord/build'
+import { identifyChord } from '../../src/chord/identify'
+import { analyzeProgression } from '../../src/progression'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+describe('Chord spelling - buildChord() with a key', () => {
+  test('spells the V/V in Db major as Eb7', () => {
+    const chord = buildChord('D#7', { key: 'Db major' })
+    expect(chord.chord).toBe('Eb7')
+    expect(chord.root).toBe('Eb')
+    expect(chord.notes).toEqual(['Eb', 'G', 'Bb', 'Db'])
+    expect(chord.intervals).toEqual(['P1', 'M3', 'P5', 'm7'])
+  })
+
+  test('spells German augmented sixths with an augmented sixth', () => {
+    expect(buildChord('C7', { key: 'E major' }).notes).toEqual(['C', 'E', 'G', 'A#'])
+    expect(buildChord('Bb7', { key: 'D major' }).notes).toEqual(['Bb', 'D', 'F', 'G#'])
+    expect(buildChord('Ab7', { key: 'C minor' }).notes).toEqual(['Ab', 'C', 'Eb', 'F#'])
+  })
+
+  test('spells leading-tone and minor-key dominants from their targets', () => {
+    expect(buildChord('Gbdim7', { key: 'C major' }).notes).toEqual(['F#', 'A', 'C', 'Eb'])
+    expect(buildChord('B7', { key: 'E minor' }).notes).toEqual(['B', 'D#', 'F#', 'A'])
+  })
+
+  test('respells slash basses with the chord', () => {
+    const chord = buildChord('C#/E#', { key: 'Db major' })
+    expect(chord.chord).toBe('Db/F')
+    expect(chord.bass).toBe('F')
+    expect(chord.notes).toEqual(['F', 'Ab', 'Db'])
+  })
+
+  test('takes precedence over the enharmonic preference', () => {
+    expect(buildChord('D#7', { key: 'Db major', enharmonic: 'sharps' }).notes).toEqual([
+      'Eb',
+      'G',
+      'Bb',
+      'Db',
+    ])
+  })
+
+  test('throws for invalid keys', () => {
+    expect(() => buildChord('C', { key: 'H major' })).toThrow(MusicReasoningError)
+    expect(() => buildChord('C', { key: 'C dorian' })).toThrow(/Invalid key/)
+  })
+
+  test('accepts chart-style minor keys and Unicode accidentals', () => {
+    const expected = buildChord('G#7', { key: 'C# minor' }).notes
+    expect(buildChord('G#7', { key: 'C#m' }).notes).toEqual(expected)
+    expect(buildChord('G#7', { key: 'C♯ minor' }).notes).toEqual(expected)
+  })
+})
+
+describe('Chord spelling - identifyChord() with a key', () => {
+  test('spells root, notes, bass and name for the key', () => {
+    const result = identifyChord(['D#', 'F##', 'A#', 'C#'], { key: 'Db major' })
+    expect(result.chord).toBe('Eb7')
+    expect(result.root).toBe('Eb')
+    expect(result.notes).toEqual(['Eb', 'G', 'Bb', 'Db'])
+    expect(result.bass).toBe('Eb')
+  })
+
+  test('keeps note order and inversion', () => {
+    const result = identifyChord(['E#', 'G#', 'C#'], { key: 'Db major' })
+    expect(result.chord).toBe('Db major')
+    expect(result.notes).toEqual(['F', 'Ab', 'Db'])
+    expect(result.bass).toBe('F')
+    expect(result.inversion).toBe(1)
+  })
+
+  test('writes German sixths with an augmented sixth', () => {
+    const result = identifyChord(['C', 'E', 'G', 'Bb'], { key: 'E major' })
+    expect(result.notes).toEqual(['C', 'E', 'G', 'A#'])
+    expect(result.intervals).toEqual(['P1', 'M3', 'P5', 'A6'])
+  })
+
+  test('keeps the input spelling without a key', () => {
+    expect(identifyChord(['D#', 'F##', 'A#', 'C#']).notes).toEqual(['D#', 'F##', 'A#', 'C#'])
+  })
+
+  test('throws for invalid keys', () => {
+    expect(() => identifyChord(['C', 'E', 'G'], { key: 'X' })).toThrow(MusicReasoningError)
+  })
+})
+
+describe('Chord spelling - analyzeProgression()', () => {
+  test('reports chord tones spelled for the detected key', () => {
+    const result = analyzeProgression(['Db', 'D#7', 'Ab7', 'Db'])
+    expect(result.key).toBe('Db major')
+    expect(result.analysis.map((chord) => chord.notes)).toEqual([
+      ['Db', 'F', 'Ab'],
+      ['Eb', 'G', 'Bb', 'Db'],
+      ['Ab', 'C', 'Eb', 'Gb'],
+      ['Db', 'F', 'Ab'],
+    ])
+  })
+
+  test('spells augmented sixths in context', () => {
+    const result = analyzeProgression(['E', 'C7', 'B7', 'E'])
+    expect(result.analysis[1]?.notes).toEqual(['C', 'E', 'G', 'A#'])
+  })
+})
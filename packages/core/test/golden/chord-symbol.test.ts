@@ -0,0 +1,153 @@
+/**
+ * Golden Test Suite: Chord Symbols
+ *
+ * Validates chord symbol parsing and formatting across notation dialects
+ * (pop, jazz, Berklee, classical), and that chord building, substitutions and
+ * Roman numeral analysis agree on how a symbol is read.
+ * Tests cover: parseChordSymbol(), formatChordSymbol()
+ *
+ * @group golden
+ * @group chord-symbol
+ */
+
+import { describe, test, expect } from 'vitest'
+import { parseChordSymbol, formatChordSymbol } from '../../src/chord/symbol'
+import { buildChord, getSubstitutions } from '../../src/chord/build'
+import { analyzeProgression } from '../../src/progression'
+import { MusicReasoningError } from '@music-reasoning/types'
+import type { ChordSymbolDialect } from '@music-reasoning/types'
+
+const DIALECTS: ChordSymbolDialect[] = ['pop', 'jazz', 'berklee', 'classical']
+
+describe('Chord Symbols - parseChordSymbol()', () => {
+  test('parses a minor seventh chord', () => {
+    expect(parseChordSymbol('Cm7')).toEqual({
+      root: 'C',
+      quality: 'minor',
+      seventh: 'minor',
+      extensions: [],
+      alterations: [],
+      added: [],
+      omissions: [],
+      bass: null,
+    })
+  })
+
+  test('reads equivalent spellings as the same chord', () => {
+    const minorSeventh = parseChordSymbol('Cm7')
+    expect(parseChordSymbol('C-7')).toEqual(minorSeventh)
+    expect(parseChordSymbol('Cmin7')).toEqual(minorSeventh)
+
+    const majorSeventh = parseChordSymbol('Cmaj7')
+    expect(parseChordSymbol('CΔ7')).toEqual(majorSeventh)
+    expect(parseChordSymbol('CΔ')).toEqual(majorSeventh)
+    expect(parseChordSymbol('CM7')).toEqual(majorSeventh)
+
+    const halfDiminished = parseChordSymbol('Cm7b5')
+    expect(parseChordSymbol('Cø')).toEqual(halfDiminished)
+    expect(parseChordSymbol('C-7(b5)')).toEqual(halfDiminished)
+
+    expect(parseChordSymbol('C+7')).toEqual(parseChordSymbol('C7#5'))
+  })
+
+  test('parses extensions, alterations and slash bass', () => {
+    const ast = parseChordSymbol('Bb13(#11)/Ab')
+    expect(ast.root).toBe('Bb')
+    expect(ast.quality).toBe('major')
+    expect(ast.seventh).toBe('minor')
+    expect(ast.extensions).toEqual(['13'])
+    expect(ast.alterations).toEqual(['#11'])
+    expect(ast.bass).toBe('Ab')
+  })
+
+  test('parses added tones, omissions and suspensions', () => {
+    const ast = parseChordSymbol('Fadd9no3')
+    expect(ast.added).toEqual(['9'])
+    expect(ast.omissions).toEqual(['3'])
+    expect(ast.seventh).toBeNull()
+
+    expect(parseChordSymbol('G7sus4').quality).toBe('sus4')
+    expect(parseChordSymbol('C5').quality).toBe('power')
+  })
+
+  test('treats 6/9 as extensions, not a slash chord', () => {
+    const ast = parseChordSymbol('C6/9')
+    expect(ast.extensions).toEqual(['6', '9'])
+    expect(ast.seventh).toBeNull()
+    expect(ast.bass).toBeNull()
+  })
+
+  test('reads a bare ° as a diminished seventh only in the jazz dialect', () => {
+    expect(parseChordSymbol('C°').seventh).toBeNull()
+    expect(parseChordSymbol('C°', { dialect: 'jazz' }).seventh).toBe('diminished')
+  })
+
+  test('throws MusicReasoningError for invalid symbols', () => {
+    for (const symbol of ['', 'H7', 'Cxyz', 'C7/']) {
+      expect(() => parseChordSymbol(symbol)).toThrow(MusicReasoningError)
+    }
+  })
+})
+
+describe('Chord Symbols - formatChordSymbol()', () => {
+  test('formats a half-diminished chord in each dialect', () => {
+    const ast = parseChordSymbol('Cm7b5')
+    expect(formatChordSymbol(ast)).toBe('Cm7b5')
+    expect(formatChordSymbol(ast, { dialect: 'jazz' })).toBe('Cø')
+    expect(formatChordSymbol(ast, { dialect: 'berklee' })).toBe('C-7(b5)')
+    expect(formatChordSymbol(ast, { dialect: 'classical' })).toBe('Cø7')
+  })
+
+  test('formats major and minor sevenths in each dialect', () => {
+    const major = parseChordSymbol('Cmaj7')
+    const minor = parseChordSymbol('Cm7')
+    expect(DIALECTS.map((dialect) => formatChordSymbol(major, { dialect }))).toEqual([
+      'Cmaj7',
+      'CΔ7',
+      'Cmaj7',
+      'CM7',
+    ])
+    expect(DIALECTS.map((dialect) => formatChordSymbol(minor, { dialect }))).toEqual([
+      'Cm7',
+      'C-7',
+      'C-7',
+      'Cm7',
+    ])
+  })
+
+  test('round-trips symbols through every dialect', () => {
+    const symbols = ['C', 'Dm7', 'G7b9', 'Fmaj9', 'Bdim7', 'Eaug', 'Am(maj7)', 'C6/9', 'G13#11/F']
+    for (const symbol of symbols) {
+      const ast = parseChordSymbol(symbol)
+      for (const dialect of DIALECTS) {
+        const formatted = formatChordSymbol(ast, { dialect })
+        expect(parseChordSymbol(formatted, { dialect })).toEqual(ast)
+      }
+    }
+  })
+})
+
+describe('Chord Symbols - Consistent Handling', () => {
+  test('buildChord accepts jazz and Berklee notation', () => {
+    expect(buildChord('CΔ7').notes).toEqual(['C', 'E', 'G', 'B'])
+    expect(buildChord('C-7(b5)').notes).toEqual(['C', 'Eb', 'Gb', 'Bb'])
+  })
+
+  test('classifies substitutions from the parsed symbol', () => {
+    // Extended major sevenths get major 7th substitutions
+    expect(getSubstitutions('Cmaj9')[0]?.chord).toBe('C6')
+    // Minor sevenths are not treated as dominants
+    expect(buildChord('Dm7').commonSubstitutions).toEqual(['Dm6'])
+    // Altered dominants are still dominants
+    expect(getSubstitutions('C7b9')[0]?.chord).toBe('Gb7')
+  })
+
+  test('analyzes jazz notation like pop notation', () => {
+    const jazz = analyzeProgression(['D-7', 'G7', 'CΔ7'], { key: 'C' })
+    const pop = analyzeProgression(['Dm7', 'G7', 'Cmaj7'], { key: 'C' })
+    expect(jazz.analysis.map((chord) => chord.roman)).toEqual(['ii7', 'V7', 'Imaj7'])
+    expect(jazz.analysis.map((chord) => chord.roman)).toEqual(
+      pop.analysis.map((chord) => chord.roman)
+    )
+  })
+})
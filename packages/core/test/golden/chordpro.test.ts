@@ -0,0 +1,203 @@
+/**
+ * Golden Test Suite: ChordPro
+ *
+ * Validates that ChordPro songs are read into metadata, sections and lyrics
+ * lines with aligned chords, and that songs are written back unchanged,
+ * transposed, or annotated with Roman numerals.
+ * Tests cover: parseChordPro(), serializeChordPro()
+ *
+ * @group golden
+ * @group chordpro
+ */
+
+import { describe, test, expect } from 'vitest'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { parseChordPro, serializeChordPro } from '../../src/chordpro'
+import { analyzeProgression } from '../../src/progression'
+
+const SONG = `{title: Amazing Grace}
+{artist: John Newton}
+{key: G}
+{capo: 2}
+
+{start_of_verse: Verse 1}
+A[G]mazing [G7]grace, how [C]sweet the [G]sound
+That saved a [G]wretch like [D]me
+{end_of_verse}
+
+{start_of_chorus}
+I [C]once was [G]lost, but [Em]now am [D]found
+{end_of_chorus}
+
+{comment: Repeat chorus}
+
+{chorus}
+`
+
+describe('ChordPro - parseChordPro()', () => {
+  test('reads metadata directives', () => {
+    const song = parseChordPro(`{t: Song}\n{st: Subtitle}\n{meta: arranger Someone Else}\n${SONG}`)
+
+    expect(song.metadata).toEqual({
+      title: 'Amazing Grace',
+      subtitle: 'Subtitle',
+      arranger: 'Someone Else',
+      artist: 'John Newton',
+      key: 'G',
+      capo: '2',
+    })
+  })
+
+  test('aligns chords with the lyrics', () => {
+    const song = parseChordPro(SONG)
+
+    expect(song.sections[0]?.lines[0]).toEqual({
+      type: 'lyrics',
+      text: 'Amazing grace, how sweet the sound',
+      chords: [
+        { chord: 'G', position: 1 },
+        { chord: 'G7', position: 8 },
+        { chord: 'C', position: 19 },
+        { chord: 'G', position: 29 },
+      ],
+    })
+  })
+
+  test('reads sections, paragraphs and recalled choruses', () => {
+    const song = parseChordPro(SONG)
+
+    expect(song.sections.map((section) => [section.type, section.label])).toEqual([
+      ['verse', 'Verse 1'],
+      ['chorus', undefined],
+      ['none', undefined],
+      ['chorus', undefined],
+    ])
+    expect(song.sections[2]?.lines).toEqual([
+      { type: 'directive', name: 'comment', value: 'Repeat chorus' },
+    ])
+    expect(song.sections[3]).toMatchObject({ recall: true, lines: song.sections[1]?.lines })
+  })
+
+  test('collects chords per section and for the whole song', () => {
+    const song = parseChordPro(SONG)
+
+    expect(song.sections[1]?.chords).toEqual(['C', 'G', 'Em', 'D'])
+    expect(song.chords).toEqual([
+      'G',
+      'G7',
+      'C',
+      'G',
+      'G',
+      'D',
+      'C',
+      'G',
+      'Em',
+      'D',
+      'C',
+      'G',
+      'Em',
+      'D',
+    ])
+    expect(analyzeProgression([...song.chords], { key: 'G major' }).analysis[2]?.roman).toBe('IV')
+  })
+
+  test('accepts abbreviations and label attributes', () => {
+    const song = parseChordPro('{sov: label="Verse 2"}\n[Am]Line\n{eov}\n{soc}\n[F]Line\n{eoc}')
+
+    expect(song.sections.map((section) => [section.type, section.label])).toEqual([
+      ['verse', 'Verse 2'],
+      ['chorus', undefined],
+    ])
+  })
+
+  test('splits paragraphs outside sections at blank lines', () => {
+    const song = parseChordPro('[C]One\n[G]Two\n\n\n[F]Three\n# a file comment\n[C]Four')
+
+    expect(song.sections.map((section) => section.lines.length)).toEqual([2, 2])
+    expect(song.chords).toEqual(['C', 'G', 'F', 'C'])
+  })
+
+  test('keeps text that is not a chord out of the chords', () => {
+    const song = parseChordPro('[N.C.]Stop [*Rit.]here [G7 (V7)]now')
+    const line = song.sections[0]?.lines[0]
+
+    expect(line).toEqual({
+      type: 'lyrics',
+      text: 'Stop here now',
+      chords: [
+        { chord: 'N.C.', position: 0 },
+        { chord: '*Rit.', position: 5 },
+        { chord: 'G7', position: 10, annotation: 'V7' },
+      ],
+    })
+    expect(song.chords).toEqual(['G7'])
+  })
+
+  test('keeps tab and grid lines as raw text', () => {
+    const song = parseChordPro('{start_of_tab}\ne|--[0]--|\n{end_of_tab}')
+
+    expect(song.sections[0]?.lines).toEqual([{ type: 'lyrics', text: 'e|--[0]--|', chords: [] }])
+    expect(song.chords).toEqual([])
+  })
+
+  test('throws for nested and unmatched sections', () => {
+    expect(() => parseChordPro('{soc}\n{sov}\n{eov}\n{eoc}')).toThrow(MusicReasoningError)
+    expect(() => parseChordPro('{soc}\n{sov}')).toThrow(/inside another section/)
+    expect(() => parseChordPro('{sov}\n[C]Line\n{eoc}')).toThrow(/does not close/)
+    expect(() => parseChordPro('{eoc}')).toThrow(/does not close/)
+  })
+})
+
+describe('ChordPro - serializeChordPro()', () => {
+  test('writes back the same song', () => {
+    expect(serializeChordPro(parseChordPro(SONG))).toBe(SONG)
+  })
+
+  test('round-trips through parseChordPro()', () => {
+    for (const text of [
+      '{t: Song}\n{meta: band The Band}\n{sov: label="V"}\n[Am]Line [*Rit.]\n\n[F]More\n{eov}',
+      '[C]One\n[G]Two\n\n[F]Three\n{new_page}',
+      '{start_of_grid}\n| C . . . | G . . . |\n{end_of_grid}',
+    ]) {
+      const song = parseChordPro(text)
+      expect(parseChordPro(serializeChordPro(song))).toEqual(song)
+    }
+  })
+
+  test('transposes the song and its key', () => {
+    const text = serializeChordPro(parseChordPro(SONG), { transpose: 'Bb' })
+
+    expect(text).toContain('{key: Bb}')
+    expect(text).toContain('A[Bb]mazing [Bb7]grace, how [Eb]sweet the [Bb]sound')
+    expect(text).toContain('I [Eb]once was [Bb]lost, but [Gm]now am [F]found')
+    expect(parseChordPro(text).chords).toHaveLength(14)
+  })
+
+  test('transposes minor keys and detects missing keys', () => {
+    const minor = serializeChordPro(parseChordPro('{key: Em}\n[Em]One [Am]two [B7]three'), {
+      transpose: 'Am',
+    })
+    const detected = serializeChordPro(parseChordPro('[C]One [F]two [G]three [C]four'), {
+      transpose: 'D',
+    })
+
+    expect(minor).toBe('{key: Am}\n\n[Am]One [Dm]two [E7]three\n')
+    expect(detected).toBe('{key: D}\n\n[D]One [G]two [A]three [D]four\n')
+  })
+
+  test('annotates each chord with its Roman numeral', () => {
+    const text = serializeChordPro(parseChordPro(SONG), { annotate: true })
+
+    expect(text).toContain('A[G (I)]mazing [G7 (I7)]grace, how [C (IV)]sweet the [G (I)]sound')
+    expect(text).toContain('I [C (IV)]once was [G (I)]lost, but [Em (vi)]now am [D (V)]found')
+    expect(parseChordPro(text).chords).toEqual(parseChordPro(SONG).chords)
+  })
+
+  test('annotates in the transposed key and skips non-chords', () => {
+    const song = parseChordPro('{key: Em}\n[Em]One [N.C.]two [B7]three')
+
+    expect(serializeChordPro(song, { transpose: 'Dm', annotate: true })).toBe(
+      '{key: Dm}\n\n[Dm (i)]One [N.C.]two [A7 (V7)]three\n'
+    )
+  })
+})
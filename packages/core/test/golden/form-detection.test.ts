@@ -0,0 +1,220 @@
+/**
+ * Golden Test Suite: Song Form
+ *
+ * Validates that progressions are split into repeated sections with letter
+ * labels, that the label sequence names the form (AABA, ABAC, verse/chorus,
+ * strophic), that 12-bar blues and rhythm changes are recognized from their
+ * changes, and that sections carry roles, chords and similarity scores.
+ * Tests cover: detectForm()
+ *
+ * @group golden
+ * @group form
+ */
+
+import { describe, test, expect } from 'vitest'
+import type { FormAnalysis } from '@music-reasoning/types'
+import { parseLeadSheet } from '../../src/leadsheet'
+import { detectForm } from '../../src/progression'
+
+const RHYTHM_CHANGES = `[A]
+| Bb G7 | Cm7 F7 | Bb G7 | Cm7 F7 |
+| Bb Bb7 | Eb Ebm | Bb F7 | Bb |
+[A]
+| Bb G7 | Cm7 F7 | Bb G7 | Cm7 F7 |
+| Bb Bb7 | Eb Ebm | Bb F7 | Bb |
+[B]
+| D7 | % | G7 | % |
+| C7 | % | F7 | % |
+[A]
+| Bb G7 | Cm7 F7 | Bb G7 | Cm7 F7 |
+| Bb Bb7 | Eb Ebm | Cm7 F7 | Bb |
+`
+
+const AABA = `| C | Am | Dm | G7 | C | Am | Dm G7 | C |
+| C | Am | Dm | G7 | C | Am | Dm G7 | C |
+| F | F | C | C | D7 | D7 | Dm | G7 |
+| C | Am | Dm | G7 | C | Am | Dm G7 | C |`
+
+const ABAC = `| C | C | E7 | E7 | A7 | A7 | Dm | Dm | E7 | E7 | Am | Am | D7 | D7 | Dm7 | G7 |
+| C | C | E7 | E7 | A7 | A7 | Dm | Dm | F | Fm | C | A7 | Dm7 | G7 | C | C |`
+
+const VERSE_CHORUS = `[Verse]
+| C | G | Am | F | C | G | F | F |
+[Chorus]
+| Am | F | C | G | Am | F | G | G |
+[Verse]
+| C | G | Am | F | C | G | F | F |
+[Chorus]
+| Am | F | C | G | Am | F | G | G |
+[Bridge]
+| Dm | Em | F | G | Dm | Em | F | G |
+[Chorus]
+| Am | F | C | G | Am | F | G | G |
+`
+
+const JAZZ_BLUES = `| F7 | Bb7 | F7 | Cm7 F7 | Bb7 | Bdim7 | F7 | D7 | Gm7 | C7 | F7 D7 | Gm7 C7 |
+| F7 | Bb7 | F7 | Cm7 F7 | Bb7 | Bdim7 | F7 | D7 | Gm7 | C7 | F7 D7 | Gm7 C7 |`
+
+/** Form of a lead-sheet chart */
+function formOf(text: string): FormAnalysis {
+  const sheet = parseLeadSheet(text)
+  return detectForm(sheet.progression, { timeSignature: sheet.timeSignature })
+}
+
+describe('Form - detectForm()', () => {
+  test('detects a 32-bar AABA with the bridge as B', () => {
+    const form = formOf(AABA)
+
+    expect(form.form).toBe('AABA')
+    expect(form.labels).toEqual(['A', 'A', 'B', 'A'])
+    expect(form.sectionBars).toBe(8)
+    expect(form.sections.map((section) => section.startBar)).toEqual([1, 9, 17, 25])
+    expect(form.sections.map((section) => section.role)).toEqual([null, null, 'bridge', null])
+  })
+
+  test('recognizes rhythm changes, with a varied last A', () => {
+    const form = formOf(RHYTHM_CHANGES)
+
+    expect(form.form).toBe('rhythm-changes')
+    expect(form.labels).toEqual(['A', 'A', 'B', 'A'])
+    expect(form.sections[2]?.chords[0]).toEqual({ chord: 'D7', beats: 8 })
+    expect(form.sections[1]?.similarity).toBe(1)
+    expect(form.sections[3]?.similarity).toBeGreaterThan(0.9)
+    expect(form.sections[3]?.similarity).toBeLessThan(1)
+  })
+
+  test('detects ABAC', () => {
+    const form = formOf(ABAC)
+
+    expect(form.form).toBe('ABAC')
+    expect(form.labels).toEqual(['A', 'B', 'A', 'C'])
+    expect(form.sectionBars).toBe(8)
+  })
+
+  test('assigns verse, chorus and bridge roles', () => {
+    const form = formOf(VERSE_CHORUS)
+
+    expect(form.form).toBe('verse-chorus')
+    expect(form.labels).toEqual(['A', 'B', 'A', 'B', 'C', 'B'])
+    expect(form.sections.map((section) => section.role)).toEqual([
+      'verse',
+      'chorus',
+      'verse',
+      'chorus',
+      'bridge',
+      'chorus',
+    ])
+  })
+
+  test('recognizes 12-bar blues choruses', () => {
+    const basic = detectForm('F7 Bb7 F7 F7 Bb7 Bb7 F7 F7 C7 Bb7 F7 C7'.split(' '))
+    expect(basic.form).toBe('twelve-bar-blues')
+    expect(basic.labels).toEqual(['A'])
+    expect(basic.sections[0]).toMatchObject({ role: 'chorus', startBar: 1, bars: 12 })
+
+    const jazz = formOf(JAZZ_BLUES)
+    expect(jazz.form).toBe('twelve-bar-blues')
+    expect(jazz.labels).toEqual(['A', 'A'])
+    expect(jazz.sectionBars).toBe(12)
+  })
+
+  test('treats a repeated loop as strophic and a short progression as through-composed', () => {
+    const loop = detectForm('C G Am F C G Am F C G Am F C G Am F'.split(' '))
+    expect(loop.form).toBe('strophic')
+    expect(loop.sections.every((section) => section.role === 'verse')).toBe(true)
+
+    const short = detectForm(['C', 'G', 'Am', 'F'])
+    expect(short.form).toBe('through-composed')
+    expect(short.labels).toEqual(['A'])
+    expect(short.sections[0]?.bars).toBe(4)
+  })
+
+  test('returns a symmetric similarity matrix', () => {
+    const form = formOf(AABA)
+
+    expect(form.similarity).toHaveLength(4)
+    form.similarity.forEach((row, i) => {
+      expect(row[i]).toBe(1)
+      row.forEach((value, j) => {
+        expect(value).toBe(form.similarity[j]?.[i])
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThanOrEqual(1)
+      })
+    })
+    expect(form.similarity[0]?.[1]).toBe(1)
+    expect(form.similarity[0]?.[2]).toBeLessThan(0.75)
+  })
+
+  test('splits chords held across section boundaries', () => {
+    const form = detectForm(
+      [
+        { chord: 'C', beats: 12 },
+        { chord: 'G', beats: 8 },
+        { chord: 'F', beats: 4 },
+        { chord: 'C', beats: 8 },
+      ],
+      { sectionBars: 4 }
+    )
+
+    expect(form.sectionBars).toBe(4)
+    expect(form.labels).toEqual(['A', 'B'])
+    expect(form.sections[0]?.chords).toEqual([
+      { chord: 'C', beats: 12 },
+      { chord: 'G', beats: 4 },
+    ])
+    expect(form.sections[1]?.chords).toEqual([
+      { chord: 'G', beats: 4 },
+      { chord: 'F', beats: 4 },
+      { chord: 'C', beats: 8 },
+    ])
+  })
+
+  test('uses the meter for bar lengths', () => {
+    const form = detectForm(
+      [
+        { chord: 'C', beats: 6 },
+        { chord: 'G', beats: 6 },
+        { chord: 'C', beats: 6 },
+        { chord: 'G', beats: 6 },
+      ],
+      { timeSignature: [3, 4], sectionBars: 4 }
+    )
+
+    expect(form.labels).toEqual(['A', 'A'])
+    expect(form.form).toBe('strophic')
+  })
+
+  test('continues labels after Z with numbered letters', () => {
+    const chords = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'].flatMap(
+      (root) => [root, `${root}m`, `${root}dim`]
+    )
+    const form = detectForm(chords, { sectionBars: 1 })
+
+    expect(form.labels).toHaveLength(36)
+    expect(form.labels.slice(24, 29)).toEqual(['Y', 'Z', 'A1', 'B1', 'C1'])
+    expect(form.sections[26]?.label).toBe('A1')
+  })
+
+  test('throws on empty progressions, invalid chords and section lengths', () => {
+    expect(() => detectForm([])).toThrow('empty chord progression')
+    expect(() => detectForm(['C', 'Xyz'])).toThrow('Invalid chord')
+    expect(() => detectForm(['C', 'G'], { sectionBars: 0 })).toThrow('Invalid section length')
+    expect(() => detectForm(['C', 'G'], { sectionBars: 2.5 })).toThrow('Invalid section length')
+  })
+
+  test('rejects progressions longer than 1000 bars', () => {
+    expect(() => detectForm([{ chord: 'C', beats: 4e6 }])).toThrow(
+      'too long for form detection: 1000000 bars'
+    )
+    expect(() => detectForm(Array.from({ length: 1001 }, () => 'C'))).toThrow('max 1000')
+    expect(detectForm(Array.from({ length: 1000 }, () => 'C')).form).toBe('strophic')
+  })
+
+  test('rejects meters with more than 64 beats per bar', () => {
+    expect(() => detectForm(['C', 'G'], { timeSignature: [1e7, 4] })).toThrow(
+      'too long for form detection: 10000000 beats per bar'
+    )
+    expect(() => detectForm(['C', 'G'], { timeSignature: [3e8, 4] })).toThrow('max 64')
+    expect(detectForm(['C', 'G'], { timeSignature: [64, 4] }).labels).toEqual(['A'])
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Golden Test Suite: Melody Harmonization
+ *
+ * Validates that melodies get ranked chord progressions whose chords cover
+ * the melody, move functionally and close with a cadence, and that harmonic
+ * rhythm, meter, chord vocabulary and genre options shape the result.
+ * Tests cover: harmonizeMelody()
+ *
+ * @group golden
+ * @group harmonization
+ */
+
+import { describe, test, expect } from 'vitest'
+import type { WeightedNote } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { harmonizeMelody } from '../../src/harmonize'
+
+/** Builds a melody from "pitch:beats" tokens (beats default to 1) */
+function melody(tokens: string): WeightedNote[] {
+  return tokens.split(' ').map((token) => {
+    const [pitch = '', beats = '1'] = token.split(':')
+    return { pitch, duration: Number(beats) }
+  })
+}
+
+describe('Melody harmonization - harmonizeMelody()', () => {
+  test('harmonizes a melody with a closing authentic cadence', () => {
+    const [best] = harmonizeMelody(melody('E4:2 G4:2 F4:2 A4:2 D4:2 B3:2 C4:4'), {
+      key: 'C major',
+    })
+
+    expect(best?.key).toBe('C major')
+    expect(best?.chords).toEqual(['C', 'F', 'G', 'C'])
+    expect(best?.cadences).toContainEqual({
+      type: 'authentic',
+      chords: ['G', 'C'],
+      strength: 'strong',
+    })
+    expect(best?.breakdown.coverage).toBe(1)
+  })
+
+  test('ranks harmonizations best first', () => {
+    const results = harmonizeMelody(melody('E4:2 G4:2 F4:2 A4:2 D4:2 B3:2 C4:4'), {
+      key: 'C major',
+      limit: 5,
+    })
+
+    expect(results).toHaveLength(5)
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1]?.score).toBeGreaterThanOrEqual(results[i]?.score ?? 0)
+    }
+    for (const result of results) {
+      expect(result.score).toBeGreaterThan(0)
+      expect(result.score).toBeLessThanOrEqual(1)
+    }
+  })
+
+  test('reports timing, melody and chord tones for each slot', () => {
+    const [best] = harmonizeMelody(melody('E4:6 D4:2 C4:8'), { key: 'C', limit: 1 })
+
+    expect(best?.slots).toHaveLength(4)
+    expect(best?.slots[1]).toMatchObject({ bar: 2, beat: 1, start: 4, duration: 4 })
+    // The tied E carries over the bar line
+    expect(best?.slots[1]?.melody).toEqual(['E', 'D'])
+    expect(best?.slots[0]?.roman).toBe('I')
+    expect(best?.slots[0]?.function).toBe('tonic')
+    expect(best?.slots[0]?.chordToneRatio).toBe(1)
+  })
+
+  test('uses secondary dominants for chromatic melody notes', () => {
+    const [best] = harmonizeMelody(melody('E4:4 F#4:2 A4:2 G4:2 B3:2 C4:4'), { key: 'C major' })
+
+    expect(best?.chords).toEqual(['C', 'D7', 'G', 'C'])
+    expect(best?.slots[1]).toMatchObject({ roman: 'V7/V', source: 'secondary-dominant' })
+  })
+
+  test('keeps to diatonic chords when chromatic is false', () => {
+    const results = harmonizeMelody(melody('E4:4 F#4:2 A4:2 G4:2 B3:2 C4:4'), {
+      key: 'C major',
+      chromatic: false,
+    })
+
+    for (const result of results) {
+      expect(result.slots.every((slot) => slot.source === 'diatonic')).toBe(true)
+    }
+  })
+
+  test('places one chord per beat with a beat harmonic rhythm', () => {
+    const [best] = harmonizeMelody(['C5', 'B4', 'A4', 'G4'], {
+      key: 'C major',
+      harmonicRhythm: 'beat',
+    })
+
+    expect(best?.slots.map((slot) => [slot.bar, slot.beat])).toEqual([
+      [1, 1],
+      [1, 2],
+      [1, 3],
+      [1, 4],
+    ])
+  })
+
+  test('follows the time signature', () => {
+    const [best] = harmonizeMelody(melody('G4:3 A4:3 B4:3 G4:3'), { timeSignature: [3, 4] })
+
+    expect(best?.chords).toHaveLength(4)
+    expect(best?.slots.map((slot) => slot.start)).toEqual([0, 3, 6, 9])
+  })
+
+  test('detects the key from the melody when omitted', () => {
+    const [best] = harmonizeMelody(melody('B4:2 A4:1 G4:1 F#4:2 A4:2 G4:4'))
+
+    expect(best?.key).toBe('G major')
+    expect(best?.chords[best.chords.length - 1]).toBe('G')
+  })
+
+  test('accepts MIDI numbers and spells them in the key', () => {
+    const [best] = harmonizeMelody([70, 69, 67, 65], { key: 'F major', harmonicRhythm: 'beat' })
+
+    expect(best?.slots.map((slot) => slot.melody[0])).toEqual(['Bb', 'A', 'G', 'F'])
+  })
+
+  test('scores genre fit against the requested genre only', () => {
+    const results = harmonizeMelody(melody('A4:2 G4:2 F4:2 E4:2 D4:4 C4:4'), {
+      key: 'C major',
+      genre: 'jazz',
+    })
+
+    for (const result of results) {
+      expect(result.genrePatterns.every((pattern) => pattern.genre === 'jazz')).toBe(true)
+    }
+    expect(results[0]?.genrePatterns.map((pattern) => pattern.pattern)).toContain('ii-V-I')
+  })
+
+  test('accepts chart-style minor keys', () => {
+    const melody = ['C#4', 'E4', 'G#4', 'C#5']
+    expect(harmonizeMelody(melody, { key: 'C#m' })).toEqual(
+      harmonizeMelody(melody, { key: 'C# minor' })
+    )
+  })
+
+  test('throws for invalid melodies and options', () => {
+    expect(() => harmonizeMelody([])).toThrow(MusicReasoningError)
+    expect(() => harmonizeMelody(['C4', 'H4'])).toThrow(/Invalid melody note/)
+    expect(() => harmonizeMelody([{ pitch: 'C4', duration: 0 }])).toThrow(MusicReasoningError)
+    expect(() => harmonizeMelody([{ pitch: 'C4', duration: Infinity }])).toThrow(
+      /Invalid melody note/
+    )
+    expect(() => harmonizeMelody([{ pitch: 'C4', duration: Number.NaN }])).toThrow(
+      /Invalid melody note/
+    )
+    expect(() => harmonizeMelody(['C4'], { genre: 'nope' as 'pop' })).toThrow(/Unknown genre/)
+    expect(() => harmonizeMelody(['C4'], { key: 'C dorian' })).toThrow(/Invalid key/)
+    expect(() => harmonizeMelody(['C4'], { limit: 0 })).toThrow(MusicReasoningError)
+    expect(() => harmonizeMelody(['C4'], { timeSignature: [0, 4] })).toThrow(MusicReasoningError)
+  })
+
+  test('rejects melodies longer than 512 chords', () => {
+    expect(() => harmonizeMelody([{ pitch: 'C4', duration: 40000 }])).toThrow(
+      /too long to harmonize: 10000 chords/
+    )
+    expect(() =>
+      harmonizeMelody([{ pitch: 'C4', duration: 513 }], { harmonicRhythm: 'beat' })
+    ).toThrow(MusicReasoningError)
+    const [longest] = harmonizeMelody([{ pitch: 'C4', duration: 512 }], {
+      harmonicRhythm: 'beat',
+    })
+    expect(longest?.slots).toHaveLength(512)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Golden Test Suite: Pitch-Class-Profile Key Finding
+ *
+ * Tests for key finding from note streams (melodies, MIDI notes) using
+ * Krumhansl-Schmuckler correlation with Krumhansl and Temperley profiles.
+ * Tests cover: findKeyFromNotes()
+ *
+ * @group golden
+ * @group progression
+ */
+
+import { describe, test, expect } from 'vitest'
+import { findKeyFromNotes } from '../../src/progression'
+import { parseMidi } from '../../src/midi/parse'
+import { exportMidi } from '../../src/midi/export'
+
+describe('Key Finding - findKeyFromNotes()', () => {
+  describe('Major and Minor Keys', () => {
+    test('finds C major from a scale fragment', () => {
+      const result = findKeyFromNotes(['C4', 'D4', 'E4', 'F4', 'G4', 'E4', 'C4'])
+
+      expect(result.key).toBe('C major')
+      expect(result.root).toBe('C')
+      expect(result.scaleType).toBe('major')
+      expect(result.diatonicCount).toBe(7)
+      expect(result.totalChords).toBe(7)
+    })
+
+    test('finds D major from a melody', () => {
+      // Twinkle, Twinkle in D
+      const melody = [
+        'D4',
+        'D4',
+        'A4',
+        'A4',
+        'B4',
+        'B4',
+        'A4',
+        'G4',
+        'G4',
+        'F#4',
+        'F#4',
+        'E4',
+        'E4',
+        'D4',
+      ]
+
+      expect(findKeyFromNotes(melody).key).toBe('D major')
+    })
+
+    test('finds A minor with a raised leading tone', () => {
+      const result = findKeyFromNotes([
+        { pitch: 'A3', duration: 2 },
+        { pitch: 'C4', duration: 1 },
+        { pitch: 'E4', duration: 1 },
+        { pitch: 'G#4', duration: 0.5 },
+        { pitch: 'A4', duration: 2 },
+      ])
+
+      expect(result.key).toBe('A minor')
+      // G# is diatonic in harmonic minor
+      expect(result.diatonicCount).toBe(5)
+    })
+
+    test('durations weight the distribution', () => {
+      // Same pitches; a long A tips the balance from C major to A minor
+      const even = findKeyFromNotes(['C4', 'E4', 'G4', 'A4'])
+      const weighted = findKeyFromNotes([
+        { pitch: 'C4', duration: 0.5 },
+        { pitch: 'E4', duration: 2 },
+        { pitch: 'G4', duration: 0.5 },
+        { pitch: 'A4', duration: 4 },
+      ])
+
+      expect(even.key).toBe('C major')
+      expect(weighted.key).toBe('A minor')
+    })
+  })
+
+  describe('Correlations', () => {
+    test('returns correlations for all 24 keys, best first', () => {
+      const result = findKeyFromNotes(['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'])
+
+      expect(result.correlations).toHaveLength(24)
+      expect(new Set(result.correlations.map((c) => c.key)).size).toBe(24)
+      expect(result.correlations[0]?.key).toBe(result.key)
+      for (let i = 1; i < result.correlations.length; i++) {
+        expect(result.correlations[i - 1]!.correlation).toBeGreaterThanOrEqual(
+          result.correlations[i]!.correlation
+        )
+      }
+      expect(result.confidence).toBeCloseTo(result.correlations[0]!.correlation)
+    })
+
+    test('Temperley profile agrees on a clear tonal melody', () => {
+      const notes = [60, 64, 67, 72, 67, 64, 60]
+
+      expect(findKeyFromNotes(notes, { profile: 'temperley' }).key).toBe('C major')
+      expect(findKeyFromNotes(notes, { profile: 'krumhansl' }).key).toBe('C major')
+    })
+
+    test('chromatic aggregate has zero correlation', () => {
+      const result = findKeyFromNotes([
+        'C',
+        'C#',
+        'D',
+        'D#',
+        'E',
+        'F',
+        'F#',
+        'G',
+        'G#',
+        'A',
+        'A#',
+        'B',
+      ])
+
+      expect(result.confidence).toBe(0)
+      expect(result.correlations.every((c) => c.correlation === 0)).toBe(true)
+    })
+  })
+
+  describe('MIDI Notes', () => {
+    test('finds key from notes decoded from a MIDI file', () => {
+      const file = parseMidi(exportMidi(['Am', 'Dm', 'E7', 'Am'], { bassTrack: false }))
+      const notes = (file.tracks[1]?.notes ?? []).map((note) => ({
+        pitch: note.pitch,
+        duration: note.durationTicks / file.ticksPerBeat,
+      }))
+
+      expect(findKeyFromNotes(notes).key).toBe('A minor')
+    })
+  })
+
+  describe('Error Handling', () => {
+    test('rejects empty note lists', () => {
+      expect(() => findKeyFromNotes([])).toThrow(/empty/)
+    })
+
+    test('rejects invalid notes and durations', () => {
+      expect(() => findKeyFromNotes(['C4', 'H4'])).toThrow(/Invalid note/)
+      expect(() => findKeyFromNotes([128])).toThrow(/Invalid MIDI pitch/)
+      expect(() => findKeyFromNotes([{ pitch: 'C4', duration: -1 }])).toThrow(/Invalid duration/)
+      expect(() => findKeyFromNotes([{ pitch: 'C4', duration: Infinity }])).toThrow(
+        /Invalid duration/
+      )
+    })
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Golden Test Suite: Lead Sheets
+ *
+ * Validates that plain-text chord charts are read into sections, bars and
+ * timed chords, that repeats and endings expand in playing order, that the
+ * progressions feed analyzeProgression(), and that serializing gives back the
+ * same chart.
+ * Tests cover: parseLeadSheet(), serializeLeadSheet()
+ *
+ * @group golden
+ * @group leadsheet
+ */
+
+import { describe, test, expect } from 'vitest'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { parseLeadSheet, serializeLeadSheet } from '../../src/leadsheet'
+import { analyzeProgression } from '../../src/progression'
+
+const BLUES = `Title: Blues in F
+Key: F
+
+[Head]
+| F7 | Bb7 | F7 | Cm7 F7 |
+| Bb7 | Bdim7 | F7 | D7 |
+| Gm7 | C7 | F7 D7 | Gm7 C7 ||
+`
+
+/** Chord symbols of a progression, in order */
+function symbols(text: string): string[] {
+  return parseLeadSheet(text).progression.map((timed) => timed.chord)
+}
+
+describe('Lead sheets - parseLeadSheet()', () => {
+  test('reads metadata, sections and bars', () => {
+    const sheet = parseLeadSheet(BLUES)
+
+    expect(sheet.title).toBe('Blues in F')
+    expect(sheet.key).toBe('F')
+    expect(sheet.timeSignature).toEqual([4, 4])
+    expect(sheet.sections).toHaveLength(1)
+    expect(sheet.sections[0]?.label).toBe('Head')
+    expect(sheet.sections[0]?.bars).toHaveLength(12)
+    expect(sheet.sections[0]?.bars[3]?.chords).toEqual([
+      { chord: 'Cm7', beats: 2 },
+      { chord: 'F7', beats: 2 },
+    ])
+    expect(sheet.sections[0]?.bars[11]).toMatchObject({ doubleBar: true })
+  })
+
+  test('splits bars with beat slots', () => {
+    const sheet = parseLeadSheet('| C / / G7 | Dm7 . G7 . | F G Am | C % |')
+    const bars = sheet.sections[0]?.bars ?? []
+
+    expect(bars[0]?.chords).toEqual([
+      { chord: 'C', beats: 3 },
+      { chord: 'G7', beats: 1 },
+    ])
+    expect(bars[1]?.chords).toEqual([
+      { chord: 'Dm7', beats: 2 },
+      { chord: 'G7', beats: 2 },
+    ])
+    expect(bars[2]?.chords.map((timed) => timed.beats)).toEqual([4 / 3, 4 / 3, 4 / 3])
+    expect(bars[3]?.chords).toEqual([{ chord: 'C', beats: 4 }])
+  })
+
+  test('repeats the previous bar for %', () => {
+    const sheet = parseLeadSheet('| Dm7 G7 | % | C |')
+
+    expect(sheet.sections[0]?.bars[1]).toEqual({
+      chords: [
+        { chord: 'Dm7', beats: 2 },
+        { chord: 'G7', beats: 2 },
+      ],
+      simile: true,
+    })
+  })
+
+  test('uses the time signature for bar lengths', () => {
+    const sheet = parseLeadSheet('Time: 3/4\n| C | Dm7 G7 / | C |')
+
+    expect(sheet.timeSignature).toEqual([3, 4])
+    expect(sheet.sections[0]?.bars[1]?.chords).toEqual([
+      { chord: 'Dm7', beats: 1 },
+      { chord: 'G7', beats: 2 },
+    ])
+    expect(parseLeadSheet('| C |', { timeSignature: [6, 8] }).progression).toEqual([
+      { chord: 'C', beats: 6 },
+    ])
+  })
+
+  test('keeps bars before the first label in an unlabeled section', () => {
+    const sheet = parseLeadSheet('| C | G |\n[Verse] | Am | F |\n[Chorus]\n| C | G |')
+
+    expect(sheet.sections.map((section) => section.label)).toEqual([null, 'Verse', 'Chorus'])
+    expect(sheet.sections.map((section) => section.bars.length)).toEqual([2, 2, 2])
+  })
+
+  test('merges chords held across bar lines', () => {
+    const sheet = parseLeadSheet('| C | % | F | F G |')
+
+    expect(sheet.progression).toEqual([
+      { chord: 'C', beats: 8 },
+      { chord: 'F', beats: 6 },
+      { chord: 'G', beats: 2 },
+    ])
+  })
+})
+
+describe('Lead sheets - repeats and endings', () => {
+  test('plays repeated bars twice', () => {
+    expect(symbols('| C |: F | G :| C |')).toEqual(['C', 'F', 'G', 'F', 'G', 'C'])
+  })
+
+  test('repeats from the section start without |:', () => {
+    expect(symbols('| C | G :| Am |')).toEqual(['C', 'G', 'C', 'G', 'Am'])
+  })
+
+  test('takes each ending in turn', () => {
+    const sheet = parseLeadSheet('|: C | Am |1. Dm7 | G7 :|2. Dm7 G7 | C ||')
+
+    expect(sheet.sections[0]?.bars[2]).toMatchObject({ ending: 1 })
+    expect(sheet.sections[0]?.bars[4]).toMatchObject({ ending: 2 })
+    expect(sheet.progression.map((timed) => timed.chord)).toEqual([
+      'C',
+      'Am',
+      'Dm7',
+      'G7',
+      'C',
+      'Am',
+      'Dm7',
+      'G7',
+      'C',
+    ])
+    expect(sheet.progression.map((timed) => timed.beats)).toEqual([4, 4, 4, 4, 4, 4, 2, 2, 4])
+  })
+
+  test('plays a repeat once per ending', () => {
+    expect(symbols('|: C |1. D :|2. E :|3. F ||')).toEqual(['C', 'D', 'C', 'E', 'C', 'F'])
+  })
+
+  test('reads back-to-back repeats across lines', () => {
+    expect(symbols('|: C :|: F :|\n|: G |\n| Am :|')).toEqual(['C', 'F', 'G', 'Am', 'G', 'Am'])
+  })
+
+  test('expands repeats per section and across the form', () => {
+    const sheet = parseLeadSheet('[A]\n|: C | G :|\n[B]\n| F | C |')
+
+    expect(sheet.sections[0]?.progression.map((timed) => timed.chord)).toEqual(['C', 'G', 'C', 'G'])
+    expect(sheet.progression.map((timed) => timed.chord)).toEqual(['C', 'G', 'C', 'G', 'F', 'C'])
+  })
+})
+
+describe('Lead sheets - analysis', () => {
+  test('feeds each section and the whole form to analyzeProgression()', () => {
+    const sheet = parseLeadSheet('[A]\n| C | Am | F | G |\n[B]\n| F | G | C | C |')
+    const [a, b] = sheet.sections.map((section) =>
+      analyzeProgression(section.progression, { timeSignature: sheet.timeSignature })
+    )
+    const form = analyzeProgression(sheet.progression, { timeSignature: sheet.timeSignature })
+
+    expect(a?.key).toBe('C major')
+    expect(a?.cadences.at(-1)).toMatchObject({ type: 'half', bar: 4 })
+    expect(b?.cadences.at(-1)).toMatchObject({ type: 'authentic', bar: 3, phraseEnd: true })
+    expect(form.analysis.at(-1)).toMatchObject({ roman: 'I', bar: 7, beats: 8 })
+    expect(form.loopable).toBe(true)
+  })
+})
+
+describe('Lead sheets - serializeLeadSheet()', () => {
+  test('writes back the same chart', () => {
+    const text = `Title: Example
+Key: C
+
+[A]
+|: C | Dm7 G7 |1. C A7 :|2. C / / G7 ||
+
+[B]
+| F | % | Fm | C |
+`
+    expect(serializeLeadSheet(parseLeadSheet(text))).toBe(text)
+  })
+
+  test('round-trips through parseLeadSheet()', () => {
+    for (const text of [
+      BLUES,
+      'Time: 3/4\n| C | Dm7 G7 / | C |',
+      '| C |: F | G :|: Am :| C |',
+      '[Intro] | F G Am | C . . G7 |',
+    ]) {
+      const sheet = parseLeadSheet(text)
+      expect(parseLeadSheet(serializeLeadSheet(sheet))).toEqual(sheet)
+    }
+  })
+
+  test('lays out bars per line', () => {
+    const sheet = parseLeadSheet('| C | F | G | C | Am | Dm | G | C |')
+
+    expect(serializeLeadSheet(sheet, { barsPerLine: 8 })).toBe(
+      '| C | F | G | C | Am | Dm | G | C |\n'
+    )
+    expect(serializeLeadSheet(sheet, { barsPerLine: 3 })).toBe(
+      '| C | F | G |\n| C | Am | Dm |\n| G | C |\n'
+    )
+    expect(() => serializeLeadSheet(sheet, { barsPerLine: 0 })).toThrow(/Bars per line/)
+  })
+})
+
+describe('Lead sheets - errors', () => {
+  test('throws for malformed charts', () => {
+    const cases: [string, RegExp][] = [
+      ['', /no bars/],
+      ['Title: Empty', /no bars/],
+      ['| C | | G |', /empty bar/],
+      ['| % | C |', /no previous bar/],
+      ['| / C |', /must follow a chord/],
+      ['|: C |: G :|', /nested repeats/],
+      ['|: C | G |', /never closed/],
+      ['| C :| G :|', /no matching/],
+      ['|: C |1. G :| F |', /missing ending 2/],
+      ['| C |1. G |', /not closed/],
+      ['| C :| D |1. G |', /outside a repeat/],
+      ['| C |:', /not followed by a bar/],
+      ['| C |\nTime: 3/4', /before the first bar/],
+      ['Time: waltz\n| C |', /invalid time signature/],
+    ]
+
+    for (const [text, message] of cases) {
+      expect(() => parseLeadSheet(text), text).toThrow(MusicReasoningError)
+      expect(() => parseLeadSheet(text), text).toThrow(message)
+    }
+  })
+
+  test('throws INVALID_CHORD for unknown chord symbols', () => {
+    try {
+      parseLeadSheet('| C |\n| H7 |')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(MusicReasoningError)
+      expect((error as MusicReasoningError).code).toBe('INVALID_CHORD')
+      expect((error as MusicReasoningError).details).toEqual({ chord: 'H7', line: 2 })
+    }
+  })
+})
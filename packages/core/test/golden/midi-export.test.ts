@@ -0,0 +1,160 @@
+/**
+ * Golden Test Suite: MIDI Export
+ *
+ * Validates exported Standard MIDI Files by decoding them again with the
+ * MIDI parser and checking notes, timing, tempo and meter.
+ * Tests cover: exportMidi()
+ *
+ * @group golden
+ * @group midi
+ */
+
+import { describe, test, expect } from 'vitest'
+import { exportMidi } from '../../src/midi/export'
+import { parseMidi } from '../../src/midi/parse'
+import { importMidi } from '../../src/midi/import'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+/** Pitches sounding at a tick on a track */
+function pitchesAt(bytes: Uint8Array, track: number, tick: number): number[] {
+  const notes = parseMidi(bytes).tracks[track]?.notes ?? []
+  return notes
+    .filter((note) => note.startTick === tick)
+    .map((note) => note.pitch)
+    .sort((a, b) => a - b)
+}
+
+describe('MIDI Export - exportMidi()', () => {
+  describe('File Structure', () => {
+    test('writes a format 1 file with conductor, chord and bass tracks', () => {
+      const file = parseMidi(exportMidi(['C', 'G']))
+
+      expect(file.format).toBe(1)
+      expect(file.ticksPerBeat).toBe(480)
+      expect(file.tracks.map((track) => track.name)).toEqual([
+        'Music Reasoning SDK',
+        'Chords',
+        'Bass',
+      ])
+      expect(file.tempos).toEqual([{ tick: 0, bpm: 120 }])
+      expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 4, denominator: 4 }])
+    })
+
+    test('writes tempo and meter', () => {
+      const file = parseMidi(exportMidi(['C'], { tempo: 90, timeSignature: [3, 4] }))
+      expect(file.tempos).toEqual([{ tick: 0, bpm: 90 }])
+      expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 4 }])
+      // One bar of 3/4
+      expect(file.tracks[1]?.notes[0]?.durationTicks).toBe(1440)
+    })
+
+    test('omits the bass track when disabled', () => {
+      const file = parseMidi(exportMidi(['C'], { bassTrack: false }))
+      expect(file.tracks).toHaveLength(2)
+    })
+  })
+
+  describe('Voicing and Bass', () => {
+    test('voices chords with the chosen voicing type', () => {
+      expect(pitchesAt(exportMidi(['Cmaj7']), 1, 0)).toEqual([60, 64, 67, 71])
+      expect(pitchesAt(exportMidi(['Cmaj7'], { voicing: 'drop2' }), 1, 0)).toEqual([55, 60, 64, 71])
+    })
+
+    test('plays the root in the bass track', () => {
+      expect(pitchesAt(exportMidi(['Am7']), 2, 0)).toEqual([45])
+    })
+
+    test('plays the slash bass in the bass track', () => {
+      expect(pitchesAt(exportMidi(['C/G']), 2, 0)).toEqual([43])
+      expect(pitchesAt(exportMidi(['C/G'], { bassOctave: 3 }), 2, 0)).toEqual([55])
+    })
+
+    test('applies velocity to every note', () => {
+      const file = parseMidi(exportMidi(['C', 'F'], { velocity: 64 }))
+      const velocities = file.tracks.flatMap((track) => track.notes.map((note) => note.velocity))
+      expect(new Set(velocities)).toEqual(new Set([64]))
+    })
+  })
+
+  describe('Timing', () => {
+    test('uses per-chord durations', () => {
+      const file = parseMidi(exportMidi(['Dm7', 'G7', 'Cmaj7'], { durations: [2, 2, 4] }))
+      const starts = [...new Set(file.tracks[1]?.notes.map((note) => note.startTick))]
+      expect(starts).toEqual([0, 960, 1920])
+      expect(file.tracks[1]?.notes.at(-1)?.durationTicks).toBe(1920)
+    })
+
+    test('repeats a rhythm pattern with rests inside each chord', () => {
+      const file = parseMidi(exportMidi(['C', 'F'], { rhythm: [1, -1, 2], bassTrack: false }))
+      const hits = (file.tracks[1]?.notes ?? [])
+        .filter((note) => note.pitch === 60 || note.pitch === 65)
+        .map((note) => [note.startTick, note.durationTicks])
+      expect(hits).toEqual([
+        [0, 480],
+        [960, 960],
+        [1920, 480],
+        [2880, 960],
+      ])
+    })
+
+    test('cuts rhythm hits off at the end of a chord', () => {
+      const file = parseMidi(exportMidi(['C'], { durations: 3, rhythm: [2], bassTrack: false }))
+      const hits = (file.tracks[1]?.notes ?? [])
+        .filter((note) => note.pitch === 60)
+        .map((note) => [note.startTick, note.durationTicks])
+      expect(hits).toEqual([
+        [0, 960],
+        [960, 480],
+      ])
+    })
+
+    test('measures beats in the time signature beat unit', () => {
+      const file = parseMidi(exportMidi(['C'], { timeSignature: [6, 8] }))
+      expect(file.tracks[1]?.notes[0]?.durationTicks).toBe(1440)
+    })
+  })
+
+  describe('Round Trip', () => {
+    test('re-imports to the same progression', () => {
+      const chords = ['C', 'Am', 'F', 'G7']
+      const result = importMidi(exportMidi(chords))
+      expect(result.chords).toEqual(chords)
+      expect(result.analysis?.key).toBe('C major')
+    })
+  })
+
+  describe('Long Progressions', () => {
+    test('writes tracks too long to spread into an array', () => {
+      const chords = Array.from({ length: 400 }, () => 'Cmaj7')
+      const file = parseMidi(exportMidi(chords, { rhythm: [0.25] }))
+      expect(file.tracks[1]?.notes).toHaveLength(400 * 16 * 4)
+    })
+  })
+
+  describe('Error Handling', () => {
+    test('rejects invalid chord symbols', () => {
+      expect(() => exportMidi(['C', 'Xyz'])).toThrow(MusicReasoningError)
+    })
+
+    test('rejects out-of-range velocity', () => {
+      expect(() => exportMidi(['C'], { velocity: 200 })).toThrow(/Velocity/)
+    })
+
+    test('rejects non-positive tempo and durations', () => {
+      expect(() => exportMidi(['C'], { tempo: 0 })).toThrow(/Tempo/)
+      expect(() => exportMidi(['C'], { durations: [0] })).toThrow(/Duration/)
+    })
+
+    test('rejects invalid time signatures', () => {
+      expect(() => exportMidi(['C'], { timeSignature: [4, 3] })).toThrow(/time signature/)
+    })
+
+    test('rejects values that do not fit their MIDI fields', () => {
+      expect(() => exportMidi(['C'], { tempo: 1 })).toThrow(/does not fit a MIDI Set Tempo/)
+      expect(() => exportMidi(['C'], { timeSignature: [300, 4] })).toThrow(/time signature/)
+      expect(() => exportMidi(['C'], { timeSignature: [4, 256] })).toThrow(/time signature/)
+      expect(() => exportMidi(['C'], { durations: 2 ** 20 })).toThrow(/exceeds the MIDI limit/)
+      expect(() => exportMidi(['C'], { durations: 2 ** 20 })).toThrow(MusicReasoningError)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Golden Test Suite: MIDI Import
+ *
+ * Validates Standard MIDI File decoding and harmonic segmentation against
+ * hand-encoded files with known contents.
+ * Tests cover: parseMidi(), importMidi()
+ *
+ * @group golden
+ * @group midi
+ */
+
+import { describe, test, expect } from 'vitest'
+import { parseMidi } from '../../src/midi/parse'
+import { importMidi } from '../../src/midi/import'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { blockChords, buildMidiFile } from '../fixtures/midi'
+
+// C - Am - F - G7 in close position, one chord per bar
+const POP_PROGRESSION = [
+  [48, 60, 64, 67],
+  [45, 60, 64, 69],
+  [41, 60, 65, 69],
+  [43, 59, 62, 65, 67],
+]
+
+describe('MIDI Parsing - parseMidi()', () => {
+  test('decodes header, notes, tempo and meter', () => {
+    const bytes = buildMidiFile([
+      {
+        name: 'Piano',
+        tempo: 90,
+        timeSignatures: [[0, 3, 4]],
+        notes: [
+          { pitch: 60, start: 0, duration: 480, velocity: 100 },
+          { pitch: 64, start: 480, duration: 240 },
+        ],
+      },
+    ])
+    const file = parseMidi(bytes)
+
+    expect(file.format).toBe(0)
+    expect(file.ticksPerBeat).toBe(480)
+    expect(file.tempos).toEqual([{ tick: 0, bpm: 90 }])
+    expect(file.timeSignatures).toEqual([{ tick: 0, numerator: 3, denominator: 4 }])
+    expect(file.tracks[0]?.name).toBe('Piano')
+    expect(file.tracks[0]?.notes).toEqual([
+      { pitch: 60, velocity: 100, channel: 0, startTick: 0, durationTicks: 480 },
+      { pitch: 64, velocity: 90, channel: 0, startTick: 480, durationTicks: 240 },
+    ])
+  })
+
+  test('decodes format 1 files with several tracks', () => {
+    const bytes = buildMidiFile([
+      { tempo: 120 },
+      { name: 'Chords', notes: blockChords(POP_PROGRESSION) },
+      { name: 'Bass', notes: [{ pitch: 36, start: 0, duration: 1920, channel: 1 }] },
+    ])
+    const file = parseMidi(bytes)
+
+    expect(file.format).toBe(1)
+    expect(file.tracks).toHaveLength(3)
+    expect(file.tracks[1]?.notes).toHaveLength(17)
+    expect(file.tracks[2]?.notes[0]?.channel).toBe(1)
+  })
+
+  test('rejects data without an MThd header', () => {
+    expect(() => parseMidi(new Uint8Array([1, 2, 3]))).toThrow(MusicReasoningError)
+  })
+
+  test('rejects format 2 files', () => {
+    const bytes = buildMidiFile([{ notes: [] }], { format: 2 })
+    expect(() => parseMidi(bytes)).toThrow(/Unsupported MIDI format 2/)
+  })
+
+  test('rejects a zero time division or a short header', () => {
+    const bytes = buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }], { ticksPerBeat: 0 })
+    expect(() => parseMidi(bytes)).toThrow(/Time division must be positive/)
+
+    const short = buildMidiFile([{ notes: [] }])
+    short[7] = 2 // MThd length 2
+    expect(() => parseMidi(short)).toThrow(/header chunk is too short/)
+  })
+
+  test('rejects a time signature with a zero numerator', () => {
+    const bytes = buildMidiFile([{ timeSignatures: [[0, 0, 4]], notes: [] }])
+    expect(() => parseMidi(bytes)).toThrow(/numerator must be positive/)
+  })
+
+  test('rejects time signatures shorter than 128th notes', () => {
+    const bytes = buildMidiFile([{ timeSignatures: [[0, 4, 2 ** 40]], notes: [] }])
+    expect(() => parseMidi(bytes)).toThrow(/exceeds 128th notes/)
+
+    const finest = buildMidiFile([{ timeSignatures: [[0, 4, 128]], notes: [] }])
+    expect(parseMidi(finest).timeSignatures[0]?.denominator).toBe(128)
+  })
+
+  test('decodes long track names', () => {
+    const name = 'x'.repeat(200_000)
+    const file = parseMidi(buildMidiFile([{ name, notes: [] }]))
+    expect(file.tracks[0]?.name).toBe(name)
+  })
+
+  test('rejects truncated tracks', () => {
+    const bytes = buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }])
+    expect(() => parseMidi(bytes.subarray(0, bytes.length - 20))).toThrow(/Unexpected end/)
+  })
+})
+
+describe('MIDI Import - importMidi()', () => {
+  test('identifies one chord per bar and analyzes the progression', () => {
+    const bytes = buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }])
+    const result = importMidi(bytes)
+
+    expect(result.chords).toEqual(['C', 'Am', 'F', 'G7'])
+    expect(result.windows.map((window) => window.bar)).toEqual([1, 2, 3, 4])
+    expect(result.windows[1]?.pitchClasses).toEqual(['A', 'C', 'E'])
+    expect(result.analysis?.key).toBe('C major')
+    expect(result.analysis?.analysis.map((chord) => chord.roman)).toEqual(['I', 'vi', 'IV', 'V7'])
+  })
+
+  test('segments by beat and merges repeated chords', () => {
+    const bytes = buildMidiFile([{ notes: blockChords(POP_PROGRESSION.slice(0, 2)) }])
+    const result = importMidi(bytes, { segmentBy: 'beat' })
+
+    expect(result.windows).toHaveLength(8)
+    expect(result.windows[5]).toMatchObject({ bar: 2, beat: 2, chord: 'Am' })
+    expect(result.chords).toEqual(['C', 'Am'])
+    expect(importMidi(bytes, { segmentBy: 'beat', mergeRepeats: false }).chords).toHaveLength(8)
+  })
+
+  test('ignores short passing tones', () => {
+    const notes = [
+      ...blockChords([[48, 64, 67]]),
+      { pitch: 62, start: 0, duration: 120 }, // Sixteenth-note D
+    ]
+    const result = importMidi(buildMidiFile([{ notes }]))
+    expect(result.windows[0]?.pitchClasses).toEqual(['C', 'E', 'G'])
+    expect(result.chords).toEqual(['C'])
+  })
+
+  test('follows time signature changes', () => {
+    const notes = [
+      { pitch: 60, start: 0, duration: 1440 },
+      { pitch: 64, start: 0, duration: 1440 },
+      { pitch: 67, start: 0, duration: 1440 },
+      { pitch: 65, start: 1440, duration: 1920 },
+      { pitch: 69, start: 1440, duration: 1920 },
+      { pitch: 72, start: 1440, duration: 1920 },
+    ]
+    const bytes = buildMidiFile([
+      {
+        timeSignatures: [
+          [0, 3, 4],
+          [1440, 4, 4],
+        ],
+        notes,
+      },
+    ])
+    const result = importMidi(bytes)
+
+    expect(result.windows.map((window) => [window.startTick, window.endTick])).toEqual([
+      [0, 1440],
+      [1440, 3360],
+    ])
+    expect(result.chords).toEqual(['C', 'F'])
+  })
+
+  test('skips percussion and leaves silent windows unlabeled', () => {
+    const notes = [
+      ...blockChords([[48, 64, 67]]),
+      { pitch: 36, start: 1920, duration: 1920, channel: 9 },
+      { pitch: 42, start: 1920, duration: 1920, channel: 9 },
+      { pitch: 62, start: 3840, duration: 1920 },
+      { pitch: 65, start: 3840, duration: 1920 },
+      { pitch: 69, start: 3840, duration: 1920 },
+    ]
+    const result = importMidi(buildMidiFile([{ notes }]))
+
+    expect(result.windows[1]?.chord).toBeNull()
+    expect(result.windows[1]?.pitchClasses).toEqual([])
+    expect(result.chords).toEqual(['C', 'Dm'])
+  })
+
+  test('returns no analysis when nothing can be identified', () => {
+    const result = importMidi(buildMidiFile([{ notes: [{ pitch: 60, start: 0, duration: 480 }] }]))
+    expect(result.chords).toEqual([])
+    expect(result.analysis).toBeNull()
+  })
+
+  test('rejects decoded files with a zero-length bar', () => {
+    const file = parseMidi(buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }]))
+    expect(() => importMidi({ ...file, ticksPerBeat: 0 })).toThrow(/Bar length must be positive/)
+    expect(() =>
+      importMidi({ ...file, timeSignatures: [{ tick: 0, numerator: 0, denominator: 4 }] })
+    ).toThrow(MusicReasoningError)
+  })
+
+  test('rejects files that span too many windows', () => {
+    const file = parseMidi(buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }]))
+    const meter = { tick: 0, numerator: 4, denominator: 2 ** 20 }
+    expect(() => importMidi({ ...file, timeSignatures: [meter] }, { segmentBy: 'beat' })).toThrow(
+      /more than 100000 beat windows/
+    )
+  })
+
+  test('accepts an already decoded file', () => {
+    const file = parseMidi(buildMidiFile([{ notes: blockChords(POP_PROGRESSION) }]))
+    expect(importMidi(file).chords).toEqual(['C', 'Am', 'F', 'G7'])
+  })
+})
@@ -0,0 +1,403 @@
+/**
+ * Golden Test Suite: MusicXML
+ *
+ * Validates that chords are read from MusicXML `<harmony>` elements (kinds,
+ * degrees, bass notes and offsets) or identified from the notes, that
+ * progressions are written as lead-sheet scores that read back unchanged, and
+ * that existing scores are annotated with the analysis.
+ * Tests cover: importMusicXml(), exportMusicXml(), annotateMusicXml()
+ *
+ * @group golden
+ * @group musicxml
+ */
+
+import { describe, test, expect } from 'vitest'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { annotateMusicXml, exportMusicXml, importMusicXml } from '../../src/musicxml'
+
+/** A `<harmony>` element */
+function harmony(root: string, kind: string, extra = ''): string {
+  const step = root.charAt(0)
+  const alter = root.slice(1)
+  const rootAlter =
+    alter === 'b'
+      ? '<root-alter>-1</root-alter>'
+      : alter === '#'
+        ? '<root-alter>1</root-alter>'
+        : ''
+  return `<harmony><root><root-step>${step}</root-step>${rootAlter}</root><kind>${kind}</kind>${extra}</harmony>`
+}
+
+/** A `<degree>` element */
+function degree(value: number, alter: number, type: string): string {
+  return `<degree><degree-value>${value}</degree-value><degree-alter>${alter}</degree-alter><degree-type>${type}</degree-type></degree>`
+}
+
+/** A whole-bar rest in 4/4 with one division per quarter */
+const REST = '<note><rest/><duration>4</duration></note>'
+
+/** A partwise score with one part of measures */
+function score(measures: readonly string[], parts = ''): string {
+  const body = measures
+    .map((content, index) => {
+      const attributes =
+        index === 0
+          ? '<attributes><divisions>1</divisions><time><beats>4</beats><beat-type>4</beat-type></time></attributes>'
+          : ''
+      return `<measure number="${index + 1}">${attributes}${content}</measure>`
+    })
+    .join('\n')
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">
+<score-partwise version="4.0">
+<work><work-title>Changes</work-title></work>
+<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>
+<part id="P1">
+${body}
+</part>${parts}
+</score-partwise>
+`
+}
+
+/** A chord of whole notes (pitches as step + octave, e.g. "C4") */
+function wholeChord(pitches: readonly string[]): string {
+  return pitches
+    .map(
+      (pitch, index) =>
+        `<note>${index > 0 ? '<chord/>' : ''}<pitch><step>${pitch.charAt(0)}</step><octave>${pitch.slice(1)}</octave></pitch><duration>4</duration></note>`
+    )
+    .join('')
+}
+
+const II_V_I = score([
+  harmony('D', 'minor-seventh') +
+    '<note><rest/><duration>2</duration></note>' +
+    harmony('G', 'dominant') +
+    '<note><rest/><duration>2</duration></note>',
+  harmony('C', 'major-seventh') + REST,
+])
+
+describe('MusicXML - importMusicXml()', () => {
+  test('reads harmonies with their measure and beat', () => {
+    const result = importMusicXml(II_V_I)
+
+    expect(result.title).toBe('Changes')
+    expect(result.timeSignature).toEqual([4, 4])
+    expect(result.harmonies).toEqual([
+      { part: 'P1', measure: 1, beat: 1, beats: 2, chord: 'Dm7', source: 'harmony' },
+      { part: 'P1', measure: 1, beat: 3, beats: 2, chord: 'G7', source: 'harmony' },
+      { part: 'P1', measure: 2, beat: 1, beats: 4, chord: 'Cmaj7', source: 'harmony' },
+    ])
+    expect(result.progression).toEqual([
+      { chord: 'Dm7', beats: 2 },
+      { chord: 'G7', beats: 2 },
+      { chord: 'Cmaj7', beats: 4 },
+    ])
+    expect(result.analysis?.key).toBe('C major')
+    expect(result.analysis?.analysis.map((chord) => chord.roman)).toEqual(['ii7', 'V7', 'Imaj7'])
+  })
+
+  test('reads chord kinds, bass notes and degrees', () => {
+    const chords = [
+      harmony('C', 'half-diminished'),
+      harmony('Bb', 'dominant-13th', degree(11, 1, 'add')),
+      harmony('G', 'dominant', '<bass><bass-step>B</bass-step></bass>' + degree(9, -1, 'add')),
+      harmony('F#', 'diminished-seventh'),
+      harmony('D', 'suspended-fourth', degree(7, 0, 'add')),
+      harmony('C', 'major-sixth', degree(9, 0, 'add')),
+      harmony('F', 'major', degree(9, 0, 'add')),
+      harmony('E', 'minor', degree(7, 1, 'add')),
+      harmony('A', 'dominant', degree(5, 1, 'alter')),
+      harmony('Eb', 'major-seventh', degree(3, 0, 'subtract')),
+      harmony('C', 'other', '').replace('<kind>other</kind>', '<kind text="m9">other</kind>'),
+    ]
+
+    expect(
+      importMusicXml(score(chords.map((chord) => chord + REST))).progression.map(
+        (timed) => timed.chord
+      )
+    ).toEqual([
+      'Cm7b5',
+      'Bb13#11',
+      'G7b9/B',
+      'F#dim7',
+      'D7sus4',
+      'C6/9',
+      'Fadd9',
+      'EmMaj7',
+      'A7#5',
+      'Ebmaj7',
+      'Cm9',
+    ])
+  })
+
+  test('prefers kind text that spells the same kind and degrees', () => {
+    const withText = (root: string, kind: string, text: string, extra = ''): string =>
+      harmony(root, kind, extra).replace(
+        `<kind>${kind}</kind>`,
+        `<kind text="${text}">${kind}</kind>`
+      )
+    const chords = [
+      withText('G', 'dominant', '7alt'),
+      // Text that disagrees with the degrees is ignored
+      withText('C', 'dominant', '7', degree(9, -1, 'add')),
+      withText('F', 'major-seventh', 'm7'),
+    ]
+
+    expect(
+      importMusicXml(score(chords.map((chord) => chord + REST))).progression.map(
+        (timed) => timed.chord
+      )
+    ).toEqual(['G7alt', 'C7b9', 'Fmaj7'])
+  })
+
+  test('places harmonies by offset and voice position', () => {
+    const xml = score([
+      harmony('C', 'major') +
+        '<note><rest/><duration>4</duration></note>' +
+        '<backup><duration>4</duration></backup>' +
+        '<note><rest/><duration>3</duration></note>' +
+        harmony('G', 'dominant', '<offset>-1</offset>') +
+        '<note><rest/><duration>1</duration></note>',
+    ])
+
+    expect(importMusicXml(xml).harmonies.map((entry) => [entry.chord, entry.beat])).toEqual([
+      ['C', 1],
+      ['G7', 3],
+    ])
+  })
+
+  test('adds "no chord" time to the chord before it', () => {
+    const xml = score([
+      harmony('C', 'none') + REST,
+      harmony('F', 'major') + REST,
+      harmony('C', 'none') + REST,
+      harmony('F', 'major') + REST,
+      harmony('G', 'dominant') + REST,
+    ])
+    const result = importMusicXml(xml)
+
+    expect(result.harmonies[0]?.chord).toBeNull()
+    expect(result.progression).toEqual([
+      { chord: 'F', beats: 12 },
+      { chord: 'G7', beats: 4 },
+    ])
+  })
+
+  test('identifies chords from the notes when the score has no harmonies', () => {
+    const xml = score([
+      wholeChord(['C3', 'E4', 'G4']),
+      wholeChord(['F3', 'A4', 'C5']),
+      wholeChord(['G3', 'B4', 'D5', 'F5']),
+      wholeChord(['C3', 'E4', 'G4']),
+    ])
+    const result = importMusicXml(xml)
+
+    expect(result.harmonies.every((entry) => entry.source === 'notes')).toBe(true)
+    expect(result.progression.map((timed) => timed.chord)).toEqual(['C', 'F', 'G7', 'C'])
+    expect(result.analysis?.cadences[0]).toMatchObject({ type: 'authentic' })
+  })
+
+  test('reads notes across parts and voices', () => {
+    const bass = `
+<part id="P2"><measure number="1"><attributes><divisions>2</divisions></attributes><note><pitch><step>A</step><octave>2</octave></pitch><duration>8</duration></note></measure></part>`
+    const xml = score(
+      [
+        '<note><pitch><step>C</step><octave>4</octave></pitch><duration>2</duration></note>' +
+          '<note><pitch><step>E</step><octave>4</octave></pitch><duration>2</duration></note>' +
+          '<backup><duration>4</duration></backup>' +
+          '<note><grace/><pitch><step>F</step><octave>4</octave></pitch></note>' +
+          '<note><pitch><step>E</step><octave>3</octave></pitch><duration>4</duration></note>',
+      ],
+      bass
+    ).replace(
+      '<part-list>',
+      '<part-list><score-part id="P2"><part-name>Bass</part-name></score-part>'
+    )
+
+    expect(importMusicXml(xml, { source: 'notes' }).progression).toEqual([
+      { chord: 'Am', beats: 4 },
+    ])
+    expect(importMusicXml(xml, { source: 'notes', part: 'P1' }).progression).toEqual([
+      { chord: 'C', beats: 4 },
+    ])
+  })
+
+  test('reads compound meters in their own beat unit', () => {
+    const xml = score([
+      harmony('C', 'major') +
+        '<note><rest/><duration>3</duration></note>' +
+        harmony('G', 'major') +
+        '<note><rest/><duration>3</duration></note>',
+    ])
+      .replace(
+        '<beats>4</beats><beat-type>4</beat-type>',
+        '<beats>6</beats><beat-type>8</beat-type>'
+      )
+      .replace('<divisions>1</divisions>', '<divisions>2</divisions>')
+    const result = importMusicXml(xml)
+
+    expect(result.timeSignature).toEqual([6, 8])
+    expect(result.harmonies.map((entry) => [entry.beat, entry.beats])).toEqual([
+      [1, 3],
+      [4, 3],
+    ])
+  })
+
+  test('throws for malformed and unsupported scores', () => {
+    expect(() => importMusicXml('<score-partwise><part></score-partwise>')).toThrow(
+      MusicReasoningError
+    )
+    expect(() => importMusicXml('<score-partwise>')).toThrow(/never closed/)
+    expect(() => importMusicXml('<score-timewise/>')).toThrow(/timewise/)
+    expect(() => importMusicXml(II_V_I, { part: 'P9' })).toThrow(/not in the score/)
+    expect(() => importMusicXml(II_V_I, { minDuration: 2 })).toThrow(MusicReasoningError)
+  })
+
+  test('throws for non-numeric durations and offsets', () => {
+    const badOffset = II_V_I.replace('</kind>', '</kind><offset>abc</offset>')
+    expect(() => importMusicXml(badOffset)).toThrow(/<offset> is not a number/)
+
+    const badDuration = II_V_I.replace('<duration>2</duration>', '<duration>two</duration>')
+    expect(() => importMusicXml(badDuration)).toThrow(/<duration> is not a number/)
+
+    const badDivisions = II_V_I.replace('<divisions>1</divisions>', '<divisions>0</divisions>')
+    expect(() => importMusicXml(badDivisions)).toThrow(/<divisions> must be positive/)
+  })
+
+  test('throws for out-of-range character references', () => {
+    const text = II_V_I.replace('Changes', 'Changes &#x110000;')
+    expect(() => importMusicXml(text)).toThrow(MusicReasoningError)
+    expect(() => importMusicXml(text)).toThrow(/out of range/)
+  })
+})
+
+describe('MusicXML - exportMusicXml()', () => {
+  test('writes a lead sheet that reads back as the same progression', () => {
+    const progression = [
+      { chord: 'Dm7', beats: 2 },
+      { chord: 'G7b9/B', beats: 2 },
+      { chord: 'Cmaj7', beats: 6 },
+      { chord: 'C6/9', beats: 2 },
+      { chord: 'G7sus4', beats: 4 },
+      { chord: 'Bb13#11', beats: 4 },
+      { chord: 'Fadd9', beats: 4 },
+    ]
+    const xml = exportMusicXml(progression, { title: 'Tunes & Changes', key: 'C major' })
+    const result = importMusicXml(xml)
+
+    expect(result.title).toBe('Tunes & Changes')
+    expect(result.progression).toEqual(progression)
+    expect(result.harmonies.map((entry) => [entry.measure, entry.beat])).toEqual([
+      [1, 1],
+      [1, 3],
+      [2, 1],
+      [3, 3],
+      [4, 1],
+      [5, 1],
+      [6, 1],
+    ])
+  })
+
+  test('writes altered dominants with their degrees', () => {
+    const xml = exportMusicXml(['C7alt', 'F'])
+
+    expect(xml).toContain('<kind text="7alt">dominant</kind>')
+    expect(xml.match(/<degree>/g)).toHaveLength(4)
+    expect(importMusicXml(xml).progression.map((timed) => timed.chord)).toEqual(['C7alt', 'F'])
+  })
+
+  test('writes harmony elements, key signature and annotations', () => {
+    const xml = exportMusicXml(['Am', 'Dm', 'E7', 'Am'], { key: 'A minor' })
+
+    expect(xml).toMatch(
+      /^<\?xml version="1.0" encoding="UTF-8" standalone="no"\?>\n<!DOCTYPE score-partwise/
+    )
+    expect(xml).toContain('<fifths>0</fifths>')
+    expect(xml).toContain('<mode>minor</mode>')
+    expect(xml).toContain('<kind text="7">dominant</kind>')
+    expect(xml).toContain('<words>V7</words>')
+    expect(xml.match(/<measure /g)).toHaveLength(4)
+    expect(xml).toContain('<rest/>\n        <duration>1920</duration>\n        <type>whole</type>')
+  })
+
+  test('writes function annotations, both, or none', () => {
+    const chords = ['C', 'F', 'G7', 'C']
+
+    expect(exportMusicXml(chords, { annotations: 'function' })).toContain('<words>dominant</words>')
+    expect(exportMusicXml(chords, { annotations: 'both' })).toContain(
+      '<words>V7 (dominant)</words>'
+    )
+    expect(exportMusicXml(chords, { annotations: 'none' })).not.toContain('<direction')
+  })
+
+  test('splits chords across bar lines in other meters', () => {
+    const xml = exportMusicXml(
+      [
+        { chord: 'Eb', beats: 4 },
+        { chord: 'Bb7', beats: 2 },
+      ],
+      { timeSignature: [3, 4] }
+    )
+
+    expect(xml).toContain('<fifths>-3</fifths>')
+    expect(xml).toContain('<beats>3</beats>')
+    expect(importMusicXml(xml).harmonies.map((entry) => [entry.measure, entry.beat])).toEqual([
+      [1, 1],
+      [2, 2],
+    ])
+  })
+})
+
+describe('MusicXML - annotateMusicXml()', () => {
+  test('adds a Roman numeral below each harmony and keeps the rest', () => {
+    const annotated = annotateMusicXml(II_V_I)
+    const words = (text: string): string =>
+      `<direction placement="below"><direction-type><words>${text}</words></direction-type></direction>`
+
+    expect(annotated).toBe(
+      II_V_I.replace('</kind></harmony>', `</kind></harmony>${words('ii7')}`)
+        .replace('dominant</kind></harmony>', `dominant</kind></harmony>${words('V7')}`)
+        .replace(
+          'major-seventh</kind></harmony>',
+          `major-seventh</kind></harmony>${words('Imaj7')}`
+        )
+    )
+  })
+
+  test('writes chords identified from the notes as harmonies', () => {
+    const xml = score([wholeChord(['D3', 'F4', 'A4', 'C5']), wholeChord(['G3', 'B4', 'D5', 'F5'])])
+    const annotated = annotateMusicXml(xml, { key: 'C major', annotations: 'both' })
+
+    expect(importMusicXml(annotated, { source: 'harmony' }).progression).toEqual([
+      { chord: 'Dm7', beats: 4 },
+      { chord: 'G7', beats: 4 },
+    ])
+    expect(annotated).toContain('<words>ii7 (subdominant)</words>')
+    expect(annotated).toContain('<words>V7 (dominant)</words>')
+  })
+
+  test('keeps comments, entities and indentation', () => {
+    const xml = `<?xml version="1.0"?>
+<!-- exported -->
+<score-partwise>
+  <movement-title>Rock &amp; Roll</movement-title>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>1</divisions></attributes>
+      ${harmony('E', 'dominant')}
+      <note><rest/><duration>4</duration></note>
+    </measure>
+  </part>
+</score-partwise>
+`
+    const annotated = annotateMusicXml(xml, { key: 'A major' })
+
+    expect(annotated).toContain('<!-- exported -->')
+    expect(annotated).toContain('Rock &amp; Roll')
+    expect(annotated).toContain(
+      `</harmony>\n      <direction placement="below"><direction-type><words>V7</words></direction-type></direction>\n      <note>`
+    )
+    expect(annotateMusicXml(score([REST]))).toBe(score([REST]))
+  })
+})
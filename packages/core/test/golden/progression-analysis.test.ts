@@ -3,12 +3,14 @@
  *
  * Comprehensive tests for chord progression analysis including:
  * - Key detection (major and minor keys)
+ * - Ranked key candidates and key override
  * - Roman numeral analysis
  * - Cadence identification (authentic, plagal, deceptive, half)
  * - Secondary dominants (V/vi, V/ii, etc.)
  * - Borrowed chords (modal mixture)
  * - Loopable progressions
  * - General patterns (I-IV-V-I, ii-V-I, etc.)
+ * - Modulations (key regions and pivot chords)
  *
  * Target: 40+ tests
  * Performance requirement: <100ms p95 for progression analysis
@@ -18,7 +20,7 @@
  */
 
 import { describe, test, expect } from 'vitest'
-import { analyzeProgression } from '../../src/progression'
+import { analyzeProgression, detectKey, detectKeyCandidates } from '../../src/progression'
 
 // =============================================================================
 // Key Detection - Major Keys (6 tests)
@@ -160,6 +162,74 @@ describe('Progression Analysis - Key Detection (Minor Keys)', () => {
   })
 })
 
+// =============================================================================
+// Key Candidates and Key Override (6 tests)
+// =============================================================================
+
+describe('Progression Analysis - Key Candidates and Key Override', () => {
+  test('ranks relative major behind minor for i-VI-III-VII', () => {
+    const candidates = detectKeyCandidates(['Am', 'F', 'C', 'G'])
+
+    expect(candidates).toHaveLength(5)
+    expect(candidates.map((c) => c.key).slice(0, 2)).toEqual(['A minor', 'C major'])
+    expect(candidates[1]).toMatchObject({ confidence: 1.0, diatonicCount: 4, totalChords: 4 })
+    // Scores are ranked best first
+    for (let i = 1; i < candidates.length; i++) {
+      expect(candidates[i - 1]!.score).toBeGreaterThanOrEqual(candidates[i]!.score)
+    }
+  })
+
+  test('lists non-diatonic chords per candidate', () => {
+    const candidates = detectKeyCandidates(['C', 'F', 'G', 'Bb'], { limit: 2 })
+
+    expect(candidates.map((c) => [c.key, c.confidence, c.nonDiatonicChords])).toEqual([
+      ['C major', 0.75, ['Bb']],
+      ['F major', 0.75, ['G']],
+    ])
+  })
+
+  test('first candidate matches detectKey', () => {
+    const progressions = [
+      ['C', 'F', 'G', 'C'],
+      ['Am', 'Dm', 'E7', 'Am'],
+      ['Dm7', 'G7', 'Cmaj7'],
+    ]
+
+    for (const chords of progressions) {
+      expect(detectKeyCandidates(chords, { limit: 1 })[0]?.key).toBe(detectKey(chords).key)
+    }
+  })
+
+  test('rejects empty progressions and invalid limits', () => {
+    expect(() => detectKeyCandidates([])).toThrow(/empty/)
+    expect(() => detectKeyCandidates(['C'], { limit: 0 })).toThrow(/limit/)
+  })
+
+  test('key override skips detection', () => {
+    const result = analyzeProgression(['Am', 'F', 'C', 'G'], { key: 'C major' })
+
+    expect(result.key).toBe('C major')
+    expect(result.confidence).toBe(1.0)
+    expect(result.analysis.map((a) => a.roman)).toEqual(['vi', 'IV', 'I', 'V'])
+    expect(result.keyRegions[0]?.key).toBe('C major')
+  })
+
+  test('key override accepts a bare tonic and rejects invalid keys', () => {
+    const result = analyzeProgression(['C', 'F', 'G'], { key: 'Bb' })
+
+    expect(result.key).toBe('Bb major')
+    expect(result.confidence).toBeCloseTo(1 / 3)
+    expect(() => analyzeProgression(['C'], { key: 'H dorian' })).toThrow(/Invalid key/)
+  })
+
+  test('key override accepts chart-style minor keys', () => {
+    const result = analyzeProgression(['C#m', 'A', 'E', 'B'], { key: 'C#m' })
+
+    expect(result.key).toBe('C# minor')
+    expect(result.analysis.map((a) => a.roman)).toEqual(['i', 'VI', 'III', 'VII'])
+  })
+})
+
 // =============================================================================
 // Roman Numeral Analysis (8 tests)
 // =============================================================================
@@ -243,6 +313,78 @@ describe('Progression Analysis - Roman Numeral Analysis', () => {
   })
 })
 
+// =============================================================================
+// Figured Bass and Inversions (8 tests)
+// =============================================================================
+
+describe('Progression Analysis - Figured Bass and Inversions', () => {
+  test('renders triad inversions as 6 and 6/4', () => {
+    const result = analyzeProgression(['C', 'F/C', 'C', 'G', 'C/E'])
+
+    expect(result.analysis.map((a) => a.roman)).toEqual(['I', 'IV6/4', 'I', 'V', 'I6'])
+  })
+
+  test('distinguishes added sixths from first-inversion triads', () => {
+    const result = analyzeProgression(['C6', 'C/E', 'F', 'G7', 'C'])
+    expect(result.analysis[0].roman).toBe('Iadd6')
+    expect(result.analysis[1].roman).toBe('I6')
+
+    const minor = analyzeProgression(['Cm', 'Fm6', 'Fm/Ab', 'G7', 'Cm'])
+    expect(minor.analysis[1].roman).toBe('ivadd6')
+    expect(minor.analysis[2].roman).toBe('iv6')
+
+    const sixths = analyzeProgression(['C6', 'Am', 'F6', 'G'])
+    expect(sixths.patterns.map((p) => p.name)).toEqual(
+      analyzeProgression(['C', 'Am', 'F', 'G']).patterns.map((p) => p.name)
+    )
+  })
+
+  test('renders seventh-chord inversions as 6/5, 4/3 and 4/2', () => {
+    const result = analyzeProgression(['C', 'G7/B', 'C', 'G7/D', 'C/E', 'G7/F', 'C/E'])
+
+    expect(result.key).toBe('C major')
+    expect(result.analysis[1].roman).toBe('V6/5')
+    expect(result.analysis[3].roman).toBe('V4/3')
+    expect(result.analysis[5].roman).toBe('V4/2')
+  })
+
+  test('renders ii6/5 and diminished seventh inversions', () => {
+    const result = analyzeProgression(['C', 'Dm7/F', 'G7', 'C'])
+    expect(result.analysis[1].roman).toBe('ii6/5')
+
+    const minor = analyzeProgression(['Am', 'G#dim7/F', 'Am', 'E7', 'Am'])
+    expect(minor.key).toBe('A minor')
+    expect(minor.analysis[1].roman).toBe('vii°4/2')
+  })
+
+  test('carries bass note and inversion on each chord', () => {
+    const result = analyzeProgression(['C', 'G7/B', 'C'])
+
+    expect(result.analysis[0]).toMatchObject({ bass: 'C', inversion: 0 })
+    expect(result.analysis[1]).toMatchObject({ bass: 'B', inversion: 1 })
+  })
+
+  test('non-chord-tone bass has no figures', () => {
+    const result = analyzeProgression(['C', 'F', 'C/D', 'G', 'C'])
+
+    expect(result.analysis[2]).toMatchObject({ roman: 'I', bass: 'D', inversion: null })
+  })
+
+  test('adds figures to secondary dominants', () => {
+    const result = analyzeProgression(['C', 'Am', 'D7/F#', 'G', 'C'])
+
+    const secondary = result.secondaryDominants.find((s) => s.chord === 'D7/F#')
+    expect(secondary?.romanNotation).toBe('V6/5/V')
+  })
+
+  test('inversions do not change pattern detection', () => {
+    const rootPosition = analyzeProgression(['Dm7', 'G7', 'C'])
+    const inverted = analyzeProgression(['Dm7/F', 'G7/B', 'C'])
+
+    expect(inverted.patterns.map((p) => p.name)).toEqual(rootPosition.patterns.map((p) => p.name))
+  })
+})
+
 // =============================================================================
 // Authentic Cadences (3 tests)
 // =============================================================================
@@ -511,6 +653,83 @@ describe('Progression Analysis - General Patterns', () => {
   })
 })
 
+// =============================================================================
+// Modulation and Key Regions (5 tests)
+// =============================================================================
+
+describe('Progression Analysis - Modulation and Key Regions', () => {
+  test('non-modulating progression has a single key region', () => {
+    const result = analyzeProgression(['C', 'Am', 'F', 'G'])
+
+    expect(result.keyRegions).toHaveLength(1)
+    expect(result.keyRegions[0]).toMatchObject({ start: 0, end: 3, key: 'C major' })
+    expect(result.keyRegions[0]?.pivot).toBeUndefined()
+    expect(result.keyRegions[0]?.analysis.map((a) => a.roman)).toEqual(['I', 'vi', 'IV', 'V'])
+  })
+
+  test('detects direct modulation up a whole step', () => {
+    const result = analyzeProgression(['C', 'F', 'G', 'C', 'D', 'G', 'A', 'D'])
+
+    expect(result.keyRegions.map((r) => [r.start, r.end, r.key])).toEqual([
+      [0, 3, 'C major'],
+      [4, 7, 'D major'],
+    ])
+    // No chord at the boundary belongs to both keys
+    expect(result.keyRegions[1]?.pivot).toBeUndefined()
+    expect(result.keyRegions[1]?.analysis.map((a) => a.roman)).toEqual(['I', 'IV', 'V', 'I'])
+  })
+
+  test('detects pivot chord modulation to the dominant', () => {
+    const result = analyzeProgression(['C', 'F', 'G', 'C', 'Am', 'D7', 'G', 'Em', 'C', 'D', 'G'])
+
+    expect(result.keyRegions.map((r) => [r.start, r.end, r.key])).toEqual([
+      [0, 4, 'C major'],
+      [4, 10, 'G major'],
+    ])
+    expect(result.keyRegions[1]?.pivot).toEqual({
+      index: 4,
+      chord: 'Am',
+      fromKey: 'C major',
+      toKey: 'G major',
+      fromRoman: 'vi',
+      toRoman: 'ii',
+    })
+    // D7 is V7 in the local key, not II7 in C
+    expect(result.keyRegions[1]?.analysis[1]).toMatchObject({ chord: 'D7', roman: 'V7' })
+  })
+
+  test('single secondary dominant is a tonicization, not a modulation', () => {
+    const result = analyzeProgression(['C', 'D7', 'G', 'C'])
+
+    expect(result.keyRegions).toHaveLength(1)
+    expect(result.keyRegions[0]?.key).toBe('C major')
+    expect(result.secondaryDominants).toHaveLength(1)
+  })
+
+  test('modulation to a distant key without a pivot', () => {
+    const result = analyzeProgression([
+      'C',
+      'F',
+      'G',
+      'C',
+      'Dm',
+      'G7',
+      'C',
+      'C#m',
+      'F#m',
+      'B7',
+      'E',
+      'A',
+      'B7',
+      'E',
+    ])
+
+    expect(result.keyRegions.map((r) => r.key)).toEqual(['C major', 'E major'])
+    expect(result.keyRegions[1]?.start).toBe(7)
+    expect(result.keyRegions[1]?.confidence).toBe(1.0)
+  })
+})
+
 // =============================================================================
 // Edge Cases (2 tests)
 // =============================================================================
@@ -0,0 +1,176 @@
+/**
+ * Golden Test Suite: Progression Generation
+ *
+ * Validates that progressions composed from genre patterns have the requested
+ * length, realize their Roman numerals in the key, close with a cadence and
+ * are reproducible from their seed.
+ * Tests cover: generateProgression()
+ *
+ * @group golden
+ * @group genre
+ */
+
+import { describe, test, expect } from 'vitest'
+import type { GenerateProgressionOptions } from '@music-reasoning/types'
+import { MusicReasoningError } from '@music-reasoning/types'
+import { generateProgression, GENRE_PATTERNS } from '../../src/genre'
+
+const SEEDS = Array.from({ length: 20 }, (_, seed) => seed)
+
+/** Maps each Roman numeral to the chord it was realized as, across seeds */
+function collectRealizations(
+  options: Omit<GenerateProgressionOptions, 'seed'>
+): Map<string, string> {
+  const realizations = new Map<string, string>()
+  for (const seed of SEEDS) {
+    const { chords, romanNumerals } = generateProgression({ ...options, seed })
+    romanNumerals.forEach((roman, index) => realizations.set(roman, chords[index] ?? ''))
+  }
+  return realizations
+}
+
+describe('Progression generation - generateProgression()', () => {
+  test('generates the requested number of chords in the key', () => {
+    const progression = generateProgression({ key: 'Bb', genre: 'jazz', length: 8, seed: 1 })
+
+    expect(progression.key).toBe('Bb major')
+    expect(progression.genre).toBe('jazz')
+    expect(progression.chords).toHaveLength(8)
+    expect(progression.romanNumerals).toHaveLength(8)
+  })
+
+  test('is reproducible from its seed', () => {
+    const options = { key: 'C', genre: 'pop', length: 12 } as const
+    const first = generateProgression({ ...options, seed: 2024 })
+    const second = generateProgression({ ...options, seed: 2024 })
+
+    expect(second).toEqual(first)
+    const outlines = new Set(
+      SEEDS.map((seed) => generateProgression({ ...options, seed }).chords.join(' '))
+    )
+    expect(outlines.size).toBeGreaterThan(1)
+  })
+
+  test('returns a random seed that reproduces the progression', () => {
+    const progression = generateProgression({ key: 'G', genre: 'rock' })
+
+    expect(Number.isInteger(progression.seed)).toBe(true)
+    expect(generateProgression({ key: 'G', genre: 'rock', seed: progression.seed })).toEqual(
+      progression
+    )
+  })
+
+  test('composes the progression from the genre patterns', () => {
+    const patterns = new Set(
+      GENRE_PATTERNS.filter((pattern) => pattern.genre === 'blues').map(
+        (pattern) => pattern.pattern
+      )
+    )
+
+    for (const seed of SEEDS) {
+      const progression = generateProgression({ key: 'E', genre: 'blues', length: 12, seed })
+      let start = 0
+      for (const fragment of progression.fragments) {
+        expect(fragment.start).toBe(start)
+        expect(
+          patterns.has(fragment.pattern) || ['I', 'V-I', 'V7-I'].includes(fragment.pattern)
+        ).toBe(true)
+        start += fragment.length
+      }
+      expect(start).toBe(12)
+    }
+  })
+
+  test('ends with a cadence to the tonic by default', () => {
+    for (const genre of ['jazz', 'pop', 'classical', 'rock', 'edm', 'blues'] as const) {
+      for (const seed of SEEDS.slice(0, 5)) {
+        const progression = generateProgression({ key: 'D', genre, seed })
+        expect(progression.chords.at(-1)).toMatch(/^D(?:maj7|7)?$/)
+        expect(['authentic', 'plagal']).toContain(progression.cadence?.type)
+      }
+    }
+  })
+
+  test('uses whole patterns when no cadence is required', () => {
+    const progression = generateProgression({
+      key: 'C',
+      genre: 'pop',
+      length: 6,
+      endOnCadence: false,
+      seed: 3,
+    })
+
+    expect(progression.chords).toHaveLength(6)
+    for (const fragment of progression.fragments) {
+      expect(fragment.length).toBe(fragment.pattern.split('-').length)
+    }
+  })
+
+  test('realizes chromatic numerals from the major scale', () => {
+    const realizations = collectRealizations({ key: 'C', genre: 'rock', length: 8 })
+
+    expect(realizations.get('I')).toBe('C')
+    expect(realizations.get('IV')).toBe('F')
+    expect(realizations.get('bVII')).toBe('Bb')
+    expect(realizations.get('bVI')).toBe('Ab')
+  })
+
+  test('realizes sevenths and flat keys', () => {
+    const realizations = collectRealizations({ key: 'Bb major', genre: 'jazz', length: 8 })
+
+    expect(realizations.get('ii')).toBe('Cm')
+    expect(realizations.get('V')).toBe('F')
+    expect(realizations.get('Imaj7')).toBe('Bbmaj7')
+    expect(realizations.get('bVII7')).toBe('Ab7')
+  })
+
+  test('moves major-key patterns to the parallel minor', () => {
+    const realizations = collectRealizations({ key: 'A minor', genre: 'classical', length: 8 })
+
+    expect(realizations.get('i')).toBe('Am')
+    expect(realizations.get('iv')).toBe('Dm')
+    expect(realizations.get('V')).toBe('E')
+    expect(realizations.has('I')).toBe(false)
+  })
+
+  test('uses minor-tonic patterns in minor keys', () => {
+    const progression = generateProgression({ key: 'E minor', genre: 'rock', length: 8, seed: 5 })
+
+    expect(progression.key).toBe('E minor')
+    expect(progression.romanNumerals[0]).toBe('i')
+    expect(progression.chords[0]).toBe('Em')
+    expect(progression.chords.at(-1)).toBe('Em')
+  })
+
+  test('generates a single chord without a cadence', () => {
+    const progression = generateProgression({ key: 'F', genre: 'pop', length: 1, seed: 1 })
+
+    expect(progression.chords).toHaveLength(1)
+    expect(progression.fragments).toEqual([
+      { pattern: expect.any(String) as string, start: 0, length: 1 },
+    ])
+    expect(progression.cadence).toBeNull()
+  })
+
+  test('accepts chart-style minor keys', () => {
+    expect(generateProgression({ key: 'C#m', genre: 'pop', seed: 3 })).toEqual(
+      generateProgression({ key: 'C# minor', genre: 'pop', seed: 3 })
+    )
+  })
+
+  test('throws for invalid options', () => {
+    expect(() => generateProgression({ key: 'H', genre: 'pop' })).toThrow(/Invalid key/)
+    expect(() => generateProgression({ key: 'C', genre: 'unknown' as 'pop' })).toThrow(
+      /Unknown genre/
+    )
+    expect(() => generateProgression({ key: 'C', genre: 'pop', length: 0 })).toThrow(
+      MusicReasoningError
+    )
+    expect(() => generateProgression({ key: 'C', genre: 'pop', length: 65 })).toThrow(
+      MusicReasoningError
+    )
+    expect(() => generateProgression({ key: 'C', genre: 'pop', seed: 1.5 })).toThrow(
+      /Seed must be an integer/
+    )
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Golden Test Suite: Timed Progressions
+ *
+ * Validates that progressions with chord durations and a meter are placed in
+ * bars and beats, that longer chords weigh more in key detection, that
+ * cadences follow metrical position and phrase ends, and that loops must
+ * fill whole bars.
+ * Tests cover: analyzeProgression() with timed chords, detectKey() with durations
+ *
+ * @group golden
+ * @group progression
+ */
+
+import { describe, test, expect } from 'vitest'
+import type { TimedChord } from '@music-reasoning/types'
+import { analyzeProgression, detectKey, detectKeyCandidates } from '../../src/progression'
+
+/** Builds timed chords from "chord:beats" tokens */
+function timed(tokens: string): TimedChord[] {
+  return tokens.split(' ').map((token) => {
+    const [chord = '', beats = '4'] = token.split(':')
+    return { chord, beats: Number(beats) }
+  })
+}
+
+describe('Timed progressions - analyzeProgression()', () => {
+  test('places chords in bars and beats', () => {
+    const result = analyzeProgression(timed('C:6 F:3 G7:3 C:3'), { timeSignature: [3, 4] })
+
+    expect(result.analysis.map((chord) => [chord.bar, chord.beat, chord.beats])).toEqual([
+      [1, 1, 6],
+      [3, 1, 3],
+      [4, 1, 3],
+      [5, 1, 3],
+    ])
+    expect(result.analysis[2]?.roman).toBe('V7')
+  })
+
+  test('places chords on fractional beats', () => {
+    const result = analyzeProgression(timed('C:3.5 G:0.5 C:4'))
+
+    expect(result.analysis[1]).toMatchObject({ bar: 1, beat: 4.5, beats: 0.5 })
+  })
+
+  test('rounds triplet beat positions', () => {
+    const result = analyzeProgression([
+      { chord: 'C', beats: 1 / 3 },
+      { chord: 'F', beats: 1 / 3 },
+      { chord: 'G', beats: 1 / 3 },
+      { chord: 'C', beats: 3 },
+    ])
+
+    expect(result.analysis.map((chord) => chord.beat)).toEqual([1, 1.333333, 1.666667, 2])
+  })
+
+  test('matches plain analysis when all chords are equally long', () => {
+    const chords = ['Am', 'F', 'C', 'G']
+    const plain = analyzeProgression(chords)
+    const result = analyzeProgression(chords.map((chord) => ({ chord, beats: 4 })))
+
+    expect(result.key).toBe(plain.key)
+    expect(result.confidence).toBe(plain.confidence)
+    expect(plain.analysis[0]?.bar).toBeUndefined()
+    expect(plain.cadences[0]?.bar).toBeUndefined()
+  })
+
+  test('weights key detection by duration', () => {
+    expect(analyzeProgression(timed('C:1 G:1 D:1 G:1')).key).toBe('G major')
+    expect(analyzeProgression(timed('C:8 G:2 D:1 G:2')).key).toBe('C major')
+  })
+
+  test('weights confidence by duration', () => {
+    const result = analyzeProgression(timed('C:8 F:1 G:4 Bb:1 F:1'), { key: 'C major' })
+
+    expect(result.confidence).toBeCloseTo(14 / 15)
+  })
+
+  test('ignores cadential motion that arrives on a weak beat', () => {
+    const result = analyzeProgression(timed('C:4 F:2 G:1 C:1 F:4 G:4'))
+
+    expect(result.cadences).toEqual([
+      { type: 'half', chords: ['F', 'G'], strength: 'weak', bar: 4, beat: 1, phraseEnd: true },
+    ])
+  })
+
+  test('counts the middle of a 4/4 bar as a strong beat', () => {
+    const onBeatThree = analyzeProgression(timed('C:4 G:2 C:2 F:4 C:4'))
+    const onBeatTwo = analyzeProgression(timed('C:4 G:1 C:3 F:4 C:4'))
+
+    expect(onBeatThree.cadences[0]).toMatchObject({ type: 'authentic', bar: 2, beat: 3 })
+    expect(onBeatTwo.cadences.map((cadence) => cadence.type)).toEqual(['plagal'])
+  })
+
+  test('needs a phrase end for half cadences', () => {
+    const result = analyzeProgression(timed('C:4 G:4 Am:4 F:4 C:4 G:4 C:8'))
+
+    // G in bar 2 is mid-phrase; C in bar 7 is held to the end
+    expect(result.cadences.some((cadence) => cadence.type === 'half')).toBe(false)
+    expect(result.cadences.at(-1)).toMatchObject({ type: 'authentic', bar: 7, phraseEnd: true })
+  })
+
+  test('makes authentic cadences strong only at phrase ends', () => {
+    const result = analyzeProgression(timed('G:4 C:4 F:4 G:2 G7:2 C:4'))
+
+    expect(result.cadences[0]).toMatchObject({
+      type: 'authentic',
+      chords: ['G', 'C'],
+      strength: 'weak',
+      bar: 2,
+      phraseEnd: false,
+    })
+    expect(result.cadences.at(-1)).toMatchObject({
+      type: 'authentic',
+      chords: ['G7', 'C'],
+      strength: 'strong',
+      bar: 5,
+      phraseEnd: true,
+    })
+  })
+
+  test('loops only when the progression fills whole bars', () => {
+    expect(analyzeProgression(timed('C:4 F:4 G:4 C:4')).loopable).toBe(true)
+    expect(analyzeProgression(timed('C:4 F:4 G:4 C:2')).loopable).toBe(false)
+    expect(analyzeProgression(timed('C:3 F:3 G:3 C:3'), { timeSignature: [3, 4] }).loopable).toBe(
+      true
+    )
+  })
+
+  test('throws for invalid durations and time signatures', () => {
+    expect(() => analyzeProgression(timed('C:4 G:0'))).toThrow(/Invalid duration/)
+    expect(() => analyzeProgression([{ chord: 'C', beats: Number.NaN }])).toThrow(
+      /Invalid duration/
+    )
+    expect(() => analyzeProgression(timed('C:4'), { timeSignature: [0, 4] })).toThrow(
+      /Invalid time signature/
+    )
+    expect(() => analyzeProgression(timed('H:4'))).toThrow(/Invalid chord/)
+  })
+})
+
+describe('Timed progressions - detectKey() durations', () => {
+  test('scores longer chords higher', () => {
+    expect(detectKey(['C', 'G', 'D', 'G']).key).toBe('G major')
+    expect(detectKey(['C', 'G', 'D', 'G'], { durations: [8, 2, 1, 2] }).key).toBe('C major')
+  })
+
+  test('ranks candidates with the same weighting', () => {
+    const [best] = detectKeyCandidates(['C', 'G', 'D', 'G'], { durations: [8, 2, 1, 2], limit: 1 })
+
+    expect(best?.key).toBe('C major')
+    expect(best?.confidence).toBeCloseTo(12 / 13)
+  })
+
+  test('throws when durations do not match the chords', () => {
+    expect(() => detectKey(['C', 'G'], { durations: [4] })).toThrow(/Expected 2 chord durations/)
+    expect(() => detectKey(['C', 'G'], { durations: [4, -1] })).toThrow(/Invalid chord duration/)
+  })
+})
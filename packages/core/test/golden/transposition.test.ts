@@ -0,0 +1,142 @@
+/**
+ * Golden Test Suite: Transposition
+ *
+ * Validates that chords, scales and progressions move to the target key with
+ * key-signature spelling, and that slash basses, extensions and notation
+ * style survive transposition.
+ * Tests cover: transposeChord(), transposeScale(), transposeProgression()
+ *
+ * @group golden
+ * @group transposition
+ */
+
+import { describe, test, expect } from 'vitest'
+import { transposeChord, transposeScale, transposeProgression } from '../../src/transpose'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+describe('Transposition - transposeChord()', () => {
+  test('moves the root by semitones or interval names', () => {
+    expect(transposeChord('C', 2)).toBe('D')
+    expect(transposeChord('C', 'M2')).toBe('D')
+    expect(transposeChord('G7', -2)).toBe('F7')
+    expect(transposeChord('G7', '-M2')).toBe('F7')
+    expect(transposeChord('C', 12)).toBe('C')
+  })
+
+  test('spells roots from the key signatures', () => {
+    expect(transposeChord('C7', 1)).toBe('Db7')
+    expect(transposeChord('Am7', 1)).toBe('Bbm7')
+    expect(transposeChord('E', 1)).toBe('F')
+    expect(transposeChord('Bbm', 3)).toBe('C#m')
+    expect(transposeChord('A', '1A')).toBe('Bb')
+  })
+
+  test('uses the interval spelling when two keys tie', () => {
+    expect(transposeChord('C', 6)).toBe('Gb')
+    expect(transposeChord('C', '4A')).toBe('F#')
+    expect(transposeChord('Cm', '4A')).toBe('F#m')
+  })
+
+  test('preserves extensions, alterations and notation style', () => {
+    expect(transposeChord('Cmaj9#11', 2)).toBe('Dmaj9#11')
+    expect(transposeChord('C-7', 2)).toBe('D-7')
+    expect(transposeChord('CΔ7', 5)).toBe('FΔ7')
+    expect(transposeChord('G7(b9, #11)', 3)).toBe('Bb7(b9, #11)')
+    expect(transposeChord('C6/9', 7)).toBe('G6/9')
+  })
+
+  test('moves slash basses with the chord', () => {
+    expect(transposeChord('C/E', 2)).toBe('D/F#')
+    expect(transposeChord('G7/F', -2)).toBe('F7/Eb')
+    expect(transposeChord('Am/G', 1)).toBe('Bbm/Ab')
+  })
+
+  test('throws for invalid symbols and intervals', () => {
+    expect(() => transposeChord('H7', 2)).toThrow(MusicReasoningError)
+    expect(() => transposeChord('C', 1.5)).toThrow(MusicReasoningError)
+    expect(() => transposeChord('C', 'second')).toThrow(/Invalid interval/)
+  })
+})
+
+describe('Transposition - transposeScale()', () => {
+  test('returns the scale on the transposed root', () => {
+    const scale = transposeScale('C', 'major', 2)
+    expect(scale.root).toBe('D')
+    expect(scale.notes).toEqual(['D', 'E', 'F#', 'G', 'A', 'B', 'C#'])
+  })
+
+  test('spells the root from the key signatures', () => {
+    expect(transposeScale('A', 'minor', 1).root).toBe('Bb')
+    expect(transposeScale('G', 'major', 1).root).toBe('Ab')
+    expect(transposeScale('Bb', 'minor', 3).root).toBe('C#')
+  })
+
+  test('throws for invalid intervals', () => {
+    expect(() => transposeScale('C', 'major', Number.NaN)).toThrow(MusicReasoningError)
+  })
+})
+
+describe('Transposition - transposeProgression()', () => {
+  test('moves every chord between keys', () => {
+    expect(
+      transposeProgression(['C', 'Am7', 'F/A', 'G7sus4'], { from: 'C major', to: 'Eb' })
+    ).toEqual(['Eb', 'Cm7', 'Ab/C', 'Bb7sus4'])
+  })
+
+  test('follows the spelling of the target key', () => {
+    expect(transposeProgression(['C', 'F', 'G7'], { from: 'C', to: 'Gb' })).toEqual([
+      'Gb',
+      'Cb',
+      'Db7',
+    ])
+    expect(transposeProgression(['C', 'F', 'G7'], { from: 'C', to: 'F#' })).toEqual([
+      'F#',
+      'B',
+      'C#7',
+    ])
+  })
+
+  test('keeps the function of chromatic chords', () => {
+    expect(transposeProgression(['C', 'Bb', 'F#dim7', 'G'], { from: 'C', to: 'E' })).toEqual([
+      'E',
+      'D',
+      'A#dim7',
+      'B',
+    ])
+  })
+
+  test('respells target keys without a key signature', () => {
+    expect(transposeProgression(['C', 'G'], { from: 'C', to: 'A# major' })).toEqual(['Bb', 'F'])
+  })
+
+  test('handles minor keys and inherits the source mode', () => {
+    expect(transposeProgression(['Am', 'Dm', 'E7'], { from: 'A minor', to: 'C' })).toEqual([
+      'Cm',
+      'Fm',
+      'G7',
+    ])
+    expect(transposeProgression(['Am', 'Dm', 'E7'], { from: 'Am', to: 'D#' })).toEqual([
+      'D#m',
+      'G#m',
+      'A#7',
+    ])
+  })
+
+  test('detects the source key when omitted', () => {
+    expect(transposeProgression(['G', 'C', 'D7', 'G'], { to: 'A' })).toEqual(['A', 'D', 'E7', 'A'])
+  })
+
+  test('returns an empty array for an empty progression', () => {
+    expect(transposeProgression([], { to: 'D' })).toEqual([])
+  })
+
+  test('throws for invalid keys and chords', () => {
+    expect(() => transposeProgression(['C'], { from: 'C', to: 'H' })).toThrow(/Invalid key/)
+    expect(() => transposeProgression(['C'], { from: 'C dorian', to: 'D' })).toThrow(
+      MusicReasoningError
+    )
+    expect(() => transposeProgression(['C', 'Xyz'], { from: 'C', to: 'D' })).toThrow(
+      /Invalid chord symbol/
+    )
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Golden Test Suite: Voice Leading
+ *
+ * Validates minimal-motion voice leading between chords against hand-checked
+ * common-practice answers.
+ * Tests cover: voiceLead(), voiceLeadProgression(), checkVoiceLeading()
+ *
+ * @group golden
+ * @group voice-leading
+ */
+
+import { describe, test, expect } from 'vitest'
+import { voiceLead, voiceLeadProgression } from '../../src/chord/build'
+import { checkVoiceLeading } from '../../src/chord/voice-leading'
+import { MusicReasoningError } from '@music-reasoning/types'
+
+describe('Voice Leading - voiceLead()', () => {
+  describe('Minimal Motion', () => {
+    test('holds the common tone from C to F', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'F')
+      expect(result.chord).toBe('F')
+      expect(result.notes).toEqual(['C4', 'F4', 'A4'])
+      expect(result.motion).toEqual([0, 1, 2])
+      expect(result.totalMotion).toBe(3)
+      expect(result.parallels).toEqual([])
+    })
+
+    test('resolves Dm7 to G7 by step from a chord symbol', () => {
+      const result = voiceLead('Dm7', 'G7')
+      expect(result.notes).toEqual(['D4', 'F4', 'G4', 'B4'])
+      expect(result.totalMotion).toBe(3)
+    })
+
+    test('accepts voicings in any order and keeps voices low to high', () => {
+      const result = voiceLead(['G4', 'C4', 'E4'], 'F')
+      expect(result.notes).toEqual(['C4', 'F4', 'A4'])
+    })
+
+    test('preserves chord spelling', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'Ab')
+      expect(result.notes).toEqual(['C4', 'Eb4', 'Ab4'])
+    })
+
+    test('omits the fifth when there are fewer voices than tones', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'G7')
+      expect(result.notes).toEqual(['B3', 'F4', 'G4'])
+      expect(result.notes.some((note) => note.startsWith('D'))).toBe(false)
+    })
+  })
+
+  describe('Range and Slash Chords', () => {
+    test('keeps every voice within the range', () => {
+      expect(voiceLead(['E4', 'G4', 'C5'], 'F').notes).toEqual(['F4', 'A4', 'C5'])
+
+      const result = voiceLead(['E4', 'G4', 'C5'], 'F', { range: { low: 'C3', high: 'B4' } })
+      expect(result.notes).toEqual(['C4', 'F4', 'A4'])
+      expect(result.totalMotion).toBe(9)
+    })
+
+    test('places the slash bass in the lowest voice', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'C/G')
+      expect(result.notes[0]).toBe('G3')
+    })
+  })
+
+  describe('Parallel Fifths and Octaves', () => {
+    test('avoids a chromatic slide in parallel fifths', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'Cb')
+      expect(result.parallels).toEqual([])
+      expect(result.notes).not.toEqual(['Cb4', 'Eb4', 'Gb4'])
+    })
+
+    test('allows parallels when avoidParallels is false', () => {
+      const result = voiceLead(['C4', 'E4', 'G4'], 'Cb', { avoidParallels: false })
+      expect(result.notes).toEqual(['Cb4', 'Eb4', 'Gb4'])
+      expect(result.totalMotion).toBe(3)
+      expect(result.parallels).toEqual([{ voices: [0, 2], interval: 'fifth' }])
+    })
+  })
+
+  describe('Error Handling', () => {
+    test('rejects voiced notes without octaves', () => {
+      expect(() => voiceLead(['C', 'E', 'G'], 'F')).toThrow(MusicReasoningError)
+    })
+
+    test('rejects invalid destination chords', () => {
+      expect(() => voiceLead(['C4', 'E4', 'G4'], 'Xyz')).toThrow(MusicReasoningError)
+    })
+
+    test('rejects ranges too narrow for the chord', () => {
+      expect(() =>
+        voiceLead(['C4', 'E4', 'G4'], 'G', { range: { low: 'C4', high: 'C#4' } })
+      ).toThrow(/Cannot voice "G"/)
+    })
+  })
+})
+
+describe('Voice Leading - voiceLeadProgression()', () => {
+  test('voices I-vi-IV-V smoothly', () => {
+    const result = voiceLeadProgression(['C', 'Am', 'F', 'G'])
+    expect(result.map((step) => step.notes)).toEqual([
+      ['C4', 'E4', 'G4'],
+      ['C4', 'E4', 'A4'],
+      ['C4', 'F4', 'A4'],
+      ['B3', 'D4', 'G4'],
+    ])
+    expect(result[0]?.totalMotion).toBe(0)
+    expect(result.every((step) => step.parallels.length === 0)).toBe(true)
+  })
+
+  test('returns an empty array for an empty progression', () => {
+    expect(voiceLeadProgression([])).toEqual([])
+  })
+})
+
+describe('Four-Part Voice Leading - checkVoiceLeading()', () => {
+  const codes = (result: ReturnType<typeof checkVoiceLeading>): string[] =>
+    result.violations.map((violation) => `${violation.code}@${String(violation.chordIndex)}`)
+
+  describe('Valid Progressions', () => {
+    test('accepts a textbook V-I in C major', () => {
+      const result = checkVoiceLeading(
+        [
+          { soprano: 'D5', alto: 'B4', tenor: 'G4', bass: 'G3' },
+          { soprano: 'C5', alto: 'C5', tenor: 'E4', bass: 'C3' },
+        ],
+        { key: 'C major' }
+      )
+      expect(result.valid).toBe(true)
+      expect(result.key).toBe('C major')
+      expect(result.violations).toEqual([])
+    })
+
+    test('allows an inner-voice leading tone to drop to the fifth', () => {
+      const result = checkVoiceLeading(
+        [
+          ['G2', 'B3', 'D4', 'G4'],
+          ['C3', 'G3', 'E4', 'G4'],
+        ],
+        { key: 'C major' }
+      )
+      expect(result.valid).toBe(true)
+    })
+
+    test('detects the key when none is given', () => {
+      const result = checkVoiceLeading([
+        ['C3', 'G3', 'E4', 'C5'],
+        ['F3', 'A3', 'F4', 'C5'],
+        ['G3', 'B3', 'D4', 'D5'],
+        ['C3', 'G3', 'E4', 'C5'],
+      ])
+      expect(result.key).toBe('C major')
+    })
+  })
+
+  describe('Parallel and Hidden Intervals', () => {
+    test('reports parallel fifths and octaves with the voices involved', () => {
+      const result = checkVoiceLeading([
+        ['C3', 'G3', 'E4', 'C5'],
+        ['D3', 'A3', 'F4', 'D5'],
+      ])
+      expect(result.valid).toBe(false)
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          code: 'PARALLEL_FIFTHS',
+          chordIndex: 1,
+          voices: ['bass', 'tenor'],
+        }),
+        expect.objectContaining({
+          code: 'PARALLEL_OCTAVES',
+          chordIndex: 1,
+          voices: ['bass', 'soprano'],
+        }),
+      ])
+    })
+
+    test('reports hidden fifths in the outer voices', () => {
+      const result = checkVoiceLeading(
+        [
+          ['E3', 'G3', 'C4', 'C5'],
+          ['D3', 'F3', 'B3', 'A4'],
+        ],
+        { key: 'C major' }
+      )
+      expect(codes(result)).toEqual(['HIDDEN_FIFTHS@1'])
+      expect(result.violations[0]?.voices).toEqual(['bass', 'soprano'])
+    })
+
+    test('reports hidden octaves in the outer voices', () => {
+      const result = checkVoiceLeading(
+        [
+          ['F2', 'A3', 'F4', 'C5'],
+          ['G2', 'D4', 'B4', 'G5'],
+        ],
+        { key: 'C major' }
+      )
+      expect(codes(result)).toEqual(['HIDDEN_OCTAVES@1'])
+    })
+  })
+
+  describe('Crossing and Spacing', () => {
+    test('reports voice crossing', () => {
+      const result = checkVoiceLeading([['C3', 'G4', 'E4', 'C5']])
+      expect(result.violations[0]).toMatchObject({
+        code: 'VOICE_CROSSING',
+        chordIndex: 0,
+        voices: ['tenor', 'alto'],
+      })
+    })
+
+    test('reports more than an octave between upper voices', () => {
+      const result = checkVoiceLeading([['C3', 'C4', 'E4', 'G5']])
+      expect(result.violations).toEqual([
+        expect.objectContaining({ code: 'SPACING', voices: ['alto', 'soprano'] }),
+      ])
+    })
+
+    test('allows more than an octave between bass and tenor', () => {
+      const result = checkVoiceLeading([['C2', 'G3', 'E4', 'C5']])
+      expect(result.valid).toBe(true)
+    })
+  })
+
+  describe('Tendency Tones', () => {
+    test('reports an unresolved leading tone in the soprano', () => {
+      const result = checkVoiceLeading(
+        [
+          ['G2', 'G3', 'D4', 'B4'],
+          ['C3', 'G3', 'E4', 'G4'],
+        ],
+        { key: 'C major' }
+      )
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          code: 'UNRESOLVED_LEADING_TONE',
+          chordIndex: 1,
+          voices: ['soprano'],
+        }),
+      ])
+    })
+
+    test('reports a chordal seventh that does not resolve down', () => {
+      const result = checkVoiceLeading(
+        [
+          ['G2', 'B3', 'D4', 'F4'],
+          ['C3', 'C4', 'E4', 'G4'],
+        ],
+        { key: 'C major' }
+      )
+      expect(codes(result)).toEqual(['UNRESOLVED_SEVENTH@1'])
+    })
+
+    test('reports a doubled leading tone in a dominant chord', () => {
+      const result = checkVoiceLeading([['G2', 'B3', 'D4', 'B4']], { key: 'C major' })
+      expect(result.violations).toEqual([
+        expect.objectContaining({ code: 'DOUBLED_LEADING_TONE', voices: ['tenor', 'soprano'] }),
+      ])
+    })
+
+    test('uses the raised leading tone in minor keys', () => {
+      const result = checkVoiceLeading(
+        [
+          ['E2', 'E3', 'B3', 'G#4'],
+          ['A2', 'E3', 'C4', 'E4'],
+        ],
+        { key: 'A minor' }
+      )
+      expect(codes(result)).toEqual(['UNRESOLVED_LEADING_TONE@1'])
+    })
+  })
+
+  describe('Error Handling', () => {
+    test('rejects chords without exactly four notes', () => {
+      expect(() => checkVoiceLeading([['C4', 'E4', 'G4']])).toThrow(MusicReasoningError)
+    })
+
+    test('rejects notes without octaves', () => {
+      expect(() => checkVoiceLeading([['C', 'G', 'E', 'C']])).toThrow(/must include an octave/)
+    })
+
+    test('rejects invalid keys', () => {
+      expect(() => checkVoiceLeading([['C3', 'G3', 'E4', 'C5']], { key: 'H major' })).toThrow(
+        MusicReasoningError
+      )
+    })
+  })
+})
@@ -1,45 +1,24 @@
 import type { ChordIdentification } from '@music-reasoning/types'
-import type { ExplainOptions, ExplanationResult } from '../types/explain'
+import type {
+  ExplainOptions,
+  ExplainStreamOptions,
+  ExplanationResult,
+  ExplanationStream,
+  ResolvedExplainOptions,
+} from '../types/explain'
 import { DEFAULT_EXPLAIN_OPTIONS } from '../types/explain'
 import { validateExplainOptions, createExplanationError } from '../types/errors'
+import type { ExplanationError } from '../types/errors'
 import { generateCacheKeyWithOptions } from '../utils/pitch-class'
-import { HybridCache } from '../cache/cache-manager'
-import type { CacheEntry } from '../cache/types'
+import { getExplanationCache } from '../cache/registry'
 import { identifyChord } from '@music-reasoning/core'
+import { getExplanationProvider } from '../providers/registry'
 import {
-  generateExplanation,
-  loadModel,
-  isModelLoaded,
-  type InferenceOptions,
-} from '@music-reasoning/ai-local'
-
-/**
- * Singleton cache instance for explanation caching (T021)
- * Shared across all explain() calls for maximum cache efficiency
- */
-const explanationCache = new HybridCache()
-
-/**
- * Shared model loading promise for concurrency control (T023)
- *
- * @remarks
- * **State Management:**
- * - `null`: No load in progress (model may or may not be loaded)
- * - `Promise<void>`: Load in progress, subsequent calls wait on this promise
- *
- * **Reset Strategy**: Set to null on load failure to allow retry
- * **Concurrency Pattern**: First call creates promise, others wait on it
- *
- * **Thread Safety**: Node.js single-threaded event loop ensures atomicity
- * of the check-and-set operation in ensureModelLoaded()
- */
-let modelLoadPromise: Promise<void> | null = null
-
-/**
- * Loading flag for additional race condition protection
- * Prevents duplicate loads between isModelLoaded() check and promise creation
- */
-let isLoadingModel = false
+  createExplanationStream,
+  isExplanationPlan,
+  runExplanation,
+  type ExplanationPlan,
+} from './explain-runner'
 
 /**
  * Sentinel value for invalid chord identification (Fix #1)
@@ -67,94 +46,6 @@ const INVALID_CHORD: ChordIdentification = {
   confidence: 0,
 }
 
-/**
- * Ensures the AI model is loaded, reusing existing load promise if in progress (T023)
- *
- * @returns Promise that resolves when model is loaded
- *
- * @remarks
- * **Fix #4**: Enhanced race condition protection using isLoadingModel flag
- *
- * This function implements promise-based concurrency control to prevent
- * multiple concurrent explain() calls from loading the model multiple times.
- *
- * **Concurrency Strategy:**
- * 1. Quick check: If model already loaded, return immediately
- * 2. Wait pattern: If load in progress, wait on existing promise
- * 3. Atomic load: Use isLoadingModel flag to prevent race between checks
- * 4. Error recovery: Reset promise and flag on failure for retry
- *
- * **Race Condition Prevention:**
- * The isLoadingModel flag prevents this scenario:
- * - Call A: isModelLoaded() → false
- * - Call B: isModelLoaded() → false (before A sets modelLoadPromise)
- * - Both calls initiate loadModel() → duplicate loads
- *
- * With flag:
- * - Call A: Sets isLoadingModel = true before creating promise
- * - Call B: Sees isLoadingModel = true, waits for completion
- *
- * @throws {Error} If model loading fails (caller should handle gracefully)
- */
-async function ensureModelLoaded(): Promise<void> {
-  // Fast path: model already loaded
-  if (isModelLoaded()) {
-    return
-  }
-
-  // Wait pattern: load in progress, reuse existing promise
-  if (modelLoadPromise) {
-    return modelLoadPromise
-  }
-
-  // Race condition protection: another call might be setting up the promise
-  if (isLoadingModel) {
-    // Spin-wait for the promise to be created (should be near-instant)
-    // Max 1 second wait (100 iterations * 10ms) to prevent infinite loop edge case
-    let spinCount = 0
-    const MAX_SPIN_ITERATIONS = 100
-
-    // At this point, isLoadingModel is true and modelLoadPromise might not exist yet
-    // Wait for the other thread to create the promise
-    // ESLint thinks modelLoadPromise is always falsy here, but concurrent calls can modify it
-    while (spinCount < MAX_SPIN_ITERATIONS) {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      if (modelLoadPromise) {
-        return modelLoadPromise
-      }
-      await new Promise((resolve) => setTimeout(resolve, 10))
-      spinCount++
-    }
-
-    // Final check after spin-wait completes
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (modelLoadPromise) {
-      return modelLoadPromise
-    }
-
-    // If we timed out waiting (very rare), fall through to create new promise
-    // This handles edge case where isLoadingModel=true but promise never created
-  }
-
-  // Atomic operation: set flag and create promise
-  isLoadingModel = true
-
-  modelLoadPromise = loadModel()
-    .then(() => {
-      // Model loaded successfully
-      isLoadingModel = false
-      return // Explicit return for void
-    })
-    .catch((err: unknown) => {
-      // Reset state on failure so next call can retry
-      isLoadingModel = false
-      modelLoadPromise = null
-      throw err
-    })
-
-  return modelLoadPromise
-}
-
 /**
  * Explains a chord with deterministic music theory analysis + optional AI-generated explanation.
  *
@@ -166,7 +57,9 @@ async function ensureModelLoaded(): Promise<void> {
  * This function implements the hybrid intelligence model:
  * 1. **Deterministic layer** (always): Identifies chord using @music-reasoning/core
  * 2. **Cache layer** (if enabled): Checks for previously generated explanation
- * 3. **AI layer** (optional): Generates natural language explanation via @music-reasoning/ai-local
+ * 3. **AI layer** (optional): Generates natural language explanation via the configured
+ *    ExplanationProvider (the local model from @music-reasoning/ai-local by default)
+ * 4. **Fallback layer** (if enabled): Template explanation when the provider fails
  *
  * **Constitutional Principles**:
  * - Principle II (Deterministic Truth): Music theory data ALWAYS returned, even if AI fails
@@ -196,13 +89,74 @@ async function ensureModelLoaded(): Promise<void> {
  * // Graceful degradation when AI unavailable
  * const fallback = await chord.explain(['F#', 'A', 'C#']);
  * console.log(fallback.data.root); // 'F#' - deterministic data always present
- * console.log(fallback.error?.code); // 'MODEL_UNAVAILABLE' if AI fails
+ * console.log(fallback.explanation); // 'F# minor is a minor triad built on F#...' (template)
+ * console.log(fallback.fallbackReason?.code); // 'MODEL_UNAVAILABLE' if AI fails
+ *
+ * // Opt out of the template fallback
+ * const strict = await chord.explain(['F#', 'A', 'C#'], { fallback: false });
+ * console.log(strict.error?.code); // 'MODEL_UNAVAILABLE' if AI fails
  * ```
  */
 export async function explain(
   notes: string[],
   options?: Partial<ExplainOptions>
 ): Promise<ExplanationResult<ChordIdentification>> {
+  const prepared = prepare(notes, options)
+  if (!isExplanationPlan(prepared)) {
+    return prepared
+  }
+
+  // T021-T027: Cache check, AI inference, cache storage and fallback (shared with explainStream)
+  return runExplanation(prepared)
+}
+
+/**
+ * Streams a chord explanation as it is generated.
+ *
+ * @param notes - Array of note names forming the chord (e.g., ['C', 'E', 'G'])
+ * @param options - Optional configuration for AI inference, caching, token callback and cancellation
+ * @returns Stream of text chunks; `result` resolves to the same ExplanationResult as explain()
+ *
+ * @remarks
+ * Same pipeline as explain(): invalid input ends the stream immediately with
+ * the error in `result`, cached explanations are replayed word by word, and
+ * the template fallback is streamed when the provider fails before producing text.
+ *
+ * @example
+ * ```typescript
+ * const stream = chord.explainStream(['G', 'B', 'D', 'F'], {
+ *   onToken: (token) => ui.append(token),
+ * });
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk);
+ * }
+ *
+ * const result = await stream.result;
+ * console.log(result.data.chord); // 'G7'
+ * ```
+ */
+export function explainStream(
+  notes: string[],
+  options?: Partial<ExplainStreamOptions>
+): ExplanationStream<ChordIdentification> {
+  const { onToken, ...explainOptions } = options ?? {}
+  return createExplanationStream(prepare(notes, explainOptions), { onToken })
+}
+
+/**
+ * Validates input and identifies the chord, ready for explanation.
+ *
+ * @param notes - Array of note names forming the chord
+ * @param options - Optional configuration for AI inference and caching
+ * @returns Explanation plan, or the final result if input is invalid
+ *
+ * @internal
+ */
+function prepare(
+  notes: string[],
+  options?: Partial<ExplainOptions>
+): ExplanationPlan<ChordIdentification> | ExplanationResult<ChordIdentification> {
   // Fix #5: Validate notes array before any processing
   // Runtime safety: Validate that notes is actually an array (JavaScript callers)
   if (!Array.isArray(notes)) {
@@ -262,15 +216,22 @@ export async function explain(
     }
   }
 
+  // The signal belongs to this call only (never merged, cached or part of the cache key)
+  const { signal, ...explainOptions } = options ?? {}
+
   // Merge with defaults
-  const mergedOptions: Required<ExplainOptions> = {
+  const mergedOptions: ResolvedExplainOptions = {
     ...DEFAULT_EXPLAIN_OPTIONS,
-    ...options,
+    ...explainOptions,
   }
 
+  // Resolve the explanation backend once so the whole call uses the same provider
+  const provider = getExplanationProvider()
+
   // Fix #3: Compute cache key once (before chord identification)
   // This allows reuse in both cache check and cache storage
-  const cacheKey = generateCacheKeyWithOptions(notes, mergedOptions)
+  // Scoped by provider so one backend's text is never served for another
+  const cacheKey = `${provider.name}:${generateCacheKeyWithOptions(notes, mergedOptions)}`
 
   // T020: Deterministic chord identification (ALWAYS execute, even if AI fails)
   let chordData: ChordIdentification
@@ -288,30 +249,9 @@ export async function explain(
     }
   }
 
-  // T021: Cache check (if caching enabled)
-  if (mergedOptions.useCache) {
-    const cached = explanationCache.get(cacheKey) // Fix #3: Reuse computed key
-
-    if (cached) {
-      // Cache hit - return immediately
-      return {
-        data: chordData,
-        explanation: cached.explanation,
-      }
-    }
-  }
-
-  // T022-T025: AI inference with graceful degradation
-  let explanation: string | undefined
-  let aiError: ReturnType<typeof createExplanationError> | undefined
-
-  try {
-    // T023: Ensure model is loaded (with Promise-based concurrency)
-    await ensureModelLoaded()
-
-    // T024: Generate prompt from chord data
-    // Fix #6: Remove redundant Array.from() - readonly arrays support join()
-    const prompt = `Explain this chord:
+  // T024: Generate prompt from chord data
+  // Fix #6: Remove redundant Array.from() - readonly arrays support join()
+  const prompt = `Explain this chord:
 Root: ${chordData.root}
 Quality: ${chordData.quality}
 Notes: ${chordData.notes.join(', ')}
@@ -319,85 +259,86 @@ Intervals: ${chordData.intervals.join(', ')}
 
 Provide a concise music theory explanation (${String(mergedOptions.maxTokens)} tokens max).`
 
-    // T025: AI inference call with timeout
-    // Forward timeout to @music-reasoning/ai-local (it handles timeout internally)
-    const inferenceOptions: InferenceOptions = {
-      temperature: mergedOptions.temperature,
-      maxTokens: mergedOptions.maxTokens,
-      timeoutMs: mergedOptions.timeout, // Forward user's timeout to AI layer
-    }
-
-    explanation = await generateExplanation(prompt, inferenceOptions)
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err))
-
-    // Fix #2: Enhanced error categorization with fallback to string matching
-    // Ideally, we'd check error types/codes, but @music-reasoning/ai-local
-    // doesn't export typed errors yet, so we use message substring matching
-    // as a pragmatic solution.
-
-    // Categorize AI errors for graceful degradation
-    // Check timeout FIRST (most specific error)
-    if (error.message.toLowerCase().includes('timeout')) {
-      aiError = createExplanationError(
-        'TIMEOUT',
-        `AI inference timeout after ${String(mergedOptions.timeout)}ms`,
-        `Increase timeout option or use faster hardware (current: ${String(mergedOptions.timeout)}ms, try: ${String(mergedOptions.timeout * 2)}ms)`
-      )
-    } else if (
-      error.message.toLowerCase().includes('model') ||
-      error.message.toLowerCase().includes('not found')
-    ) {
-      aiError = createExplanationError(
-        'MODEL_UNAVAILABLE',
-        'AI model not found or failed to load',
-        'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
-      )
-    } else if (
-      error.message.toLowerCase().includes('memory') ||
-      error.message.toLowerCase().includes('ram')
-    ) {
-      aiError = createExplanationError(
-        'INSUFFICIENT_RAM',
-        'Insufficient memory to load AI model',
-        'Close other applications or use a machine with 4GB+ available RAM'
-      )
-    } else if (
-      error.message.toLowerCase().includes('corrupt') ||
-      error.message.toLowerCase().includes('checksum')
-    ) {
-      aiError = createExplanationError(
-        'CORRUPTED_MODEL',
-        'AI model file appears corrupted',
-        'Re-download the v4.5 model from the official source'
-      )
-    } else {
-      // Generic error - preserve original message for debugging
-      aiError = createExplanationError(
-        'MODEL_UNAVAILABLE',
-        `AI inference failed: ${error.message}`,
-        'Check logs for details or continue using deterministic features without AI'
-      )
-    }
-  }
-
-  // T026: Cache storage (if inference succeeded and caching enabled)
-  if (explanation && mergedOptions.useCache) {
-    const cacheEntry: CacheEntry = {
-      key: cacheKey, // Fix #3: Reuse computed key
-      explanation,
-      timestamp: Date.now(),
-      lastAccessed: Date.now(),
-      options: mergedOptions,
-    }
-    explanationCache.set(cacheEntry)
-  }
-
-  // T027: Response assembly (ALWAYS return deterministic data)
   return {
     data: chordData,
-    explanation,
-    error: aiError,
+    request: {
+      kind: 'chord',
+      prompt,
+      data: chordData,
+      options: {
+        temperature: mergedOptions.temperature,
+        maxTokens: mergedOptions.maxTokens,
+        timeoutMs: mergedOptions.timeout,
+        signal,
+      },
+    },
+    provider,
+    cache: getExplanationCache('chord'),
+    cacheKey, // Fix #3: Reuse computed key
+    options: mergedOptions,
+    categorizeError: (err) => categorizeError(err, mergedOptions.timeout),
+  }
+}
+
+/**
+ * Maps a provider failure to an ExplanationError for graceful degradation.
+ *
+ * @param err - Error thrown by the provider
+ * @param timeout - Timeout in effect (for the TIMEOUT message)
+ * @returns Categorized error
+ *
+ * @internal
+ */
+function categorizeError(err: unknown, timeout: number): ExplanationError {
+  const error = err instanceof Error ? err : new Error(String(err))
+
+  // Fix #2: Enhanced error categorization with fallback to string matching
+  // Ideally, we'd check error types/codes, but providers report failures
+  // as plain Errors, so we use message substring matching as a pragmatic
+  // solution (see ExplanationProvider error contract).
+
+  // Categorize AI errors for graceful degradation
+  // Check timeout FIRST (most specific error)
+  if (error.message.toLowerCase().includes('timeout')) {
+    return createExplanationError(
+      'TIMEOUT',
+      `AI inference timeout after ${String(timeout)}ms`,
+      `Increase timeout option or use faster hardware (current: ${String(timeout)}ms, try: ${String(timeout * 2)}ms)`
+    )
+  } else if (
+    error.message.toLowerCase().includes('model') ||
+    error.message.toLowerCase().includes('not found')
+  ) {
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      'AI model not found or failed to load',
+      'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
+    )
+  } else if (
+    error.message.toLowerCase().includes('memory') ||
+    error.message.toLowerCase().includes('ram')
+  ) {
+    return createExplanationError(
+      'INSUFFICIENT_RAM',
+      'Insufficient memory to load AI model',
+      'Close other applications or use a machine with 4GB+ available RAM'
+    )
+  } else if (
+    error.message.toLowerCase().includes('corrupt') ||
+    error.message.toLowerCase().includes('checksum')
+  ) {
+    return createExplanationError(
+      'CORRUPTED_MODEL',
+      'AI model file appears corrupted',
+      'Re-download the v4.5 model from the official source'
+    )
+  } else {
+    // Generic error - preserve original message for debugging
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      `AI inference failed: ${error.message}`,
+      'Check logs for details or continue using deterministic features without AI'
+    )
   }
 }
 
@@ -415,7 +356,7 @@ Provide a concise music theory explanation (${String(mergedOptions.maxTokens)} t
  * - **Batch processing**: 6s (cold) + 8×0.8s = ~12s for 8 chords (50% faster!)
  *
  * **How it works:**
- * 1. Model loads once (shared `modelLoadPromise`)
+ * 1. Model loads once (the provider shares one load across calls)
  * 2. All chords processed sequentially on warm model
  * 3. Cache hits skip AI inference entirely (<50ms)
  *
@@ -487,7 +428,7 @@ export async function explainBatch(
     // T054: Partial success handling - each chord independent
     // Invalid chord returns error object, others continue (not all-or-nothing)
     // T055: Cache-aware batch processing - explain() checks cache internally
-    // T056: Optimize batch processing - explain() reuses shared modelLoadPromise
+    // T056: Optimize batch processing - explain() reuses the provider's loaded model
     const result = await explain(notes, options)
     results.push(result)
   }
@@ -5,7 +5,7 @@
  */
 
 import { identifyChord as coreIdentifyChord } from '@music-reasoning/core'
-import { explain, explainBatch } from './chord-explain'
+import { explain, explainBatch, explainStream } from './chord-explain'
 
 // Deterministic chord identification (from core)
 export { identifyChord } from '@music-reasoning/core'
@@ -13,6 +13,9 @@ export { identifyChord } from '@music-reasoning/core'
 // AI-powered explanations (T028 - User Story 1)
 export { explain as explainChord } from './chord-explain'
 
+// Streaming explanations
+export { explainStream as explainChordStream } from './chord-explain'
+
 // Batch processing for performance (T057 - User Story 4)
 export { explainBatch as explainChordBatch } from './chord-explain'
 
@@ -36,6 +39,14 @@ export const chord = {
    */
   explain,
 
+  /**
+   * Stream a chord explanation as it is generated
+   * @param notes - Array of note names (e.g., ['C', 'E', 'G'])
+   * @param options - Optional configuration (onToken, signal, temperature, etc.)
+   * @returns Async iterable of text chunks with the final result
+   */
+  explainStream,
+
   /**
    * Batch explain multiple chords efficiently
    * @param noteSets - Array of note arrays
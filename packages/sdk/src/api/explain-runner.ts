@@ -0,0 +1,373 @@
+/**
+ * Shared explanation pipeline for the explain APIs
+ * Runs the cache → provider → template fallback steps once the deterministic layer is done
+ */
+
+import type {
+  ExplanationResult,
+  ExplanationStream,
+  ExplainStreamOptions,
+  ResolvedExplainOptions,
+} from '../types/explain'
+import { createExplanationError } from '../types/errors'
+import type { ExplanationError } from '../types/errors'
+import type { HybridCache } from '../cache/cache-manager'
+import type { CacheEntry } from '../cache/types'
+import type { ExplanationProvider, ExplanationRequest } from '../providers/types'
+import { renderTemplateExplanation } from '../providers/template'
+
+/**
+ * Everything needed to explain deterministic data once inputs are validated.
+ *
+ * @typeParam T - The type of deterministic data
+ *
+ * @internal
+ */
+export interface ExplanationPlan<T> {
+  /** Deterministic data (always returned) */
+  data: T
+
+  /** Request sent to the provider (carries the caller's abort signal) */
+  request: ExplanationRequest
+
+  /** Provider resolved for this call */
+  provider: ExplanationProvider
+
+  /** Explanation cache of the calling API */
+  cache: HybridCache
+
+  /** Cache key (already scoped by provider name) */
+  cacheKey: string
+
+  /** Validated options merged with defaults */
+  options: ResolvedExplainOptions
+
+  /** Maps a provider failure to an ExplanationError */
+  categorizeError: (err: unknown) => ExplanationError
+}
+
+/**
+ * Checks whether preparation produced a plan or finished early with a result.
+ *
+ * @internal
+ */
+export function isExplanationPlan<T>(
+  prepared: ExplanationPlan<T> | ExplanationResult<T>
+): prepared is ExplanationPlan<T> {
+  return 'request' in prepared
+}
+
+/**
+ * Generates an explanation for a plan.
+ *
+ * @param plan - Prepared explanation
+ * @returns Deterministic data with the explanation, a template fallback, or an error
+ *
+ * @remarks
+ * Never throws: provider failures are categorized by the plan and either
+ * replaced by template text (`fallback` option) or returned as `error`.
+ * Aborting the request's signal stops waiting for the provider and returns an
+ * `ABORTED` error (never the template fallback).
+ *
+ * @internal
+ */
+export async function runExplanation<T>(plan: ExplanationPlan<T>): Promise<ExplanationResult<T>> {
+  const { data, request, provider, options } = plan
+  const { signal } = request.options
+
+  // Cancelled before starting: skip the cache and the provider
+  if (signal?.aborted) {
+    return { data, error: createAbortedError() }
+  }
+
+  // Cache check (if caching enabled)
+  if (options.useCache) {
+    const cached = plan.cache.get(plan.cacheKey)
+    if (cached) {
+      return { data, explanation: cached.explanation }
+    }
+  }
+
+  let aiError: ExplanationError
+  try {
+    // Prepare the provider (loads the model for the default provider)
+    await untilAborted(provider.load(), signal)
+
+    // Forward user's timeout and signal to the provider (it stops generation itself)
+    const explanation = await untilAborted(provider.generate(request), signal)
+
+    storeExplanation(plan, explanation)
+    return { data, explanation }
+  } catch (err) {
+    // Cancellation was requested: report it rather than the provider's failure
+    if (signal?.aborted) {
+      return { data, error: createAbortedError() }
+    }
+    aiError = plan.categorizeError(err)
+  }
+
+  // Template fallback: deterministic text when the provider failed (never cached)
+  if (options.fallback) {
+    return { data, explanation: renderTemplateExplanation(request), fallbackReason: aiError }
+  }
+
+  return { data, error: aiError }
+}
+
+/**
+ * Creates a stream that yields the explanation for a plan as it is generated.
+ *
+ * @param prepared - Prepared explanation, or the early result of failed validation
+ * @param controls - Token callback
+ * @returns Stream of text chunks with the final result
+ *
+ * @remarks
+ * Follows `runExplanation()` step by step:
+ * - **Cache hit**: Replays the cached text word by word
+ * - **Provider**: Yields chunks from `provider.stream()` and caches the full text
+ * - **Failure before any text**: Streams the template fallback (`fallback` option)
+ * - **Failure after some text**: Ends the stream; `result` carries the error
+ * - **Abort**: Stops the provider; `result` has an `ABORTED` error and nothing is cached
+ * - **Early `break`**: Stops the provider; `result` has no explanation and nothing is cached
+ * - **`onToken` throws**: Stops the provider; `result` has a `CALLBACK_FAILED` error and nothing is cached
+ *
+ * Iteration never throws. The stream runs once: iterate it, or await `result`
+ * alone to consume it through `onToken`.
+ *
+ * @internal
+ */
+export function createExplanationStream<T>(
+  prepared: ExplanationPlan<T> | ExplanationResult<T>,
+  controls: Pick<ExplainStreamOptions, 'onToken'> = {}
+): ExplanationStream<T> {
+  let resolveResult: (result: ExplanationResult<T>) => void = () => undefined
+  const result = new Promise<ExplanationResult<T>>((resolve) => {
+    resolveResult = resolve
+  })
+
+  const chunks = streamPrepared(prepared, controls, resolveResult)
+  let started = false
+
+  return {
+    [Symbol.asyncIterator]() {
+      started = true
+      return chunks
+    },
+    get result() {
+      // Nobody is iterating: drain the stream so `result` (and onToken) still complete
+      if (!started) {
+        started = true
+        // `result` is settled by the stream itself, so a failed drain has nothing to report
+        drain(chunks).catch(() => undefined)
+      }
+      return result
+    },
+  }
+}
+
+/**
+ * Stream body shared by every explain stream.
+ *
+ * @internal
+ */
+async function* streamPrepared<T>(
+  prepared: ExplanationPlan<T> | ExplanationResult<T>,
+  controls: Pick<ExplainStreamOptions, 'onToken'>,
+  resolveResult: (result: ExplanationResult<T>) => void
+): AsyncGenerator<string, void, undefined> {
+  // Finished before generation (e.g., invalid input): nothing to stream
+  if (!isExplanationPlan(prepared)) {
+    resolveResult(prepared)
+    return
+  }
+
+  const plan = prepared
+  const { data, request, provider, options } = plan
+  const { signal } = request.options
+  const { onToken } = controls
+
+  // Unset when the stream stops before completing (abort or early break)
+  let outcome: ExplanationResult<T> | undefined
+
+  // Set when onToken throws: the caller's error, never a provider failure
+  let callbackError: ExplanationError | undefined
+  const emit = (chunk: string): boolean => {
+    try {
+      onToken?.(chunk)
+      return true
+    } catch (err) {
+      callbackError = createCallbackError(err)
+      return false
+    }
+  }
+
+  try {
+    if (signal?.aborted) return
+
+    // Cache hit: replay the stored text as a stream
+    if (options.useCache) {
+      const cached = plan.cache.get(plan.cacheKey)
+      if (cached) {
+        for (const chunk of splitIntoChunks(cached.explanation)) {
+          if (signal?.aborted) return
+          if (!emit(chunk)) return
+          yield chunk
+        }
+        outcome = { data, explanation: cached.explanation }
+        return
+      }
+    }
+
+    let explanation = ''
+    try {
+      await untilAborted(provider.load(), signal)
+
+      for await (const chunk of provider.stream(request)) {
+        // Leaving the loop stops the provider's stream
+        if (signal?.aborted) return
+        explanation += chunk
+        if (!emit(chunk)) return
+        yield chunk
+      }
+    } catch (err) {
+      if (signal?.aborted) return
+
+      const aiError = plan.categorizeError(err)
+
+      // Text already shown cannot be replaced by the template
+      if (!options.fallback || explanation.length > 0) {
+        outcome = { data, error: aiError }
+        return
+      }
+
+      // Template fallback: deterministic text when the provider failed (never cached)
+      const fallbackText = renderTemplateExplanation(request)
+      for (const chunk of splitIntoChunks(fallbackText)) {
+        if (signal?.aborted) return
+        if (!emit(chunk)) return
+        yield chunk
+      }
+      outcome = { data, explanation: fallbackText, fallbackReason: aiError }
+      return
+    }
+
+    if (signal?.aborted) return
+
+    storeExplanation(plan, explanation)
+    outcome = { data, explanation }
+  } finally {
+    resolveResult(
+      callbackError
+        ? { data, error: callbackError }
+        : (outcome ?? (signal?.aborted ? { data, error: createAbortedError() } : { data }))
+    )
+  }
+}
+
+/**
+ * Waits for a provider call, giving up as soon as the signal aborts.
+ *
+ * @remarks
+ * Providers should stop work themselves when the signal aborts; this keeps the
+ * call responsive for providers that do not.
+ *
+ * @internal
+ */
+async function untilAborted<R>(promise: Promise<R>, signal: AbortSignal | undefined): Promise<R> {
+  if (!signal) {
+    return promise
+  }
+
+  let onAbort: (() => void) | undefined
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      reject(new Error('Explanation aborted'))
+    }
+    // Abort listeners never fire for a signal that is already aborted
+    if (signal.aborted) {
+      onAbort()
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true })
+    }
+  })
+
+  try {
+    const value = await Promise.race([promise, aborted])
+    // Finished as the signal aborted: the abort wins, so nothing is cached
+    if (signal.aborted) {
+      throw new Error('Explanation aborted')
+    }
+    return value
+  } finally {
+    if (onAbort) {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+/**
+ * Creates the error returned when the caller aborts.
+ *
+ * @internal
+ */
+function createAbortedError(): ExplanationError {
+  return createExplanationError(
+    'ABORTED',
+    'Explanation aborted by the caller',
+    'Call again with a signal that is not aborted to get an explanation'
+  )
+}
+
+/**
+ * Creates the error returned when the caller's onToken callback throws.
+ *
+ * @internal
+ */
+function createCallbackError(err: unknown): ExplanationError {
+  const reason = err instanceof Error ? err.message : String(err)
+  return createExplanationError(
+    'CALLBACK_FAILED',
+    `onToken callback threw: ${reason}`,
+    'Fix the onToken callback; the stream stops at the first error it throws'
+  )
+}
+
+/**
+ * Stores a generated explanation (if caching is enabled).
+ *
+ * @internal
+ */
+function storeExplanation<T>(plan: ExplanationPlan<T>, explanation: string): void {
+  if (!explanation || !plan.options.useCache) return
+
+  const cacheEntry: CacheEntry = {
+    key: plan.cacheKey,
+    explanation,
+    timestamp: Date.now(),
+    lastAccessed: Date.now(),
+    options: plan.options,
+  }
+  plan.cache.set(cacheEntry)
+}
+
+/**
+ * Consumes a stream without reading its chunks.
+ *
+ * @internal
+ */
+async function drain(chunks: AsyncIterable<string>): Promise<void> {
+  const iterator = chunks[Symbol.asyncIterator]()
+  // Chunks are delivered through onToken
+  while (!(await iterator.next()).done) {
+    // Keep pulling until the stream ends
+  }
+}
+
+/**
+ * Splits text into word chunks (whitespace kept) for replaying non-streamed text.
+ *
+ * @internal
+ */
+function splitIntoChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? []
+}
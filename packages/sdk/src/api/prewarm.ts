@@ -0,0 +1,82 @@
+/**
+ * Cache pre-warming
+ * Generates explanations for a corpus ahead of time so later calls hit the cache
+ */
+
+import type { ExplainOptions, ExplanationResult } from '../types/explain'
+import { explainBatch } from './chord-explain'
+import { explain as explainScale } from './scale-explain'
+import { analyze as analyzeProgression } from './progression-analyze'
+
+/**
+ * Inputs to explain while pre-warming the cache.
+ */
+export interface PrewarmInputs {
+  /** Note sets passed to `chord.explain()` (e.g., `[['C', 'E', 'G']]`) */
+  chords?: string[][]
+
+  /** Scales passed to `scale.explain()` */
+  scales?: { root: string; type: string }[]
+
+  /** Chord symbol lists passed to `progression.analyze()` */
+  progressions?: string[][]
+}
+
+/**
+ * Outcome of prewarmCache().
+ */
+export interface PrewarmResult {
+  /** Inputs whose explanation is now cached (generated or already cached) */
+  cached: number
+
+  /** Inputs without a cached explanation (invalid input, provider failure or abort) */
+  failed: number
+}
+
+/**
+ * Explains a corpus of chords, scales and progressions to fill the explanation caches.
+ *
+ * @param inputs - Chords, scales and progressions to explain
+ * @param options - Explain options used for every input (they are part of the cache key)
+ * @returns How many inputs ended up cached
+ *
+ * @remarks
+ * Runs sequentially on the warm model, like `chord.explainBatch()`. Caching is
+ * always enabled and the template fallback is disabled, since template text is
+ * never cached. Pass the same `temperature` and `maxTokens` that later calls
+ * will use, or they will miss the cache.
+ *
+ * Combine with `exportCache()` to bundle pre-generated explanations with an app.
+ *
+ * @example
+ * ```typescript
+ * const result = await prewarmCache({
+ *   chords: [['C', 'E', 'G'], ['A', 'C', 'E']],
+ *   scales: [{ root: 'C', type: 'major' }],
+ *   progressions: [['C', 'Am', 'F', 'G']],
+ * })
+ * console.log(`${result.cached} cached, ${result.failed} failed`)
+ * ```
+ */
+export async function prewarmCache(
+  inputs: PrewarmInputs,
+  options?: Partial<ExplainOptions>
+): Promise<PrewarmResult> {
+  const prewarmOptions: Partial<ExplainOptions> = { ...options, useCache: true, fallback: false }
+  const results: ExplanationResult<unknown>[] = []
+
+  if (inputs.chords && inputs.chords.length > 0) {
+    results.push(...(await explainBatch(inputs.chords, prewarmOptions)))
+  }
+
+  for (const { root, type } of inputs.scales ?? []) {
+    results.push(await explainScale(root, type, prewarmOptions))
+  }
+
+  for (const chords of inputs.progressions ?? []) {
+    results.push(await analyzeProgression(chords, prewarmOptions))
+  }
+
+  const cached = results.filter((result) => result.explanation !== undefined).length
+  return { cached, failed: results.length - cached }
+}
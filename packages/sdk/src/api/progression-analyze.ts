@@ -4,31 +4,25 @@
  */
 
 import type { ProgressionAnalysis } from '@music-reasoning/types'
-import type { ExplainOptions, ExplanationResult } from '../types/explain'
+import type {
+  ExplainOptions,
+  ExplainStreamOptions,
+  ExplanationResult,
+  ExplanationStream,
+  ResolvedExplainOptions,
+} from '../types/explain'
 import { DEFAULT_EXPLAIN_OPTIONS } from '../types/explain'
 import { validateExplainOptions, createExplanationError } from '../types/errors'
-import { HybridCache } from '../cache/cache-manager'
-import type { CacheEntry } from '../cache/types'
+import type { ExplanationError } from '../types/errors'
+import { getExplanationCache } from '../cache/registry'
 import { analyzeProgression } from '@music-reasoning/core'
+import { getExplanationProvider } from '../providers/registry'
 import {
-  generateExplanation,
-  loadModel,
-  isModelLoaded,
-  type InferenceOptions,
-} from '@music-reasoning/ai-local'
-
-/**
- * Singleton cache instance for progression analysis explanations
- * Shared across all analyze() calls for maximum cache efficiency
- */
-const progressionExplanationCache = new HybridCache()
-
-/**
- * Shared model loading promise for concurrency control
- * Reused from chord-explain.ts pattern
- */
-let modelLoadPromise: Promise<void> | null = null
-let isLoadingModel = false
+  createExplanationStream,
+  isExplanationPlan,
+  runExplanation,
+  type ExplanationPlan,
+} from './explain-runner'
 
 /**
  * Sentinel value for invalid progression analysis
@@ -38,6 +32,7 @@ const INVALID_PROGRESSION: ProgressionAnalysis = {
   key: 'Unknown',
   confidence: 0,
   analysis: [],
+  keyRegions: [],
   patterns: [],
   genrePatterns: [],
   suggestedGenres: [],
@@ -47,60 +42,6 @@ const INVALID_PROGRESSION: ProgressionAnalysis = {
   loopable: false,
 }
 
-/**
- * Ensures the AI model is loaded before generating explanations.
- * Implements polling loop pattern to avoid recursive stack buildup (Fix #3)
- */
-async function ensureModelLoaded(): Promise<void> {
-  // Fast path: model already loaded
-  if (isModelLoaded()) {
-    return
-  }
-
-  // Wait pattern: load in progress, reuse existing promise
-  if (modelLoadPromise) {
-    return modelLoadPromise
-  }
-
-  // Race condition protection: another call might be setting up the promise
-  if (isLoadingModel) {
-    // Spin-wait for the promise to be created (should be near-instant)
-    // Max 1 second wait (100 iterations * 10ms) to prevent infinite loop edge case
-    let spinCount = 0
-    const MAX_SPIN_ITERATIONS = 100
-
-    // ESLint thinks modelLoadPromise is always falsy here, but concurrent calls can modify it
-    while (spinCount < MAX_SPIN_ITERATIONS) {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      if (modelLoadPromise) {
-        return modelLoadPromise
-      }
-      await new Promise((resolve) => setTimeout(resolve, 10))
-      spinCount++
-    }
-
-    // Final check after spin-wait completes
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (modelLoadPromise) {
-      return modelLoadPromise
-    }
-  }
-
-  // Atomic load initiation
-  isLoadingModel = true
-  modelLoadPromise = loadModel()
-    .then(() => {
-      isLoadingModel = false
-    })
-    .catch((err: unknown) => {
-      isLoadingModel = false
-      modelLoadPromise = null // Reset to allow retry
-      throw err
-    })
-
-  return modelLoadPromise
-}
-
 /**
  * Generates a normalized cache key for progression explanations
  *
@@ -122,7 +63,7 @@ async function ensureModelLoaded(): Promise<void> {
  * // Returns: "I-IV-V-I-temp0.7-tokens150"
  * ```
  */
-function generateProgressionCacheKey(chords: string[], options: Required<ExplainOptions>): string {
+function generateProgressionCacheKey(chords: string[], options: ResolvedExplainOptions): string {
   // Join chords with hyphens (preserve original case/accidentals)
   const chordsKey = chords.join('-')
 
@@ -188,6 +129,56 @@ export async function analyze(
   chords: string[],
   options?: Partial<ExplainOptions>
 ): Promise<ExplanationResult<ProgressionAnalysis>> {
+  const prepared = prepare(chords, options)
+  if (!isExplanationPlan(prepared)) {
+    return prepared
+  }
+
+  // Cache check, AI inference, cache storage and fallback (shared with analyzeStream)
+  return runExplanation(prepared)
+}
+
+/**
+ * Streams a progression analysis explanation as it is generated.
+ *
+ * @param chords - Array of chord symbols (e.g., ["Dm7", "G7", "Cmaj7"])
+ * @param options - Optional configuration for AI inference, caching, token callback and cancellation
+ * @returns Stream of text chunks; `result` resolves to the same ExplanationResult as analyze()
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const stream = progression.analyzeStream(['Dm7', 'G7', 'Cmaj7'], {
+ *   signal: controller.signal,
+ * });
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk);
+ * }
+ * console.log((await stream.result).data.key); // "C major"
+ * ```
+ */
+export function analyzeStream(
+  chords: string[],
+  options?: Partial<ExplainStreamOptions>
+): ExplanationStream<ProgressionAnalysis> {
+  const { onToken, ...explainOptions } = options ?? {}
+  return createExplanationStream(prepare(chords, explainOptions), { onToken })
+}
+
+/**
+ * Validates input and analyzes the progression, ready for explanation.
+ *
+ * @param chords - Array of chord symbols
+ * @param options - Optional configuration for AI inference and caching
+ * @returns Explanation plan, or the final result if input is invalid
+ *
+ * @internal
+ */
+function prepare(
+  chords: string[],
+  options?: Partial<ExplainOptions>
+): ExplanationPlan<ProgressionAnalysis> | ExplanationResult<ProgressionAnalysis> {
   // Input validation - Runtime safety for JavaScript callers
   if (!Array.isArray(chords)) {
     return {
@@ -245,14 +236,21 @@ export async function analyze(
     }
   }
 
+  // The signal belongs to this call only (never merged, cached or part of the cache key)
+  const { signal, ...explainOptions } = options ?? {}
+
   // Merge with defaults
-  const mergedOptions: Required<ExplainOptions> = {
+  const mergedOptions: ResolvedExplainOptions = {
     ...DEFAULT_EXPLAIN_OPTIONS,
-    ...options,
+    ...explainOptions,
   }
 
+  // Resolve the explanation backend once so the whole call uses the same provider
+  const provider = getExplanationProvider()
+
   // Generate cache key (using trimmed values for consistency)
-  const cacheKey = generateProgressionCacheKey(trimmedChords, mergedOptions)
+  // Scoped by provider so one backend's text is never served for another
+  const cacheKey = `${provider.name}:${generateProgressionCacheKey(trimmedChords, mergedOptions)}`
 
   // Deterministic progression analysis (ALWAYS execute, even if AI fails)
   let progressionData: ProgressionAnalysis
@@ -270,54 +268,38 @@ export async function analyze(
     }
   }
 
-  // Check cache first (if enabled)
-  if (mergedOptions.useCache) {
-    const cached = progressionExplanationCache.get(cacheKey)
-    if (cached) {
-      return {
-        data: progressionData,
-        explanation: cached.explanation,
-      }
-    }
-  }
+  // T068: Integrate genre context into AI prompt
+  // Build genre-aware prompt based on detected patterns
+  let genreContext = ''
+  if (progressionData.suggestedGenres.length > 0) {
+    const topGenre = progressionData.suggestedGenres[0]
 
-  // AI explanation generation
-  try {
-    // Load model if needed
-    await ensureModelLoaded()
-
-    // T068: Integrate genre context into AI prompt
-    // Build genre-aware prompt based on detected patterns
-    let genreContext = ''
-    if (progressionData.suggestedGenres.length > 0) {
-      const topGenre = progressionData.suggestedGenres[0]
-
-      // TypeScript needs explicit null check for array indexing (noUncheckedIndexedAccess)
-      // ESLint sees this as unnecessary (length > 0 guarantees element), but TS type system requires it
-      if (topGenre) {
-        genreContext = `\nDetected genre: ${topGenre.genre} (${(topGenre.confidence * 100).toFixed(0)}% confidence)`
+    // TypeScript needs explicit null check for array indexing (noUncheckedIndexedAccess)
+    // ESLint sees this as unnecessary (length > 0 guarantees element), but TS type system requires it
+    if (topGenre) {
+      genreContext = `\nDetected genre: ${topGenre.genre} (${(topGenre.confidence * 100).toFixed(0)}% confidence)`
 
-        // matchedPatterns is always an array (never undefined) per type definition
-        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-        if (topGenre.matchedPatterns && topGenre.matchedPatterns.length > 0) {
-          const pattern = topGenre.matchedPatterns[0]
-
-          // Same TypeScript/ESLint mismatch for pattern array indexing
-          if (pattern) {
-            genreContext += `\nPattern: ${pattern.pattern}` // pattern.pattern is the Roman numeral sequence
-            if (pattern.description) {
-              genreContext += ` - ${pattern.description}`
-            }
-            if (pattern.examples && pattern.examples.length > 0) {
-              genreContext += `\nExample songs: ${pattern.examples.slice(0, 2).join(', ')}`
-            }
+      // matchedPatterns is always an array (never undefined) per type definition
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+      if (topGenre.matchedPatterns && topGenre.matchedPatterns.length > 0) {
+        const pattern = topGenre.matchedPatterns[0]
+
+        // Same TypeScript/ESLint mismatch for pattern array indexing
+        if (pattern) {
+          genreContext += `\nPattern: ${pattern.pattern}` // pattern.pattern is the Roman numeral sequence
+          if (pattern.description) {
+            genreContext += ` - ${pattern.description}`
+          }
+          if (pattern.examples && pattern.examples.length > 0) {
+            genreContext += `\nExample songs: ${pattern.examples.slice(0, 2).join(', ')}`
           }
         }
       }
     }
+  }
 
-    // Construct prompt for progression explanation
-    const prompt = `Analyze this chord progression: ${trimmedChords.join(' → ')}
+  // Construct prompt for progression explanation
+  const prompt = `Analyze this chord progression: ${trimmedChords.join(' → ')}
 
 Key: ${progressionData.key} (confidence: ${(progressionData.confidence * 100).toFixed(0)}%)${genreContext}
 
@@ -331,88 +313,77 @@ Explain this progression in 3-5 sentences. Include:
 
 Be specific and educational, but avoid overly technical jargon.`
 
-    // Forward timeout to @music-reasoning/ai-local (it handles timeout internally)
-    const inferenceOptions: InferenceOptions = {
-      temperature: mergedOptions.temperature,
-      maxTokens: mergedOptions.maxTokens,
-      timeoutMs: mergedOptions.timeout, // Forward user's timeout to AI layer
-    }
-
-    const explanation = await generateExplanation(prompt, inferenceOptions)
-
-    // Cache the result
-    if (mergedOptions.useCache) {
-      const cacheEntry: CacheEntry = {
-        key: cacheKey,
-        explanation,
-        timestamp: Date.now(),
-        lastAccessed: Date.now(),
-        options: mergedOptions,
-      }
-      progressionExplanationCache.set(cacheEntry)
-    }
-
-    return {
+  return {
+    data: progressionData,
+    request: {
+      kind: 'progression',
+      prompt,
       data: progressionData,
-      explanation,
-    }
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err))
-
-    // Enhanced error categorization (matches chord-explain.ts pattern)
-    // Check timeout FIRST (most specific error)
-    if (error.message.toLowerCase().includes('timeout')) {
-      return {
-        data: progressionData,
-        error: createExplanationError(
-          'TIMEOUT',
-          `AI inference timeout after ${String(mergedOptions.timeout)}ms`,
-          `Increase timeout option or use faster hardware (current: ${String(mergedOptions.timeout)}ms, try: ${String(mergedOptions.timeout * 2)}ms)`
-        ),
-      }
-    } else if (
-      error.message.toLowerCase().includes('model') ||
-      error.message.toLowerCase().includes('not found')
-    ) {
-      return {
-        data: progressionData,
-        error: createExplanationError(
-          'MODEL_UNAVAILABLE',
-          'AI model not found or failed to load',
-          'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
-        ),
-      }
-    } else if (
-      error.message.toLowerCase().includes('memory') ||
-      error.message.toLowerCase().includes('ram')
-    ) {
-      return {
-        data: progressionData,
-        error: createExplanationError(
-          'INSUFFICIENT_RAM',
-          'Insufficient memory to load AI model',
-          'Close other applications or use a machine with 4GB+ available RAM'
-        ),
-      }
-    } else if (error.message.toLowerCase().includes('corrupt')) {
-      return {
-        data: progressionData,
-        error: createExplanationError(
-          'CORRUPTED_MODEL',
-          'AI model file corrupted or invalid',
-          'Re-download the v4.5 model (2.2GB) or verify file integrity'
-        ),
-      }
-    }
+      options: {
+        temperature: mergedOptions.temperature,
+        maxTokens: mergedOptions.maxTokens,
+        timeoutMs: mergedOptions.timeout,
+        signal,
+      },
+    },
+    provider,
+    cache: getExplanationCache('progression'),
+    cacheKey,
+    options: mergedOptions,
+    categorizeError: (err) => categorizeError(err, mergedOptions.timeout),
+  }
+}
 
+/**
+ * Maps a provider failure to an ExplanationError for graceful degradation.
+ *
+ * @param err - Error thrown by the provider
+ * @param timeout - Timeout in effect (for the TIMEOUT message)
+ * @returns Categorized error
+ *
+ * @internal
+ */
+function categorizeError(err: unknown, timeout: number): ExplanationError {
+  const error = err instanceof Error ? err : new Error(String(err))
+
+  // Enhanced error categorization (matches chord-explain.ts pattern)
+  // Check timeout FIRST (most specific error)
+  if (error.message.toLowerCase().includes('timeout')) {
+    return createExplanationError(
+      'TIMEOUT',
+      `AI inference timeout after ${String(timeout)}ms`,
+      `Increase timeout option or use faster hardware (current: ${String(timeout)}ms, try: ${String(timeout * 2)}ms)`
+    )
+  } else if (
+    error.message.toLowerCase().includes('model') ||
+    error.message.toLowerCase().includes('not found')
+  ) {
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      'AI model not found or failed to load',
+      'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
+    )
+  } else if (
+    error.message.toLowerCase().includes('memory') ||
+    error.message.toLowerCase().includes('ram')
+  ) {
+    return createExplanationError(
+      'INSUFFICIENT_RAM',
+      'Insufficient memory to load AI model',
+      'Close other applications or use a machine with 4GB+ available RAM'
+    )
+  } else if (error.message.toLowerCase().includes('corrupt')) {
+    return createExplanationError(
+      'CORRUPTED_MODEL',
+      'AI model file corrupted or invalid',
+      'Re-download the v4.5 model (2.2GB) or verify file integrity'
+    )
+  } else {
     // Unknown AI error
-    return {
-      data: progressionData,
-      error: createExplanationError(
-        'MODEL_UNAVAILABLE',
-        `AI error: ${error.message}`,
-        'Continue using deterministic progression analysis or check logs for details'
-      ),
-    }
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      `AI error: ${error.message}`,
+      'Continue using deterministic progression analysis or check logs for details'
+    )
   }
 }
@@ -4,15 +4,45 @@
  * and adds AI-powered explanation capabilities
  */
 
-import { detectGenre as coreDetectGenre } from '@music-reasoning/core'
-import { analyze } from './progression-analyze'
+import {
+  annotateMusicXml,
+  detectForm,
+  detectGenre as coreDetectGenre,
+  exportMusicXml,
+  generateProgression,
+  harmonizeMelody,
+  importMusicXml,
+  parseChordPro,
+  parseLeadSheet,
+  serializeChordPro,
+  serializeLeadSheet,
+} from '@music-reasoning/core'
+import { analyze, analyzeStream } from './progression-analyze'
 
 // Deterministic progression analysis (from core)
 export { analyzeProgression } from '@music-reasoning/core'
 
+// Song form detection (from core)
+export { detectForm } from '@music-reasoning/core'
+
+// Deterministic melody harmonization (from core)
+export { harmonizeMelody } from '@music-reasoning/core'
+
+// Lead sheet text charts (from core)
+export { parseLeadSheet, serializeLeadSheet } from '@music-reasoning/core'
+
+// ChordPro songs (from core)
+export { parseChordPro, serializeChordPro } from '@music-reasoning/core'
+
+// MusicXML scores (from core)
+export { importMusicXml, exportMusicXml, annotateMusicXml } from '@music-reasoning/core'
+
 // AI-powered analysis (T069 - User Story 5)
 export { analyze as analyzeProgressionWithAI } from './progression-analyze'
 
+// Streaming analysis
+export { analyzeStream as analyzeProgressionWithAIStream } from './progression-analyze'
+
 /**
  * Progression API namespace
  * Provides ergonomic access to progression analysis and genre detection functions
@@ -33,6 +63,14 @@ export const progression = {
    */
   analyze,
 
+  /**
+   * Stream a progression explanation as it is generated
+   * @param chords - Array of chord symbols (e.g., ['Dm7', 'G7', 'Cmaj7'])
+   * @param options - Optional configuration (onToken, signal, temperature, etc.)
+   * @returns Async iterable of text chunks with the final result
+   */
+  analyzeStream,
+
   /**
    * Detect genres from chord progression (deterministic, no AI)
    * @param chords - Array of chord symbols
@@ -43,4 +81,85 @@ export const progression = {
    * For complete analysis, use `analyze()` instead.
    */
   detectGenre: coreDetectGenre,
+
+  /**
+   * Detect the sections and form of a progression (deterministic, no AI)
+   * @param progression - Chord symbols (one bar each) or timed chords
+   * @param options - Meter and section length
+   * @returns Labeled sections with roles, the named form (AABA, 12-bar blues, verse/chorus, ...) and section similarity
+   */
+  detectForm,
+
+  /**
+   * Harmonize a melody with ranked chord progressions (deterministic, no AI)
+   * @param melody - Melody notes with durations in beats, note names or MIDI numbers
+   * @param options - Optional key, genre, harmonic rhythm, time signature and limit
+   * @returns Harmonizations sorted by score (best first)
+   *
+   * @remarks
+   * Pass a harmonization's `chords` to `analyze()` for an explanation of the result.
+   */
+  harmonize: harmonizeMelody,
+
+  /**
+   * Generate a progression from a genre's patterns (deterministic for a given seed, no AI)
+   * @param options - Key, genre, length, closing cadence and seed
+   * @returns Chords, Roman numerals, the patterns used and the closing cadence
+   */
+  generate: generateProgression,
+
+  /**
+   * Parse a plain-text chord chart into sections, bars and timed chords (deterministic, no AI)
+   * @param text - Chart text (e.g., '[A]\n| C | Am7 | Dm7 G7 | C |')
+   * @param options - Meter for charts without a `Time:` line
+   * @returns Sections with their bars, and progressions ready for `analyzeProgression()`
+   */
+  parseLeadSheet,
+
+  /**
+   * Write a lead sheet back to chart text
+   * @param sheet - Lead sheet, usually from `parseLeadSheet()`
+   * @param options - Bars per line
+   * @returns Chart text
+   */
+  serializeLeadSheet,
+
+  /**
+   * Parse a ChordPro song into metadata, sections and lyrics-aligned chords (deterministic, no AI)
+   * @param text - ChordPro file contents
+   * @returns Song with its chords in order, ready for `analyzeProgression()`
+   */
+  parseChordPro,
+
+  /**
+   * Write a song back to ChordPro, optionally transposed or annotated with Roman numerals
+   * @param song - Song, usually from `parseChordPro()`
+   * @param options - Target key and Roman numeral annotation
+   * @returns ChordPro text
+   */
+  serializeChordPro,
+
+  /**
+   * Read the chords of a MusicXML score from its harmonies or notes, and analyze them (deterministic, no AI)
+   * @param xml - MusicXML text (score-partwise)
+   * @param options - Chord source, part and note filtering
+   * @returns Chords by measure and beat, the timed progression and its analysis
+   */
+  importMusicXml,
+
+  /**
+   * Write a progression as a MusicXML lead sheet with Roman numeral annotations
+   * @param progression - Chord symbols (one bar each) or timed chords
+   * @param options - Title, meter, key and annotations
+   * @returns MusicXML text
+   */
+  exportMusicXml,
+
+  /**
+   * Add the harmonic analysis of a MusicXML score to the score
+   * @param xml - MusicXML text (score-partwise)
+   * @param options - Chord source, part, key and annotations
+   * @returns Annotated MusicXML text
+   */
+  annotateMusicXml,
 }
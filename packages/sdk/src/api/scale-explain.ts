@@ -4,31 +4,25 @@
  */
 
 import type { ScaleInfo } from '@music-reasoning/types'
-import type { ExplainOptions, ExplanationResult } from '../types/explain'
+import type {
+  ExplainOptions,
+  ExplainStreamOptions,
+  ExplanationResult,
+  ExplanationStream,
+  ResolvedExplainOptions,
+} from '../types/explain'
 import { DEFAULT_EXPLAIN_OPTIONS } from '../types/explain'
 import { validateExplainOptions, createExplanationError } from '../types/errors'
-import { HybridCache } from '../cache/cache-manager'
-import type { CacheEntry } from '../cache/types'
+import type { ExplanationError } from '../types/errors'
+import { getExplanationCache } from '../cache/registry'
 import { getScale } from '@music-reasoning/core'
+import { getExplanationProvider } from '../providers/registry'
 import {
-  generateExplanation,
-  loadModel,
-  isModelLoaded,
-  type InferenceOptions,
-} from '@music-reasoning/ai-local'
-
-/**
- * Singleton cache instance for scale explanation caching
- * Shared across all explain() calls for maximum cache efficiency
- */
-const scaleExplanationCache = new HybridCache()
-
-/**
- * Shared model loading promise for concurrency control
- * Reused from chord-explain.ts pattern
- */
-let modelLoadPromise: Promise<void> | null = null
-let isLoadingModel = false
+  createExplanationStream,
+  isExplanationPlan,
+  runExplanation,
+  type ExplanationPlan,
+} from './explain-runner'
 
 /**
  * Sentinel value for invalid scale information
@@ -45,60 +39,6 @@ const INVALID_SCALE: ScaleInfo = {
   modes: [],
 }
 
-/**
- * Ensures the AI model is loaded before generating explanations.
- * Implements polling loop pattern to avoid recursive stack buildup (Fix #3)
- */
-async function ensureModelLoaded(): Promise<void> {
-  // Fast path: model already loaded
-  if (isModelLoaded()) {
-    return
-  }
-
-  // Wait pattern: load in progress, reuse existing promise
-  if (modelLoadPromise) {
-    return modelLoadPromise
-  }
-
-  // Race condition protection: another call might be setting up the promise
-  if (isLoadingModel) {
-    // Spin-wait for the promise to be created (should be near-instant)
-    // Max 1 second wait (100 iterations * 10ms) to prevent infinite loop edge case
-    let spinCount = 0
-    const MAX_SPIN_ITERATIONS = 100
-
-    // ESLint thinks modelLoadPromise is always falsy here, but concurrent calls can modify it
-    while (spinCount < MAX_SPIN_ITERATIONS) {
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      if (modelLoadPromise) {
-        return modelLoadPromise
-      }
-      await new Promise((resolve) => setTimeout(resolve, 10))
-      spinCount++
-    }
-
-    // Final check after spin-wait completes
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (modelLoadPromise) {
-      return modelLoadPromise
-    }
-  }
-
-  // Atomic load initiation
-  isLoadingModel = true
-  modelLoadPromise = loadModel()
-    .then(() => {
-      isLoadingModel = false
-    })
-    .catch((err: unknown) => {
-      isLoadingModel = false
-      modelLoadPromise = null // Reset to allow retry
-      throw err
-    })
-
-  return modelLoadPromise
-}
-
 /**
  * Generates a normalized cache key for scale explanations
  *
@@ -125,7 +65,7 @@ async function ensureModelLoaded(): Promise<void> {
 function generateScaleCacheKey(
   root: string,
   scaleType: string,
-  options: Required<ExplainOptions>
+  options: ResolvedExplainOptions
 ): string {
   // Normalize root: uppercase first letter, preserve accidentals
   const normalizedRoot = root.charAt(0).toUpperCase() + root.slice(1)
@@ -189,6 +129,56 @@ export async function explain(
   scaleType: string,
   options?: Partial<ExplainOptions>
 ): Promise<ExplanationResult<ScaleInfo>> {
+  const prepared = prepare(root, scaleType, options)
+  if (!isExplanationPlan(prepared)) {
+    return prepared
+  }
+
+  // Cache check, AI inference, cache storage and fallback (shared with explainStream)
+  return runExplanation(prepared)
+}
+
+/**
+ * Streams a scale explanation as it is generated.
+ *
+ * @param root - Root note of the scale (e.g., "C", "F#", "Bb")
+ * @param scaleType - Type of scale (e.g., "major", "minor", "dorian", "pentatonic")
+ * @param options - Optional configuration for AI inference, caching, token callback and cancellation
+ * @returns Stream of text chunks; `result` resolves to the same ExplanationResult as explain()
+ *
+ * @example
+ * ```typescript
+ * const stream = scale.explainStream('D', 'dorian');
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk);
+ * }
+ * console.log((await stream.result).data.notes); // ['D', 'E', 'F', 'G', 'A', 'B', 'C']
+ * ```
+ */
+export function explainStream(
+  root: string,
+  scaleType: string,
+  options?: Partial<ExplainStreamOptions>
+): ExplanationStream<ScaleInfo> {
+  const { onToken, ...explainOptions } = options ?? {}
+  return createExplanationStream(prepare(root, scaleType, explainOptions), { onToken })
+}
+
+/**
+ * Validates input and looks up the scale, ready for explanation.
+ *
+ * @param root - Root note of the scale
+ * @param scaleType - Type of scale
+ * @param options - Optional configuration for AI inference and caching
+ * @returns Explanation plan, or the final result if input is invalid
+ *
+ * @internal
+ */
+function prepare(
+  root: string,
+  scaleType: string,
+  options?: Partial<ExplainOptions>
+): ExplanationPlan<ScaleInfo> | ExplanationResult<ScaleInfo> {
   // Input validation
   if (!root || typeof root !== 'string' || root.trim().length === 0) {
     return {
@@ -236,14 +226,21 @@ export async function explain(
     }
   }
 
+  // The signal belongs to this call only (never merged, cached or part of the cache key)
+  const { signal, ...explainOptions } = options ?? {}
+
   // Merge with defaults
-  const mergedOptions: Required<ExplainOptions> = {
+  const mergedOptions: ResolvedExplainOptions = {
     ...DEFAULT_EXPLAIN_OPTIONS,
-    ...options,
+    ...explainOptions,
   }
 
+  // Resolve the explanation backend once so the whole call uses the same provider
+  const provider = getExplanationProvider()
+
   // Generate cache key (using trimmed values for consistency)
-  const cacheKey = generateScaleCacheKey(trimmedRoot, trimmedType, mergedOptions)
+  // Scoped by provider so one backend's text is never served for another
+  const cacheKey = `${provider.name}:${generateScaleCacheKey(trimmedRoot, trimmedType, mergedOptions)}`
 
   // Deterministic scale lookup (ALWAYS execute, even if AI fails)
   let scaleData: ScaleInfo
@@ -261,24 +258,8 @@ export async function explain(
     }
   }
 
-  // Check cache first (if enabled)
-  if (mergedOptions.useCache) {
-    const cached = scaleExplanationCache.get(cacheKey)
-    if (cached) {
-      return {
-        data: scaleData,
-        explanation: cached.explanation,
-      }
-    }
-  }
-
-  // AI explanation generation
-  try {
-    // Load model if needed
-    await ensureModelLoaded()
-
-    // Construct prompt for scale explanation
-    const prompt = `Explain the ${scaleData.scale} scale in 2-4 sentences. Include:
+  // Construct prompt for scale explanation
+  const prompt = `Explain the ${scaleData.scale} scale in 2-4 sentences. Include:
 1. The scale formula (${scaleData.formula})
 2. Its characteristic sound and mood
 3. Common usage in music
@@ -287,88 +268,77 @@ export async function explain(
 Notes: ${scaleData.notes.join(', ')}
 Intervals: ${scaleData.intervals.join(', ')}`
 
-    // Forward timeout to @music-reasoning/ai-local (it handles timeout internally)
-    const inferenceOptions: InferenceOptions = {
-      temperature: mergedOptions.temperature,
-      maxTokens: mergedOptions.maxTokens,
-      timeoutMs: mergedOptions.timeout, // Forward user's timeout to AI layer
-    }
-
-    const explanation = await generateExplanation(prompt, inferenceOptions)
-
-    // Cache the result
-    if (mergedOptions.useCache) {
-      const cacheEntry: CacheEntry = {
-        key: cacheKey,
-        explanation,
-        timestamp: Date.now(),
-        lastAccessed: Date.now(),
-        options: mergedOptions,
-      }
-      scaleExplanationCache.set(cacheEntry)
-    }
-
-    return {
+  return {
+    data: scaleData,
+    request: {
+      kind: 'scale',
+      prompt,
       data: scaleData,
-      explanation,
-    }
-  } catch (err) {
-    const error = err instanceof Error ? err : new Error(String(err))
+      options: {
+        temperature: mergedOptions.temperature,
+        maxTokens: mergedOptions.maxTokens,
+        timeoutMs: mergedOptions.timeout,
+        signal,
+      },
+    },
+    provider,
+    cache: getExplanationCache('scale'),
+    cacheKey,
+    options: mergedOptions,
+    categorizeError: (err) => categorizeError(err, mergedOptions.timeout),
+  }
+}
 
-    // Enhanced error categorization (matches chord-explain.ts pattern)
-    // Check timeout FIRST (most specific error)
-    if (error.message.toLowerCase().includes('timeout')) {
-      return {
-        data: scaleData,
-        error: createExplanationError(
-          'TIMEOUT',
-          `AI inference timeout after ${String(mergedOptions.timeout)}ms`,
-          `Increase timeout option or use faster hardware (current: ${String(mergedOptions.timeout)}ms, try: ${String(mergedOptions.timeout * 2)}ms)`
-        ),
-      }
-    } else if (
-      error.message.toLowerCase().includes('model') ||
-      error.message.toLowerCase().includes('not found')
-    ) {
-      return {
-        data: scaleData,
-        error: createExplanationError(
-          'MODEL_UNAVAILABLE',
-          'AI model not found or failed to load',
-          'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
-        ),
-      }
-    } else if (
-      error.message.toLowerCase().includes('memory') ||
-      error.message.toLowerCase().includes('ram')
-    ) {
-      return {
-        data: scaleData,
-        error: createExplanationError(
-          'INSUFFICIENT_RAM',
-          'Insufficient memory to load AI model',
-          'Close other applications or use a machine with 4GB+ available RAM'
-        ),
-      }
-    } else if (error.message.toLowerCase().includes('corrupt')) {
-      return {
-        data: scaleData,
-        error: createExplanationError(
-          'CORRUPTED_MODEL',
-          'AI model file corrupted or invalid',
-          'Re-download the v4.5 model (2.2GB) or verify file integrity'
-        ),
-      }
-    }
+/**
+ * Maps a provider failure to an ExplanationError for graceful degradation.
+ *
+ * @param err - Error thrown by the provider
+ * @param timeout - Timeout in effect (for the TIMEOUT message)
+ * @returns Categorized error
+ *
+ * @internal
+ */
+function categorizeError(err: unknown, timeout: number): ExplanationError {
+  const error = err instanceof Error ? err : new Error(String(err))
 
+  // Enhanced error categorization (matches chord-explain.ts pattern)
+  // Check timeout FIRST (most specific error)
+  if (error.message.toLowerCase().includes('timeout')) {
+    return createExplanationError(
+      'TIMEOUT',
+      `AI inference timeout after ${String(timeout)}ms`,
+      `Increase timeout option or use faster hardware (current: ${String(timeout)}ms, try: ${String(timeout * 2)}ms)`
+    )
+  } else if (
+    error.message.toLowerCase().includes('model') ||
+    error.message.toLowerCase().includes('not found')
+  ) {
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      'AI model not found or failed to load',
+      'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
+    )
+  } else if (
+    error.message.toLowerCase().includes('memory') ||
+    error.message.toLowerCase().includes('ram')
+  ) {
+    return createExplanationError(
+      'INSUFFICIENT_RAM',
+      'Insufficient memory to load AI model',
+      'Close other applications or use a machine with 4GB+ available RAM'
+    )
+  } else if (error.message.toLowerCase().includes('corrupt')) {
+    return createExplanationError(
+      'CORRUPTED_MODEL',
+      'AI model file corrupted or invalid',
+      'Re-download the v4.5 model (2.2GB) or verify file integrity'
+    )
+  } else {
     // Unknown AI error
-    return {
-      data: scaleData,
-      error: createExplanationError(
-        'MODEL_UNAVAILABLE',
-        `AI error: ${error.message}`,
-        'Continue using deterministic scale data or check logs for details'
-      ),
-    }
+    return createExplanationError(
+      'MODEL_UNAVAILABLE',
+      `AI error: ${error.message}`,
+      'Continue using deterministic scale data or check logs for details'
+    )
   }
 }
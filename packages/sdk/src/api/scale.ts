@@ -5,7 +5,7 @@
  */
 
 import { getScale as coreGetScale } from '@music-reasoning/core'
-import { explain } from './scale-explain'
+import { explain, explainStream } from './scale-explain'
 
 // Deterministic scale generation (from core)
 export { getScale } from '@music-reasoning/core'
@@ -13,6 +13,9 @@ export { getScale } from '@music-reasoning/core'
 // AI-powered explanations (T064 - User Story 5)
 export { explain as explainScale } from './scale-explain'
 
+// Streaming explanations
+export { explainStream as explainScaleStream } from './scale-explain'
+
 /**
  * Scale API namespace
  * Provides ergonomic access to scale generation and explanation functions
@@ -34,4 +37,13 @@ export const scale = {
    * @returns Scale data + AI explanation
    */
   explain,
+
+  /**
+   * Stream a scale explanation as it is generated
+   * @param root - Root note (e.g., 'C', 'D')
+   * @param type - Scale type (e.g., 'major', 'minor', 'dorian')
+   * @param options - Optional configuration (onToken, signal, temperature, etc.)
+   * @returns Async iterable of text chunks with the final result
+   */
+  explainStream,
 }
@@ -1,5 +1,14 @@
-import type { CacheEntry, CacheConfig, CacheStats } from './types'
+import type {
+  CacheEntry,
+  CacheConfig,
+  CacheImportOptions,
+  CacheImportResult,
+  CacheSnapshot,
+  CacheStats,
+  CacheStorage,
+} from './types'
 import { DEFAULT_CACHE_CONFIG } from './types'
+import { createMemoryCacheStorage, isCacheEntry } from './storage'
 
 /**
  * Hybrid LRU cache with TTL eviction for AI-generated explanations.
@@ -18,10 +27,15 @@ import { DEFAULT_CACHE_CONFIG } from './types'
  * - ~500 bytes per entry (key + explanation + metadata)
  * - 1000 entries ≈ 500KB-1MB total
  *
- * **Why Map (not WeakMap):**
- * - Cache keys are strings (primitives), WeakMap only supports objects
- * - Need explicit eviction control (TTL + LRU)
- * - Map maintains insertion order → easy LRU via iterator
+ * **Storage:**
+ * Entries live in a pluggable CacheStorage (in-process Map by default, or a
+ * file/directory backend that survives restarts). TTL, LRU and statistics are
+ * implemented here, so they behave the same on every backend.
+ *
+ * **Versioning:**
+ * Entries are stamped with the model version (`MODEL_CONFIG.modelName` by
+ * default). Entries from another model are discarded, so swapping the model
+ * never serves text generated by the old one.
  *
  * @example
  * ```typescript
@@ -48,7 +62,7 @@ import { DEFAULT_CACHE_CONFIG } from './types'
  * ```
  */
 export class HybridCache {
-  private cache: Map<string, CacheEntry> = new Map()
+  private storage: CacheStorage
   private readonly config: Required<CacheConfig>
 
   // Statistics tracking
@@ -60,12 +74,14 @@ export class HybridCache {
   /**
    * Creates a new HybridCache instance.
    *
-   * @param config - Optional cache configuration (maxSize, ttlMs)
+   * @param config - Optional cache configuration (maxSize, ttlMs, version)
+   * @param storage - Storage backend (default: in-process Map)
    *
    * @remarks
    * Defaults:
    * - maxSize: 1000 entries
    * - ttlMs: 86400000 (24 hours)
+   * - version: `MODEL_CONFIG.modelName`
    *
    * @example
    * ```typescript
@@ -77,13 +93,37 @@ export class HybridCache {
    *   maxSize: 500,    // Smaller cache
    *   ttlMs: 3600000   // 1 hour TTL
    * });
+   *
+   * // Persistent cache
+   * const cache = new HybridCache({}, createFileCacheStorage('./cache/chords.jsonl'));
    * ```
    */
-  constructor(config?: CacheConfig) {
+  constructor(config?: CacheConfig, storage: CacheStorage = createMemoryCacheStorage()) {
     this.config = {
       ...DEFAULT_CACHE_CONFIG,
       ...config,
     }
+    this.storage = storage
+    this.discardOtherVersions()
+  }
+
+  /**
+   * Replaces the storage backend.
+   *
+   * @param storage - New storage backend
+   *
+   * @remarks
+   * Entries in the previous storage are not copied. Entries in the new storage
+   * stamped with another model version are discarded. Statistics are kept.
+   *
+   * @example
+   * ```typescript
+   * cache.setStorage(createDirectoryCacheStorage('./cache/chords'));
+   * ```
+   */
+  setStorage(storage: CacheStorage): void {
+    this.storage = storage
+    this.discardOtherVersions()
   }
 
   /**
@@ -94,11 +134,11 @@ export class HybridCache {
    *
    * @remarks
    * **Behavior:**
-   * 1. Lookup entry in Map (O(1))
-   * 2. If not found → MISS (return undefined)
+   * 1. Lookup entry in storage (O(1))
+   * 2. If not found or from another model version → MISS (return undefined)
    * 3. If found → TTL check (lazy eviction)
    * 4. If expired → EVICT + MISS (return undefined)
-   * 5. If valid → LRU update (move to end) + HIT (return entry)
+   * 5. If valid → LRU update (persist lastAccessed) + HIT (return entry)
    *
    * **TTL Check Formula:**
    * ```
@@ -107,10 +147,9 @@ export class HybridCache {
    * ```
    *
    * **LRU Update:**
-   * Map maintains insertion order, so we:
-   * 1. Delete entry (removes from current position)
-   * 2. Re-insert entry (adds to end = most recently used)
-   * 3. Update lastAccessed timestamp
+   * 1. Update lastAccessed timestamp
+   * 2. Record the access with the storage's touch() (or store the entry again
+   *    if it has none), so disk backends persist it without rewriting the entry
    *
    * @example
    * ```typescript
@@ -125,26 +164,36 @@ export class HybridCache {
    * ```
    */
   get(key: string): CacheEntry | undefined {
-    const entry = this.cache.get(key)
+    const entry = this.storage.get(key)
 
     if (!entry) {
       this.misses++
       return undefined
     }
 
+    // Generated by another model: its text no longer applies
+    if (entry.version !== this.config.version) {
+      this.storage.delete(key)
+      this.misses++
+      return undefined
+    }
+
     // Lazy TTL check
     const age = Date.now() - entry.timestamp
     if (age > this.config.ttlMs) {
-      this.cache.delete(key)
+      this.storage.delete(key)
       this.ttlEvictions++
       this.misses++
       return undefined
     }
 
-    // LRU update: Move to end (most recently used)
-    this.cache.delete(key)
+    // LRU update: record the access (most recently used)
     entry.lastAccessed = Date.now()
-    this.cache.set(key, entry)
+    if (this.storage.touch) {
+      this.storage.touch(key, entry.lastAccessed)
+    } else {
+      this.storage.set(entry)
+    }
 
     this.hits++
     return entry
@@ -157,9 +206,9 @@ export class HybridCache {
    *
    * @remarks
    * **Behavior:**
-   * 1. If key exists → delete (to update order)
+   * 1. If key exists → replace (no eviction)
    * 2. If size >= maxSize → LRU eviction (remove oldest lastAccessed)
-   * 3. Insert new entry (added to end of Map)
+   * 3. Store a copy of the entry stamped with the cache's model version
    *
    * **LRU Eviction Algorithm:**
    * ```typescript
@@ -170,10 +219,6 @@ export class HybridCache {
    * cache.delete(oldest.key);
    * ```
    *
-   * **Why delete-then-insert:**
-   * - Updates entry position in Map (move to end)
-   * - Ensures most recently set entry is at end (LRU order)
-   *
    * @example
    * ```typescript
    * cache.set({
@@ -186,18 +231,15 @@ export class HybridCache {
    * ```
    */
   set(entry: CacheEntry): void {
-    // Remove if exists (to update order)
-    const existed = this.cache.has(entry.key)
-    this.cache.delete(entry.key)
+    const existed = this.storage.get(entry.key) !== undefined
 
     // LRU eviction if at capacity AND this is a NEW entry (not an update)
     // Allow cache to reach exactly maxSize
-    if (!existed && this.cache.size >= this.config.maxSize) {
+    if (!existed && this.storage.size >= this.config.maxSize) {
       this.evictOldest()
     }
 
-    // Insert new entry (added to end = most recently used)
-    this.cache.set(entry.key, entry)
+    this.storage.set({ ...entry, version: this.config.version })
   }
 
   /**
@@ -212,7 +254,7 @@ export class HybridCache {
    * **Complexity:** O(n) where n = cache.size
    *
    * **Why not O(1):**
-   * - Map doesn't maintain sorted order by lastAccessed
+   * - Storage doesn't maintain sorted order by lastAccessed
    * - Could use a priority queue, but O(n) eviction is acceptable:
    *   - Only happens when size > 1000 (rare)
    *   - 1000 iterations ~0.01ms on modern CPUs
@@ -223,19 +265,41 @@ export class HybridCache {
     let oldestKey: string | undefined
     let oldestAccess = Number.MAX_SAFE_INTEGER
 
-    for (const [key, entry] of this.cache.entries()) {
+    for (const entry of this.storage.entries()) {
       if (entry.lastAccessed < oldestAccess) {
         oldestAccess = entry.lastAccessed
-        oldestKey = key
+        oldestKey = entry.key
       }
     }
 
     if (oldestKey) {
-      this.cache.delete(oldestKey)
+      this.storage.delete(oldestKey)
       this.lruEvictions++
     }
   }
 
+  /**
+   * Removes entries generated by another model version.
+   *
+   * @remarks
+   * Runs when a storage is attached, so persisted text from a previous model
+   * is dropped (and no longer counts towards maxSize) before it can be served.
+   *
+   * @private
+   */
+  private discardOtherVersions(): void {
+    const staleKeys: string[] = []
+    for (const entry of this.storage.entries()) {
+      if (entry.version !== this.config.version) {
+        staleKeys.push(entry.key)
+      }
+    }
+
+    for (const key of staleKeys) {
+      this.storage.delete(key)
+    }
+  }
+
   /**
    * Checks if a cache entry exists and is valid (not expired).
    *
@@ -258,20 +322,100 @@ export class HybridCache {
    * ```
    */
   has(key: string): boolean {
-    const entry = this.cache.get(key)
-    if (!entry) return false
+    const entry = this.storage.get(key)
+    if (!entry || entry.version !== this.config.version) return false
 
     // Check TTL without evicting
     const age = Date.now() - entry.timestamp
     return age <= this.config.ttlMs
   }
 
+  /**
+   * Exports valid entries as a serializable snapshot.
+   *
+   * @returns Snapshot of every unexpired entry, stamped with the model version
+   *
+   * @remarks
+   * Read-only: does not update LRU access times, evict, or count hits/misses.
+   *
+   * @example
+   * ```typescript
+   * writeFileSync('explanations.json', JSON.stringify(cache.export()));
+   * ```
+   */
+  export(): CacheSnapshot {
+    const entries: CacheEntry[] = []
+    for (const entry of this.storage.entries()) {
+      if (this.has(entry.key)) {
+        entries.push({ ...entry })
+      }
+    }
+
+    return { format: 1, version: this.config.version, entries }
+  }
+
+  /**
+   * Imports entries from a snapshot created by `export()`.
+   *
+   * @param snapshot - Snapshot to import (e.g., parsed from a bundled JSON file)
+   * @param options - Conflict resolution and timestamp handling
+   * @returns Number of entries imported and skipped
+   *
+   * @remarks
+   * **Skipped entries:**
+   * - Every entry when the snapshot comes from another model version
+   * - Malformed entries
+   * - Entries already expired (unless `refreshTimestamps` is set)
+   * - Conflicts resolved in favour of the cached entry
+   *
+   * Imported entries go through `set()`, so maxSize and LRU eviction apply.
+   * Statistics are not affected.
+   *
+   * @example
+   * ```typescript
+   * const snapshot = JSON.parse(readFileSync('explanations.json', 'utf8'));
+   * cache.import(snapshot, { onConflict: 'keep', refreshTimestamps: true });
+   * ```
+   */
+  import(snapshot: CacheSnapshot, options?: CacheImportOptions): CacheImportResult {
+    const onConflict = options?.onConflict ?? 'newer'
+    const entries: unknown[] = Array.isArray(snapshot.entries) ? snapshot.entries : []
+
+    if (snapshot.format !== 1 || snapshot.version !== this.config.version) {
+      return { imported: 0, skipped: entries.length }
+    }
+
+    const now = Date.now()
+    let imported = 0
+
+    for (const candidate of entries) {
+      if (!isCacheEntry(candidate)) continue
+
+      const entry: CacheEntry = options?.refreshTimestamps
+        ? { ...candidate, timestamp: now, lastAccessed: now }
+        : { ...candidate }
+      if (now - entry.timestamp > this.config.ttlMs) continue
+
+      // Only a valid cached entry is a conflict (expired ones are replaced)
+      const existing = this.has(entry.key) ? this.storage.get(entry.key) : undefined
+      if (existing) {
+        if (onConflict === 'keep') continue
+        if (onConflict === 'newer' && existing.timestamp >= entry.timestamp) continue
+      }
+
+      this.set(entry)
+      imported++
+    }
+
+    return { imported, skipped: entries.length - imported }
+  }
+
   /**
    * Clears all cache entries and resets statistics.
    *
    * @remarks
    * This is a destructive operation:
-   * - Removes ALL cache entries
+   * - Removes ALL cache entries (including persisted ones)
    * - Resets hit/miss counters
    * - Resets eviction counters
    *
@@ -287,7 +431,7 @@ export class HybridCache {
    * ```
    */
   clear(): void {
-    this.cache.clear()
+    this.storage.clear()
     this.hits = 0
     this.misses = 0
     this.ttlEvictions = 0
@@ -307,7 +451,7 @@ export class HybridCache {
    * ```
    */
   get size(): number {
-    return this.cache.size
+    return this.storage.size
   }
 
   /**
@@ -341,7 +485,7 @@ export class HybridCache {
     const hitRate = totalRequests > 0 ? this.hits / totalRequests : 0
 
     return {
-      size: this.cache.size,
+      size: this.storage.size,
       hits: this.hits,
       misses: this.misses,
       ttlEvictions: this.ttlEvictions,
@@ -0,0 +1,133 @@
+import { HybridCache } from './cache-manager'
+import { createMemoryCacheStorage } from './storage'
+import type { CacheImportOptions, CacheImportResult, CacheSnapshot, CacheStorage } from './types'
+
+/**
+ * Names of the explanation caches shared by the explain APIs
+ */
+export type ExplanationCacheName = 'chord' | 'scale' | 'progression'
+
+/**
+ * Snapshots of the explanation caches, keyed by cache name
+ */
+export type ExplanationCacheSnapshot = Partial<Record<ExplanationCacheName, CacheSnapshot>>
+
+/**
+ * Creates the storage backend for one explanation cache
+ */
+export type CacheStorageFactory = (name: ExplanationCacheName) => CacheStorage
+
+/**
+ * Shared caches, created on first use so importing the SDK touches no files
+ */
+const caches = new Map<ExplanationCacheName, HybridCache>()
+
+/**
+ * Configured storage factory, or null for in-process storage
+ */
+let storageFactory: CacheStorageFactory | null = null
+
+/**
+ * Sets where the explain APIs store cached explanations.
+ *
+ * @param factory - Creates the storage for each cache, or null to restore in-process storage
+ *
+ * @remarks
+ * Called once per cache (`'chord'`, `'scale'`, `'progression'`), so each gets
+ * its own file or directory. Entries already cached in memory are not copied
+ * to the new storage. Persisted entries generated by another model version
+ * are discarded when the storage is attached.
+ *
+ * @example
+ * ```typescript
+ * // Keep explanations across restarts
+ * setCacheStorage((name) => createFileCacheStorage(`${cacheDir}/${name}.jsonl`))
+ *
+ * // Back to in-process storage
+ * setCacheStorage(null)
+ * ```
+ */
+export function setCacheStorage(factory: CacheStorageFactory | null): void {
+  storageFactory = factory
+  for (const [name, cache] of caches) {
+    cache.setStorage(createStorage(name))
+  }
+}
+
+/**
+ * Returns the shared explanation cache for one explain API, creating it on first use.
+ *
+ * @param name - Cache name
+ * @returns The cache backed by the configured storage
+ */
+export function getExplanationCache(name: ExplanationCacheName): HybridCache {
+  let cache = caches.get(name)
+  if (!cache) {
+    cache = new HybridCache({}, createStorage(name))
+    caches.set(name, cache)
+  }
+  return cache
+}
+
+/**
+ * Exports the explanations cached by every explain API.
+ *
+ * @returns Snapshot per cache, serializable with `JSON.stringify()`
+ *
+ * @example
+ * ```typescript
+ * await chord.explainBatch(commonChords)
+ * writeFileSync('explanations.json', JSON.stringify(exportCache()))
+ * ```
+ */
+export function exportCache(): ExplanationCacheSnapshot {
+  return {
+    chord: getExplanationCache('chord').export(),
+    scale: getExplanationCache('scale').export(),
+    progression: getExplanationCache('progression').export(),
+  }
+}
+
+/**
+ * Imports explanations exported by `exportCache()` into the explain APIs' caches.
+ *
+ * @param snapshot - Snapshot per cache (caches missing from it are left alone)
+ * @param options - Conflict resolution and timestamp handling
+ * @returns Entries imported and skipped across all caches
+ *
+ * @remarks
+ * Snapshots generated with another model version are skipped entirely.
+ * Imported explanations are served without loading the model.
+ *
+ * @example
+ * ```typescript
+ * // Bundled with the app: instant answers for common chords on first run
+ * importCache(bundledExplanations, { refreshTimestamps: true })
+ * ```
+ */
+export function importCache(
+  snapshot: ExplanationCacheSnapshot,
+  options?: CacheImportOptions
+): CacheImportResult {
+  const total: CacheImportResult = { imported: 0, skipped: 0 }
+
+  for (const name of ['chord', 'scale', 'progression'] as const) {
+    const cacheSnapshot = snapshot[name]
+    if (!cacheSnapshot) continue
+
+    const result = getExplanationCache(name).import(cacheSnapshot, options)
+    total.imported += result.imported
+    total.skipped += result.skipped
+  }
+
+  return total
+}
+
+/**
+ * Creates the storage for a cache from the configured factory.
+ *
+ * @internal
+ */
+function createStorage(name: ExplanationCacheName): CacheStorage {
+  return storageFactory ? storageFactory(name) : createMemoryCacheStorage()
+}
@@ -0,0 +1,380 @@
+/**
+ * Cache storage backends
+ * Key-value stores that HybridCache uses to hold explanation entries
+ */
+
+import {
+  appendFileSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs'
+import { createHash } from 'crypto'
+import { dirname, join } from 'path'
+import type { CacheEntry, CacheStorage } from './types'
+
+/**
+ * One line of the append-only log written by createFileCacheStorage()
+ *
+ * @internal
+ */
+type LogRecord =
+  | { op: 'set'; entry: CacheEntry }
+  | { op: 'touch'; key: string; lastAccessed: number }
+  | { op: 'delete'; key: string }
+
+/**
+ * Minimum number of log lines before the log file is compacted
+ */
+const MIN_COMPACTION_LINES = 100
+
+/**
+ * Names of entry files written by createDirectoryCacheStorage() (`<sha256(key)>.json`)
+ */
+const ENTRY_FILE_PATTERN = /^[0-9a-f]{64}\.json$/
+
+/**
+ * Creates the in-process storage backend (the cache's default).
+ *
+ * @returns Storage that keeps entries in a Map for the lifetime of the process
+ *
+ * @example
+ * ```typescript
+ * const cache = new HybridCache({ maxSize: 500 }, createMemoryCacheStorage())
+ * ```
+ */
+export function createMemoryCacheStorage(): CacheStorage {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    get(key) {
+      return entries.get(key)
+    },
+    set(entry) {
+      // Delete first so Map order follows recency
+      entries.delete(entry.key)
+      entries.set(entry.key, entry)
+    },
+    touch(key, lastAccessed) {
+      const entry = entries.get(key)
+      if (!entry) return
+      entry.lastAccessed = lastAccessed
+      entries.delete(key)
+      entries.set(key, entry)
+    },
+    delete(key) {
+      entries.delete(key)
+    },
+    clear() {
+      entries.clear()
+    },
+    entries() {
+      return entries.values()
+    },
+    get size() {
+      return entries.size
+    },
+  }
+}
+
+/**
+ * Creates a storage backend that persists entries to a single append-only log file.
+ *
+ * @param filePath - Log file path (created with its parent directories if missing)
+ * @returns Storage that survives process restarts
+ *
+ * @remarks
+ * **Format:** One JSON record per line (`set` or `delete`). Replaying the log on
+ * startup rebuilds the entries; a truncated last line (e.g., after a crash) is ignored.
+ *
+ * **Compaction:** Every change appends a line (reads too: a short `touch` record
+ * with the new access time, to persist LRU order), so the log is rewritten with only the live entries once it holds more than
+ * twice as many lines as entries. The rewrite goes through a temporary file and
+ * a rename, so the log is never left half-written.
+ *
+ * **Failures:** If the file cannot be read or written, the storage keeps working
+ * from memory (explain calls never fail because of the cache).
+ *
+ * **One process per file:** The log is read once at creation; processes sharing
+ * a file do not see each other's writes and may lose them on compaction.
+ *
+ * @example
+ * ```typescript
+ * setCacheStorage((name) => createFileCacheStorage(`${cacheDir}/${name}.jsonl`))
+ * ```
+ */
+export function createFileCacheStorage(filePath: string): CacheStorage {
+  const memory = createMemoryCacheStorage()
+  let logLines = 0
+
+  // Replay the existing log
+  const contents = readOptional(filePath)
+  if (contents) {
+    for (const line of contents.split('\n')) {
+      const record = parseJson(line) as LogRecord | undefined
+      if (record?.op === 'set' && isCacheEntry(record.entry)) {
+        memory.set(record.entry)
+        logLines++
+      } else if (
+        record?.op === 'touch' &&
+        typeof record.key === 'string' &&
+        typeof record.lastAccessed === 'number'
+      ) {
+        memory.touch?.(record.key, record.lastAccessed)
+        logLines++
+      } else if (record?.op === 'delete' && typeof record.key === 'string') {
+        memory.delete(record.key)
+        logLines++
+      }
+    }
+  }
+
+  function append(record: LogRecord): void {
+    const written = tryWrite(() => {
+      mkdirSync(dirname(filePath), { recursive: true })
+      appendFileSync(filePath, `${JSON.stringify(record)}\n`)
+    })
+    if (!written) return
+
+    logLines++
+    if (logLines > Math.max(MIN_COMPACTION_LINES, memory.size * 2)) {
+      compact()
+    }
+  }
+
+  function compact(): void {
+    const lines = [...memory.entries()].map(
+      (entry) => `${JSON.stringify({ op: 'set', entry } satisfies LogRecord)}\n`
+    )
+    const written = tryWrite(() => {
+      writeAtomically(filePath, lines.join(''))
+    })
+    if (written) {
+      logLines = lines.length
+    }
+  }
+
+  return {
+    get(key) {
+      return memory.get(key)
+    },
+    set(entry) {
+      memory.set(entry)
+      append({ op: 'set', entry })
+    },
+    touch(key, lastAccessed) {
+      if (!memory.get(key)) return
+      memory.touch?.(key, lastAccessed)
+      append({ op: 'touch', key, lastAccessed })
+    },
+    delete(key) {
+      if (!memory.get(key)) return
+      memory.delete(key)
+      append({ op: 'delete', key })
+    },
+    clear() {
+      memory.clear()
+      logLines = 0
+      tryWrite(() => {
+        rmSync(filePath, { force: true })
+      })
+    },
+    entries() {
+      return memory.entries()
+    },
+    get size() {
+      return memory.size
+    },
+  }
+}
+
+/**
+ * Creates a storage backend that persists each entry as its own file in a directory.
+ *
+ * @param dirPath - Directory for entry files (created if missing)
+ * @returns Storage that survives process restarts
+ *
+ * @remarks
+ * **Layout:** `<sha256(key)>.json` per entry, so any key maps to a safe file
+ * name. Each write replaces one small file (temporary file + rename), which
+ * suits caches that are updated more often than they are restarted. Reads
+ * only set the entry file's modification time to the new `lastAccessed`,
+ * which is restored from it on startup. Other
+ * files in the directory are never read or deleted, not even by `clear()`.
+ *
+ * **Failures:** If the directory cannot be read or written, the storage keeps
+ * working from memory (explain calls never fail because of the cache).
+ *
+ * @example
+ * ```typescript
+ * setCacheStorage((name) => createDirectoryCacheStorage(`${cacheDir}/${name}`))
+ * ```
+ */
+export function createDirectoryCacheStorage(dirPath: string): CacheStorage {
+  const memory = createMemoryCacheStorage()
+
+  // Load every entry file
+  let fileNames: string[] = []
+  try {
+    fileNames = readdirSync(dirPath)
+  } catch {
+    // Missing or unreadable directory: start empty
+  }
+  for (const fileName of fileNames) {
+    if (!ENTRY_FILE_PATTERN.test(fileName)) continue
+    const filePath = join(dirPath, fileName)
+    const entry = parseJson(readOptional(filePath) ?? '')
+    if (isCacheEntry(entry)) {
+      // touch() records reads in the modification time only
+      const modified = readModifiedTime(filePath) ?? 0
+      memory.set({ ...entry, lastAccessed: Math.max(entry.lastAccessed, modified) })
+    }
+  }
+
+  function entryPath(key: string): string {
+    return join(dirPath, `${createHash('sha256').update(key).digest('hex')}.json`)
+  }
+
+  return {
+    get(key) {
+      return memory.get(key)
+    },
+    set(entry) {
+      memory.set(entry)
+      tryWrite(() => {
+        mkdirSync(dirPath, { recursive: true })
+        const filePath = entryPath(entry.key)
+        writeAtomically(filePath, JSON.stringify(entry))
+        setModifiedTime(filePath, entry.lastAccessed)
+      })
+    },
+    touch(key, lastAccessed) {
+      if (!memory.get(key)) return
+      memory.touch?.(key, lastAccessed)
+      tryWrite(() => {
+        setModifiedTime(entryPath(key), lastAccessed)
+      })
+    },
+    delete(key) {
+      memory.delete(key)
+      tryWrite(() => {
+        rmSync(entryPath(key), { force: true })
+      })
+    },
+    clear() {
+      memory.clear()
+      tryWrite(() => {
+        for (const fileName of readdirSync(dirPath)) {
+          if (ENTRY_FILE_PATTERN.test(fileName)) {
+            rmSync(join(dirPath, fileName), { force: true })
+          }
+        }
+      })
+    },
+    entries() {
+      return memory.entries()
+    },
+    get size() {
+      return memory.size
+    },
+  }
+}
+
+/**
+ * Reads a text file, or returns undefined if it is missing or unreadable.
+ *
+ * @internal
+ */
+function readOptional(filePath: string): string | undefined {
+  try {
+    return readFileSync(filePath, 'utf8')
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Reads a file's modification time in milliseconds, or undefined if it cannot be read.
+ *
+ * @internal
+ */
+function readModifiedTime(filePath: string): number | undefined {
+  try {
+    return Math.round(statSync(filePath).mtimeMs)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Sets a file's access and modification times (milliseconds since the epoch).
+ *
+ * @internal
+ */
+function setModifiedTime(filePath: string, time: number): void {
+  const date = new Date(time)
+  utimesSync(filePath, date, date)
+}
+
+/**
+ * Runs a file system write, reporting whether it succeeded.
+ *
+ * @internal
+ */
+function tryWrite(write: () => void): boolean {
+  try {
+    write()
+    return true
+  } catch {
+    // Best-effort persistence: the entry stays available from memory
+    return false
+  }
+}
+
+/**
+ * Replaces a file's contents through a temporary file and a rename.
+ *
+ * @internal
+ */
+function writeAtomically(filePath: string, contents: string): void {
+  const tempPath = `${filePath}.${String(process.pid)}.tmp`
+  writeFileSync(tempPath, contents)
+  renameSync(tempPath, filePath)
+}
+
+/**
+ * Parses JSON, returning undefined for malformed text.
+ *
+ * @internal
+ */
+function parseJson(text: string): unknown {
+  if (text.trim().length === 0) return undefined
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Checks that parsed JSON has the shape of a CacheEntry.
+ *
+ * @internal
+ */
+export function isCacheEntry(value: unknown): value is CacheEntry {
+  if (typeof value !== 'object' || value === null) return false
+  const entry = value as Record<string, unknown>
+  return (
+    typeof entry.key === 'string' &&
+    typeof entry.explanation === 'string' &&
+    typeof entry.timestamp === 'number' &&
+    typeof entry.lastAccessed === 'number' &&
+    typeof entry.options === 'object' &&
+    entry.options !== null
+  )
+}
@@ -1,4 +1,5 @@
-import type { ExplainOptions } from '../types/explain'
+import { MODEL_CONFIG } from '@music-reasoning/ai-local'
+import type { ResolvedExplainOptions } from '../types/explain'
 
 /**
  * Internal cache entry for storing AI-generated explanations with eviction metadata.
@@ -124,7 +125,17 @@ export interface CacheEntry {
    * // Both entries can coexist - different outputs
    * ```
    */
-  options: Required<ExplainOptions>
+  options: ResolvedExplainOptions
+
+  /**
+   * Model version the explanation was generated with.
+   *
+   * @remarks
+   * Stamped by HybridCache on `set()` (see {@link CacheConfig.version}).
+   * Entries stamped with another version are treated as missing, so swapping
+   * the model invalidates explanations generated by the previous one.
+   */
+  version?: string
 }
 
 /**
@@ -154,6 +165,16 @@ export interface CacheConfig {
    * - Prevents stale explanations as model evolves
    */
   ttlMs?: number
+
+  /**
+   * Model version stamped on every stored entry.
+   *
+   * @remarks
+   * - Default: `MODEL_CONFIG.modelName` from @music-reasoning/ai-local
+   * - Entries with a different version are discarded when the cache attaches
+   *   to a storage and on access
+   */
+  version?: string
 }
 
 /**
@@ -163,10 +184,12 @@ export interface CacheConfig {
  * Optimized for typical SDK usage:
  * - 1000 entry limit protects long-running apps (~500KB-1MB memory)
  * - 24h TTL keeps explanations fresh as model improves
+ * - Entries are versioned by the model file name
  */
 export const DEFAULT_CACHE_CONFIG: Required<CacheConfig> = {
   maxSize: 1000,
   ttlMs: 86400000, // 24 hours
+  version: MODEL_CONFIG.modelName,
 }
 
 /**
@@ -194,3 +217,115 @@ export interface CacheStats {
   /** Cache hit rate (hits / (hits + misses)) */
   hitRate: number
 }
+
+/**
+ * Storage backend for HybridCache entries.
+ *
+ * @remarks
+ * A plain key-value store: HybridCache implements TTL, LRU and statistics on
+ * top of it, so every backend behaves the same. Built-in backends:
+ * - `createMemoryCacheStorage()`: In-process Map (default)
+ * - `createFileCacheStorage()`: Append-only JSON log in a single file
+ * - `createDirectoryCacheStorage()`: One JSON file per entry in a directory
+ *
+ * **Synchronous by design:** Explain calls read the cache before deciding to
+ * run inference, so lookups must not add latency. Disk backends keep an
+ * in-memory copy and write through on every change.
+ *
+ * **Persistence is best-effort:** A backend that cannot write (e.g., read-only
+ * disk) should keep working from memory rather than throw.
+ */
+export interface CacheStorage {
+  /** Returns the stored entry for `key`, if any */
+  get(key: string): CacheEntry | undefined
+
+  /**
+   * Stores an entry, replacing any entry with the same key.
+   *
+   * @remarks
+   * Also called when an entry is read, to persist its new `lastAccessed`,
+   * if the backend has no `touch()`.
+   */
+  set(entry: CacheEntry): void
+
+  /**
+   * Records that the entry for `key` was read at `lastAccessed` (no-op if missing).
+   *
+   * @remarks
+   * Optional: called on every cache hit instead of `set()`, so disk backends
+   * can persist the access time without rewriting the whole entry.
+   */
+  touch?(key: string, lastAccessed: number): void
+
+  /** Removes the entry for `key` (no-op if missing) */
+  delete(key: string): void
+
+  /** Removes every entry */
+  clear(): void
+
+  /** Iterates all stored entries */
+  entries(): Iterable<CacheEntry>
+
+  /** Number of stored entries */
+  readonly size: number
+}
+
+/**
+ * Serializable copy of a cache's entries, produced by `HybridCache.export()`.
+ *
+ * @remarks
+ * Plain JSON: write it with `JSON.stringify()` and ship it with an app to
+ * answer common queries without loading the model.
+ */
+export interface CacheSnapshot {
+  /** Snapshot format (bumped if the layout changes) */
+  format: 1
+
+  /** Model version the entries were generated with */
+  version: string
+
+  /** Valid (unexpired) entries at export time */
+  entries: CacheEntry[]
+}
+
+/**
+ * How `HybridCache.import()` resolves a key that is already cached.
+ *
+ * - `'newer'`: Keep whichever entry was generated last (by `timestamp`)
+ * - `'keep'`: Keep the cached entry
+ * - `'replace'`: Use the snapshot entry
+ */
+export type CacheConflictStrategy = 'newer' | 'keep' | 'replace'
+
+/**
+ * Options for `HybridCache.import()`.
+ */
+export interface CacheImportOptions {
+  /**
+   * Resolution for keys that are already cached.
+   *
+   * @remarks
+   * - Default: `'newer'`
+   */
+  onConflict?: CacheConflictStrategy
+
+  /**
+   * Treat imported entries as generated now.
+   *
+   * @remarks
+   * - Default: false (entries keep their age and expire with the cache's TTL)
+   * - Enable for bundled snapshots, which are usually older than the TTL
+   */
+  refreshTimestamps?: boolean
+}
+
+/**
+ * Outcome of `HybridCache.import()`.
+ */
+export interface CacheImportResult {
+  /** Entries stored in the cache */
+  imported: number
+
+  /** Entries ignored (other model version, expired, malformed or conflict kept the cached entry) */
+  skipped: number
+}
@@ -15,18 +15,121 @@ export * from './api/scale'
 export * from './api/progression'
 
 // Re-export genre detection functionality from @music-reasoning/core
-export { detectGenre, GENRE_PATTERNS } from '@music-reasoning/core'
+export { detectGenre, generateProgression, GENRE_PATTERNS } from '@music-reasoning/core'
 
 // Re-export genre types from @music-reasoning/types
 export type {
   GenreDetectionResult,
   Genre,
   GenrePatternDetailed as GenrePattern,
+  GenerateProgressionOptions,
+  GeneratedProgression,
+  ProgressionFragment,
 } from '@music-reasoning/types'
 
+// Re-export song form types from @music-reasoning/types
+export type {
+  FormType,
+  SectionRole,
+  FormSection,
+  FormAnalysis,
+  FormDetectionOptions,
+} from '@music-reasoning/types'
+
+// Re-export melody harmonization types from @music-reasoning/types
+export type {
+  HarmonizeMelodyOptions,
+  Harmonization,
+  HarmonizedSlot,
+  HarmonizationChordSource,
+  HarmonizationScore,
+  WeightedNote,
+} from '@music-reasoning/types'
+
+// Re-export lead sheet types from @music-reasoning/types
+export type {
+  LeadSheet,
+  LeadSheetBar,
+  LeadSheetSection,
+  LeadSheetParseOptions,
+  LeadSheetSerializeOptions,
+} from '@music-reasoning/types'
+
+// Re-export ChordPro types from @music-reasoning/types
+export type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSectionType,
+  ChordProSection,
+  ChordProSong,
+  ChordProSerializeOptions,
+} from '@music-reasoning/types'
+
+// Re-export MusicXML types from @music-reasoning/types
+export type {
+  MusicXmlHarmony,
+  MusicXmlImportOptions,
+  MusicXmlImport,
+  MusicXmlAnnotations,
+  MusicXmlExportOptions,
+  MusicXmlAnnotateOptions,
+} from '@music-reasoning/types'
+
+// Explanation providers (pluggable explanation backends)
+export {
+  setExplanationProvider,
+  getExplanationProvider,
+  createLlamaProvider,
+  createTemplateProvider,
+  createScriptedProvider,
+} from './providers'
+export type {
+  ExplanationProvider,
+  ExplanationRequest,
+  GenerationOptions,
+  ProviderCapabilities,
+  BuiltInProviderName,
+  ScriptedProvider,
+  ScriptedProviderOptions,
+  ScriptedResponse,
+} from './providers'
+
+// Explanation cache storage (in-process or persisted to disk)
+export { setCacheStorage, exportCache, importCache } from './cache/registry'
+export {
+  createMemoryCacheStorage,
+  createFileCacheStorage,
+  createDirectoryCacheStorage,
+} from './cache/storage'
+export { prewarmCache } from './api/prewarm'
+export type { PrewarmInputs, PrewarmResult } from './api/prewarm'
+export type {
+  CacheStorageFactory,
+  ExplanationCacheName,
+  ExplanationCacheSnapshot,
+} from './cache/registry'
+export type {
+  CacheEntry,
+  CacheStorage,
+  CacheSnapshot,
+  CacheConflictStrategy,
+  CacheImportOptions,
+  CacheImportResult,
+} from './cache/types'
+
 // Re-export SDK-specific explanation types
-export type { ExplainOptions, ExplanationResult } from './types/explain'
+export type {
+  ExplainOptions,
+  ExplainStreamOptions,
+  ExplanationResult,
+  ExplanationStream,
+} from './types/explain'
 export type { ExplanationError } from './types/errors'
 
 // Re-export deterministic data types from @music-reasoning/types for user convenience
-export type { ChordIdentification, ScaleInfo, ProgressionAnalysis } from '@music-reasoning/types'
+export type {
+  ChordIdentification,
+  ScaleInfo,
+  ProgressionAnalysis,
+  TimedChord,
+} from '@music-reasoning/types'
@@ -0,0 +1,24 @@
+/**
+ * Explanation providers
+ * Pluggable backends that generate explanation text for the explain APIs
+ */
+
+export type {
+  ExplanationProvider,
+  ExplanationRequest,
+  GenerationOptions,
+  ProviderCapabilities,
+} from './types'
+export { createLlamaProvider } from './llama'
+export { createTemplateProvider } from './template'
+export {
+  createScriptedProvider,
+  type ScriptedProvider,
+  type ScriptedProviderOptions,
+  type ScriptedResponse,
+} from './scripted'
+export {
+  setExplanationProvider,
+  getExplanationProvider,
+  type BuiltInProviderName,
+} from './registry'
@@ -0,0 +1,100 @@
+import {
+  generateExplanation,
+  streamExplanation,
+  loadModel,
+  isModelLoaded,
+  unloadModel,
+  type InferenceOptions,
+} from '@music-reasoning/ai-local'
+import type { ExplanationProvider, ExplanationRequest } from './types'
+
+/**
+ * Creates the explanation provider backed by the local GGUF model.
+ *
+ * @returns Provider that runs inference through @music-reasoning/ai-local (node-llama-cpp)
+ *
+ * @remarks
+ * This is the SDK's default provider. The model is loaded lazily on the first
+ * `load()` call (3-6s cold start) and reused afterwards.
+ *
+ * **Concurrency:** Concurrent `load()` calls share a single load promise, so
+ * the model is loaded once. A failed load resets the promise so the next call
+ * can retry.
+ *
+ * **Streaming:** `stream()` yields text chunks as node-llama-cpp generates them.
+ * Aborting `options.signal` or returning the iterator stops generation.
+ *
+ * @example
+ * ```typescript
+ * const provider = createLlamaProvider()
+ * await provider.load()
+ * const text = await provider.generate({
+ *   kind: 'chord',
+ *   prompt: 'Explain this chord: C major',
+ *   data: identifyChord(['C', 'E', 'G']),
+ *   options: { temperature: 0.5, maxTokens: 150, timeoutMs: 30000 },
+ * })
+ * ```
+ */
+export function createLlamaProvider(): ExplanationProvider {
+  /**
+   * Shared model loading promise
+   * - `null`: No load in progress (model may or may not be loaded)
+   * - `Promise<void>`: Load in progress, subsequent calls wait on this promise
+   */
+  let modelLoadPromise: Promise<void> | null = null
+
+  async function load(): Promise<void> {
+    // Fast path: model already loaded
+    if (isModelLoaded()) {
+      return
+    }
+
+    // Wait pattern: load in progress, reuse existing promise
+    if (modelLoadPromise) {
+      return modelLoadPromise
+    }
+
+    // Node.js runs this check-and-set without interleaving, so only one load starts
+    modelLoadPromise = loadModel()
+      .then(() => {
+        modelLoadPromise = null
+      })
+      .catch((err: unknown) => {
+        // Reset state on failure so next call can retry
+        modelLoadPromise = null
+        throw err
+      })
+
+    return modelLoadPromise
+  }
+
+  /**
+   * Maps generation options to ai-local inference options.
+   */
+  function toInferenceOptions(request: ExplanationRequest): InferenceOptions {
+    // Forward timeout to @music-reasoning/ai-local (it handles timeout internally)
+    return {
+      temperature: request.options.temperature,
+      maxTokens: request.options.maxTokens,
+      timeoutMs: request.options.timeoutMs,
+      signal: request.options.signal,
+    }
+  }
+
+  return {
+    name: 'llama',
+    capabilities: { streaming: true, deterministic: false, requiresModel: true },
+    load,
+    async generate(request) {
+      return generateExplanation(request.prompt, toInferenceOptions(request))
+    },
+    stream(request) {
+      return streamExplanation(request.prompt, toInferenceOptions(request))
+    },
+    async dispose() {
+      await modelLoadPromise?.catch(() => undefined)
+      unloadModel()
+    },
+  }
+}
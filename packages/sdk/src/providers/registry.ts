@@ -0,0 +1,73 @@
+import type { ExplanationProvider } from './types'
+import { createLlamaProvider } from './llama'
+import { createTemplateProvider } from './template'
+
+/**
+ * Names of the built-in providers accepted by setExplanationProvider()
+ */
+export type BuiltInProviderName = 'llama' | 'template'
+
+/**
+ * Active provider, or null to use the default local model provider
+ */
+let activeProvider: ExplanationProvider | null = null
+
+/**
+ * Default provider, created on first use so importing the SDK loads nothing
+ */
+let defaultProvider: ExplanationProvider | null = null
+
+/**
+ * Sets the explanation backend used by every explain API.
+ *
+ * @param provider - Provider instance, a built-in provider name, or null to restore the default
+ *
+ * @remarks
+ * Takes effect for calls started after it returns. The previous provider is
+ * not disposed; call its `dispose()` if it is no longer needed.
+ *
+ * Cached explanations are scoped by provider name, so switching providers
+ * never serves text generated by another backend.
+ *
+ * @example
+ * ```typescript
+ * // No model available (CI, serverless)
+ * setExplanationProvider('template')
+ *
+ * // Self-hosted inference
+ * setExplanationProvider(myServerProvider)
+ *
+ * // Back to the local model
+ * setExplanationProvider(null)
+ * ```
+ */
+export function setExplanationProvider(
+  provider: ExplanationProvider | BuiltInProviderName | null
+): void {
+  if (provider === 'llama') {
+    activeProvider = getDefaultProvider()
+  } else if (provider === 'template') {
+    activeProvider = createTemplateProvider()
+  } else {
+    activeProvider = provider
+  }
+}
+
+/**
+ * Returns the explanation backend used by the explain APIs.
+ *
+ * @returns The configured provider, or the local model provider by default
+ */
+export function getExplanationProvider(): ExplanationProvider {
+  return activeProvider ?? getDefaultProvider()
+}
+
+/**
+ * Returns the shared local model provider, creating it on first use.
+ *
+ * @internal
+ */
+function getDefaultProvider(): ExplanationProvider {
+  defaultProvider ??= createLlamaProvider()
+  return defaultProvider
+}
@@ -0,0 +1,123 @@
+import type { ExplanationProvider, ExplanationRequest } from './types'
+
+/**
+ * A scripted reply: explanation text, or an Error to reject with.
+ */
+export type ScriptedResponse = string | Error
+
+/**
+ * Configuration for the scripted test provider.
+ */
+export interface ScriptedProviderOptions {
+  /**
+   * Replies in call order, or a function computing the reply for a request.
+   *
+   * @remarks
+   * With an array, each `generate()`/`stream()` call consumes the next reply.
+   * Calls after the last reply reject.
+   */
+  responses: readonly ScriptedResponse[] | ((request: ExplanationRequest) => ScriptedResponse)
+
+  /** Error to reject `load()` with (simulates a missing model) */
+  loadError?: Error
+}
+
+/**
+ * Explanation provider test double that records its calls.
+ */
+export interface ScriptedProvider extends ExplanationProvider {
+  /** Requests received by `generate()` and `stream()`, in call order */
+  readonly requests: readonly ExplanationRequest[]
+
+  /** Number of `load()` calls */
+  readonly loadCount: number
+
+  /** Whether `dispose()` has been called */
+  readonly disposed: boolean
+}
+
+/**
+ * Creates a provider that replies with scripted text, for tests.
+ *
+ * @param options - Scripted replies and optional load failure
+ * @returns Provider that records every request it receives
+ *
+ * @remarks
+ * `stream()` yields the reply word by word (whitespace kept), so streaming
+ * consumers see several chunks.
+ *
+ * @example
+ * ```typescript
+ * const provider = createScriptedProvider({
+ *   responses: ['C major is bright.', new Error('Inference timeout after 5000ms')],
+ * })
+ * setExplanationProvider(provider)
+ *
+ * const first = await explainChord(['C', 'E', 'G'], { useCache: false })
+ * first.explanation // 'C major is bright.'
+ *
+ * const second = await explainChord(['C', 'E', 'G'], { useCache: false, fallback: false })
+ * second.error?.code // 'TIMEOUT'
+ *
+ * provider.requests[0]?.kind // 'chord'
+ * ```
+ */
+export function createScriptedProvider(options: ScriptedProviderOptions): ScriptedProvider {
+  const requests: ExplanationRequest[] = []
+  let loadCount = 0
+  let disposed = false
+  let nextIndex = 0
+
+  function reply(request: ExplanationRequest): string {
+    requests.push(request)
+
+    const { responses } = options
+    let response: ScriptedResponse | undefined
+    if (typeof responses === 'function') {
+      response = responses(request)
+    } else {
+      response = responses[nextIndex]
+      nextIndex++
+    }
+
+    if (response === undefined) {
+      throw new Error(`Scripted provider has no response for call ${String(requests.length)}`)
+    }
+    if (response instanceof Error) {
+      throw response
+    }
+    return response
+  }
+
+  return {
+    name: 'scripted',
+    capabilities: { streaming: true, deterministic: true, requiresModel: false },
+    get requests() {
+      return requests
+    },
+    get loadCount() {
+      return loadCount
+    },
+    get disposed() {
+      return disposed
+    },
+    async load() {
+      loadCount++
+      if (options.loadError) {
+        throw options.loadError
+      }
+    },
+    async generate(request) {
+      return reply(request)
+    },
+    async *stream(request) {
+      const text = reply(request)
+      for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) {
+        yield chunk
+      }
+    },
+    async dispose() {
+      disposed = true
+    },
+  }
+}
@@ -0,0 +1,476 @@
+import type {
+  Cadence,
+  ChordIdentification,
+  HarmonicFunction,
+  ProgressionAnalysis,
+  ScaleInfo,
+} from '@music-reasoning/types'
+import type { ExplanationProvider } from './types'
+
+/**
+ * Creates a deterministic explanation provider that needs no model.
+ *
+ * @returns Provider that builds explanations from the deterministic data with fixed templates
+ *
+ * @remarks
+ * Ignores the prompt and generation options: the same data always produces
+ * the same text, instantly. Useful where the 2.2GB model cannot be shipped
+ * (CI, serverless, mobile).
+ *
+ * The explain APIs also use these templates as a fallback when the configured
+ * provider fails (see the `fallback` option).
+ *
+ * @example
+ * ```typescript
+ * setExplanationProvider(createTemplateProvider())
+ *
+ * const result = await explainChord(['C', 'E', 'G'])
+ * console.log(result.explanation)
+ * // "C major is a major triad built on C. Above the root it stacks a major
+ * //  third (E) and a perfect fifth (G). Major chords sound bright and stable..."
+ * ```
+ */
+export function createTemplateProvider(): ExplanationProvider {
+  return {
+    name: 'template',
+    capabilities: { streaming: false, deterministic: true, requiresModel: false },
+    async load() {},
+    async generate(request) {
+      return renderTemplateExplanation(request)
+    },
+    async *stream(request) {
+      yield renderTemplateExplanation(request)
+    },
+    async dispose() {},
+  }
+}
+
+/**
+ * The parts of an ExplanationRequest that templates read.
+ *
+ * @internal
+ */
+export type TemplateSubject =
+  | { kind: 'chord'; data: ChordIdentification }
+  | { kind: 'scale'; data: ScaleInfo }
+  | { kind: 'progression'; data: ProgressionAnalysis }
+
+/**
+ * Renders the template explanation for deterministic data.
+ *
+ * @param subject - Data to explain (an ExplanationRequest works as is)
+ * @returns Explanation paragraphs separated by blank lines
+ *
+ * @internal
+ */
+export function renderTemplateExplanation(subject: TemplateSubject): string {
+  switch (subject.kind) {
+    case 'chord':
+      return renderChord(subject.data)
+    case 'scale':
+      return renderScale(subject.data)
+    case 'progression':
+      return renderProgression(subject.data)
+  }
+}
+
+/**
+ * Interval names by interval symbol
+ */
+const INTERVAL_NAMES: Readonly<Record<string, string>> = {
+  m2: 'minor second',
+  M2: 'major second',
+  A2: 'augmented second',
+  m3: 'minor third',
+  M3: 'major third',
+  P4: 'perfect fourth',
+  A4: 'augmented fourth',
+  d5: 'diminished fifth',
+  P5: 'perfect fifth',
+  A5: 'augmented fifth',
+  m6: 'minor sixth',
+  M6: 'major sixth',
+  d7: 'diminished seventh',
+  m7: 'minor seventh',
+  M7: 'major seventh',
+}
+
+/**
+ * Compound names for tones above a seventh (a second above a seventh is a ninth, etc.)
+ */
+const TENSION_NAMES: Readonly<Record<string, string>> = {
+  m2: 'flat ninth',
+  M2: 'ninth',
+  A2: 'sharp ninth',
+  P4: 'eleventh',
+  A4: 'sharp eleventh',
+  m6: 'flat thirteenth',
+  M6: 'thirteenth',
+}
+
+/**
+ * Sound and typical use by chord quality
+ */
+const CHORD_CHARACTER: Readonly<Record<string, string>> = {
+  major: 'Major chords sound bright and stable, so they often serve as a point of rest.',
+  minor: 'Minor chords sound darker and more introspective than major chords.',
+  dominant:
+    'Dominant seventh chords contain a tritone between the third and the seventh, which pulls strongly toward resolution, usually to the chord a fifth below.',
+  diminished:
+    'Diminished triads stack two minor thirds around a tritone, giving an unstable sound that wants to resolve, often as a leading-tone chord.',
+  augmented:
+    'Augmented triads stack two major thirds; the raised fifth sounds restless and often leads by half step to the next chord.',
+  maj7: 'Major seventh chords add a soft, lush color to the major triad and are common as tonic chords in jazz and pop.',
+  m7: 'Minor seventh chords are mellow and smooth, a typical ii chord in ii-V-I progressions.',
+  m7b5: 'Half-diminished chords combine a diminished triad with a minor seventh, typically serving as ii in minor keys.',
+  dim7: 'Fully diminished seventh chords divide the octave into minor thirds, so they are symmetrical and resolve in several directions.',
+}
+
+/**
+ * Readable names for chord quality symbols
+ */
+const QUALITY_NAMES: Readonly<Record<string, string>> = {
+  maj7: 'major seventh',
+  m7: 'minor seventh',
+  m7b5: 'half-diminished seventh',
+  dim7: 'diminished seventh',
+}
+
+/**
+ * Names for chord sizes by note count
+ */
+const CHORD_SIZES: Readonly<Record<number, string>> = {
+  2: 'dyad',
+  3: 'triad',
+  4: 'four-note chord',
+}
+
+/**
+ * Inversion names by inversion number
+ */
+const INVERSION_NAMES: Readonly<Record<number, string>> = {
+  1: 'first inversion',
+  2: 'second inversion',
+  3: 'third inversion',
+}
+
+/**
+ * Renders a chord explanation from identification data.
+ *
+ * @internal
+ */
+function renderChord(data: ChordIdentification): string {
+  const { chord, root, quality, notes, intervals } = data
+  const hasSeventh = intervals.some((interval) => ['m7', 'M7', 'd7'].includes(interval))
+  const qualityLabel =
+    quality === 'unknown' ? describeUnknownQuality(intervals) : (QUALITY_NAMES[quality] ?? quality)
+  const size = qualityLabel.endsWith('seventh')
+    ? 'chord'
+    : hasSeventh && notes.length === 4
+      ? 'seventh chord'
+      : (CHORD_SIZES[notes.length] ?? 'extended chord')
+
+  const tones = intervals
+    .map((interval, index) => {
+      const name = (hasSeventh ? TENSION_NAMES[interval] : undefined) ?? INTERVAL_NAMES[interval]
+      return name ? `a ${name} (${notes[index] ?? ''})` : null
+    })
+    .filter((tone): tone is string => tone !== null)
+
+  const structure = [
+    `${chord} is ${withArticle(qualityLabel)} ${size} built on ${root}.`,
+    tones.length > 0
+      ? `Above the root it stacks ${formatList(tones)}.`
+      : `It contains ${formatList(notes)}.`,
+  ]
+
+  const character = CHORD_CHARACTER[quality]
+  if (character) {
+    structure.push(character)
+  } else if (qualityLabel === 'suspended') {
+    structure.push(
+      'Suspended chords replace the third with a second or fourth, leaving the chord open and neither major nor minor.'
+    )
+  }
+
+  const context: string[] = []
+  const inversionName = data.inversion ? INVERSION_NAMES[data.inversion] : undefined
+  if (inversionName && data.bass) {
+    const figures = data.figuredBass ? ` (figured bass ${data.figuredBass})` : ''
+    context.push(`With ${data.bass} in the bass it is in ${inversionName}${figures}.`)
+  }
+
+  // Skip other spellings of the same chord (e.g., "CM" for "C major"); keep real reinterpretations
+  const alternatives = data.alternatives
+    .filter(
+      (alternative) => alternative.includes('/') || /^[A-G][#b]*/.exec(alternative)?.[0] !== root
+    )
+    .slice(0, 2)
+  if (alternatives.length > 0) {
+    context.push(`The same notes can also be read as ${formatList(alternatives, 'or')}.`)
+  }
+
+  if (data.confidence < 1) {
+    context.push(
+      `The match is approximate (${formatPercent(data.confidence)} confidence), so some notes may be missing or extra.`
+    )
+  }
+
+  return formatParagraphs([structure, context])
+}
+
+/**
+ * Describes a chord that chord identification could not classify.
+ *
+ * @internal
+ */
+function describeUnknownQuality(intervals: readonly string[]): string {
+  const hasThird = intervals.includes('m3') || intervals.includes('M3')
+  const hasSuspension = intervals.includes('M2') || intervals.includes('P4')
+  return !hasThird && hasSuspension ? 'suspended' : 'ambiguous'
+}
+
+/**
+ * Sound and typical use by scale type
+ */
+const SCALE_CHARACTER: Readonly<Record<string, string>> = {
+  major:
+    'The major scale sounds bright and resolved and is the reference for most Western harmony.',
+  ionian: 'Ionian is the major scale, bright and resolved.',
+  minor: 'The natural minor scale sounds darker and more melancholy than major.',
+  aeolian: 'Aeolian is the natural minor scale, dark and melancholy.',
+  dorian:
+    'Dorian is a minor mode with a raised sixth, giving a minor sound with a brighter, soulful edge common in jazz, funk and folk.',
+  phrygian:
+    'Phrygian is a minor mode with a lowered second, giving a dark, Spanish or metal flavor.',
+  lydian:
+    'Lydian is a major mode with a raised fourth, giving a dreamy, floating sound often heard in film music.',
+  mixolydian:
+    'Mixolydian is a major mode with a lowered seventh, the bluesy major sound of rock and folk.',
+  locrian:
+    'Locrian has a diminished fifth above the tonic, making it the most unstable of the modes.',
+  'harmonic minor':
+    'Harmonic minor raises the seventh of natural minor, creating a leading tone and an exotic augmented second between the sixth and seventh degrees.',
+  'melodic minor':
+    'Melodic minor raises the sixth and seventh of natural minor, smoothing the line up to the tonic; jazz musicians use it in both directions.',
+  'major pentatonic':
+    'The major pentatonic scale leaves out the half steps of major, so every note sounds consonant over the tonic.',
+  'minor pentatonic':
+    'The minor pentatonic scale is the backbone of blues and rock soloing, with no half steps to clash.',
+  pentatonic:
+    'Pentatonic scales have no half steps, so every note sounds consonant and easy to improvise with.',
+  blues:
+    'The blues scale adds a flat fifth "blue note" to minor pentatonic, the signature sound of blues soloing.',
+  'whole tone':
+    'The whole tone scale uses only whole steps, so it has no tonal center and sounds dreamlike.',
+  diminished:
+    'The diminished scale alternates whole and half steps and is symmetrical, often used over diminished and altered dominant chords.',
+}
+
+/**
+ * Names for scale sizes by note count
+ */
+const SCALE_SIZES: Readonly<Record<number, string>> = {
+  5: 'five-note',
+  6: 'six-note',
+  7: 'seven-note',
+  8: 'eight-note',
+  12: 'twelve-note',
+}
+
+/**
+ * Renders a scale explanation from scale data.
+ *
+ * @internal
+ */
+function renderScale(data: ScaleInfo): string {
+  const { scale, root, type, notes, formula } = data
+  const size = SCALE_SIZES[notes.length] ?? `${String(notes.length)}-note`
+
+  const structure = [
+    `${scale} is a ${size} scale built on ${root}: ${formatList(notes)}.`,
+    `Its step pattern is ${formula} (W = whole step, H = half step).`,
+  ]
+
+  const primaryDegrees = data.degrees
+    .filter((degree) => ['tonic', 'subdominant', 'dominant'].includes(degree.name))
+    .map((degree) => `the ${degree.name} ${degree.note}`)
+  if (primaryDegrees.length > 1) {
+    structure.push(`Its primary degrees are ${formatList(primaryDegrees)}.`)
+  }
+
+  const character = SCALE_CHARACTER[type]
+  if (character) {
+    structure.push(character)
+  }
+
+  const relationships: string[] = []
+  const relative = data.relativeMinor ?? data.relativeMajor
+  if (relative) {
+    relationships.push(`its relative ${data.relativeMinor ? 'minor' : 'major'} is ${relative}`)
+  }
+  const parallel = data.parallelMinor ?? data.parallelMajor
+  if (parallel) {
+    relationships.push(`its parallel ${data.parallelMinor ? 'minor' : 'major'} is ${parallel}`)
+  }
+
+  const context: string[] = []
+  if (relationships.length > 0) {
+    context.push(`${capitalize(formatList(relationships))}.`)
+  }
+
+  const firstMode = data.modes[0]
+  const lastMode = data.modes[data.modes.length - 1]
+  if (firstMode && lastMode && data.modes.length > 1) {
+    context.push(
+      `Starting it on each degree gives ${String(data.modes.length)} modes, from ${firstMode} to ${lastMode}.`
+    )
+  }
+
+  return formatParagraphs([structure, context])
+}
+
+/**
+ * Descriptions by harmonic function
+ */
+const FUNCTION_ROLES: Readonly<Record<HarmonicFunction, string>> = {
+  tonic: 'tonic (home)',
+  subdominant: 'subdominant (moving away)',
+  dominant: 'dominant (tension)',
+  deceptive: 'submediant (tonic substitute)',
+  passing: 'passing (connecting)',
+}
+
+/**
+ * Descriptions by cadence type
+ */
+const CADENCE_DESCRIPTIONS: Readonly<Record<Cadence['type'], string>> = {
+  authentic: 'the strongest resolution from dominant to tonic',
+  plagal: 'the softer "Amen" resolution from subdominant to tonic',
+  half: 'a pause on the dominant that leaves the phrase open',
+  deceptive: 'the dominant resolving to the submediant instead of the tonic',
+}
+
+/**
+ * Renders a progression explanation from analysis data.
+ *
+ * @internal
+ */
+function renderProgression(data: ProgressionAnalysis): string {
+  const { key, analysis } = data
+  const romans = analysis.map((chord) => chord.roman).join(' → ')
+
+  const overview = [
+    `This progression is in ${key} (${formatPercent(data.confidence)} confidence). In Roman numerals it reads ${romans}.`,
+  ]
+
+  const roles = analysis.map((chord) => `${chord.chord} as ${FUNCTION_ROLES[chord.function]}`)
+  if (roles.length > 0) {
+    overview.push(`Functionally, it uses ${formatList(roles)}.`)
+  }
+
+  if (data.loopable) {
+    overview.push('It returns naturally to its starting chord, so it works as a repeating loop.')
+  }
+
+  const harmony: string[] = []
+  for (const cadence of data.cadences) {
+    harmony.push(
+      `${cadence.chords[0]} → ${cadence.chords[1]} forms ${withArticle(cadence.type)} cadence, ${CADENCE_DESCRIPTIONS[cadence.type]}.`
+    )
+  }
+
+  for (const secondary of data.secondaryDominants) {
+    harmony.push(
+      `${secondary.chord} acts as a secondary dominant (${secondary.romanNotation}), pointing to ${secondary.targetChord}.`
+    )
+  }
+
+  for (const borrowed of data.borrowedChords) {
+    harmony.push(
+      `${borrowed.chord} is borrowed from ${borrowed.borrowedFrom}, adding color from the parallel key.`
+    )
+  }
+
+  if (data.keyRegions.length > 1) {
+    const route = data.keyRegions.map((region) => region.key).join(' → ')
+    const pivots = data.keyRegions
+      .map((region) => region.pivot)
+      .filter((pivot) => pivot !== undefined)
+      .map(
+        (pivot) =>
+          `${pivot.chord} (${pivot.fromRoman} in ${pivot.fromKey}, ${pivot.toRoman} in ${pivot.toKey})`
+      )
+    const pivotSentence = pivots.length > 0 ? ` via ${formatList(pivots)}` : ''
+    harmony.push(`It modulates ${route}${pivotSentence}.`)
+  }
+
+  const style: string[] = []
+  const genre = data.suggestedGenres[0]
+  const pattern = genre?.matchedPatterns[0]
+  if (genre && genre.genre !== 'unknown') {
+    const patternSentence = pattern
+      ? ` It matches the ${pattern.pattern} pattern: ${pattern.description}.`
+      : ''
+    style.push(
+      `It is most typical of ${genre.genre} (${formatPercent(genre.confidence)} confidence).${patternSentence}`
+    )
+    const example = pattern?.examples?.[0]
+    if (example) {
+      style.push(`For an example, listen to ${example}.`)
+    }
+  } else if (data.patterns[0]) {
+    style.push(`It follows the ${data.patterns[0].name} pattern (${data.patterns[0].type}).`)
+  }
+
+  return formatParagraphs([overview, harmony, style])
+}
+
+/**
+ * Joins non-empty groups of sentences into paragraphs separated by blank lines.
+ *
+ * @internal
+ */
+function formatParagraphs(paragraphs: readonly (readonly string[])[]): string {
+  return paragraphs
+    .filter((sentences) => sentences.length > 0)
+    .map((sentences) => sentences.join(' '))
+    .join('\n\n')
+}
+
+/**
+ * Joins items as an English list ("C, E and G").
+ *
+ * @internal
+ */
+function formatList(items: readonly string[], conjunction = 'and'): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1] ?? ''}`
+}
+
+/**
+ * Formats a 0.0-1.0 score as a whole percentage ("83%").
+ *
+ * @internal
+ */
+function formatPercent(value: number): string {
+  return `${String(Math.round(value * 100))}%`
+}
+
+/**
+ * Prefixes a word with "a" or "an".
+ *
+ * @internal
+ */
+function withArticle(word: string): string {
+  return /^[aeiou]/i.test(word) ? `an ${word}` : `a ${word}`
+}
+
+/**
+ * Uppercases the first letter of a sentence.
+ *
+ * @internal
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
@@ -0,0 +1,173 @@
+import type { ChordIdentification, ProgressionAnalysis, ScaleInfo } from '@music-reasoning/types'
+
+/**
+ * Generation parameters forwarded to an explanation provider.
+ *
+ * @remarks
+ * Derived from the caller's ExplainOptions after validation and default merging,
+ * so providers can rely on every field being present and in range.
+ */
+export interface GenerationOptions {
+  /** Sampling temperature (0.0 - 1.0) */
+  temperature: number
+
+  /** Maximum tokens to generate (50 - 500) */
+  maxTokens: number
+
+  /** Inference timeout in milliseconds */
+  timeoutMs: number
+
+  /**
+   * Signal that cancels generation when aborted (the caller's `signal` option).
+   *
+   * @remarks
+   * Providers should stop producing text once it aborts: reject `generate()`
+   * and end `stream()` promptly.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Fields shared by every explanation request.
+ */
+interface BaseExplanationRequest {
+  /**
+   * Prompt built by the SDK from the deterministic data.
+   *
+   * @remarks
+   * Model-backed providers send this to the model. Providers that do not use a
+   * model (e.g., the template provider) can ignore it and read `data` instead.
+   */
+  prompt: string
+
+  /** Generation parameters */
+  options: GenerationOptions
+}
+
+/**
+ * A request to explain deterministic music theory data.
+ *
+ * @remarks
+ * Discriminated on `kind`, so providers can narrow `data` to the matching type:
+ *
+ * ```typescript
+ * if (request.kind === 'chord') {
+ *   request.data.root // ChordIdentification
+ * }
+ * ```
+ */
+export type ExplanationRequest =
+  | (BaseExplanationRequest & { kind: 'chord'; data: ChordIdentification })
+  | (BaseExplanationRequest & { kind: 'scale'; data: ScaleInfo })
+  | (BaseExplanationRequest & { kind: 'progression'; data: ProgressionAnalysis })
+
+/**
+ * What an explanation provider can do.
+ */
+export interface ProviderCapabilities {
+  /**
+   * Whether `stream()` yields text incrementally.
+   *
+   * @remarks
+   * Providers without incremental output still implement `stream()` by
+   * yielding the complete explanation as a single chunk.
+   */
+  streaming: boolean
+
+  /** Whether identical requests always produce identical text */
+  deterministic: boolean
+
+  /** Whether `load()` loads a model (slow on first call, may fail if the model is missing) */
+  requiresModel: boolean
+}
+
+/**
+ * Backend that turns deterministic music theory data into explanation text.
+ *
+ * @remarks
+ * The SDK resolves the active provider from configuration (see
+ * `setExplanationProvider()`), so `explainChord()`, `explainScale()` and
+ * `analyzeProgressionWithAI()` share one backend. Built-in providers:
+ * - `createLlamaProvider()`: Local GGUF model via @music-reasoning/ai-local (default)
+ * - `createTemplateProvider()`: Deterministic rule-based text, no model required
+ * - `createScriptedProvider()`: Scripted responses for tests
+ *
+ * **Error contract:** `load()` and `generate()` reject with an Error whose
+ * message describes the failure. The SDK categorizes messages containing
+ * "timeout", "model"/"not found", "memory"/"RAM" and "corrupt" into the
+ * matching ExplanationError codes; anything else becomes MODEL_UNAVAILABLE.
+ *
+ * @example
+ * ```typescript
+ * // Self-hosted inference server
+ * const remoteProvider: ExplanationProvider = {
+ *   name: 'my-inference-server',
+ *   capabilities: { streaming: false, deterministic: false, requiresModel: false },
+ *   async load() {},
+ *   async generate(request) {
+ *     const res = await fetch('https://inference.internal/explain', {
+ *       method: 'POST',
+ *       body: JSON.stringify({ prompt: request.prompt, ...request.options }),
+ *     })
+ *     return ((await res.json()) as { text: string }).text
+ *   },
+ *   async *stream(request) {
+ *     yield await this.generate(request)
+ *   },
+ *   async dispose() {},
+ * }
+ *
+ * setExplanationProvider(remoteProvider)
+ * ```
+ */
+export interface ExplanationProvider {
+  /**
+   * Stable provider name.
+   *
+   * @remarks
+   * Cached explanations are scoped by this name, so text generated by one
+   * provider is never served for another.
+   */
+  readonly name: string
+
+  /** Provider capabilities */
+  readonly capabilities: ProviderCapabilities
+
+  /**
+   * Prepares the provider (e.g., loads the model).
+   *
+   * @remarks
+   * Called before every generation. Must be safe to call concurrently and
+   * repeatedly; implementations should return quickly once loaded.
+   */
+  load(): Promise<void>
+
+  /**
+   * Generates a complete explanation.
+   *
+   * @param request - Explanation request
+   * @returns Explanation text
+   */
+  generate(request: ExplanationRequest): Promise<string>
+
+  /**
+   * Generates an explanation as a stream of text chunks.
+   *
+   * @param request - Explanation request
+   * @returns Async iterable of text chunks that concatenate to the explanation
+   *
+   * @remarks
+   * The SDK stops iterating early when the caller aborts or breaks out of the
+   * stream; implementations should release resources (e.g., stop inference)
+   * when their iterator is returned.
+   */
+  stream(request: ExplanationRequest): AsyncIterable<string>
+
+  /**
+   * Releases resources held by the provider (e.g., unloads the model).
+   *
+   * @remarks
+   * A disposed provider may be loaded again by calling `load()`.
+   */
+  dispose(): Promise<void>
+}
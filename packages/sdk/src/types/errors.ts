@@ -11,6 +11,8 @@
  * - `INVALID_INPUT`: Input validation failed (e.g., temperature > 1.0)
  * - `INSUFFICIENT_RAM`: System RAM below model requirements (~4GB needed)
  * - `CORRUPTED_MODEL`: Model file checksum mismatch or load error
+ * - `ABORTED`: The caller aborted `options.signal` before the explanation was ready
+ * - `CALLBACK_FAILED`: The caller's `onToken` callback threw while streaming
  */
 export type ErrorCode =
   | 'MODEL_UNAVAILABLE'
@@ -18,6 +20,8 @@ export type ErrorCode =
   | 'INVALID_INPUT'
   | 'INSUFFICIENT_RAM'
   | 'CORRUPTED_MODEL'
+  | 'ABORTED'
+  | 'CALLBACK_FAILED'
 
 /**
  * Structured error type for graceful degradation when AI inference fails.
@@ -136,6 +140,16 @@ export const ERROR_CODE_METADATA: Record<
     userImpact: 'Cannot initialize AI',
     recoveryAction: 'Re-download model',
   },
+  ABORTED: {
+    triggerCondition: 'options.signal aborted by the caller',
+    userImpact: 'Inference stopped, no explanation',
+    recoveryAction: 'Call again with a signal that is not aborted',
+  },
+  CALLBACK_FAILED: {
+    triggerCondition: 'options.onToken threw while streaming',
+    userImpact: 'Streaming stopped, no explanation',
+    recoveryAction: 'Fix the onToken callback',
+  },
 }
 
 /**
@@ -69,8 +69,40 @@ export interface ExplainOptions {
    * - Set to false for testing or dynamic prompts
    */
   useCache?: boolean
+
+  /**
+   * Fall back to a template explanation when the provider fails.
+   *
+   * @remarks
+   * - Default: true
+   * - When the model is missing, times out or fails, `explanation` holds
+   *   deterministic template text and `fallbackReason` holds the provider error
+   * - Fallback text is never cached, so the model is retried on the next call
+   * - Set to false to get `error` with no explanation instead
+   */
+  fallback?: boolean
+
+  /**
+   * Signal that cancels the call when aborted.
+   *
+   * @remarks
+   * - Stops model loading and token generation; the result holds the
+   *   deterministic data with an `ABORTED` error (no template fallback)
+   * - Already aborted: returns immediately without calling the model
+   * - Nothing is cached for an aborted call
+   * - Batch calls return `ABORTED` for every chord not yet explained
+   */
+  signal?: AbortSignal
 }
 
+/**
+ * ExplainOptions after merging with defaults.
+ *
+ * @remarks
+ * The signal belongs to a single call, so it is never merged, cached or part of a cache key.
+ */
+export type ResolvedExplainOptions = Required<Omit<ExplainOptions, 'signal'>>
+
 /**
  * Default configuration values for AI explanation generation.
  *
@@ -80,12 +112,14 @@ export interface ExplainOptions {
  * - Moderate tokens (150) for concise 2-4 sentence responses
  * - Conservative timeout (30s) to handle cold starts
  * - Caching enabled for performance
+ * - Template fallback enabled so an explanation is always returned
  */
-export const DEFAULT_EXPLAIN_OPTIONS: Required<ExplainOptions> = {
+export const DEFAULT_EXPLAIN_OPTIONS: ResolvedExplainOptions = {
   temperature: 0.5,
   maxTokens: 150,
   timeout: 30000,
   useCache: true,
+  fallback: true,
 }
 
 /**
@@ -98,12 +132,14 @@ export const DEFAULT_EXPLAIN_OPTIONS: Required<ExplainOptions> = {
  * - `data` field: Always present, contains deterministic music theory result from @music-reasoning/core
  * - `explanation` field: Optional, AI-generated natural language explanation (2-4 sentences)
  * - `error` field: Optional, structured error if AI fails (graceful degradation)
+ * - `fallbackReason` field: Optional, provider error when `explanation` is template text
  *
  * **Validation Rules:**
  * - `data` is ALWAYS present (deterministic layer never fails)
  * - If `error` is present, `explanation` MUST be undefined
  * - If `explanation` is present, `error` MUST be undefined
  * - Both `explanation` and `error` MAY be undefined (AI disabled case)
+ * - If `fallbackReason` is present, `explanation` is template text and `error` is undefined
  *
  * @example
  * ```typescript
@@ -123,6 +159,17 @@ export const DEFAULT_EXPLAIN_OPTIONS: Required<ExplainOptions> = {
  *   }
  * }
  *
+ * // Fallback case - model unavailable, template explanation instead
+ * const result: ExplanationResult<ChordInfo> = {
+ *   data: { root: 'C', quality: 'maj7', intervals: ['P1', 'M3', 'P5', 'M7'] },
+ *   explanation: 'Cmaj7 is a major seventh chord built on C. Above the root it stacks...',
+ *   fallbackReason: {
+ *     code: 'MODEL_UNAVAILABLE',
+ *     message: 'AI model not found or failed to load',
+ *     suggestion: 'Download the v4.5 model (2.2GB) or continue using deterministic features without AI explanations'
+ *   }
+ * }
+ *
  * // AI disabled case - deterministic data only
  * const result: ExplanationResult<ChordInfo> = {
  *   data: { root: 'C', quality: 'maj7', intervals: ['P1', 'M3', 'P5', 'M7'] }
@@ -145,10 +192,13 @@ export interface ExplanationResult<T> {
    *
    * @remarks
    * Optional field that may be undefined if:
-   * - AI model is unavailable
-   * - Inference timed out
+   * - AI model is unavailable and the `fallback` option is disabled
+   * - Inference timed out (same condition)
    * - AI inference failed (see `error` field)
    * - AI is disabled (no error, just not enabled)
+   *
+   * With the `fallback` option enabled (default), provider failures produce a
+   * deterministic template explanation instead (see `fallbackReason`).
    */
   explanation?: string
 
@@ -161,4 +211,79 @@ export interface ExplanationResult<T> {
    * Deterministic `data` is still valid and usable.
    */
   error?: ExplanationError
+
+  /**
+   * Why the configured provider failed when `explanation` came from the template fallback.
+   *
+   * @remarks
+   * Present only when the provider failed and the `fallback` option is enabled.
+   * Has the same codes as `error` (e.g., MODEL_UNAVAILABLE, TIMEOUT).
+   */
+  fallbackReason?: ExplanationError
+}
+
+/**
+ * Options for streaming explanations.
+ *
+ * @remarks
+ * Extends ExplainOptions with a token callback and cancellation. Caching and
+ * the template fallback behave exactly as in the non-streaming APIs.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController()
+ *
+ * const stream = chord.explainStream(['C', 'E', 'G'], {
+ *   onToken: (token) => ui.append(token),
+ *   signal: controller.signal, // controller.abort() stops generation
+ * })
+ * ```
+ */
+export interface ExplainStreamOptions extends ExplainOptions {
+  /**
+   * Called with each chunk of text as it is produced.
+   *
+   * @remarks
+   * Receives the same chunks the stream yields, including replayed cached text
+   * and template fallback text. If it throws, the stream stops, nothing is
+   * cached and `result` carries a `CALLBACK_FAILED` error.
+   */
+  onToken?: (token: string) => void
+}
+
+/**
+ * Explanation delivered as a stream of text chunks.
+ *
+ * @typeParam T - The type of deterministic data (e.g., ChordIdentification, ScaleInfo)
+ *
+ * @remarks
+ * Iterate it with `for await` to receive chunks as they are generated. The
+ * chunks concatenate to `result.explanation`.
+ *
+ * **Never throws:** Errors end the stream and are reported in `result`, like the
+ * non-streaming APIs.
+ *
+ * **Single use:** The stream runs once. Iterate it, or await `result` alone to
+ * consume it through the `onToken` callback.
+ *
+ * @example
+ * ```typescript
+ * const stream = chord.explainStream(['G', 'B', 'D', 'F'])
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk)
+ * }
+ *
+ * const { data, explanation, error } = await stream.result
+ * ```
+ */
+export interface ExplanationStream<T> extends AsyncIterable<string> {
+  /**
+   * Final result, resolved when the stream ends.
+   *
+   * @remarks
+   * Same shape as the non-streaming APIs return. Awaiting it without iterating
+   * runs the stream to completion.
+   */
+  readonly result: Promise<ExplanationResult<T>>
 }
@@ -19,6 +19,7 @@ vi.mock('@music-reasoning/ai-local', () => {
       throw new Error('Model not found')
     }),
     isModelLoaded: vi.fn(() => false),
+    MODEL_CONFIG: { modelName: 'test-model.gguf' },
   }
 })
 
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for AbortSignal cancellation of the explain APIs
+ *
+ * Tests validate that `signal` reaches the provider, that aborting returns the
+ * deterministic data with an ABORTED error (no template fallback, nothing cached),
+ * and that the signal never affects cache keys. Uses scripted and hand-written
+ * providers - no AI model required.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest'
+import { explainChord, explainChordBatch } from '../../../src/api/chord'
+import { explainScale } from '../../../src/api/scale'
+import { analyzeProgressionWithAI } from '../../../src/api/progression'
+import { createScriptedProvider, setExplanationProvider } from '../../../src/providers'
+import type { ExplanationProvider, ExplanationRequest } from '../../../src/providers'
+
+/**
+ * Provider whose generation never finishes on its own, like a stalled model.
+ * Rejects once the request's signal aborts, if `cooperative` is set.
+ */
+function createHangingProvider(cooperative: boolean): ExplanationProvider & {
+  requests: ExplanationRequest[]
+} {
+  const requests: ExplanationRequest[] = []
+
+  return {
+    name: 'hanging',
+    capabilities: { streaming: false, deterministic: true, requiresModel: false },
+    requests,
+    async load() {},
+    generate(request) {
+      requests.push(request)
+      return new Promise<string>((_, reject) => {
+        if (cooperative) {
+          request.options.signal?.addEventListener('abort', () => {
+            reject(new Error('Generation stopped'))
+          })
+        }
+      })
+    },
+    async *stream(request) {
+      yield await this.generate(request)
+    },
+    async dispose() {},
+  }
+}
+
+describe('Cancellation with AbortSignal', () => {
+  afterEach(() => {
+    setExplanationProvider(null)
+  })
+
+  test('passes the signal to the provider', async () => {
+    const provider = createScriptedProvider({ responses: ['C major is bright.'] })
+    setExplanationProvider(provider)
+
+    const controller = new AbortController()
+    await explainChord(['C', 'E', 'G'], { useCache: false, signal: controller.signal })
+
+    expect(provider.requests[0]?.options.signal).toBe(controller.signal)
+  })
+
+  test('returns ABORTED without calling the provider when already aborted', async () => {
+    const provider = createScriptedProvider({ responses: ['Unused.'] })
+    setExplanationProvider(provider)
+
+    const result = await explainChord(['C', 'E', 'G'], { signal: AbortSignal.abort() })
+
+    expect(result.data.root).toBe('C')
+    expect(result.explanation).toBeUndefined()
+    expect(result.fallbackReason).toBeUndefined()
+    expect(result.error?.code).toBe('ABORTED')
+    expect(provider.loadCount).toBe(0)
+  })
+
+  test('stops a running generation and skips the template fallback', async () => {
+    const provider = createHangingProvider(true)
+    setExplanationProvider(provider)
+
+    const controller = new AbortController()
+    const pending = explainScale('D', 'dorian', { useCache: false, signal: controller.signal })
+    setTimeout(() => {
+      controller.abort()
+    }, 10)
+    const result = await pending
+
+    expect(result.data.notes).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C'])
+    expect(result.explanation).toBeUndefined()
+    expect(result.error?.code).toBe('ABORTED')
+    expect(provider.requests).toHaveLength(1)
+  })
+
+  test('returns promptly even if the provider ignores the signal', async () => {
+    setExplanationProvider(createHangingProvider(false))
+
+    const controller = new AbortController()
+    const pending = analyzeProgressionWithAI(['Dm7', 'G7', 'Cmaj7'], {
+      useCache: false,
+      signal: controller.signal,
+    })
+    setTimeout(() => {
+      controller.abort()
+    }, 10)
+    const result = await pending
+
+    expect(result.data.key).toBe('C major')
+    expect(result.error?.code).toBe('ABORTED')
+  })
+
+  test('aborted calls are not cached', async () => {
+    const provider = createScriptedProvider({ responses: ['Fresh G major text.'] })
+    setExplanationProvider(provider)
+
+    // Unique temperature keeps this cache entry isolated from other tests
+    await explainChord(['G', 'B', 'D'], { temperature: 0.31, signal: AbortSignal.abort() })
+    const result = await explainChord(['G', 'B', 'D'], { temperature: 0.31 })
+
+    expect(result.explanation).toBe('Fresh G major text.')
+  })
+
+  test('the signal does not change the cache key', async () => {
+    const provider = createScriptedProvider({ responses: ['Cached D major text.'] })
+    setExplanationProvider(provider)
+
+    const controller = new AbortController()
+    await explainChord(['D', 'F#', 'A'], { temperature: 0.32, signal: controller.signal })
+    const result = await explainChord(['D', 'F#', 'A'], { temperature: 0.32 })
+
+    expect(result.explanation).toBe('Cached D major text.')
+    expect(provider.requests).toHaveLength(1)
+  })
+
+  test('batch returns ABORTED for every chord once the signal aborts', async () => {
+    const controller = new AbortController()
+    const provider = createScriptedProvider({
+      responses: () => {
+        controller.abort()
+        return 'First chord text.'
+      },
+    })
+    setExplanationProvider(provider)
+
+    const results = await explainChordBatch(
+      [
+        ['C', 'E', 'G'],
+        ['F', 'A', 'C'],
+        ['G', 'B', 'D'],
+      ],
+      { useCache: false, signal: controller.signal }
+    )
+
+    expect(results).toHaveLength(3)
+    expect(results[0]?.error?.code).toBe('ABORTED')
+    expect(results[1]?.error?.code).toBe('ABORTED')
+    expect(results[2]?.error?.code).toBe('ABORTED')
+    expect(results.map((r) => r.data.root)).toEqual(['C', 'F', 'G'])
+    expect(provider.requests).toHaveLength(1)
+  })
+})
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for the streaming explain APIs
+ *
+ * Tests validate that explainChordStream(), explainScaleStream() and
+ * analyzeProgressionWithAIStream() yield chunks that match the final result,
+ * replay cached text, stream the template fallback and stop on abort.
+ * Uses the scripted test double - no AI model required.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest'
+import { explainChord, explainChordStream } from '../../../src/api/chord'
+import { explainScaleStream } from '../../../src/api/scale'
+import { analyzeProgressionWithAIStream } from '../../../src/api/progression'
+import {
+  createScriptedProvider,
+  createTemplateProvider,
+  setExplanationProvider,
+} from '../../../src/providers'
+import type { ExplanationStream } from '../../../src/types/explain'
+
+/**
+ * Collects every chunk of a stream
+ */
+async function collect<T>(stream: ExplanationStream<T>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+describe('Streaming explanations', () => {
+  afterEach(() => {
+    setExplanationProvider(null)
+  })
+
+  test('chunks concatenate to the final explanation', async () => {
+    setExplanationProvider(
+      createScriptedProvider({ responses: ['G7 is a dominant seventh chord.'] })
+    )
+
+    const stream = explainChordStream(['G', 'B', 'D', 'F'], { useCache: false })
+    const chunks = await collect(stream)
+    const result = await stream.result
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.join('')).toBe('G7 is a dominant seventh chord.')
+    expect(result.explanation).toBe('G7 is a dominant seventh chord.')
+    expect(result.data.root).toBe('G')
+    expect(result.error).toBeUndefined()
+  })
+
+  test('calls onToken for every chunk', async () => {
+    setExplanationProvider(createScriptedProvider({ responses: ['D dorian has a raised sixth.'] }))
+
+    const tokens: string[] = []
+    const stream = explainScaleStream('D', 'dorian', {
+      useCache: false,
+      onToken: (token) => tokens.push(token),
+    })
+    const chunks = await collect(stream)
+
+    expect(tokens).toEqual(chunks)
+    expect((await stream.result).data.notes).toEqual(['D', 'E', 'F', 'G', 'A', 'B', 'C'])
+  })
+
+  test('awaiting result alone drives the stream through onToken', async () => {
+    setExplanationProvider(createScriptedProvider({ responses: ['A classic ii-V-I.'] }))
+
+    const tokens: string[] = []
+    const stream = analyzeProgressionWithAIStream(['Dm7', 'G7', 'Cmaj7'], {
+      useCache: false,
+      onToken: (token) => tokens.push(token),
+    })
+    const result = await stream.result
+
+    expect(tokens.join('')).toBe('A classic ii-V-I.')
+    expect(result.explanation).toBe('A classic ii-V-I.')
+  })
+
+  test('replays cached explanations without calling the provider', async () => {
+    const provider = createScriptedProvider({ responses: ['Cached F major text.'] })
+    setExplanationProvider(provider)
+
+    // Unique temperature keeps this cache entry isolated from other tests
+    await explainChord(['F', 'A', 'C'], { temperature: 0.41 })
+
+    const stream = explainChordStream(['F', 'A', 'C'], { temperature: 0.41 })
+    const chunks = await collect(stream)
+
+    expect(chunks.join('')).toBe('Cached F major text.')
+    expect((await stream.result).explanation).toBe('Cached F major text.')
+    expect(provider.requests).toHaveLength(1)
+  })
+
+  test('caches streamed explanations', async () => {
+    const provider = createScriptedProvider({ responses: ['Streamed E minor text.'] })
+    setExplanationProvider(provider)
+
+    await collect(explainChordStream(['E', 'G', 'B'], { temperature: 0.42 }))
+    const result = await explainChord(['E', 'G', 'B'], { temperature: 0.42 })
+
+    expect(result.explanation).toBe('Streamed E minor text.')
+    expect(provider.requests).toHaveLength(1)
+  })
+
+  test('streams the template fallback when the provider fails', async () => {
+    setExplanationProvider(
+      createScriptedProvider({ responses: [new Error('Inference timeout after 5000ms')] })
+    )
+
+    const stream = explainChordStream(['C', 'E', 'G'], { useCache: false })
+    const chunks = await collect(stream)
+    const result = await stream.result
+
+    const expected = await createTemplateProvider().generate({
+      kind: 'chord',
+      prompt: '',
+      data: result.data,
+      options: { temperature: 0.5, maxTokens: 150, timeoutMs: 30000 },
+    })
+    expect(chunks.join('')).toBe(expected)
+    expect(result.explanation).toBe(expected)
+    expect(result.fallbackReason?.code).toBe('TIMEOUT')
+    expect(result.error).toBeUndefined()
+  })
+
+  test('ends with the error when fallback is disabled', async () => {
+    setExplanationProvider(
+      createScriptedProvider({ responses: [new Error('Model file not found')] })
+    )
+
+    const stream = explainChordStream(['C', 'E', 'G'], { useCache: false, fallback: false })
+    const chunks = await collect(stream)
+    const result = await stream.result
+
+    expect(chunks).toEqual([])
+    expect(result.explanation).toBeUndefined()
+    expect(result.error?.code).toBe('MODEL_UNAVAILABLE')
+  })
+
+  test('ends immediately with INVALID_INPUT for invalid input', async () => {
+    const provider = createScriptedProvider({ responses: [] })
+    setExplanationProvider(provider)
+
+    const stream = explainChordStream([])
+    const chunks = await collect(stream)
+    const result = await stream.result
+
+    expect(chunks).toEqual([])
+    expect(result.error?.code).toBe('INVALID_INPUT')
+    expect(provider.loadCount).toBe(0)
+  })
+
+  test('stops with ABORTED when the signal aborts and caches nothing', async () => {
+    const provider = createScriptedProvider({
+      responses: ['One two three four five six.', 'Fresh text.'],
+    })
+    setExplanationProvider(provider)
+
+    const controller = new AbortController()
+    const stream = explainChordStream(['A', 'C', 'E'], {
+      temperature: 0.43,
+      signal: controller.signal,
+    })
+
+    const chunks: string[] = []
+    for await (const chunk of stream) {
+      chunks.push(chunk)
+      controller.abort()
+    }
+    const result = await stream.result
+
+    expect(chunks).toEqual(['One '])
+    expect(result.explanation).toBeUndefined()
+    expect(result.error?.code).toBe('ABORTED')
+    expect(result.data.root).toBe('A')
+
+    // Nothing cached: the next call reaches the provider
+    const next = await explainChord(['A', 'C', 'E'], { temperature: 0.43 })
+    expect(next.explanation).toBe('Fresh text.')
+  })
+
+  test('breaking out of the loop ends the stream without caching', async () => {
+    const provider = createScriptedProvider({
+      responses: ['One two three four five six.', 'Fresh text.'],
+    })
+    setExplanationProvider(provider)
+
+    const stream = explainChordStream(['B', 'D', 'F#'], { temperature: 0.44 })
+    for await (const chunk of stream) {
+      expect(chunk).toBe('One ')
+      break
+    }
+
+    const result = await stream.result
+    expect(result.explanation).toBeUndefined()
+    expect(result.error).toBeUndefined()
+    const next = await explainChord(['B', 'D', 'F#'], { temperature: 0.44 })
+    expect(next.explanation).toBe('Fresh text.')
+  })
+
+  test('a throwing onToken ends a cache replay with CALLBACK_FAILED', async () => {
+    const provider = createScriptedProvider({ responses: ['Cached C major text.'] })
+    setExplanationProvider(provider)
+    await explainChord(['C', 'E', 'G'], { temperature: 0.45 })
+
+    const stream = explainChordStream(['C', 'E', 'G'], {
+      temperature: 0.45,
+      onToken: () => {
+        throw new Error('render failed')
+      },
+    })
+    const result = await stream.result
+
+    expect(result.explanation).toBeUndefined()
+    expect(result.error?.code).toBe('CALLBACK_FAILED')
+    expect(result.error?.message).toContain('render failed')
+    expect(result.data.root).toBe('C')
+  })
+
+  test('a throwing onToken is not reported as a provider failure', async () => {
+    const provider = createScriptedProvider({
+      responses: ['One two three four five six.', 'Fresh text.'],
+    })
+    setExplanationProvider(provider)
+
+    const tokens: string[] = []
+    const stream = explainChordStream(['D', 'F#', 'A'], {
+      temperature: 0.46,
+      onToken: (token) => {
+        tokens.push(token)
+        if (tokens.length === 2) throw new Error('render failed')
+      },
+    })
+    const chunks = await collect(stream)
+    const result = await stream.result
+
+    expect(chunks).toEqual(['One '])
+    expect(result.explanation).toBeUndefined()
+    expect(result.fallbackReason).toBeUndefined()
+    expect(result.error?.code).toBe('CALLBACK_FAILED')
+
+    // Nothing cached: the next call reaches the provider
+    const next = await explainChord(['D', 'F#', 'A'], { temperature: 0.46 })
+    expect(next.explanation).toBe('Fresh text.')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for cache pre-warming and explanation cache export/import
+ *
+ * Tests validate that prewarmCache() fills the shared caches, and that an
+ * exported snapshot answers later calls without loading the model. Uses the
+ * scripted provider - no AI model required.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest'
+import { explainChord } from '../../../src/api/chord'
+import { explainScale } from '../../../src/api/scale'
+import { prewarmCache } from '../../../src/api/prewarm'
+import { exportCache, importCache, setCacheStorage } from '../../../src/cache/registry'
+import { createScriptedProvider, setExplanationProvider } from '../../../src/providers'
+
+describe('Cache pre-warming', () => {
+  afterEach(() => {
+    setExplanationProvider(null)
+    // Fresh in-memory caches for the next test
+    setCacheStorage(null)
+  })
+
+  test('fills the caches for chords, scales and progressions', async () => {
+    const provider = createScriptedProvider({ responses: () => 'Explained.' })
+    setExplanationProvider(provider)
+
+    const result = await prewarmCache({
+      chords: [
+        ['C', 'E', 'G'],
+        ['A', 'C', 'E'],
+      ],
+      scales: [{ root: 'D', type: 'dorian' }],
+      progressions: [['C', 'Am', 'F', 'G']],
+    })
+
+    expect(result).toEqual({ cached: 4, failed: 0 })
+    expect(provider.requests.map((request) => request.kind)).toEqual([
+      'chord',
+      'chord',
+      'scale',
+      'progression',
+    ])
+
+    await explainChord(['C', 'E', 'G'])
+    await explainScale('D', 'dorian')
+    expect(provider.requests).toHaveLength(4)
+  })
+
+  test('counts invalid inputs and provider failures as failed', async () => {
+    setExplanationProvider(
+      createScriptedProvider({ responses: ['Explained.', new Error('Inference failed')] })
+    )
+
+    const result = await prewarmCache({
+      chords: [
+        ['C', 'E', 'G'],
+        ['X', 'Y', 'Z'],
+        ['D', 'F#', 'A'],
+      ],
+    })
+
+    expect(result).toEqual({ cached: 1, failed: 2 })
+  })
+
+  test('returns zero counts for empty inputs', async () => {
+    expect(await prewarmCache({})).toEqual({ cached: 0, failed: 0 })
+  })
+})
+
+describe('Explanation cache export/import', () => {
+  afterEach(() => {
+    setExplanationProvider(null)
+    setCacheStorage(null)
+  })
+
+  test('serves imported explanations without loading the model', async () => {
+    setExplanationProvider(createScriptedProvider({ responses: () => 'C major is bright.' }))
+    await prewarmCache({ chords: [['C', 'E', 'G']] })
+    const snapshot = JSON.parse(JSON.stringify(exportCache())) as ReturnType<typeof exportCache>
+
+    // Simulate a fresh install with the same provider name
+    setCacheStorage(null)
+    const provider = createScriptedProvider({
+      responses: [],
+      loadError: new Error('Model not found'),
+    })
+    setExplanationProvider(provider)
+
+    expect(importCache(snapshot)).toEqual({ imported: 1, skipped: 0 })
+
+    const result = await explainChord(['C', 'E', 'G'])
+    expect(result.explanation).toBe('C major is bright.')
+    expect(provider.loadCount).toBe(0)
+  })
+
+  test('skips snapshots from another model version', () => {
+    const snapshot = exportCache()
+    const chordSnapshot = {
+      format: 1 as const,
+      version: 'other-model.gguf',
+      entries: [
+        {
+          key: 'scripted:0-4-7:0.5:150',
+          explanation: 'Old text',
+          timestamp: Date.now(),
+          lastAccessed: Date.now(),
+          options: {
+            temperature: 0.5,
+            maxTokens: 150,
+            timeout: 30000,
+            useCache: true,
+            fallback: true,
+          },
+        },
+      ],
+    }
+
+    expect(importCache({ ...snapshot, chord: chordSnapshot })).toEqual({ imported: 0, skipped: 1 })
+  })
+})
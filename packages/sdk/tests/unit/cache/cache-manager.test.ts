@@ -558,4 +558,127 @@ describe('HybridCache', () => {
       expect(cache.size).toBe(2)
     })
   })
+
+  describe('export() and import()', () => {
+    function makeEntry(key: string, explanation: string, timestamp = Date.now()): CacheEntry {
+      return {
+        key,
+        explanation,
+        timestamp,
+        lastAccessed: timestamp,
+        options: {
+          temperature: 0.5,
+          maxTokens: 150,
+          timeout: 30000,
+          useCache: true,
+          fallback: true,
+        },
+      }
+    }
+
+    it('round-trips entries through a JSON snapshot', () => {
+      cache.set(makeEntry('0-4-7', 'C major'))
+      cache.set(makeEntry('2-5-9', 'D minor'))
+
+      const snapshot = JSON.parse(JSON.stringify(cache.export())) as ReturnType<
+        HybridCache['export']
+      >
+      const restored = new HybridCache()
+
+      expect(restored.import(snapshot)).toEqual({ imported: 2, skipped: 0 })
+      expect(restored.get('0-4-7')?.explanation).toBe('C major')
+      expect(restored.get('2-5-9')?.explanation).toBe('D minor')
+    })
+
+    it('leaves out expired entries and does not affect statistics', () => {
+      cache.set(makeEntry('0-4-7', 'C major', Date.now() - 25 * 60 * 60 * 1000))
+      cache.set(makeEntry('2-5-9', 'D minor'))
+
+      const snapshot = cache.export()
+
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual(['2-5-9'])
+      expect(cache.getStats().hits + cache.getStats().misses).toBe(0)
+    })
+
+    it('resolves conflicts in favour of the newer entry by default', () => {
+      const now = Date.now()
+      cache.set(makeEntry('0-4-7', 'Cached', now - 1000))
+      cache.set(makeEntry('2-5-9', 'Cached', now))
+
+      const result = cache.import({
+        format: 1,
+        version: cache.export().version,
+        entries: [makeEntry('0-4-7', 'Imported', now), makeEntry('2-5-9', 'Imported', now - 1000)],
+      })
+
+      expect(result).toEqual({ imported: 1, skipped: 1 })
+      expect(cache.get('0-4-7')?.explanation).toBe('Imported')
+      expect(cache.get('2-5-9')?.explanation).toBe('Cached')
+    })
+
+    it('supports keep and replace conflict rules', () => {
+      cache.set(makeEntry('0-4-7', 'Cached'))
+      const snapshot = {
+        format: 1 as const,
+        version: cache.export().version,
+        entries: [makeEntry('0-4-7', 'Imported', Date.now() + 1000)],
+      }
+
+      cache.import(snapshot, { onConflict: 'keep' })
+      expect(cache.get('0-4-7')?.explanation).toBe('Cached')
+
+      cache.import(
+        { ...snapshot, entries: [makeEntry('0-4-7', 'Imported', Date.now() - 1000)] },
+        {
+          onConflict: 'replace',
+        }
+      )
+      expect(cache.get('0-4-7')?.explanation).toBe('Imported')
+    })
+
+    it('skips expired entries unless timestamps are refreshed', () => {
+      const old = makeEntry('0-4-7', 'C major', Date.now() - 30 * 24 * 60 * 60 * 1000)
+      const snapshot = { format: 1 as const, version: cache.export().version, entries: [old] }
+
+      expect(cache.import(snapshot)).toEqual({ imported: 0, skipped: 1 })
+      expect(cache.import(snapshot, { refreshTimestamps: true })).toEqual({
+        imported: 1,
+        skipped: 0,
+      })
+      expect(cache.get('0-4-7')?.explanation).toBe('C major')
+    })
+
+    it('skips snapshots from another model version and malformed entries', () => {
+      const version = cache.export().version
+
+      expect(
+        cache.import({ format: 1, version: 'other.gguf', entries: [makeEntry('0-4-7', 'C')] })
+      ).toEqual({ imported: 0, skipped: 1 })
+
+      const malformed = { key: '0-4-7' } as unknown as CacheEntry
+      expect(cache.import({ format: 1, version, entries: [malformed] })).toEqual({
+        imported: 0,
+        skipped: 1,
+      })
+      expect(cache.size).toBe(0)
+    })
+
+    it('applies maxSize to imported entries', () => {
+      const small = new HybridCache({ maxSize: 2 })
+      const now = Date.now()
+
+      small.import({
+        format: 1,
+        version: small.export().version,
+        entries: [
+          makeEntry('0-4-7', 'C', now - 3000),
+          makeEntry('2-5-9', 'Dm', now - 2000),
+          makeEntry('4-7-11', 'Em', now - 1000),
+        ],
+      })
+
+      expect(small.size).toBe(2)
+      expect(small.has('0-4-7')).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { HybridCache } from '../../../src/cache/cache-manager'
+import {
+  createDirectoryCacheStorage,
+  createFileCacheStorage,
+  createMemoryCacheStorage,
+} from '../../../src/cache/storage'
+import type { CacheEntry } from '../../../src/cache/types'
+
+function makeEntry(key: string, explanation: string, lastAccessed = Date.now()): CacheEntry {
+  return {
+    key,
+    explanation,
+    timestamp: Date.now(),
+    lastAccessed,
+    options: { temperature: 0.5, maxTokens: 150, timeout: 30000, useCache: true },
+  }
+}
+
+describe('cache storage backends', () => {
+  let tempDir: string
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'mrs-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  describe('createMemoryCacheStorage()', () => {
+    it('stores, replaces and deletes entries', () => {
+      const storage = createMemoryCacheStorage()
+
+      storage.set(makeEntry('0-4-7', 'First'))
+      storage.set(makeEntry('0-4-7', 'Second'))
+      storage.set(makeEntry('2-5-9', 'D minor'))
+
+      expect(storage.size).toBe(2)
+      expect(storage.get('0-4-7')?.explanation).toBe('Second')
+
+      storage.delete('0-4-7')
+      expect(storage.get('0-4-7')).toBeUndefined()
+
+      storage.clear()
+      expect(storage.size).toBe(0)
+    })
+  })
+
+  describe('createFileCacheStorage()', () => {
+    it('restores entries after a restart', () => {
+      const filePath = join(tempDir, 'nested', 'chord.jsonl')
+
+      const first = createFileCacheStorage(filePath)
+      first.set(makeEntry('0-4-7', 'C major'))
+      first.set(makeEntry('2-5-9', 'D minor'))
+      first.delete('2-5-9')
+
+      const second = createFileCacheStorage(filePath)
+      expect(second.size).toBe(1)
+      expect(second.get('0-4-7')?.explanation).toBe('C major')
+      expect(second.get('2-5-9')).toBeUndefined()
+    })
+
+    it('ignores a truncated last line', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      createFileCacheStorage(filePath).set(makeEntry('0-4-7', 'C major'))
+      writeFileSync(filePath, `${readFileSync(filePath, 'utf8')}{"op":"set","entry":{"key"`)
+
+      const storage = createFileCacheStorage(filePath)
+      expect(storage.size).toBe(1)
+      expect(storage.get('0-4-7')?.explanation).toBe('C major')
+    })
+
+    it('compacts the log when it grows past the live entries', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      const storage = createFileCacheStorage(filePath)
+
+      for (let i = 0; i < 250; i++) {
+        storage.set(makeEntry('0-4-7', `Explanation ${String(i)}`))
+      }
+
+      const lines = readFileSync(filePath, 'utf8').trim().split('\n')
+      expect(lines.length).toBeLessThanOrEqual(100)
+      expect(createFileCacheStorage(filePath).get('0-4-7')?.explanation).toBe('Explanation 249')
+    })
+
+    it('removes the log file on clear()', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      const storage = createFileCacheStorage(filePath)
+      storage.set(makeEntry('0-4-7', 'C major'))
+
+      storage.clear()
+
+      expect(readdirSync(tempDir)).toEqual([])
+      expect(createFileCacheStorage(filePath).size).toBe(0)
+    })
+
+    it('keeps working from memory when the file cannot be written', () => {
+      // A directory in place of the log file makes every write fail
+      const storage = createFileCacheStorage(tempDir)
+
+      expect(() => storage.set(makeEntry('0-4-7', 'C major'))).not.toThrow()
+      expect(storage.get('0-4-7')?.explanation).toBe('C major')
+    })
+  })
+
+  describe('createDirectoryCacheStorage()', () => {
+    it('writes one file per entry and restores them after a restart', () => {
+      const dirPath = join(tempDir, 'chord')
+
+      const first = createDirectoryCacheStorage(dirPath)
+      first.set(makeEntry('0-4-7', 'C major'))
+      first.set(makeEntry('2-5-9', 'D minor'))
+      first.delete('2-5-9')
+
+      expect(readdirSync(dirPath)).toHaveLength(1)
+
+      const second = createDirectoryCacheStorage(dirPath)
+      expect(second.size).toBe(1)
+      expect(second.get('0-4-7')?.explanation).toBe('C major')
+    })
+
+    it('removes every entry file on clear()', () => {
+      const dirPath = join(tempDir, 'chord')
+      const storage = createDirectoryCacheStorage(dirPath)
+      storage.set(makeEntry('0-4-7', 'C major'))
+      storage.set(makeEntry('2-5-9', 'D minor'))
+
+      storage.clear()
+
+      expect(readdirSync(dirPath)).toEqual([])
+    })
+
+    it('leaves files that are not cache entries alone', () => {
+      const dirPath = join(tempDir, 'data')
+      const storage = createDirectoryCacheStorage(dirPath)
+      storage.set(makeEntry('0-4-7', 'C major'))
+      const userFile = join(dirPath, 'settings.json')
+      writeFileSync(userFile, JSON.stringify(makeEntry('2-5-9', 'Not a cache entry')))
+
+      expect(createDirectoryCacheStorage(dirPath).size).toBe(1)
+
+      storage.clear()
+
+      expect(readdirSync(dirPath)).toEqual(['settings.json'])
+      expect(readFileSync(userFile, 'utf8')).toContain('Not a cache entry')
+    })
+
+    it('starts empty when the directory does not exist', () => {
+      const storage = createDirectoryCacheStorage(join(tempDir, 'missing'))
+      expect(storage.size).toBe(0)
+    })
+  })
+
+  describe('HybridCache on persistent storage', () => {
+    it('serves entries cached before a restart', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      new HybridCache({}, createFileCacheStorage(filePath)).set(makeEntry('0-4-7', 'C major'))
+
+      const cache = new HybridCache({}, createFileCacheStorage(filePath))
+
+      expect(cache.get('0-4-7')?.explanation).toBe('C major')
+      expect(cache.getStats().hits).toBe(1)
+    })
+
+    it('persists LRU order across restarts', () => {
+      const dirPath = join(tempDir, 'chord')
+      const before = new HybridCache({ maxSize: 2 }, createDirectoryCacheStorage(dirPath))
+      before.set(makeEntry('0-4-7', 'C major', Date.now() - 2000))
+      before.set(makeEntry('2-5-9', 'D minor', Date.now() - 1000))
+      before.get('0-4-7') // C major becomes most recently used
+
+      const after = new HybridCache({ maxSize: 2 }, createDirectoryCacheStorage(dirPath))
+      after.set(makeEntry('4-7-11', 'E minor'))
+
+      expect(after.has('0-4-7')).toBe(true)
+      expect(after.has('2-5-9')).toBe(false)
+      expect(after.getStats().lruEvictions).toBe(1)
+    })
+
+    it('records cache hits without rewriting the entry', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      const logged = new HybridCache({}, createFileCacheStorage(filePath))
+      logged.set(makeEntry('0-4-7', 'C major'))
+      logged.get('0-4-7')
+
+      const lines = readFileSync(filePath, 'utf8').trim().split('\n')
+      expect(lines).toHaveLength(2)
+      expect(lines[1]).not.toContain('C major')
+      expect(JSON.parse(lines[1] ?? '')).toMatchObject({ op: 'touch', key: '0-4-7' })
+
+      const dirPath = join(tempDir, 'chord')
+      const stored = new HybridCache({}, createDirectoryCacheStorage(dirPath))
+      stored.set(makeEntry('0-4-7', 'C major', Date.now() - 5000))
+      const [fileName] = readdirSync(dirPath)
+      const entryPath = join(dirPath, fileName ?? '')
+      const { ino } = statSync(entryPath)
+      const hit = stored.get('0-4-7')
+
+      expect(statSync(entryPath).ino).toBe(ino)
+      expect(statSync(entryPath).mtimeMs).toBeCloseTo(hit?.lastAccessed ?? 0, -1)
+      expect(createDirectoryCacheStorage(dirPath).get('0-4-7')?.lastAccessed).toBe(
+        hit?.lastAccessed
+      )
+    })
+
+    it('discards entries generated by another model version', () => {
+      const filePath = join(tempDir, 'chord.jsonl')
+      new HybridCache({ version: 'old-model.gguf' }, createFileCacheStorage(filePath)).set(
+        makeEntry('0-4-7', 'Old explanation')
+      )
+
+      const cache = new HybridCache({ version: 'new-model.gguf' }, createFileCacheStorage(filePath))
+
+      expect(cache.size).toBe(0)
+      expect(cache.get('0-4-7')).toBeUndefined()
+      expect(createFileCacheStorage(filePath).size).toBe(0)
+    })
+
+    it('stamps entries with the model version', () => {
+      const cache = new HybridCache({ version: 'model-a.gguf' })
+      cache.set(makeEntry('0-4-7', 'C major'))
+
+      expect(cache.get('0-4-7')?.version).toBe('model-a.gguf')
+    })
+
+    it('switches storage with setStorage()', () => {
+      const cache = new HybridCache()
+      cache.set(makeEntry('0-4-7', 'In memory'))
+
+      cache.setStorage(createDirectoryCacheStorage(join(tempDir, 'chord')))
+
+      expect(cache.size).toBe(0)
+      cache.set(makeEntry('2-5-9', 'On disk'))
+      expect(createDirectoryCacheStorage(join(tempDir, 'chord')).size).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * Unit tests for explanation providers
+ *
+ * Tests validate provider resolution and that the explain APIs route generation
+ * through the configured provider. Uses the scripted test double and the
+ * template provider - no AI model required.
+ */
+
+import { describe, test, expect, afterEach } from 'vitest'
+import { explainChord, identifyChord } from '../../../src/api/chord'
+import { explainScale, getScale } from '../../../src/api/scale'
+import { analyzeProgressionWithAI } from '../../../src/api/progression'
+import {
+  createScriptedProvider,
+  createTemplateProvider,
+  getExplanationProvider,
+  setExplanationProvider,
+} from '../../../src/providers'
+
+describe('Explanation Providers', () => {
+  afterEach(() => {
+    setExplanationProvider(null)
+  })
+
+  describe('Provider resolution', () => {
+    test('uses the local model provider by default', () => {
+      const provider = getExplanationProvider()
+
+      expect(provider.name).toBe('llama')
+      expect(provider.capabilities.requiresModel).toBe(true)
+    })
+
+    test('resolves built-in providers by name', () => {
+      setExplanationProvider('template')
+      expect(getExplanationProvider().name).toBe('template')
+
+      setExplanationProvider('llama')
+      expect(getExplanationProvider().name).toBe('llama')
+    })
+
+    test('null restores the default provider', () => {
+      setExplanationProvider(createTemplateProvider())
+      setExplanationProvider(null)
+
+      expect(getExplanationProvider().name).toBe('llama')
+    })
+  })
+
+  describe('Routing explain calls through the provider', () => {
+    test('explainChord sends chord data and options to the provider', async () => {
+      const provider = createScriptedProvider({ responses: ['C major is bright and stable.'] })
+      setExplanationProvider(provider)
+
+      const result = await explainChord(['C', 'E', 'G'], { useCache: false, maxTokens: 100 })
+
+      expect(result.explanation).toBe('C major is bright and stable.')
+      expect(result.error).toBeUndefined()
+      expect(provider.loadCount).toBe(1)
+
+      const request = provider.requests[0]
+      expect(request?.kind).toBe('chord')
+      expect(request?.prompt).toContain('Root: C')
+      expect(request?.options).toEqual({ temperature: 0.5, maxTokens: 100, timeoutMs: 30000 })
+      if (request?.kind === 'chord') {
+        expect(request.data.root).toBe('C')
+      }
+    })
+
+    test('explainScale and analyzeProgressionWithAI use the same provider', async () => {
+      const provider = createScriptedProvider({
+        responses: (request) => `explained ${request.kind}`,
+      })
+      setExplanationProvider(provider)
+
+      const scaleResult = await explainScale('D', 'dorian', { useCache: false })
+      const progressionResult = await analyzeProgressionWithAI(['Dm7', 'G7', 'Cmaj7'], {
+        useCache: false,
+      })
+
+      expect(scaleResult.explanation).toBe('explained scale')
+      expect(progressionResult.explanation).toBe('explained progression')
+      expect(provider.requests.map((request) => request.kind)).toEqual(['scale', 'progression'])
+    })
+
+    test('provider errors are categorized for graceful degradation', async () => {
+      setExplanationProvider(
+        createScriptedProvider({ responses: [new Error('Inference timeout after 5000ms')] })
+      )
+
+      const result = await explainChord(['D', 'F#', 'A'], { useCache: false, fallback: false })
+
+      expect(result.data.root).toBe('D')
+      expect(result.explanation).toBeUndefined()
+      expect(result.error?.code).toBe('TIMEOUT')
+    })
+
+    test('load failures return deterministic data with MODEL_UNAVAILABLE', async () => {
+      const provider = createScriptedProvider({
+        responses: ['never used'],
+        loadError: new Error('Model not found'),
+      })
+      setExplanationProvider(provider)
+
+      const result = await explainScale('C', 'major', { useCache: false, fallback: false })
+
+      expect(result.data.notes).toEqual(['C', 'D', 'E', 'F', 'G', 'A', 'B'])
+      expect(result.error?.code).toBe('MODEL_UNAVAILABLE')
+      expect(provider.requests).toHaveLength(0)
+    })
+
+    test('cached explanations are scoped by provider', async () => {
+      const first = createScriptedProvider({ responses: ['first provider text'] })
+      setExplanationProvider(first)
+      await explainChord(['E', 'G#', 'B'])
+
+      // Same provider name: served from cache without a second call
+      const again = await explainChord(['E', 'G#', 'B'])
+      expect(again.explanation).toBe('first provider text')
+
+      // Different provider: cache miss, generated by the new provider
+      setExplanationProvider(createTemplateProvider())
+      const other = await explainChord(['E', 'G#', 'B'])
+      expect(other.explanation).not.toBe('first provider text')
+      expect(other.explanation).toContain('E')
+    })
+  })
+
+  describe('Template fallback', () => {
+    test('provider failures fall back to a template explanation', async () => {
+      setExplanationProvider(
+        createScriptedProvider({ responses: [], loadError: new Error('Model not found') })
+      )
+
+      const chordResult = await explainChord(['D', 'F#', 'A'], { useCache: false })
+      const scaleResult = await explainScale('C', 'major', { useCache: false })
+      const progressionResult = await analyzeProgressionWithAI(['C', 'F', 'G', 'C'], {
+        useCache: false,
+      })
+
+      for (const result of [chordResult, scaleResult, progressionResult]) {
+        expect(result.explanation).toBeTruthy()
+        expect(result.error).toBeUndefined()
+        expect(result.fallbackReason?.code).toBe('MODEL_UNAVAILABLE')
+      }
+      expect(chordResult.explanation).toContain('D major is a major triad')
+    })
+
+    test('fallback text matches the template provider', async () => {
+      setExplanationProvider(
+        createScriptedProvider({ responses: [new Error('Inference timeout after 5000ms')] })
+      )
+      const fallback = await explainChord(['G', 'B', 'D', 'F'], { useCache: false })
+
+      setExplanationProvider('template')
+      const template = await explainChord(['G', 'B', 'D', 'F'], { useCache: false })
+
+      expect(fallback.fallbackReason?.code).toBe('TIMEOUT')
+      expect(fallback.explanation).toBe(template.explanation)
+      expect(template.fallbackReason).toBeUndefined()
+    })
+
+    test('fallback text is not cached', async () => {
+      setExplanationProvider(
+        createScriptedProvider({
+          responses: [new Error('Model not found'), 'model text after recovery'],
+        })
+      )
+
+      const first = await explainChord(['Ab', 'C', 'Eb'])
+      const second = await explainChord(['Ab', 'C', 'Eb'])
+
+      expect(first.fallbackReason).toBeDefined()
+      expect(second.explanation).toBe('model text after recovery')
+      expect(second.fallbackReason).toBeUndefined()
+    })
+  })
+
+  describe('Template provider', () => {
+    test('explains chords, scales and progressions without a model', async () => {
+      setExplanationProvider('template')
+
+      const chordResult = await explainChord(['C', 'E', 'G'], { useCache: false })
+      const scaleResult = await explainScale('A', 'minor', { useCache: false })
+      const progressionResult = await analyzeProgressionWithAI(['C', 'G', 'Am', 'F'], {
+        useCache: false,
+      })
+
+      expect(chordResult.explanation).toContain('major triad built on C')
+      expect(scaleResult.explanation).toContain('A minor')
+      expect(progressionResult.explanation).toContain('I → V → vi → IV')
+    })
+
+    test('is deterministic', async () => {
+      const provider = createTemplateProvider()
+      const request = {
+        kind: 'scale' as const,
+        prompt: '',
+        data: getScale('G', 'major'),
+        options: { temperature: 0.9, maxTokens: 50, timeoutMs: 5000 },
+      }
+
+      expect(await provider.generate(request)).toBe(await provider.generate(request))
+      expect(provider.capabilities.deterministic).toBe(true)
+    })
+  })
+
+  describe('Scripted provider', () => {
+    test('streams replies word by word', async () => {
+      const provider = createScriptedProvider({ responses: ['G7 wants to resolve.'] })
+      const chunks: string[] = []
+      const request = {
+        kind: 'chord' as const,
+        prompt: 'Explain G7',
+        data: identifyChord(['G', 'B', 'D', 'F']),
+        options: { temperature: 0.5, maxTokens: 150, timeoutMs: 30000 },
+      }
+
+      for await (const chunk of provider.stream(request)) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks).toEqual(['G7 ', 'wants ', 'to ', 'resolve.'])
+    })
+
+    test('rejects once the script runs out', async () => {
+      const provider = createScriptedProvider({ responses: [] })
+      setExplanationProvider(provider)
+
+      const result = await explainChord(['F', 'A', 'C'], { useCache: false, fallback: false })
+
+      expect(result.error?.message).toContain('no response')
+    })
+
+    test('records disposal', async () => {
+      const provider = createScriptedProvider({ responses: [] })
+      await provider.dispose()
+
+      expect(provider.disposed).toBe(true)
+    })
+  })
+})
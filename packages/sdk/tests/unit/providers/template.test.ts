@@ -0,0 +1,122 @@
+/**
+ * Unit tests for template explanations
+ *
+ * Tests validate that the template provider turns deterministic chord, scale
+ * and progression data into readable paragraphs - no AI model required.
+ */
+
+import { describe, test, expect } from 'vitest'
+import { identifyChord } from '../../../src/api/chord'
+import { getScale } from '../../../src/api/scale'
+import { analyzeProgression } from '../../../src/api/progression'
+import { renderTemplateExplanation } from '../../../src/providers/template'
+
+describe('Template explanations', () => {
+  describe('Chords', () => {
+    test('describes quality, intervals and character', () => {
+      const text = renderTemplateExplanation({
+        kind: 'chord',
+        data: identifyChord(['G', 'B', 'D', 'F']),
+      })
+
+      expect(text).toContain('G7 is a dominant seventh chord built on G.')
+      expect(text).toContain('a major third (B), a perfect fifth (D) and a minor seventh (F)')
+      expect(text).toContain('tritone')
+    })
+
+    test('names upper extensions above a seventh', () => {
+      const text = renderTemplateExplanation({
+        kind: 'chord',
+        data: identifyChord(['C', 'E', 'G', 'B', 'D']),
+      })
+
+      expect(text).toContain('a ninth (D)')
+    })
+
+    test('describes inversions with figured bass', () => {
+      const text = renderTemplateExplanation({
+        kind: 'chord',
+        data: identifyChord(['E', 'G', 'C']),
+      })
+
+      expect(text).toContain('With E in the bass it is in first inversion (figured bass 6).')
+    })
+
+    test('describes suspended chords and partial matches', () => {
+      const text = renderTemplateExplanation({
+        kind: 'chord',
+        data: identifyChord(['C', 'F', 'G']),
+      })
+
+      expect(text).toContain('Csus4 is a suspended triad')
+      expect(text).toContain('approximate (60% confidence)')
+    })
+
+    test('skips other spellings of the same chord', () => {
+      const text = renderTemplateExplanation({
+        kind: 'chord',
+        data: identifyChord(['C', 'E', 'G']),
+      })
+
+      expect(text).not.toContain('CM')
+      expect(text).toContain('Em#5/C')
+    })
+  })
+
+  describe('Scales', () => {
+    test('describes notes, steps, primary degrees and relatives', () => {
+      const text = renderTemplateExplanation({ kind: 'scale', data: getScale('C', 'major') })
+
+      expect(text).toContain('C major is a seven-note scale built on C: C, D, E, F, G, A and B.')
+      expect(text).toContain('W-W-H-W-W-W-H')
+      expect(text).toContain('the tonic C, the subdominant F and the dominant G')
+      expect(text).toContain('Its relative minor is A minor and its parallel minor is C minor.')
+      expect(text).toContain('from C ionian to B locrian')
+    })
+
+    test('describes modal character', () => {
+      const text = renderTemplateExplanation({ kind: 'scale', data: getScale('D', 'dorian') })
+
+      expect(text).toContain('raised sixth')
+    })
+  })
+
+  describe('Progressions', () => {
+    test('describes key, Roman numerals, functions and cadences', () => {
+      const text = renderTemplateExplanation({
+        kind: 'progression',
+        data: analyzeProgression(['C', 'Am', 'F', 'G']),
+      })
+
+      expect(text).toContain('This progression is in C major (100% confidence).')
+      expect(text).toContain('I → vi → IV → V')
+      expect(text).toContain('G as dominant (tension)')
+      expect(text).toContain('F → G forms a half cadence')
+      expect(text).toContain('It is most typical of pop')
+    })
+
+    test('describes borrowed chords and secondary dominants', () => {
+      const borrowed = renderTemplateExplanation({
+        kind: 'progression',
+        data: analyzeProgression(['C', 'F', 'Fm', 'C']),
+      })
+      const secondary = renderTemplateExplanation({
+        kind: 'progression',
+        data: analyzeProgression(['C', 'Am', 'D7', 'G', 'Em', 'A7', 'D']),
+      })
+
+      expect(borrowed).toContain('Fm is borrowed from C minor')
+      expect(borrowed).toContain('plagal cadence')
+      expect(secondary).toContain('A7 acts as a secondary dominant (V7/V), pointing to D.')
+    })
+
+    test('separates topics into paragraphs', () => {
+      const text = renderTemplateExplanation({
+        kind: 'progression',
+        data: analyzeProgression(['Dm7', 'G7', 'Cmaj7']),
+      })
+
+      expect(text.split('\n\n').length).toBeGreaterThan(1)
+    })
+  })
+})
@@ -73,6 +73,26 @@ export interface ChordIdentification {
    * - <0.6 = Partial match
    */
   readonly confidence: number
+
+  /**
+   * Lowest note (pitch class). Taken from the lowest pitch when all notes
+   * carry octaves, otherwise from the first note.
+   */
+  readonly bass?: string
+
+  /**
+   * Inversion number: 0 = root position, 1 = first inversion (3rd in bass),
+   * 2 = second inversion (5th in bass), 3 = third inversion (7th in bass).
+   * Null when the bass is not a chord tone.
+   */
+  readonly inversion?: number | null
+
+  /**
+   * Figured-bass abbreviation for the inversion: '' (root-position triad),
+   * '6', '6/4', '7', '6/5', '4/3' or '4/2'.
+   * Null for chords that figures do not describe (sus, added tones, extensions).
+   */
+  readonly figuredBass?: string | null
 }
 
 /**
@@ -161,6 +181,24 @@ export interface ChordBuild {
    * Example for Cmaj7: ["C6", "Am7", "Em7"]
    */
   readonly commonSubstitutions: readonly string[]
+
+  /**
+   * Bass note: the slash bass for slash chords (e.g., "G" for "C/G"),
+   * otherwise the root. Always the lowest note of `voicing`.
+   */
+  readonly bass?: string
+
+  /**
+   * Inversion number (0 = root position), or null when the slash bass
+   * is not a chord tone (e.g., "C/D").
+   */
+  readonly inversion?: number | null
+
+  /**
+   * Figured-bass abbreviation ('', '6', '6/4', '7', '6/5', '4/3', '4/2'),
+   * or null when figures do not apply.
+   */
+  readonly figuredBass?: string | null
 }
 
 /**
@@ -175,6 +213,25 @@ export interface ChordBuildOptions {
 
   /** Enharmonic preference for note spellings */
   readonly enharmonic?: 'sharps' | 'flats' | 'preserve'
+
+  /**
+   * Key to spell the chord in (e.g., "Db major", "E minor").
+   * Takes precedence over `enharmonic`: D#7 in Db major is built as Eb7.
+   * @since v2.0.0
+   */
+  readonly key?: string
+}
+
+/**
+ * Options for identifying a chord.
+ * @since v2.0.0
+ */
+export interface ChordIdentifyOptions {
+  /**
+   * Key to spell the result in (e.g., "Db major", "E minor").
+   * Without a key, notes keep the spelling they were given.
+   */
+  readonly key?: string
 }
 
 /**
@@ -201,3 +258,240 @@ export interface ChordSubstitution {
   /** Explanation of why this substitution works */
   readonly reason: string
 }
+
+/**
+ * Options for voice leading from one chord to the next.
+ */
+export interface VoiceLeadingOptions {
+  /**
+   * Allowed pitch range for every voice (default: C3 to C6).
+   * Notes with octave numbers, e.g. `{ low: 'E2', high: 'G5' }`.
+   */
+  readonly range?: {
+    readonly low: string
+    readonly high: string
+  }
+
+  /**
+   * Reject voicings that move two voices in parallel perfect fifths or
+   * octaves (default: true). If every candidate contains parallels, the
+   * smoothest one is returned and the parallels are reported.
+   */
+  readonly avoidParallels?: boolean
+
+  /** Base octave used when the starting chord is given as a symbol (default: 4) */
+  readonly octave?: number
+}
+
+/**
+ * A pair of voices moving in parallel perfect intervals.
+ */
+export interface ParallelMotion {
+  /** Voice indices (0 = lowest voice) */
+  readonly voices: readonly [number, number]
+
+  /** The perfect interval that is repeated */
+  readonly interval: 'fifth' | 'octave'
+}
+
+/**
+ * Result of voice leading a chord against the previous voicing.
+ *
+ * @remarks
+ * Returned by `voiceLead()`. Voices are ordered from lowest to highest and
+ * keep their identity across chords, so `notes[i]` is the destination of
+ * voice `i` of the previous voicing.
+ *
+ * @example
+ * ```typescript
+ * const result = voiceLead(['C4', 'E4', 'G4'], 'F')
+ * // result.notes === ['C4', 'F4', 'A4']
+ * // result.motion === [0, 1, 2]
+ * // result.totalMotion === 3
+ * ```
+ */
+export interface VoiceLeading {
+  /** Destination chord symbol */
+  readonly chord: string
+
+  /** Voiced notes with octave numbers, lowest voice first */
+  readonly notes: readonly string[]
+
+  /** Signed semitone motion of each voice (positive = up) */
+  readonly motion: readonly number[]
+
+  /** Sum of absolute semitone motion across all voices */
+  readonly totalMotion: number
+
+  /** Parallel fifths/octaves in the chosen voicing (empty unless unavoidable) */
+  readonly parallels: readonly ParallelMotion[]
+}
+
+/**
+ * A voice in four-part (SATB) writing.
+ */
+export type SATBVoice = 'soprano' | 'alto' | 'tenor' | 'bass'
+
+/**
+ * A four-part chord with one octave-qualified note per voice.
+ *
+ * @example
+ * ```typescript
+ * const chord: SATBChord = { soprano: 'E5', alto: 'C5', tenor: 'G4', bass: 'C3' }
+ * ```
+ */
+export interface SATBChord {
+  readonly soprano: string
+  readonly alto: string
+  readonly tenor: string
+  readonly bass: string
+}
+
+/**
+ * Machine-readable codes for four-part voice-leading rule violations.
+ */
+export type VoiceLeadingRuleCode =
+  | 'PARALLEL_FIFTHS' // Two voices move in parallel perfect fifths
+  | 'PARALLEL_OCTAVES' // Two voices move in parallel octaves or unisons
+  | 'HIDDEN_FIFTHS' // Outer voices approach a fifth in similar motion with a soprano leap
+  | 'HIDDEN_OCTAVES' // Outer voices approach an octave in similar motion with a soprano leap
+  | 'VOICE_CROSSING' // A lower voice sounds above the voice above it
+  | 'SPACING' // More than an octave between adjacent upper voices
+  | 'UNRESOLVED_LEADING_TONE' // Leading tone in a dominant chord does not rise to the tonic
+  | 'UNRESOLVED_SEVENTH' // Chordal seventh does not resolve down by step
+  | 'DOUBLED_LEADING_TONE' // Leading tone doubled in a dominant chord
+
+/**
+ * A single voice-leading rule violation.
+ *
+ * @remarks
+ * Mirrors the structure of MusicTheoryErrorData (code, message, suggestion)
+ * so findings can be surfaced alongside other errors.
+ */
+export interface VoiceLeadingViolation {
+  /** Machine-readable rule code */
+  readonly code: VoiceLeadingRuleCode
+
+  /** Human-readable description of the problem */
+  readonly message: string
+
+  /**
+   * Index of the chord where the problem occurs (0-based). For motion rules
+   * (parallels, hidden intervals, resolutions) this is the chord the voices
+   * move into.
+   */
+  readonly chordIndex: number
+
+  /** Voices involved, lowest first */
+  readonly voices: readonly SATBVoice[]
+
+  /** Actionable suggestion for fixing the problem */
+  readonly suggestion?: string
+}
+
+/**
+ * Options for checking four-part voice leading.
+ */
+export interface VoiceLeadingCheckOptions {
+  /**
+   * Key used for leading-tone rules (e.g., "C major", "A minor").
+   * Detected from the chords when omitted.
+   */
+  readonly key?: string
+}
+
+/**
+ * Result of checking a four-part chord sequence.
+ *
+ * @example
+ * ```typescript
+ * const result = checkVoiceLeading([
+ *   ['C3', 'G3', 'E4', 'C5'],
+ *   ['D3', 'A3', 'F4', 'D5'],
+ * ])
+ * // result.valid === false
+ * // result.violations[0].code === 'PARALLEL_FIFTHS'
+ * ```
+ */
+export interface VoiceLeadingCheck {
+  /** True when no violations were found */
+  readonly valid: boolean
+
+  /** Key used for leading-tone rules (e.g., "C major") */
+  readonly key: string
+
+  /** Violations in chord order */
+  readonly violations: readonly VoiceLeadingViolation[]
+}
+
+/**
+ * Chord symbol notation style.
+ *
+ * | Chord            | pop       | jazz    | berklee      | classical |
+ * | ---------------- | --------- | ------- | ------------ | --------- |
+ * | Minor 7th        | `Cm7`     | `C-7`   | `C-7`        | `Cm7`     |
+ * | Major 7th        | `Cmaj7`   | `CΔ7`   | `Cmaj7`      | `CM7`     |
+ * | Half-diminished  | `Cm7b5`   | `Cø`    | `C-7(b5)`    | `Cø7`     |
+ * | Diminished 7th   | `Cdim7`   | `C°7`   | `Co7`        | `C°7`     |
+ * | Altered dominant | `C7b9#11` | `C7b9#11` | `C7(b9, #11)` | `C7b9#11` |
+ */
+export type ChordSymbolDialect = 'pop' | 'jazz' | 'berklee' | 'classical'
+
+/**
+ * Structured form of a chord symbol, independent of notation style.
+ *
+ * @example
+ * ```typescript
+ * parseChordSymbol('Cm7b5/Gb')
+ * // => {
+ * //   root: 'C', quality: 'diminished', seventh: 'minor', extensions: [],
+ * //   alterations: [], added: [], omissions: [], bass: 'Gb'
+ * // }
+ *
+ * parseChordSymbol('G7(b9, #11)')
+ * // => { root: 'G', quality: 'major', seventh: 'minor', alterations: ['b9', '#11'], ... }
+ * ```
+ */
+export interface ChordSymbolAST {
+  /** Root note (e.g., "C", "F#", "Bb") */
+  readonly root: string
+
+  /**
+   * Triad quality. Half-diminished chords are 'diminished' with a minor seventh;
+   * dominant chords are 'major' with a minor seventh.
+   */
+  readonly quality: 'major' | 'minor' | 'diminished' | 'augmented' | 'sus2' | 'sus4' | 'power'
+
+  /** Seventh above the root: major (maj7), minor (7), diminished (dim7), or none */
+  readonly seventh: 'major' | 'minor' | 'diminished' | null
+
+  /**
+   * Written extensions, lowest first: '6', '9', '11', '13'.
+   * An upper extension implies the ones below it (C13 = ['13']); 6/9 chords are ['6', '9'].
+   */
+  readonly extensions: readonly string[]
+
+  /** Altered tones: 'b5', '#5', 'b9', '#9', '#11', 'b13', or 'alt' */
+  readonly alterations: readonly string[]
+
+  /** Added tones without implied extensions (e.g., ['9'] for Cadd9) */
+  readonly added: readonly string[]
+
+  /** Omitted chord tones (e.g., ['3'] for C7no3) */
+  readonly omissions: readonly string[]
+
+  /** Slash bass note, or null */
+  readonly bass: string | null
+}
+
+/**
+ * Options for parsing and formatting chord symbols.
+ */
+export interface ChordSymbolOptions {
+  /**
+   * Notation style (default: 'pop').
+   * Parsing accepts every style; the dialect only decides how a bare `°` is
+   * read (a diminished 7th in 'jazz', a diminished triad elsewhere).
+   */
+  readonly dialect?: ChordSymbolDialect
+}
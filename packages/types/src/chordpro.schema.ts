@@ -0,0 +1,121 @@
+/**
+ * TypeScript Contracts: ChordPro
+ *
+ * Type definitions for ChordPro songs: metadata directives, sections
+ * (`{start_of_chorus}` and friends), and lyrics lines with inline `[C]`
+ * chords aligned to the lyrics, plus the options for writing a song back out
+ * transposed or annotated with Roman numerals.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+/**
+ * An inline chord in a lyrics line.
+ *
+ * @example
+ * ```typescript
+ * // "A[G]mazing [G7]grace" => chords at positions 1 and 8 of "Amazing grace"
+ * const chord: ChordProChord = { chord: 'G7', position: 8 }
+ * ```
+ */
+export interface ChordProChord {
+  /**
+   * Chord symbol as written (e.g., "G7"). Text that is not a chord symbol,
+   * such as "N.C." or a `[*annotation]`, is kept verbatim.
+   */
+  readonly chord: string
+
+  /** Character offset in the lyrics where the chord is played */
+  readonly position: number
+
+  /** Annotation written after the chord (e.g., "V7" for `[G7 (V7)]`) */
+  readonly annotation?: string
+}
+
+/**
+ * A line of a ChordPro song: lyrics with their chords, or a directive that
+ * stays in place (e.g., `{comment: Repeat 2x}`).
+ */
+export type ChordProLine =
+  | {
+      readonly type: 'lyrics'
+
+      /** Lyrics without the chords (raw text in tab and grid sections) */
+      readonly text: string
+
+      /** Chords in lyrics order */
+      readonly chords: readonly ChordProChord[]
+    }
+  | {
+      readonly type: 'directive'
+
+      /** Directive name, with abbreviations expanded (e.g., "comment" for `{c}`) */
+      readonly name: string
+
+      /** Directive argument, if any */
+      readonly value?: string
+    }
+
+/**
+ * Kind of a ChordPro section: an environment (`{start_of_verse}`), or 'none'
+ * for a paragraph outside any environment.
+ */
+export type ChordProSectionType = 'verse' | 'chorus' | 'bridge' | 'tab' | 'grid' | 'none'
+
+/**
+ * A section of a ChordPro song.
+ */
+export interface ChordProSection {
+  /** Section kind */
+  readonly type: ChordProSectionType
+
+  /** Label from the environment directive (e.g., "Verse 1") */
+  readonly label?: string
+
+  /** The section is a `{chorus}` recall of the previous chorus, whose lines it repeats */
+  readonly recall?: boolean
+
+  /** Lines in order */
+  readonly lines: readonly ChordProLine[]
+
+  /** Chord symbols in the section, in order (text that is not a chord symbol is left out) */
+  readonly chords: readonly string[]
+}
+
+/**
+ * A parsed ChordPro song.
+ *
+ * @example
+ * ```typescript
+ * const song = parseChordPro('{title: Amazing Grace}\n{key: G}\nA[G]mazing [G7]grace')
+ * // song.metadata => { title: 'Amazing Grace', key: 'G' }
+ * // song.sections[0].lines[0] => { type: 'lyrics', text: 'Amazing grace', chords: [{ chord: 'G', position: 1 }, { chord: 'G7', position: 8 }] }
+ * // song.chords => ['G', 'G7']
+ * ```
+ */
+export interface ChordProSong {
+  /** Metadata directives by name (e.g., title, artist, key, capo, tempo) */
+  readonly metadata: Readonly<Record<string, string>>
+
+  /** Sections in order */
+  readonly sections: readonly ChordProSection[]
+
+  /** Chord symbols of the whole song in order, including recalled choruses. Ready for analyzeProgression() */
+  readonly chords: readonly string[]
+}
+
+/**
+ * Options for serializeChordPro().
+ */
+export interface ChordProSerializeOptions {
+  /**
+   * Key to transpose the song to (e.g., "A", "Bb major"). The song moves from
+   * its `{key}` (detected from the chords when missing), and `{key}` is updated.
+   */
+  readonly transpose?: string
+
+  /** Annotate each chord with its Roman numeral in the song's key, as `[G7 (V7)]` (default: false) */
+  readonly annotate?: boolean
+}
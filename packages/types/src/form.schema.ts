@@ -0,0 +1,126 @@
+/**
+ * TypeScript Contracts: Song Form
+ *
+ * Type definitions for the large-scale structure of a progression: the
+ * sections it repeats, their labels (A, B, ...), the roles they play
+ * (verse, chorus, bridge), the named form they add up to (AABA, 12-bar blues,
+ * rhythm changes, verse/chorus) and how similar the sections are to each other.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { TimedChord } from './progression.schema'
+
+/**
+ * Named song form.
+ *
+ * - 'twelve-bar-blues': one or more 12-bar blues choruses (I-IV-I-V-I outline)
+ * - 'rhythm-changes': 32-bar AABA on I-vi-ii-V, with a bridge of dominants from III7
+ * - 'AABA': 32-bar song form, a repeated section with a contrasting bridge
+ * - 'ABAC': two halves opening alike and ending differently
+ * - 'verse-chorus': verses alternating with a recurring chorus
+ * - 'strophic': the same section repeated throughout
+ * - 'through-composed': no recognized repetition
+ *
+ * Forms played more than once (AABA AABA) are named by one pass.
+ */
+export type FormType =
+  | 'twelve-bar-blues'
+  | 'rhythm-changes'
+  | 'AABA'
+  | 'ABAC'
+  | 'verse-chorus'
+  | 'strophic'
+  | 'through-composed'
+
+/** Role of a section within its form */
+export type SectionRole = 'verse' | 'chorus' | 'bridge'
+
+/**
+ * A section of a progression.
+ *
+ * @example
+ * ```typescript
+ * // The bridge of a 32-bar AABA tune
+ * const section: FormSection = {
+ *   label: 'B', role: 'bridge', startBar: 17, bars: 8,
+ *   chords: [{ chord: 'D7', beats: 8 }, ...], similarity: 1,
+ * }
+ * ```
+ */
+export interface FormSection {
+  /**
+   * Label; sections with the same label repeat the same material. Labels run
+   * A to Z, then A1 to Z1, A2 and so on.
+   */
+  readonly label: string
+
+  /** Role in the form, or null where the form gives none (e.g., the A sections of AABA) */
+  readonly role: SectionRole | null
+
+  /** First bar of the section (1-based) */
+  readonly startBar: number
+
+  /** Length in bars */
+  readonly bars: number
+
+  /** Chords of the section; chords held across a section boundary are split */
+  readonly chords: readonly TimedChord[]
+
+  /**
+   * Similarity to the first section with the same label (0.0-1.0; 1.0 for
+   * that section itself and for exact repeats)
+   */
+  readonly similarity: number
+}
+
+/**
+ * Form of a progression.
+ *
+ * @example
+ * ```typescript
+ * const form: FormAnalysis = {
+ *   form: 'AABA',
+ *   labels: ['A', 'A', 'B', 'A'],
+ *   sectionBars: 8,
+ *   sections: [...],
+ *   similarity: [[1, 1, 0.13, 0.94], ...],
+ * }
+ * ```
+ */
+export interface FormAnalysis {
+  /** Named form */
+  readonly form: FormType
+
+  /** Section labels in order (e.g., ['A', 'A', 'B', 'A']) */
+  readonly labels: readonly string[]
+
+  /** Length of a section in bars (the last section may be shorter) */
+  readonly sectionBars: number
+
+  /** Sections in order */
+  readonly sections: readonly FormSection[]
+
+  /**
+   * Similarity of every pair of sections (0.0-1.0), indexed like `sections`.
+   * Bars are compared beat by beat: the same chord scores 1, the same root
+   * and triad 0.75, the same root 0.5.
+   */
+  readonly similarity: readonly (readonly number[])[]
+}
+
+/**
+ * Options for detecting the form of a progression.
+ */
+export interface FormDetectionOptions {
+  /** Meter of timed input as [beats per bar, beat unit] (default: [4, 4]) */
+  readonly timeSignature?: readonly [number, number]
+
+  /**
+   * Section length in bars (default: detected from 16, 12, 8 and 4 bars,
+   * preferring longer sections unless shorter ones repeat more often)
+   */
+  readonly sectionBars?: number
+}
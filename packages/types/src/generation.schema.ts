@@ -0,0 +1,104 @@
+/**
+ * TypeScript Contracts: Progression Generation
+ *
+ * Type definitions for composing chord progressions from genre patterns: the
+ * options that choose key, genre and length, and the generated progression
+ * with the pattern fragments it was built from.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { Genre } from './genre.schema'
+import type { Cadence } from './progression.schema'
+
+/**
+ * Options for generateProgression().
+ *
+ * @example
+ * ```typescript
+ * const options: GenerateProgressionOptions = {
+ *   key: 'Bb major',
+ *   genre: 'jazz',
+ *   length: 8,
+ *   endOnCadence: true,
+ *   seed: 42,
+ * }
+ * ```
+ */
+export interface GenerateProgressionOptions {
+  /** Key to realize the progression in (e.g., "Bb major", "D minor", "Dm"; a bare tonic means major) */
+  readonly key: string
+
+  /** Genre whose patterns the progression is composed from */
+  readonly genre: Exclude<Genre, 'unknown'>
+
+  /** Number of chords, one per bar (1-64, default: 8) */
+  readonly length?: number
+
+  /** End with an authentic or plagal cadence to the tonic (default: true) */
+  readonly endOnCadence?: boolean
+
+  /**
+   * Seed for the random choices; the same seed and options always give the
+   * same progression (default: a random seed, returned with the result)
+   */
+  readonly seed?: number
+}
+
+/**
+ * A genre pattern placed in a generated progression.
+ */
+export interface ProgressionFragment {
+  /**
+   * Pattern as written in the genre pattern database (e.g., "ii-V-I"), or the
+   * tonic ("I") or cadence ("V-I") used where no pattern fits
+   */
+  readonly pattern: string
+
+  /** Index of the fragment's first chord in the progression */
+  readonly start: number
+
+  /** Number of chords the fragment contributes */
+  readonly length: number
+}
+
+/**
+ * A progression generated from genre patterns.
+ *
+ * @example
+ * ```typescript
+ * const generated: GeneratedProgression = {
+ *   key: 'Bb major',
+ *   genre: 'jazz',
+ *   seed: 7,
+ *   chords: ['Cm', 'F', 'Bb', 'Cb7', 'Bb', 'Cm', 'F', 'Bb'],
+ *   romanNumerals: ['ii', 'V', 'I', 'bII7', 'I', 'ii', 'V', 'I'],
+ *   fragments: [{ pattern: 'ii-V-I', start: 0, length: 3 }, { pattern: 'bII7-I', start: 3, length: 2 }, ...],
+ *   cadence: { type: 'authentic', chords: ['F', 'Bb'], strength: 'strong' },
+ * }
+ * ```
+ */
+export interface GeneratedProgression {
+  /** Key of the progression (e.g., "Bb major") */
+  readonly key: string
+
+  /** Genre the patterns were taken from */
+  readonly genre: Exclude<Genre, 'unknown'>
+
+  /** Seed that reproduces this progression */
+  readonly seed: number
+
+  /** Chord symbols realized in the key */
+  readonly chords: readonly string[]
+
+  /** Roman numerals of the chords, as written in the patterns */
+  readonly romanNumerals: readonly string[]
+
+  /** Patterns the progression was composed from, in order */
+  readonly fragments: readonly ProgressionFragment[]
+
+  /** Cadence formed by the last two chords, or null if they form none */
+  readonly cadence: Cadence | null
+}
@@ -0,0 +1,147 @@
+/**
+ * TypeScript Contracts: Melody Harmonization
+ *
+ * Type definitions for harmonizing a melody with chords: the options that
+ * control harmonic rhythm and chord vocabulary, and the ranked harmonizations
+ * with their per-slot chords and score breakdown.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { Genre, GenrePattern } from './genre.schema'
+import type { Cadence, HarmonicFunction } from './progression.schema'
+
+/**
+ * Options for harmonizeMelody().
+ *
+ * @example
+ * ```typescript
+ * const options: HarmonizeMelodyOptions = {
+ *   key: 'F major',
+ *   genre: 'jazz',
+ *   harmonicRhythm: 'beat',
+ *   timeSignature: [3, 4],
+ *   limit: 5,
+ * }
+ * ```
+ */
+export interface HarmonizeMelodyOptions {
+  /**
+   * Key to harmonize in (e.g., "F major", "D minor", "Dm"; a bare tonic means major).
+   * Detected from the melody when omitted.
+   */
+  readonly key?: string
+
+  /** Genre whose patterns the chord sequence should follow (default: all genres) */
+  readonly genre?: Genre
+
+  /** One chord per bar or per beat (default: 'bar') */
+  readonly harmonicRhythm?: 'beat' | 'bar'
+
+  /** Meter as [beats per bar, beat unit]; note durations are in beats (default: [4, 4]) */
+  readonly timeSignature?: readonly [number, number]
+
+  /** Number of harmonizations to return (1-10, default: 3) */
+  readonly limit?: number
+
+  /** Offer secondary dominants and borrowed chords besides diatonic chords (default: true) */
+  readonly chromatic?: boolean
+}
+
+/**
+ * Where a harmonizing chord comes from.
+ * - 'diatonic': built on the key's scale (V7 and the harmonic-minor V included)
+ * - 'secondary-dominant': dominant seventh of a diatonic degree (V7/V)
+ * - 'borrowed': taken from the parallel key (iv, ♭VI, ♭VII in major)
+ */
+export type HarmonizationChordSource = 'diatonic' | 'secondary-dominant' | 'borrowed'
+
+/**
+ * One chord of a harmonization and the stretch of melody it supports.
+ */
+export interface HarmonizedSlot {
+  /** Chord symbol (e.g., "Dm", "D7") */
+  readonly chord: string
+
+  /** Roman numeral in the key (e.g., "ii", "V7/V", "♭VI") */
+  readonly roman: string
+
+  /** Where the chord comes from */
+  readonly source: HarmonizationChordSource
+
+  /** Harmonic function of the chord in the key */
+  readonly function: HarmonicFunction
+
+  /** Bar number (1-based) */
+  readonly bar: number
+
+  /** Beat within the bar (1-based; always 1 with a harmonic rhythm of 'bar') */
+  readonly beat: number
+
+  /** Start time in beats from the beginning of the melody */
+  readonly start: number
+
+  /** Length in beats */
+  readonly duration: number
+
+  /** Pitch classes of the melody sounding in this slot, in order of appearance */
+  readonly melody: readonly string[]
+
+  /** Share of the slot's melody (by duration) that is a chord tone (0.0-1.0) */
+  readonly chordToneRatio: number
+}
+
+/**
+ * Score components of a harmonization, each 0.0-1.0.
+ */
+export interface HarmonizationScore {
+  /** Melody notes covered by chord tones, weighted by duration and downbeats */
+  readonly coverage: number
+
+  /** Functional flow between chords, opening tonic and closing cadence */
+  readonly flow: number
+
+  /** Strength of the genre patterns the chord sequence contains */
+  readonly genre: number
+}
+
+/**
+ * A ranked harmonization of a melody.
+ *
+ * @example
+ * ```typescript
+ * const harmonization: Harmonization = {
+ *   key: 'C major',
+ *   chords: ['C', 'F', 'G', 'C'],
+ *   slots: [...],
+ *   cadences: [{ type: 'authentic', chords: ['G', 'C'], strength: 'strong' }],
+ *   genrePatterns: [{ pattern: 'I-IV-V', genre: 'pop', weight: 9, ... }],
+ *   score: 0.91,
+ *   breakdown: { coverage: 1.0, flow: 0.92, genre: 0.9 },
+ * }
+ * ```
+ */
+export interface Harmonization {
+  /** Key of the harmonization (e.g., "C major") */
+  readonly key: string
+
+  /** Chord symbols, one per slot */
+  readonly chords: readonly string[]
+
+  /** Chords with their timing and the melody they support */
+  readonly slots: readonly HarmonizedSlot[]
+
+  /** Cadences in the chord sequence */
+  readonly cadences: readonly Cadence[]
+
+  /** Genre patterns found in the chord sequence */
+  readonly genrePatterns: readonly GenrePattern[]
+
+  /** Overall score (0.0-1.0); harmonizations are ranked by it, best first */
+  readonly score: number
+
+  /** Score components */
+  readonly breakdown: HarmonizationScore
+}
@@ -25,8 +25,21 @@ export type {
   ChordBuild,
   Voicing,
   ChordBuildOptions,
+  ChordIdentifyOptions,
   VoicingOptions,
   ChordSubstitution,
+  VoiceLeadingOptions,
+  VoiceLeading,
+  ParallelMotion,
+  SATBVoice,
+  SATBChord,
+  VoiceLeadingRuleCode,
+  VoiceLeadingViolation,
+  VoiceLeadingCheckOptions,
+  VoiceLeadingCheck,
+  ChordSymbolDialect,
+  ChordSymbolAST,
+  ChordSymbolOptions,
 } from './chord.schema'
 
 // Scale System Types
@@ -41,10 +54,89 @@ export type {
   CadenceType,
   BorrowedChord,
   SecondaryDominant,
+  PivotChord,
+  KeyRegion,
+  KeyCandidate,
+  KeyCandidateOptions,
+  KeyDetection,
+  KeyDetectionOptions,
+  WeightedNote,
+  KeyCorrelation,
+  KeyProfileOptions,
+  KeyProfileDetection,
   Pattern,
   ProgressionAnalysisOptions,
+  TimedChord,
+  TransposeProgressionOptions,
 } from './progression.schema'
 
+// MIDI Import/Export Types
+export type {
+  MidiNote,
+  MidiTrack,
+  MidiTempo,
+  MidiTimeSignature,
+  MidiFile,
+  MidiImportOptions,
+  HarmonicWindow,
+  MidiImport,
+  MidiExportOptions,
+} from './midi.schema'
+
+// Melody Harmonization Types
+export type {
+  HarmonizeMelodyOptions,
+  HarmonizationChordSource,
+  HarmonizedSlot,
+  HarmonizationScore,
+  Harmonization,
+} from './harmonization.schema'
+
+// Progression Generation Types
+export type {
+  GenerateProgressionOptions,
+  ProgressionFragment,
+  GeneratedProgression,
+} from './generation.schema'
+
+// Lead Sheet Types
+export type {
+  LeadSheetBar,
+  LeadSheetSection,
+  LeadSheet,
+  LeadSheetParseOptions,
+  LeadSheetSerializeOptions,
+} from './leadsheet.schema'
+
+// ChordPro Types
+export type {
+  ChordProChord,
+  ChordProLine,
+  ChordProSectionType,
+  ChordProSection,
+  ChordProSong,
+  ChordProSerializeOptions,
+} from './chordpro.schema'
+
+// MusicXML Import/Export Types
+export type {
+  MusicXmlHarmony,
+  MusicXmlImportOptions,
+  MusicXmlImport,
+  MusicXmlAnnotations,
+  MusicXmlExportOptions,
+  MusicXmlAnnotateOptions,
+} from './musicxml.schema'
+
+// Song Form Types
+export type {
+  FormType,
+  SectionRole,
+  FormSection,
+  FormAnalysis,
+  FormDetectionOptions,
+} from './form.schema'
+
 // Genre Pattern Types (enhanced)
 export type {
   Genre,
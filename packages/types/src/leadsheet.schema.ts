@@ -0,0 +1,108 @@
+/**
+ * TypeScript Contracts: Lead Sheets
+ *
+ * Type definitions for plain-text chord charts (`| C | Am7 | Dm7 G7 | C |`):
+ * bars with their chords and beat lengths, repeat signs, numbered endings and
+ * labeled sections, plus the timed progression each section plays.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { TimedChord } from './progression.schema'
+
+/**
+ * A bar of a lead sheet, as written.
+ *
+ * @example
+ * ```typescript
+ * // |1. Dm7 G7 :|
+ * const bar: LeadSheetBar = {
+ *   chords: [{ chord: 'Dm7', beats: 2 }, { chord: 'G7', beats: 2 }],
+ *   ending: 1,
+ *   repeatEnd: true,
+ * }
+ * ```
+ */
+export interface LeadSheetBar {
+  /** Chords in the bar with their length in beats; the lengths fill the bar */
+  readonly chords: readonly TimedChord[]
+
+  /** The bar opens a repeat (`|:`) */
+  readonly repeatStart?: boolean
+
+  /** The bar closes a repeat (`:|`) */
+  readonly repeatEnd?: boolean
+
+  /** Number of the ending the bar opens (`|1.`, `|2.`) */
+  readonly ending?: number
+
+  /** The bar was written as a repeat of the previous bar (`%`) */
+  readonly simile?: boolean
+
+  /** The bar closes with a double bar line (`||`) */
+  readonly doubleBar?: boolean
+}
+
+/**
+ * A section of a lead sheet, such as `[A]` or `[Chorus]`.
+ */
+export interface LeadSheetSection {
+  /** Section label without brackets, or null for bars before the first label */
+  readonly label: string | null
+
+  /** Bars as written */
+  readonly bars: readonly LeadSheetBar[]
+
+  /**
+   * Chords in playing order, with repeats and endings expanded and chords held
+   * across bar lines merged. Ready for analyzeProgression().
+   */
+  readonly progression: readonly TimedChord[]
+}
+
+/**
+ * A parsed lead sheet.
+ *
+ * @example
+ * ```typescript
+ * const sheet = parseLeadSheet('Key: C\n[A]\n| C | Am7 | Dm7 G7 | C |')
+ * // sheet.key === 'C'
+ * // sheet.sections[0].label === 'A'
+ * // sheet.sections[0].bars[2].chords === [{ chord: 'Dm7', beats: 2 }, { chord: 'G7', beats: 2 }]
+ * analyzeProgression(sheet.progression, { timeSignature: sheet.timeSignature })
+ * ```
+ */
+export interface LeadSheet {
+  /** Title from a `Title:` line */
+  readonly title?: string
+
+  /** Key from a `Key:` line (e.g., "Bb", "G minor") */
+  readonly key?: string
+
+  /** Meter as [beats per bar, beat unit], from a `Time:` line (default: [4, 4]) */
+  readonly timeSignature: readonly [number, number]
+
+  /** Sections in order */
+  readonly sections: readonly LeadSheetSection[]
+
+  /** Chords of the whole form in playing order. Ready for analyzeProgression() */
+  readonly progression: readonly TimedChord[]
+}
+
+/**
+ * Options for parseLeadSheet().
+ */
+export interface LeadSheetParseOptions {
+  /** Meter for sheets without a `Time:` line (default: [4, 4]) */
+  readonly timeSignature?: readonly [number, number]
+}
+
+/**
+ * Options for serializeLeadSheet().
+ */
+export interface LeadSheetSerializeOptions {
+  /** Bars per line of text (default: 4) */
+  readonly barsPerLine?: number
+}
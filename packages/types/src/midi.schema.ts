@@ -0,0 +1,220 @@
+/**
+ * TypeScript Contracts: MIDI Import and Export
+ *
+ * Type definitions for reading Standard MIDI Files and segmenting them into
+ * harmonic windows for chord and progression analysis, and for writing chord
+ * progressions back out as MIDI.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { ChordIdentification } from './chord.schema'
+import type { ProgressionAnalysis } from './progression.schema'
+
+/**
+ * A note decoded from a MIDI track (note-on paired with its note-off).
+ */
+export interface MidiNote {
+  /** MIDI pitch number (0-127, middle C = 60) */
+  readonly pitch: number
+
+  /** Note-on velocity (1-127) */
+  readonly velocity: number
+
+  /** MIDI channel (0-15; channel 9 is General MIDI percussion) */
+  readonly channel: number
+
+  /** Start time in ticks from the beginning of the file */
+  readonly startTick: number
+
+  /** Duration in ticks */
+  readonly durationTicks: number
+}
+
+/**
+ * A decoded MIDI track.
+ */
+export interface MidiTrack {
+  /** Track name from the sequence/track name meta event, if present */
+  readonly name?: string
+
+  /** Notes in start-time order */
+  readonly notes: readonly MidiNote[]
+}
+
+/**
+ * A tempo change (Set Tempo meta event).
+ */
+export interface MidiTempo {
+  /** Tick position of the change */
+  readonly tick: number
+
+  /** Tempo in beats per minute */
+  readonly bpm: number
+}
+
+/**
+ * A meter change (Time Signature meta event).
+ */
+export interface MidiTimeSignature {
+  /** Tick position of the change */
+  readonly tick: number
+
+  /** Beats per bar (e.g., 3 in 3/4) */
+  readonly numerator: number
+
+  /** Beat unit (e.g., 4 in 3/4) */
+  readonly denominator: number
+}
+
+/**
+ * A decoded Standard MIDI File.
+ *
+ * @example
+ * ```typescript
+ * const file = parseMidi(bytes)
+ * // file.format === 1
+ * // file.ticksPerBeat === 480
+ * // file.tracks[1].notes[0] === { pitch: 60, velocity: 90, channel: 0, startTick: 0, durationTicks: 480 }
+ * ```
+ */
+export interface MidiFile {
+  /** SMF format (0 = single track, 1 = simultaneous tracks) */
+  readonly format: 0 | 1
+
+  /** Ticks per quarter note (header division) */
+  readonly ticksPerBeat: number
+
+  /** Tracks in file order */
+  readonly tracks: readonly MidiTrack[]
+
+  /** Tempo changes in tick order (empty if the file uses the default 120 BPM) */
+  readonly tempos: readonly MidiTempo[]
+
+  /** Meter changes in tick order (empty if the file uses the default 4/4) */
+  readonly timeSignatures: readonly MidiTimeSignature[]
+}
+
+/**
+ * Options for importing a MIDI file for harmonic analysis.
+ */
+export interface MidiImportOptions {
+  /** Window size for chord segmentation (default: 'bar') */
+  readonly segmentBy?: 'beat' | 'bar'
+
+  /**
+   * Minimum fraction of a window a pitch class must sound to count as a chord
+   * tone (0.0-1.0, default: 0.25). Filters out passing tones.
+   */
+  readonly minDuration?: number
+
+  /** Ignore General MIDI percussion on channel 10 (default: true) */
+  readonly ignoreDrums?: boolean
+
+  /** Collapse consecutive identical chords in `chords` (default: true) */
+  readonly mergeRepeats?: boolean
+}
+
+/**
+ * A harmonic window (one beat or bar) of a MIDI file.
+ */
+export interface HarmonicWindow {
+  /** Window start in ticks */
+  readonly startTick: number
+
+  /** Window end in ticks (exclusive) */
+  readonly endTick: number
+
+  /** Bar number (1-based) */
+  readonly bar: number
+
+  /** Beat within the bar (1-based; always 1 when segmenting by bar) */
+  readonly beat: number
+
+  /** Sounding pitch classes, lowest sounding pitch first */
+  readonly pitchClasses: readonly string[]
+
+  /** Chord symbol (e.g., "Am7"), or null if no chord could be identified */
+  readonly chord: string | null
+
+  /** Full identification result, when a chord was identified */
+  readonly identification?: ChordIdentification
+}
+
+/**
+ * Result of importing a MIDI file for harmonic analysis.
+ */
+export interface MidiImport {
+  /** Decoded file */
+  readonly file: MidiFile
+
+  /** Harmonic windows in time order */
+  readonly windows: readonly HarmonicWindow[]
+
+  /** Chord symbols passed to analyzeProgression() */
+  readonly chords: readonly string[]
+
+  /** Progression analysis, or null if no chords were identified */
+  readonly analysis: ProgressionAnalysis | null
+}
+
+/**
+ * Options for exporting a chord progression as a Standard MIDI File.
+ *
+ * @example
+ * ```typescript
+ * const bytes = exportMidi(['Dm7', 'G7', 'Cmaj7'], {
+ *   tempo: 100,
+ *   durations: [4, 4, 8],
+ *   rhythm: [1.5, 1.5, 1],
+ *   voicing: 'drop2',
+ * })
+ * ```
+ */
+export interface MidiExportOptions {
+  /** Tempo in beats per minute, 3.58 or faster (default: 120) */
+  readonly tempo?: number
+
+  /**
+   * Meter as [beats per bar, beat unit], with up to 255 beats and a unit
+   * no shorter than a 128th note (default: [4, 4])
+   */
+  readonly timeSignature?: readonly [number, number]
+
+  /**
+   * Length of each chord in beats of the time signature's beat unit.
+   * A single number applies to every chord;
+   * an array gives per-chord lengths (default: one bar per chord).
+   */
+  readonly durations?: number | readonly number[]
+
+  /**
+   * Rhythm pattern in beats, repeated to fill each chord's duration.
+   * Negative values are rests (e.g., `[1, -1, 2]` = hit, rest, long hit).
+   * Default: one sustained hit per chord.
+   */
+  readonly rhythm?: readonly number[]
+
+  /** Note-on velocity (1-127, default: 90) */
+  readonly velocity?: number
+
+  /** Voicing type for the chord track (default: 'close') */
+  readonly voicing?: 'close' | 'open' | 'drop2' | 'drop3'
+
+  /** Base octave for the chord voicing (default: 4) */
+  readonly octave?: number
+
+  /**
+   * Write a separate bass track with the chord root, or the slash bass
+   * for slash chords (default: true).
+   */
+  readonly bassTrack?: boolean
+
+  /** Octave for the bass track (default: 2) */
+  readonly bassOctave?: number
+
+  /** Ticks per quarter note (default: 480) */
+  readonly ticksPerBeat?: number
+}
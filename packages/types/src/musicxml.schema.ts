@@ -0,0 +1,130 @@
+/**
+ * TypeScript Contracts: MusicXML Import and Export
+ *
+ * Type definitions for reading chord symbols from MusicXML scores (`<harmony>`
+ * elements, or chords identified from the notes), and for writing chord
+ * progressions and their analysis back as `<harmony>` elements with
+ * Roman-numeral annotations.
+ * All types enforce TypeScript strict mode with no `any` types.
+ *
+ * @packageDocumentation
+ * @since v2.0.0
+ */
+
+import type { ProgressionAnalysis, TimedChord } from './progression.schema'
+
+/**
+ * A chord read from a MusicXML score.
+ *
+ * @example
+ * ```typescript
+ * // <harmony><root><root-step>G</root-step></root><kind>dominant</kind></harmony> on beat 3 of measure 2
+ * const harmony: MusicXmlHarmony = { part: 'P1', measure: 2, beat: 3, beats: 2, chord: 'G7', source: 'harmony' }
+ * ```
+ */
+export interface MusicXmlHarmony {
+  /** Id of the part the chord was read from (e.g., "P1") */
+  readonly part: string
+
+  /** Measure index in score order (1-based; pickup measures count) */
+  readonly measure: number
+
+  /** Beat within the measure (1-based, in the measure's beat unit) */
+  readonly beat: number
+
+  /** Length in beats, up to the next chord or the end of the score */
+  readonly beats: number
+
+  /** Chord symbol, or null for "no chord" (kind `none`) or notes that form no chord */
+  readonly chord: string | null
+
+  /** Whether the chord was written as `<harmony>` or identified from the notes */
+  readonly source: 'harmony' | 'notes'
+}
+
+/**
+ * Options for reading chords from a MusicXML score.
+ */
+export interface MusicXmlImportOptions {
+  /**
+   * Where chords come from (default: 'auto').
+   * - 'harmony': `<harmony>` elements
+   * - 'notes': chords identified from the notes of each measure
+   * - 'auto': `<harmony>` elements when the score has any, the notes otherwise
+   */
+  readonly source?: 'harmony' | 'notes' | 'auto'
+
+  /**
+   * Id of the part to read (e.g., "P1"). Default: the first part with
+   * `<harmony>` elements, or every part when reading notes.
+   */
+  readonly part?: string
+
+  /**
+   * Minimum fraction of a measure a pitch class must sound to count as a
+   * chord tone when reading notes (0.0-1.0, default: 0.25)
+   */
+  readonly minDuration?: number
+}
+
+/**
+ * Result of reading chords from a MusicXML score.
+ */
+export interface MusicXmlImport {
+  /** Title from `<work-title>` or `<movement-title>` */
+  readonly title?: string
+
+  /** First time signature of the score as [beats per bar, beat unit] (default: [4, 4]) */
+  readonly timeSignature: readonly [number, number]
+
+  /** Chords in score order */
+  readonly harmonies: readonly MusicXmlHarmony[]
+
+  /**
+   * Chords in beats of the first time signature, repeated chords merged and
+   * "no chord" time added to the chord before it. Ready for analyzeProgression().
+   */
+  readonly progression: readonly TimedChord[]
+
+  /** Progression analysis, or null if the score has no chords */
+  readonly analysis: ProgressionAnalysis | null
+}
+
+/**
+ * Analysis annotations written below each chord as `<words>`:
+ * Roman numerals ("V7"), harmonic functions ("dominant"), both ("V7 (dominant)"), or none.
+ */
+export type MusicXmlAnnotations = 'roman' | 'function' | 'both' | 'none'
+
+/**
+ * Options for writing a chord progression as a MusicXML score.
+ *
+ * @example
+ * ```typescript
+ * const xml = exportMusicXml(['Dm7', 'G7', 'Cmaj7'], { title: 'ii-V-I', key: 'C major' })
+ * ```
+ */
+export interface MusicXmlExportOptions {
+  /** Work title */
+  readonly title?: string
+
+  /** Meter as [beats per bar, beat unit] (default: [4, 4]) */
+  readonly timeSignature?: readonly [number, number]
+
+  /** Key for the analysis and the key signature (default: detected) */
+  readonly key?: string
+
+  /** Annotations below each chord (default: 'roman') */
+  readonly annotations?: MusicXmlAnnotations
+}
+
+/**
+ * Options for writing analysis back into a MusicXML score.
+ */
+export interface MusicXmlAnnotateOptions extends MusicXmlImportOptions {
+  /** Key for the analysis (default: detected) */
+  readonly key?: string
+
+  /** Annotations below each chord (default: 'roman') */
+  readonly annotations?: MusicXmlAnnotations
+}
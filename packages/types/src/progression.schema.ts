@@ -50,7 +50,8 @@ export interface ChordAnalysis {
    * Roman numeral in detected key.
    * Uppercase = major/augmented (I, IV, V)
    * Lowercase = minor/diminished (ii, iii, vi, vii°)
-   * Example: "I", "ii7", "V7", "vi"
+   * Inversions carry figured bass (I6, I6/4, V6/5, V4/3, vii°4/2).
+   * Example: "I", "ii7", "V7", "vi", "V6/5"
    */
   readonly roman: string
 
@@ -65,6 +66,25 @@ export interface ChordAnalysis {
   /** Harmonic function within the key */
   readonly function: HarmonicFunction
 
+  /**
+   * Bass note: the slash bass for slash chords (e.g., "B" for "G7/B"),
+   * otherwise the root.
+   */
+  readonly bass?: string
+
+  /**
+   * Inversion number: 0 = root position, 1-3 = first to third inversion.
+   * Null when the slash bass is not a chord tone (e.g., "C/D").
+   */
+  readonly inversion?: number | null
+
+  /**
+   * Chord tones spelled for the key the chord is analyzed in, root first
+   * (e.g., ["Eb", "G", "Bb", "Db"] for "D#7" as V/V in Db major).
+   * @since v2.0.0
+   */
+  readonly notes?: readonly string[]
+
   /**
    * Whether this chord is borrowed from a parallel key.
    * Example: Fm in C major (borrowed from C minor).
@@ -78,6 +98,47 @@ export interface ChordAnalysis {
    * @optional
    */
   readonly secondaryDominant?: string
+
+  /**
+   * Bar the chord starts in (1-based). Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly bar?: number
+
+  /**
+   * Beat the chord starts on within its bar (1-based; 2.5 is halfway through beat 2).
+   * Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly beat?: number
+
+  /**
+   * Length of the chord in beats. Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly beats?: number
+}
+
+/**
+ * A chord with its length, for duration- and meter-aware analysis.
+ *
+ * @example
+ * ```typescript
+ * const chords: TimedChord[] = [
+ *   { chord: 'C', beats: 8 }, // two bars of 4/4
+ *   { chord: 'Dm7', beats: 2 },
+ *   { chord: 'G7', beats: 2 },
+ * ]
+ * ```
+ *
+ * @since v2.0.0
+ */
+export interface TimedChord {
+  /** Chord symbol (e.g., "Dm7") */
+  readonly chord: string
+
+  /** Length in beats of the time signature's beat unit */
+  readonly beats: number
 }
 
 /**
@@ -119,10 +180,29 @@ export interface Cadence {
 
   /**
    * Cadence strength.
-   * - 'strong': Authentic cadence (V → I)
+   * - 'strong': Authentic cadence (V → I); with timed input, only at a phrase end
    * - 'weak': Plagal, half, or deceptive cadences
    */
   readonly strength: 'strong' | 'weak'
+
+  /**
+   * Bar the arrival chord starts in (1-based). Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly bar?: number
+
+  /**
+   * Beat the arrival chord starts on (1-based). Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly beat?: number
+
+  /**
+   * Whether the arrival chord ends a phrase: it is the last chord or is held
+   * through the end of a four-bar group. Only set for timed input.
+   * @since v2.0.0
+   */
+  readonly phraseEnd?: boolean
 }
 
 /**
@@ -179,12 +259,94 @@ export interface SecondaryDominant {
 
   /**
    * Roman numeral notation with slash.
-   * Format: V(7)?/[roman]
-   * Example: "V7/vi", "V/ii"
+   * Format: V[extension or inversion figures]/[roman]
+   * Example: "V7/vi", "V6/5/V", "V4/2/IV"
    */
   readonly romanNotation: string
 }
 
+/**
+ * Chord shared by two adjacent key regions during a modulation.
+ *
+ * @remarks
+ * A pivot chord is diatonic in both keys and is analyzed in each
+ * (e.g., Am is vi in C major and ii in G major).
+ *
+ * @example
+ * ```typescript
+ * const pivot: PivotChord = {
+ *   index: 3,
+ *   chord: 'Am',
+ *   fromKey: 'C major',
+ *   toKey: 'G major',
+ *   fromRoman: 'vi',
+ *   toRoman: 'ii'
+ * }
+ * ```
+ */
+export interface PivotChord {
+  /** Index of the pivot chord in the progression */
+  readonly index: number
+
+  /** Pivot chord symbol */
+  readonly chord: string
+
+  /** Key of the region being left */
+  readonly fromKey: string
+
+  /** Key of the region being entered */
+  readonly toKey: string
+
+  /** Roman numeral in the old key */
+  readonly fromRoman: string
+
+  /** Roman numeral in the new key */
+  readonly toRoman: string
+}
+
+/**
+ * A contiguous span of a progression in one key.
+ *
+ * @remarks
+ * Brief tonicizations (e.g., V7/V → V) stay inside the surrounding region;
+ * a new region starts only when the music settles in another key.
+ * Adjacent regions overlap by one chord when a pivot chord links them.
+ *
+ * @example
+ * ```typescript
+ * const region: KeyRegion = {
+ *   start: 4,
+ *   end: 7,
+ *   key: 'D major',
+ *   confidence: 1.0,
+ *   analysis: [{ chord: 'Em', roman: 'ii', ... }, { chord: 'A7', roman: 'V7', ... }, ...]
+ * }
+ * ```
+ */
+export interface KeyRegion {
+  /** Index of the first chord in the region (inclusive) */
+  readonly start: number
+
+  /** Index of the last chord in the region (inclusive) */
+  readonly end: number
+
+  /** Local key (e.g., "D major") */
+  readonly key: string
+
+  /** Confidence in the local key (0.0-1.0, fraction of diatonic chords in the region) */
+  readonly confidence: number
+
+  /**
+   * Pivot chord linking this region to the previous one, if any.
+   * When present, `pivot.index === start` and the previous region ends on it.
+   * @optional
+   */
+  readonly pivot?: PivotChord
+
+  /** The region's chords analyzed in the local key */
+  readonly analysis: readonly ChordAnalysis[]
+}
+
 /**
  * General (non-genre-specific) progression pattern.
  *
@@ -249,6 +411,12 @@ export interface ProgressionAnalysis {
    */
   readonly analysis: readonly ChordAnalysis[]
 
+  /**
+   * Key regions in progression order, each reanalyzed in its local key.
+   * A progression without modulation has a single region in `key`.
+   */
+  readonly keyRegions: readonly KeyRegion[]
+
   /** General progression patterns detected (e.g., I-IV-V-I, ii-V-I) */
   readonly patterns: readonly Pattern[]
 
@@ -280,6 +448,7 @@ export interface ProgressionAnalysis {
    * True if:
    * - Last chord is dominant (V) and first is tonic (I), or
    * - Both first and last are tonic (I)
+   * With timed input, the progression must also fill a whole number of bars.
    */
   readonly loopable: boolean
 }
@@ -294,4 +463,190 @@ export interface ProgressionAnalysisOptions {
    * @optional
    */
   readonly genre?: Genre
+
+  /**
+   * Analyze in this key instead of detecting one (e.g., "C major", "F# minor",
+   * "F#m"). A bare tonic ("Bb") means major. Confidence is then the share of diatonic chords.
+   * @optional
+   */
+  readonly key?: string
+
+  /**
+   * Meter of timed input as [beats per bar, beat unit] (default: [4, 4]).
+   * Ignored for plain chord symbols.
+   * @optional
+   * @since v2.0.0
+   */
+  readonly timeSignature?: readonly [number, number]
+}
+
+/**
+ * Options for transposing a progression from one key to another.
+ */
+export interface TransposeProgressionOptions {
+  /**
+   * Key the progression is written in (e.g., "C major", "A minor", or a bare tonic "Bb").
+   * Detected from the chords when omitted.
+   * @optional
+   */
+  readonly from?: string
+
+  /**
+   * Target key (e.g., "Eb major", "F# minor"). A bare tonic keeps the mode of `from`.
+   * Its tonic spelling decides between enharmonic keys (F# vs Gb).
+   */
+  readonly to: string
+}
+
+/**
+ * Key detection result with confidence score.
+ */
+export interface KeyDetection {
+  /** Detected key (e.g., "C major", "A minor") */
+  readonly key: string
+
+  /**
+   * Confidence in detection (0.0-1.0)
+   * - 1.0 = All chords diatonic
+   * - 0.8+ = Mostly diatonic
+   * - 0.5-0.8 = Moderately chromatic
+   * - <0.5 = Highly chromatic or ambiguous
+   */
+  readonly confidence: number
+
+  /** Root note of the key (e.g., "C", "A") */
+  readonly root: string
+
+  /** Scale type ("major" or "minor") */
+  readonly scaleType: 'major' | 'minor'
+
+  /** Number of diatonic chords found (notes, for findKeyFromNotes()) */
+  readonly diatonicCount: number
+
+  /** Total number of chords analyzed (notes, for findKeyFromNotes()) */
+  readonly totalChords: number
+}
+
+/**
+ * A note with a weight for pitch-class-profile key finding.
+ *
+ * @example
+ * ```typescript
+ * const melody: WeightedNote[] = [
+ *   { pitch: 'E4', duration: 1 },
+ *   { pitch: 64, duration: 0.5 }, // MIDI number
+ *   { pitch: 'G' }, // duration defaults to 1
+ * ]
+ * ```
+ */
+export interface WeightedNote {
+  /** Note name with or without octave (e.g., "C#4", "Bb"), or MIDI pitch number */
+  readonly pitch: string | number
+
+  /** Weight of the note, usually its duration in beats (default: 1) */
+  readonly duration?: number
+}
+
+/**
+ * Correlation between a note distribution and one key profile.
+ */
+export interface KeyCorrelation {
+  /** Key name (e.g., "C major", "A minor") */
+  readonly key: string
+
+  /** Root note of the key */
+  readonly root: string
+
+  /** Scale type */
+  readonly scaleType: 'major' | 'minor'
+
+  /** Pearson correlation with the key profile (-1.0 to 1.0) */
+  readonly correlation: number
+}
+
+/**
+ * Options for findKeyFromNotes().
+ */
+export interface KeyProfileOptions {
+  /**
+   * Key profile to correlate against (default: 'krumhansl').
+   * - 'krumhansl': Krumhansl-Kessler probe-tone ratings
+   * - 'temperley': Temperley's corpus-derived profiles (Kostka-Payne)
+   */
+  readonly profile?: 'krumhansl' | 'temperley'
+}
+
+/**
+ * Result of findKeyFromNotes(): the best key plus correlations for all 24 keys.
+ *
+ * @example
+ * ```typescript
+ * const result = findKeyFromNotes(['C4', 'D4', 'E4', 'F4', 'G4', 'E4', 'C4'])
+ * // result.key === 'C major'
+ * // result.correlations[0] => { key: 'C major', correlation: 0.87, ... }
+ * ```
+ */
+export interface KeyProfileDetection extends KeyDetection {
+  /** Correlations for all 24 keys, best first */
+  readonly correlations: readonly KeyCorrelation[]
+}
+
+/**
+ * A ranked key candidate from detectKeyCandidates().
+ *
+ * @example
+ * ```typescript
+ * const [best, runnerUp] = detectKeyCandidates(['Am', 'F', 'C', 'G'])
+ * // best     => { key: 'A minor', confidence: 1.0, diatonicCount: 4, nonDiatonicChords: [], ... }
+ * // runnerUp => { key: 'C major', confidence: 1.0, diatonicCount: 4, nonDiatonicChords: [], ... }
+ * ```
+ */
+export interface KeyCandidate {
+  /** Key name (e.g., "C major", "A minor") */
+  readonly key: string
+
+  /** Root note of the key (e.g., "C", "A") */
+  readonly root: string
+
+  /** Scale type */
+  readonly scaleType: 'major' | 'minor'
+
+  /** Share of chords diatonic to this key (0.0-1.0) */
+  readonly confidence: number
+
+  /**
+   * Ranking score (diatonic chords, tonic at start/end, cadence bonuses).
+   * Only meaningful relative to other candidates for the same chords.
+   */
+  readonly score: number
+
+  /** Number of chords diatonic to this key */
+  readonly diatonicCount: number
+
+  /** Total number of chords analyzed */
+  readonly totalChords: number
+
+  /** Chords outside this key, in progression order */
+  readonly nonDiatonicChords: readonly string[]
+}
+
+/**
+ * Options for detectKeyCandidates().
+ */
+export interface KeyCandidateOptions extends KeyDetectionOptions {
+  /** Maximum number of candidates to return (default: 5, max: 24) */
+  readonly limit?: number
+}
+
+/**
+ * Options for detectKey().
+ */
+export interface KeyDetectionOptions {
+  /**
+   * Length of each chord (e.g., in beats), in progression order. Longer
+   * chords count for more; confidence becomes the diatonic share of the
+   * total length. Defaults to equal lengths.
+   * @since v2.0.0
+   */
+  readonly durations?: readonly number[]
 }